@@ -1,491 +1,5171 @@
 type WebGLAnyContext = WebGLRenderingContext | WebGL2RenderingContext
 
+/**
+ * @param {WebGLAnyContext} gl
+ * @returns {boolean} true if gl is a WebGL2 context
+ */
+function isWebGL2(gl: WebGLAnyContext): gl is WebGL2RenderingContext {
+    return typeof WebGL2RenderingContext !== "undefined" &&
+        gl instanceof WebGL2RenderingContext;
+}
+
+const TIME_ELAPSED_EXT = 0x88BF;
+
+/**
+ * EXT_disjoint_timer_query_webgl2, missing from the DOM typings.
+ */
+export interface EXT_disjoint_timer_query_webgl2 {
+    readonly QUERY_COUNTER_BITS_EXT: GLenum;
+    readonly TIME_ELAPSED_EXT: GLenum;
+    readonly TIMESTAMP_EXT: GLenum;
+    readonly GPU_DISJOINT_EXT: GLenum;
+    queryCounterEXT(query: WebGLQuery, target: GLenum): void;
+}
+
+/**
+ * OffscreenCanvas, missing from the DOM typings. Igloo only needs the
+ * parts it shares with HTMLCanvasElement.
+ */
+export interface OffscreenCanvas extends EventTarget {
+    width: number;
+    height: number;
+    getContext(contextId: string, options?: unknown): unknown;
+}
+
+/**
+ * A canvas Igloo can render to, on the page or in a worker.
+ */
+export type AnyCanvas = HTMLCanvasElement | OffscreenCanvas;
+
+/**
+ * The extensions Igloo knows the types of, see Capabilities.extension().
+ */
+export interface Extensions {
+    ANGLE_instanced_arrays: ANGLE_instanced_arrays;
+    EXT_disjoint_timer_query_webgl2: EXT_disjoint_timer_query_webgl2;
+    EXT_color_buffer_float: EXT_color_buffer_float;
+    EXT_color_buffer_half_float: EXT_color_buffer_half_float;
+    EXT_texture_filter_anisotropic: EXT_texture_filter_anisotropic;
+    KHR_parallel_shader_compile: KHR_parallel_shader_compile;
+    OES_texture_float: OES_texture_float;
+    OES_texture_half_float: OES_texture_half_float;
+    OES_vertex_array_object: OES_vertex_array_object;
+    WEBGL_color_buffer_float: WEBGL_color_buffer_float;
+    WEBGL_draw_buffers: WEBGL_draw_buffers;
+    WEBGL_lose_context: WEBGL_lose_context;
+}
+
+export class Capabilities {
+    gl: WebGLAnyContext;
+    /** 1 or 2 */
+    version: number;
+    maxTextureSize: number;
+    /** texture units available to the fragment shader */
+    maxTextureUnits: number;
+    /** texture units available to all shader stages together */
+    maxCombinedTextureUnits: number;
+    /** renderbuffer MSAA samples, 0 on WebGL1 */
+    maxSamples: number;
+    private extensions: {[name: string]: unknown};
+    /** the lazy properties computed so far */
+    private cache: {[name: string]: unknown};
+    /**
+     * What a context can do. Use capabilities(gl) rather than this
+     * constructor, so that each context has one shared instance.
+     * Extensions are enabled the first time they are asked for, which
+     * for the properties that need one is when they are first read.
+     * @param {WebGLAnyContext} gl
+     * @constructor
+     */
+    constructor(gl: WebGLAnyContext) {
+        this.gl = gl;
+        this.extensions = {};
+        this.cache = {};
+        this.version = isWebGL2(gl) ? 2 : 1;
+        this.maxTextureSize = gl.getParameter(gl.MAX_TEXTURE_SIZE);
+        this.maxTextureUnits = gl.getParameter(gl.MAX_TEXTURE_IMAGE_UNITS);
+        this.maxCombinedTextureUnits = gl.getParameter(gl.MAX_COMBINED_TEXTURE_IMAGE_UNITS);
+        this.maxSamples = isWebGL2(gl) ? gl.getParameter(gl.MAX_SAMPLES) : 0;
+    }
+
+    /**
+     * @param {string} name
+     * @param {Function} compute
+     * @returns {*} the cached result of compute
+     */
+    private lazy<T>(name: string, compute: () => T): T {
+        if (!(name in this.cache)) this.cache[name] = compute();
+        return this.cache[name] as T;
+    }
+
+    /** 1 without WEBGL_draw_buffers */
+    get maxDrawBuffers(): number {
+        return this.lazy("maxDrawBuffers", () => {
+            const gl = this.gl;
+            if (isWebGL2(gl)) return gl.getParameter(gl.MAX_DRAW_BUFFERS);
+            const ext = this.extension("WEBGL_draw_buffers");
+            return ext ? gl.getParameter(ext.MAX_DRAW_BUFFERS_WEBGL) : 1;
+        });
+    }
+
+    /** float textures can be rendered to */
+    get floatRenderable(): boolean {
+        return this.lazy("floatRenderable", () => {
+            if (this.version === 2) return this.has("EXT_color_buffer_float");
+            return this.has("OES_texture_float") && this.has("WEBGL_color_buffer_float");
+        });
+    }
+
+    /** half-float textures can be rendered to */
+    get halfFloatRenderable(): boolean {
+        return this.lazy("halfFloatRenderable", () => {
+            if (this.version === 2) return this.floatRenderable || this.has("EXT_color_buffer_half_float");
+            return this.has("OES_texture_half_float") && this.has("EXT_color_buffer_half_float");
+        });
+    }
+
+    get instancing(): boolean {
+        return this.lazy("instancing", () => this.version === 2 || this.has("ANGLE_instanced_arrays"));
+    }
+
+    get vertexArrays(): boolean {
+        return this.lazy("vertexArrays", () => this.version === 2 || this.has("OES_vertex_array_object"));
+    }
+
+    /** 0 without EXT_texture_filter_anisotropic */
+    get maxAnisotropy(): number {
+        return this.lazy("maxAnisotropy", () => {
+            const ext = this.extension("EXT_texture_filter_anisotropic");
+            return ext ? this.gl.getParameter(ext.MAX_TEXTURE_MAX_ANISOTROPY_EXT) : 0;
+        });
+    }
+
+    /**
+     * Enable an extension, or get the already enabled one.
+     * @param {string} name
+     * @returns {?Object} the extension object, null if unsupported
+     */
+    extension<K extends keyof Extensions>(name: K): Extensions[K] | null;
+    extension(name: string): unknown;
+    extension(name: string): unknown {
+        if (!(name in this.extensions)) {
+            this.extensions[name] = this.gl.getExtension(name);
+        }
+        return this.extensions[name];
+    }
+
+    /**
+     * @param {string} name
+     * @returns {boolean} true if the extension is supported (and now enabled)
+     */
+    has(name: string): boolean {
+        return this.extension(name) != null;
+    }
+
+    /**
+     * Forget the enabled extensions, whose objects die with a lost context,
+     * and the properties read so far, so they enable them again.
+     * @returns {Capabilities} this
+     */
+    reset(): Capabilities {
+        this.extensions = {};
+        this.cache = {};
+        return this;
+    }
+}
+
+const CAPABILITIES = new WeakMap<WebGLAnyContext, Capabilities>();
+
+/** how many times each context reported GPU_DISJOINT_EXT */
+const DISJOINTS = new WeakMap<WebGLAnyContext, number>();
+
+/**
+ * Check for a timer disjoint. Reading GPU_DISJOINT_EXT clears it, so
+ * every reader goes through here and compares counts instead.
+ * @param {WebGLAnyContext} gl
+ * @param {EXT_disjoint_timer_query_webgl2} ext
+ * @returns {number} the number of disjoints seen so far
+ */
+function disjoints(gl: WebGLAnyContext, ext: EXT_disjoint_timer_query_webgl2): number {
+    const count = (DISJOINTS.get(gl) || 0) + (gl.getParameter(ext.GPU_DISJOINT_EXT) ? 1 : 0);
+    DISJOINTS.set(gl, count);
+    return count;
+}
+
+/**
+ * @param {WebGLAnyContext} gl
+ * @returns {Capabilities} the shared capabilities of gl
+ */
+function capabilities(gl: WebGLAnyContext): Capabilities {
+    let caps = CAPABILITIES.get(gl);
+    if (caps == null) {
+        caps = new Capabilities(gl);
+        CAPABILITIES.set(gl, caps);
+    }
+    return caps;
+}
+
+/**
+ * Fixed-function state accepted by GLState.set(). Anything left out is
+ * not touched.
+ */
+export interface RenderState {
+    blend?: boolean;
+    /** [src, dst] or [srcRGB, dstRGB, srcAlpha, dstAlpha] */
+    blendFunc?: GLenum[];
+    /** one equation, or [rgb, alpha] */
+    blendEquation?: GLenum | GLenum[];
+    depthTest?: boolean;
+    depthFunc?: GLenum;
+    depthMask?: boolean;
+    cull?: boolean;
+    /** FRONT, BACK or FRONT_AND_BACK */
+    cullFace?: GLenum;
+    scissorTest?: boolean;
+    /** [x, y, width, height] */
+    scissor?: number[];
+    /** [x, y, width, height] */
+    viewport?: number[];
+    /** [red, green, blue, alpha] */
+    colorMask?: boolean[];
+    /** [red, green, blue, alpha] */
+    clearColor?: number[];
+    clearDepth?: number;
+    clearStencil?: number;
+    /** WebGL2 only */
+    rasterizerDiscard?: boolean;
+}
+
+/**
+ * Setters and getters for each RenderState property, with values in a
+ * normalized form that GLState can compare.
+ */
+const RENDER_STATE: {[name: string]: {
+    normalize?: (value: unknown) => unknown,
+    apply: (gl: WebGLAnyContext, value: unknown) => void,
+    query: (gl: WebGLAnyContext) => unknown,
+}} = {
+    blend: capability(0x0BE2),
+    blendFunc: {
+        normalize: (v) => {
+            const f = v as GLenum[];
+            return f.length === 2 ? [f[0], f[1], f[0], f[1]] : f.slice();
+        },
+        apply: (gl, v) => {
+            const f = v as GLenum[];
+            gl.blendFuncSeparate(f[0], f[1], f[2], f[3]);
+        },
+        query: (gl) => [gl.BLEND_SRC_RGB, gl.BLEND_DST_RGB, gl.BLEND_SRC_ALPHA, gl.BLEND_DST_ALPHA]
+            .map((pname) => gl.getParameter(pname)),
+    },
+    blendEquation: {
+        normalize: (v) => typeof v === "number" ? [v, v] : (v as GLenum[]).slice(),
+        apply: (gl, v) => {
+            const e = v as GLenum[];
+            gl.blendEquationSeparate(e[0], e[1]);
+        },
+        query: (gl) => [gl.getParameter(gl.BLEND_EQUATION_RGB), gl.getParameter(gl.BLEND_EQUATION_ALPHA)],
+    },
+    depthTest: capability(0x0B71),
+    depthFunc: {
+        apply: (gl, v) => gl.depthFunc(v as GLenum),
+        query: (gl) => gl.getParameter(gl.DEPTH_FUNC),
+    },
+    depthMask: {
+        apply: (gl, v) => gl.depthMask(v as boolean),
+        query: (gl) => gl.getParameter(gl.DEPTH_WRITEMASK),
+    },
+    cull: capability(0x0B44),
+    rasterizerDiscard: capability(0x8C89),
+    cullFace: {
+        apply: (gl, v) => gl.cullFace(v as GLenum),
+        query: (gl) => gl.getParameter(gl.CULL_FACE_MODE),
+    },
+    scissorTest: capability(0x0C11),
+    scissor: {
+        apply: (gl, v) => {
+            const b = v as number[];
+            gl.scissor(b[0], b[1], b[2], b[3]);
+        },
+        query: (gl) => Array.from(gl.getParameter(gl.SCISSOR_BOX) as Int32Array),
+    },
+    viewport: {
+        apply: (gl, v) => {
+            const b = v as number[];
+            gl.viewport(b[0], b[1], b[2], b[3]);
+        },
+        query: (gl) => Array.from(gl.getParameter(gl.VIEWPORT) as Int32Array),
+    },
+    colorMask: {
+        apply: (gl, v) => {
+            const m = v as boolean[];
+            gl.colorMask(m[0], m[1], m[2], m[3]);
+        },
+        query: (gl) => (gl.getParameter(gl.COLOR_WRITEMASK) as boolean[]).slice(),
+    },
+    clearColor: {
+        apply: (gl, v) => {
+            const c = v as number[];
+            gl.clearColor(c[0], c[1], c[2], c[3]);
+        },
+        query: (gl) => Array.from(gl.getParameter(gl.COLOR_CLEAR_VALUE) as Float32Array),
+    },
+    clearDepth: {
+        apply: (gl, v) => gl.clearDepth(v as number),
+        query: (gl) => gl.getParameter(gl.DEPTH_CLEAR_VALUE),
+    },
+    clearStencil: {
+        apply: (gl, v) => gl.clearStencil(v as number),
+        query: (gl) => gl.getParameter(gl.STENCIL_CLEAR_VALUE),
+    },
+};
+
+/**
+ * @param {GLenum} cap an enable()/disable() capability
+ * @returns {Object} a RENDER_STATE entry for it
+ */
+function capability(cap: GLenum) {
+    return {
+        apply: (gl: WebGLAnyContext, v: unknown) => v ? gl.enable(cap) : gl.disable(cap),
+        query: (gl: WebGLAnyContext) => gl.isEnabled(cap),
+    };
+}
+
+/**
+ * Buffer binding points and the parameter to query each of them.
+ */
+const BUFFER_BINDINGS: {[target: number]: GLenum} = {
+    0x8892: 0x8894, // ARRAY_BUFFER
+    0x8893: 0x8895, // ELEMENT_ARRAY_BUFFER
+    0x88EB: 0x88ED, // PIXEL_PACK_BUFFER
+    0x88EC: 0x88EF, // PIXEL_UNPACK_BUFFER
+    0x8F36: 0x8F36, // COPY_READ_BUFFER
+    0x8F37: 0x8F37, // COPY_WRITE_BUFFER
+    0x8C8E: 0x8C8F, // TRANSFORM_FEEDBACK_BUFFER
+    0x8A11: 0x8A28, // UNIFORM_BUFFER
+};
+
+/**
+ * Texture targets and the parameter to query each of them.
+ */
+const TEXTURE_BINDINGS: {[target: number]: GLenum} = {
+    0x0DE1: 0x8069, // TEXTURE_2D
+    0x8513: 0x8514, // TEXTURE_CUBE_MAP
+    0x806F: 0x806A, // TEXTURE_3D
+    0x8C1A: 0x8C1D, // TEXTURE_2D_ARRAY
+};
+
+/**
+ * @param {*} a
+ * @param {*} b
+ * @returns {boolean} true if a and b are equal, comparing arrays by element
+ */
+function same(a: unknown, b: unknown): boolean {
+    if (a instanceof Array && b instanceof Array) {
+        return a.length === b.length && a.every(function(x, i) { return x === b[i]; });
+    }
+    return a === b;
+}
+
+export class GLState {
+    gl: WebGLAnyContext;
+    /** last value set, by key; missing keys are unknown */
+    private values: {[key: string]: unknown};
+    /** previous values of the keys changed in each push() scope */
+    private stack: Map<string, {value: unknown, apply: (value: unknown) => void}>[];
+    private restoring: boolean;
+    /**
+     * Cache of the bindings and render state of a context, skipping calls
+     * that would not change anything. Use glState(gl) rather than this
+     * constructor so everything sharing the context shares the cache.
+     * State starts out unknown, so sharing a context with other code is
+     * safe as long as that code's changes are bracketed by push() and
+     * pop(), or followed by invalidate().
+     * @param {WebGLAnyContext} gl
+     * @constructor
+     */
+    constructor(gl: WebGLAnyContext) {
+        this.gl = gl;
+        this.values = {};
+        this.stack = [];
+        this.restoring = false;
+    }
+
+    /**
+     * Apply a value unless it is already known to be set, saving the
+     * previous value for pop().
+     * @param {string} key
+     * @param {*} value
+     * @param {Function} apply sets a value on the context
+     * @param {Function} query reads the value from the context
+     */
+    private update(key: string, value: unknown, apply: (value: unknown) => void,
+                   query: () => unknown) {
+        if (key in this.values && same(this.values[key], value)) return;
+        this.save(key, apply, query);
+        apply(value);
+        this.values[key] = value;
+    }
+
+    /**
+     * Remember the current value of key in the innermost push() scope,
+     * unless the scope already has it.
+     * @param {string} key
+     * @param {Function} apply sets a value on the context
+     * @param {Function} query reads the value from the context
+     */
+    private save(key: string, apply: (value: unknown) => void, query: () => unknown) {
+        const frame = this.stack[this.stack.length - 1];
+        if (frame != null && !this.restoring && !frame.has(key)) {
+            frame.set(key, {value: key in this.values ? this.values[key] : query(), apply});
+        }
+    }
+
+    /**
+     * Forget everything, e.g. after other code changed the context
+     * outside of a push() scope, or after a context restore.
+     * @returns {GLState} this
+     */
+    invalidate(): GLState {
+        this.values = {};
+        return this;
+    }
+
+    /**
+     * Forget a GL object as it is deleted, which also unbinds it: a later
+     * bind of whatever reuses its binding point is not skipped, and pop()
+     * puts back nothing rather than the deleted object.
+     * @param {WebGLObject} object
+     * @returns {GLState} this
+     */
+    forget(object: unknown): GLState {
+        if (object == null) return this;
+        for (const key in this.values) {
+            if (this.values[key] === object) delete this.values[key];
+        }
+        for (const frame of this.stack) {
+            frame.forEach(function(saved) {
+                if (saved.value === object) saved.value = null;
+            });
+        }
+        return this;
+    }
+
+    /**
+     * Start a scope: whatever is changed through this cache until the
+     * matching pop() is put back the way it was.
+     * @returns {GLState} this
+     */
+    push(): GLState {
+        this.stack.push(new Map());
+        return this;
+    }
+
+    /**
+     * End the innermost push() scope, restoring the state it changed.
+     * @returns {GLState} this
+     */
+    pop(): GLState {
+        const frame = this.stack.pop();
+        if (frame == null) throw new Error("pop() without a matching push()");
+        const keys = Array.from(frame.keys()).reverse();
+        this.restoring = true;
+        try {
+            for (const key of keys) {
+                const saved = frame.get(key) as {value: unknown, apply: (value: unknown) => void};
+                this.update(key, saved.value, saved.apply, () => saved.value);
+            }
+        } finally {
+            this.restoring = false;
+        }
+        return this;
+    }
+
+    /**
+     * Set render state, leaving the properties not given unchanged.
+     * @param {RenderState} state
+     * @returns {GLState} this
+     */
+    set(state: RenderState): GLState {
+        const gl = this.gl;
+        for (const name in state) {
+            const entry = RENDER_STATE[name];
+            const value = (state as {[name: string]: unknown})[name];
+            if (entry == null) throw new Error(`Unknown render state '${name}'`);
+            if (value == null) continue;
+            this.update(name, entry.normalize ? entry.normalize(value) : value,
+                        (v) => entry.apply(gl, v), () => entry.query(gl));
+        }
+        return this;
+    }
+
+    /**
+     * @param {WebGLProgram} program
+     * @returns {GLState} this
+     */
+    useProgram(program: WebGLProgram | null): GLState {
+        const gl = this.gl;
+        this.update("program", program, (p) => gl.useProgram(p as WebGLProgram | null),
+                    () => gl.getParameter(gl.CURRENT_PROGRAM));
+        return this;
+    }
+
+    /**
+     * @param {WebGLFramebuffer} framebuffer null for the default framebuffer
+     * @returns {GLState} this
+     */
+    bindFramebuffer(framebuffer: WebGLFramebuffer | null): GLState {
+        const gl = this.gl;
+        this.update("framebuffer", framebuffer,
+                    (f) => gl.bindFramebuffer(gl.FRAMEBUFFER, f as WebGLFramebuffer | null),
+                    () => gl.getParameter(gl.FRAMEBUFFER_BINDING));
+        return this;
+    }
+
+    /**
+     * @param {GLenum} target
+     * @param {WebGLBuffer} buffer
+     * @returns {GLState} this
+     */
+    bindBuffer(target: GLenum, buffer: WebGLBuffer | null): GLState {
+        const gl = this.gl;
+        this.update("buffer:" + target, buffer,
+                    (b) => gl.bindBuffer(target, b as WebGLBuffer | null),
+                    () => gl.getParameter(BUFFER_BINDINGS[target]));
+        return this;
+    }
+
+    /**
+     * Bind a buffer to an indexed binding point (WebGL2). This also binds
+     * the generic binding point of target.
+     * @param {GLenum} target UNIFORM_BUFFER or TRANSFORM_FEEDBACK_BUFFER
+     * @param {number} index
+     * @param {WebGLBuffer} buffer
+     * @returns {GLState} this
+     */
+    bindBufferBase(target: GLenum, index: number, buffer: WebGLBuffer | null): GLState {
+        const gl = this.gl as WebGL2RenderingContext;
+        const key = "buffer:" + target;
+        this.save(key, (b) => gl.bindBuffer(target, b as WebGLBuffer | null),
+                  () => gl.getParameter(BUFFER_BINDINGS[target]));
+        gl.bindBufferBase(target, index, buffer);
+        this.values[key] = buffer;
+        return this;
+    }
+
+    /**
+     * @param {number} unit texture unit, counting from 0
+     * @returns {GLState} this
+     */
+    activeTexture(unit: number): GLState {
+        const gl = this.gl;
+        this.update("activeTexture", unit, (u) => gl.activeTexture(gl.TEXTURE0 + (u as number)),
+                    () => gl.getParameter(gl.ACTIVE_TEXTURE) - gl.TEXTURE0);
+        return this;
+    }
+
+    /**
+     * @param {GLenum} target
+     * @param {WebGLTexture} texture
+     * @param {number} [unit] defaults to the active unit
+     * @returns {GLState} this
+     */
+    bindTexture(target: GLenum, texture: WebGLTexture | null, unit?: number): GLState {
+        const gl = this.gl;
+        if (unit == null) {
+            if (!("activeTexture" in this.values)) {
+                this.values.activeTexture = gl.getParameter(gl.ACTIVE_TEXTURE) - gl.TEXTURE0;
+            }
+            unit = this.values.activeTexture as number;
+        }
+        const u = unit;
+        this.activeTexture(u);
+        this.update(`texture:${u}:${target}`, texture, (t) => {
+            this.activeTexture(u);
+            gl.bindTexture(target, t as WebGLTexture | null);
+        }, () => gl.getParameter(TEXTURE_BINDINGS[target]));
+        return this;
+    }
+
+    /**
+     * Bind a vertex array object, through OES_vertex_array_object on WebGL1.
+     * @param {WebGLVertexArrayObject} vao null for the default vertex array
+     * @returns {GLState} this
+     */
+    bindVertexArray(vao: WebGLVertexArrayObject | WebGLVertexArrayObjectOES | null): GLState {
+        const gl = this.gl;
+        const ext = isWebGL2(gl) ? null : capabilities(gl).extension("OES_vertex_array_object");
+        this.update("vertexArray", vao, (v) => {
+            if (isWebGL2(gl)) {
+                gl.bindVertexArray(v as WebGLVertexArrayObject | null);
+            } else if (ext != null) {
+                ext.bindVertexArrayOES(v as WebGLVertexArrayObjectOES | null);
+            }
+            // the element buffer binding belongs to the vertex array
+            delete this.values["buffer:" + gl.ELEMENT_ARRAY_BUFFER];
+        }, () => {
+            if (isWebGL2(gl)) return gl.getParameter(gl.VERTEX_ARRAY_BINDING);
+            return ext != null ? gl.getParameter(ext.VERTEX_ARRAY_BINDING_OES) : null;
+        });
+        return this;
+    }
+}
+
+const STATES = new WeakMap<WebGLAnyContext, GLState>();
+
+/**
+ * @param {WebGLAnyContext} gl
+ * @returns {GLState} the shared state cache of gl
+ */
+function glState(gl: WebGLAnyContext): GLState {
+    let state = STATES.get(gl);
+    if (state == null) {
+        state = new GLState(gl);
+        STATES.set(gl, state);
+    }
+    return state;
+}
+
+/**
+ * A GL object wrapper that can free its GL object.
+ */
+export interface Resource {
+    /** the type named in messages and reports, which survives minifying */
+    readonly kind: string;
+    /** named in error messages, see describe() */
+    label: string | null;
+    disposed: boolean;
+    /** free the GL object; further use throws */
+    dispose(): void;
+    /** estimated GPU memory held, in bytes */
+    bytes(): number;
+    /** recreate the GL object after a context restore */
+    restore(): void;
+}
+
+/**
+ * Throw if a resource is used after being disposed.
+ * @param {Resource} resource
+ */
+function alive(resource: Resource) {
+    if (resource.disposed) {
+        throw new Error(`${describe(resource)} used after dispose()`);
+    }
+}
+
+/**
+ * @param {Resource} resource
+ * @returns {string} the type and label of resource, for error messages
+ */
+function describe(resource: Resource): string {
+    return resource.label ? `${resource.kind} '${resource.label}'` : resource.kind;
+}
+
+/**
+ * The wrapper of each GL object, so debug messages can name them.
+ */
+const OWNERS = new WeakMap<object, Resource>();
+
+/**
+ * Record the wrapper of a newly created GL object.
+ * @param {Resource} resource
+ * @param {?Object} object
+ * @returns {?Object} object
+ */
+function own<T extends object | null>(resource: Resource, object: T): T {
+    if (object != null) OWNERS.set(object as object, resource);
+    return object;
+}
+
+/**
+ * Contexts wrapped by debugContext().
+ */
+const DEBUG = new WeakSet<WebGLAnyContext>();
+
+/**
+ * @param {WebGLAnyContext} gl
+ * @returns {boolean} true if gl is a debug context
+ */
+function debugging(gl: WebGLAnyContext): boolean {
+    return DEBUG.has(gl);
+}
+
+const GL_ERRORS: {[error: number]: string} = {
+    0x0500: "INVALID_ENUM",
+    0x0501: "INVALID_VALUE",
+    0x0502: "INVALID_OPERATION",
+    0x0505: "OUT_OF_MEMORY",
+    0x0506: "INVALID_FRAMEBUFFER_OPERATION",
+    0x9242: "CONTEXT_LOST_WEBGL",
+};
+
+/** constant names by value, per context since WebGL1 lacks the WebGL2 ones */
+const ENUM_NAMES = new WeakMap<WebGLAnyContext, {[value: number]: string}>();
+
+/**
+ * Name a GL enum. Small values are ambiguous (0 is NONE, ZERO, POINTS,
+ * ...), so those are left as numbers.
+ * @param {WebGLAnyContext} gl
+ * @param {number} value
+ * @returns {string}
+ */
+function enumName(gl: WebGLAnyContext, value: number): string {
+    if (GL_ERRORS[value] != null) return GL_ERRORS[value];
+    let names = ENUM_NAMES.get(gl);
+    if (names == null) {
+        names = {};
+        for (const key in gl) {
+            const constant = (gl as unknown as {[key: string]: unknown})[key];
+            if (/^[A-Z][A-Z0-9_]*$/.test(key) && typeof constant === "number" &&
+                names[constant] == null) {
+                names[constant] = key;
+            }
+        }
+        ENUM_NAMES.set(gl, names);
+    }
+    if (value >= 0x100 && names[value] != null) return names[value];
+    return String(value);
+}
+
+/**
+ * @param {WebGLAnyContext} gl
+ * @param {*} arg a GL call argument
+ * @returns {string} arg as shown in debug messages
+ */
+function formatArg(gl: WebGLAnyContext, arg: unknown): string {
+    if (typeof arg === "number") return Number.isInteger(arg) ? enumName(gl, arg) : String(arg);
+    if (typeof arg === "string") return JSON.stringify(arg.length > 40 ? arg.slice(0, 40) + "..." : arg);
+    if (arg == null || typeof arg !== "object") return String(arg);
+    const owner = OWNERS.get(arg);
+    if (owner != null) return describe(owner);
+    if (ArrayBuffer.isView(arg)) return `${arg.constructor.name}(${arg.byteLength} bytes)`;
+    if (arg instanceof Array) return `[${arg.map((a) => formatArg(gl, a)).join(", ")}]`;
+    return arg.constructor.name;
+}
+
+/**
+ * Wrap a context so that every call is followed by getError(), throwing
+ * an Error naming the call, its arguments and the error. Wrappers created
+ * on the returned context also run debug validation, see validateDraw().
+ * This is slow: use it while developing only.
+ * @param {WebGLAnyContext} gl
+ * @returns {WebGLAnyContext} a debug context behaving like gl
+ */
+function debugContext<T extends WebGLAnyContext>(gl: T): T {
+    if (debugging(gl)) return gl;
+    const calls: {[name: string]: unknown} = {};
+    const context = new Proxy(gl, {
+        get: function(target, name) {
+            const value = Reflect.get(target, name);
+            if (typeof value !== "function" || typeof name !== "string") return value;
+            if (calls[name] == null) {
+                const method = value as (...args: unknown[]) => unknown;
+                calls[name] = name === "getError" || name === "isContextLost" ?
+                    method.bind(target) :
+                    function(...args: unknown[]) {
+                        const result = method.apply(target, args);
+                        const error = target.getError();
+                        if (error !== target.NO_ERROR && !target.isContextLost()) {
+                            throw new Error(`WebGL error ${enumName(target, error)} in ` +
+                                `${name}(${args.map((a) => formatArg(target, a)).join(", ")})`);
+                        }
+                        return result;
+                    };
+            }
+            return calls[name];
+        },
+    });
+    DEBUG.add(context);
+    return context;
+}
+
+/**
+ * The texture binding read by each sampler uniform type.
+ */
+const SAMPLER_BINDINGS: {[type: number]: GLenum} = {
+    0x8B5E: 0x8069, 0x8B62: 0x8069, 0x8DCA: 0x8069, 0x8DD2: 0x8069, // 2D
+    0x8B60: 0x8514, 0x8DC5: 0x8514, 0x8DCC: 0x8514, 0x8DD4: 0x8514, // cube
+    0x8B5F: 0x806A, 0x8DCB: 0x806A, 0x8DD3: 0x806A, // 3D
+    0x8DC1: 0x8C1D, 0x8DC4: 0x8C1D, 0x8DCF: 0x8C1D, 0x8DD7: 0x8C1D, // 2D array
+};
+
+/**
+ * @param {WebGLAnyContext} gl
+ * @returns {Array<WebGLTexture>} the textures attached to the bound framebuffer
+ */
+function attachedTextures(gl: WebGLAnyContext): WebGLTexture[] {
+    const attachments = [gl.DEPTH_ATTACHMENT, gl.STENCIL_ATTACHMENT];
+    // WebGL2 refuses DEPTH_STENCIL queries when the two differ
+    if (!isWebGL2(gl)) attachments.push(gl.DEPTH_STENCIL_ATTACHMENT);
+    for (let i = 0; i < capabilities(gl).maxDrawBuffers; i++) {
+        attachments.push(gl.COLOR_ATTACHMENT0 + i);
+    }
+    const textures: WebGLTexture[] = [];
+    for (const attachment of attachments) {
+        const type = gl.getFramebufferAttachmentParameter(
+            gl.FRAMEBUFFER, attachment, gl.FRAMEBUFFER_ATTACHMENT_OBJECT_TYPE);
+        if (type === gl.TEXTURE) {
+            textures.push(gl.getFramebufferAttachmentParameter(
+                gl.FRAMEBUFFER, attachment, gl.FRAMEBUFFER_ATTACHMENT_OBJECT_NAME));
+        }
+    }
+    return textures;
+}
+
+/**
+ * Catch the common draw call mistakes that the driver would only report
+ * as INVALID_OPERATION, or not at all: samplers reading an empty unit or
+ * the framebuffer being drawn to, and draws past the end of a buffer.
+ * @param {Program} program the program in use
+ * @param {number} vertices how many vertices a non-indexed draw reads, 0 for indexed draws
+ * @param {?GLenum} elementType index type of an indexed draw
+ * @param {number} count number of indices of an indexed draw
+ * @param {number} offset byte offset of an indexed draw
+ * @param {number} instances
+ */
+function validateDraw(program: Program, vertices: number, elementType: GLenum | null,
+                      count: number, offset: number, instances: number) {
+    const gl = program.gl;
+    const p = program.program;
+    const name = describe(program);
+
+    const attached = gl.getParameter(gl.FRAMEBUFFER_BINDING) != null ? attachedTextures(gl) : [];
+    const active = gl.getParameter(gl.ACTIVE_TEXTURE);
+    try {
+        for (const uniform in program.uniforms) {
+            const info = program.uniforms[uniform];
+            const binding = SAMPLER_BINDINGS[info.type];
+            if (binding == null || uniform !== info.name) continue;
+            for (let i = 0; i < info.size; i++) {
+                const element = info.size > 1 ? `${info.name}[${i}]` : info.name;
+                const location = i === 0 ? info.location : gl.getUniformLocation(p, element);
+                if (location == null) continue;
+                const unit = gl.getUniform(p, location);
+                gl.activeTexture(gl.TEXTURE0 + unit);
+                const texture = gl.getParameter(binding);
+                if (texture == null) {
+                    throw new Error(`${name}: sampler '${element}' reads texture unit ${unit}, ` +
+                                    "which has no texture of its type bound");
+                }
+                if (attached.indexOf(texture) >= 0) {
+                    throw new Error(`${name}: sampler '${element}' reads ${formatArg(gl, texture)}, ` +
+                                    "which is attached to the bound framebuffer (feedback loop)");
+                }
+            }
+        }
+    } finally {
+        gl.activeTexture(active);
+    }
+
+    const check = function(what: string, buffer: Buffer, bytes: number) {
+        if (bytes > buffer.capacity) {
+            throw new Error(`${name}: ${what} reads ${bytes} bytes of ${describe(buffer)}, ` +
+                            `which only holds ${buffer.capacity}`);
+        }
+    };
+    if (elementType != null) {
+        const elements = OWNERS.get(gl.getParameter(gl.ELEMENT_ARRAY_BUFFER_BINDING) || {});
+        if (elements instanceof Buffer) {
+            check("the draw", elements, offset + count * arrayType(elementType).BYTES_PER_ELEMENT);
+        }
+    }
+    const attribs = gl.getProgramParameter(p, gl.ACTIVE_ATTRIBUTES);
+    for (let i = 0; i < attribs; i++) {
+        const attrib = gl.getActiveAttrib(p, i);
+        if (attrib == null || /^gl_/.test(attrib.name)) continue;
+        const location = gl.getAttribLocation(p, attrib.name);
+        if (location < 0 || !gl.getVertexAttrib(location, gl.VERTEX_ATTRIB_ARRAY_ENABLED)) continue;
+        const buffer = OWNERS.get(
+            gl.getVertexAttrib(location, gl.VERTEX_ATTRIB_ARRAY_BUFFER_BINDING) || {});
+        if (!(buffer instanceof Buffer)) continue;
+        const divisor = capabilities(gl).instancing ?
+            gl.getVertexAttrib(location, 0x88FE) : 0; // VERTEX_ATTRIB_ARRAY_DIVISOR
+        const n = divisor ? Math.ceil(instances / divisor) : vertices;
+        if (n === 0) continue;
+        const type = gl.getVertexAttrib(location, gl.VERTEX_ATTRIB_ARRAY_TYPE);
+        const bytes = gl.getVertexAttrib(location, gl.VERTEX_ATTRIB_ARRAY_SIZE) *
+              arrayType(type).BYTES_PER_ELEMENT;
+        const stride = gl.getVertexAttrib(location, gl.VERTEX_ATTRIB_ARRAY_STRIDE) || bytes;
+        const start = gl.getVertexAttribOffset(location, gl.VERTEX_ATTRIB_ARRAY_POINTER);
+        check(`attrib '${attrib.name}'`, buffer, start + (n - 1) * stride + bytes);
+    }
+}
+
+/**
+ * Run a callback on the next animation frame, or after a short timeout
+ * where animation frames are not available.
+ * @param {Function} callback
+ */
+function nextFrame(callback: () => void) {
+    if (typeof requestAnimationFrame === "function") {
+        requestAnimationFrame(callback);
+    } else {
+        setTimeout(callback, 16);
+    }
+}
+
+/**
+ * @param {WebGLRenderingContext} gl
+ * @returns {ANGLE_instanced_arrays} the WebGL1 instancing extension
+ */
+function instancing(gl: WebGLRenderingContext): ANGLE_instanced_arrays {
+    const ext = capabilities(gl).extension("ANGLE_instanced_arrays");
+    if (!ext) throw new Error("Instancing requires ANGLE_instanced_arrays");
+    return ext;
+}
+
+/**
+ * Set the instancing divisor of an attrib location.
+ * @param {WebGLAnyContext} gl
+ * @param {number} location
+ * @param {number} divisor
+ */
+function vertexAttribDivisor(gl: WebGLAnyContext, location: number, divisor: number) {
+    if (isWebGL2(gl)) {
+        gl.vertexAttribDivisor(location, divisor);
+    } else {
+        instancing(gl).vertexAttribDivisorANGLE(location, divisor);
+    }
+}
+
+/**
+ * Describes a texture internal format and what it can be used for.
+ */
+export interface TextureFormat {
+    internalFormat: GLenum;
+    format: GLenum;
+    /** valid pixel types for uploads, the first being the default */
+    types: GLenum[];
+    /** estimated storage size of one pixel */
+    bytes: number;
+    /** true, false, or the extension required for LINEAR filtering */
+    filterable: boolean | string;
+    /** true, false, or the extension required to render into it */
+    renderable: boolean | string;
+    /** false for the unsized formats also available in WebGL1 */
+    webgl2: boolean;
+}
+
+/**
+ * Build a TextureFormat table entry.
+ * @returns {TextureFormat}
+ */
+function fmt(internalFormat: GLenum, format: GLenum, types: GLenum[], bytes: number,
+             filterable: boolean | string, renderable: boolean | string,
+             webgl2 = true): TextureFormat {
+    return {internalFormat, format, types, bytes, filterable, renderable, webgl2};
+}
+
+// Numeric enums, since WebGL1 contexts lack most of these names.
+const RED = 0x1903, RG = 0x8227, RGB = 0x1907, RGBA = 0x1908;
+const RED_INTEGER = 0x8D94, RG_INTEGER = 0x8228, RGB_INTEGER = 0x8D98, RGBA_INTEGER = 0x8D99;
+const DEPTH_COMPONENT = 0x1902, DEPTH_STENCIL = 0x84F9;
+const BYTE = 0x1400, UNSIGNED_BYTE = 0x1401, SHORT = 0x1402, UNSIGNED_SHORT = 0x1403;
+const INT = 0x1404, UNSIGNED_INT = 0x1405, FLOAT = 0x1406, HALF_FLOAT = 0x140B;
+const UNSIGNED_SHORT_4_4_4_4 = 0x8033, UNSIGNED_SHORT_5_5_5_1 = 0x8034, UNSIGNED_SHORT_5_6_5 = 0x8363;
+const UNSIGNED_INT_2_10_10_10_REV = 0x8368, UNSIGNED_INT_10F_11F_11F_REV = 0x8C3B;
+const UNSIGNED_INT_5_9_9_9_REV = 0x8C3E, UNSIGNED_INT_24_8 = 0x84FA;
+const FLOAT_32_UNSIGNED_INT_24_8_REV = 0x8DAD;
+const COLOR_FLOAT = "EXT_color_buffer_float", FLOAT_LINEAR = "OES_texture_float_linear";
+
+/**
+ * Texture formats by name: the WebGL2 sized internal formats, plus the
+ * unsized WebGL1 ones.
+ */
+export const TEXTURE_FORMATS: {[name: string]: TextureFormat} = {
+    R8: fmt(0x8229, RED, [UNSIGNED_BYTE], 1, true, true),
+    R8_SNORM: fmt(0x8F94, RED, [BYTE], 1, true, false),
+    R16F: fmt(0x822D, RED, [HALF_FLOAT, FLOAT], 2, true, COLOR_FLOAT),
+    R32F: fmt(0x822E, RED, [FLOAT], 4, FLOAT_LINEAR, COLOR_FLOAT),
+    R8UI: fmt(0x8232, RED_INTEGER, [UNSIGNED_BYTE], 1, false, true),
+    R8I: fmt(0x8231, RED_INTEGER, [BYTE], 1, false, true),
+    R16UI: fmt(0x8234, RED_INTEGER, [UNSIGNED_SHORT], 2, false, true),
+    R16I: fmt(0x8233, RED_INTEGER, [SHORT], 2, false, true),
+    R32UI: fmt(0x8236, RED_INTEGER, [UNSIGNED_INT], 4, false, true),
+    R32I: fmt(0x8235, RED_INTEGER, [INT], 4, false, true),
+    RG8: fmt(0x822B, RG, [UNSIGNED_BYTE], 2, true, true),
+    RG8_SNORM: fmt(0x8F95, RG, [BYTE], 2, true, false),
+    RG16F: fmt(0x822F, RG, [HALF_FLOAT, FLOAT], 4, true, COLOR_FLOAT),
+    RG32F: fmt(0x8230, RG, [FLOAT], 8, FLOAT_LINEAR, COLOR_FLOAT),
+    RG8UI: fmt(0x8238, RG_INTEGER, [UNSIGNED_BYTE], 2, false, true),
+    RG8I: fmt(0x8237, RG_INTEGER, [BYTE], 2, false, true),
+    RG16UI: fmt(0x823A, RG_INTEGER, [UNSIGNED_SHORT], 4, false, true),
+    RG16I: fmt(0x8239, RG_INTEGER, [SHORT], 4, false, true),
+    RG32UI: fmt(0x823C, RG_INTEGER, [UNSIGNED_INT], 8, false, true),
+    RG32I: fmt(0x823B, RG_INTEGER, [INT], 8, false, true),
+    RGB8: fmt(0x8051, RGB, [UNSIGNED_BYTE], 3, true, false),
+    SRGB8: fmt(0x8C41, RGB, [UNSIGNED_BYTE], 3, true, false),
+    RGB565: fmt(0x8D62, RGB, [UNSIGNED_BYTE, UNSIGNED_SHORT_5_6_5], 2, true, true),
+    RGB8_SNORM: fmt(0x8F96, RGB, [BYTE], 3, true, false),
+    R11F_G11F_B10F: fmt(0x8C3A, RGB, [UNSIGNED_INT_10F_11F_11F_REV, HALF_FLOAT, FLOAT],
+                        4, true, COLOR_FLOAT),
+    RGB9_E5: fmt(0x8C3D, RGB, [UNSIGNED_INT_5_9_9_9_REV, HALF_FLOAT, FLOAT], 4, true, false),
+    RGB16F: fmt(0x881B, RGB, [HALF_FLOAT, FLOAT], 6, true, false),
+    RGB32F: fmt(0x8815, RGB, [FLOAT], 12, FLOAT_LINEAR, false),
+    RGB8UI: fmt(0x8D7D, RGB_INTEGER, [UNSIGNED_BYTE], 3, false, false),
+    RGB8I: fmt(0x8D8F, RGB_INTEGER, [BYTE], 3, false, false),
+    RGB16UI: fmt(0x8D77, RGB_INTEGER, [UNSIGNED_SHORT], 6, false, false),
+    RGB16I: fmt(0x8D89, RGB_INTEGER, [SHORT], 6, false, false),
+    RGB32UI: fmt(0x8D71, RGB_INTEGER, [UNSIGNED_INT], 12, false, false),
+    RGB32I: fmt(0x8D83, RGB_INTEGER, [INT], 12, false, false),
+    RGBA8: fmt(0x8058, RGBA, [UNSIGNED_BYTE], 4, true, true),
+    SRGB8_ALPHA8: fmt(0x8C43, RGBA, [UNSIGNED_BYTE], 4, true, true),
+    RGBA8_SNORM: fmt(0x8F97, RGBA, [BYTE], 4, true, false),
+    RGB5_A1: fmt(0x8057, RGBA, [UNSIGNED_BYTE, UNSIGNED_SHORT_5_5_5_1, UNSIGNED_INT_2_10_10_10_REV],
+                 2, true, true),
+    RGBA4: fmt(0x8056, RGBA, [UNSIGNED_BYTE, UNSIGNED_SHORT_4_4_4_4], 2, true, true),
+    RGB10_A2: fmt(0x8059, RGBA, [UNSIGNED_INT_2_10_10_10_REV], 4, true, true),
+    RGBA16F: fmt(0x881A, RGBA, [HALF_FLOAT, FLOAT], 8, true, COLOR_FLOAT),
+    RGBA32F: fmt(0x8814, RGBA, [FLOAT], 16, FLOAT_LINEAR, COLOR_FLOAT),
+    RGBA8UI: fmt(0x8D7C, RGBA_INTEGER, [UNSIGNED_BYTE], 4, false, true),
+    RGBA8I: fmt(0x8D8E, RGBA_INTEGER, [BYTE], 4, false, true),
+    RGB10_A2UI: fmt(0x906F, RGBA_INTEGER, [UNSIGNED_INT_2_10_10_10_REV], 4, false, true),
+    RGBA16UI: fmt(0x8D76, RGBA_INTEGER, [UNSIGNED_SHORT], 8, false, true),
+    RGBA16I: fmt(0x8D88, RGBA_INTEGER, [SHORT], 8, false, true),
+    RGBA32UI: fmt(0x8D70, RGBA_INTEGER, [UNSIGNED_INT], 16, false, true),
+    RGBA32I: fmt(0x8D82, RGBA_INTEGER, [INT], 16, false, true),
+    DEPTH_COMPONENT16: fmt(0x81A5, DEPTH_COMPONENT, [UNSIGNED_SHORT, UNSIGNED_INT], 2, false, true),
+    DEPTH_COMPONENT24: fmt(0x81A6, DEPTH_COMPONENT, [UNSIGNED_INT], 4, false, true),
+    DEPTH_COMPONENT32F: fmt(0x8CAC, DEPTH_COMPONENT, [FLOAT], 4, false, true),
+    DEPTH24_STENCIL8: fmt(0x88F0, DEPTH_STENCIL, [UNSIGNED_INT_24_8], 4, false, true),
+    DEPTH32F_STENCIL8: fmt(0x8CAD, DEPTH_STENCIL, [FLOAT_32_UNSIGNED_INT_24_8_REV], 8, false, true),
+    RGBA: fmt(RGBA, RGBA, [UNSIGNED_BYTE, UNSIGNED_SHORT_4_4_4_4, UNSIGNED_SHORT_5_5_5_1],
+              4, true, true, false),
+    RGB: fmt(RGB, RGB, [UNSIGNED_BYTE, UNSIGNED_SHORT_5_6_5], 3, true, true, false),
+    LUMINANCE_ALPHA: fmt(0x190A, 0x190A, [UNSIGNED_BYTE], 2, true, false, false),
+    LUMINANCE: fmt(0x1909, 0x1909, [UNSIGNED_BYTE], 1, true, false, false),
+    ALPHA: fmt(0x1906, 0x1906, [UNSIGNED_BYTE], 1, true, false, false),
+};
+
+/**
+ * @param {GLenum} type pixel or component type
+ * @returns {Function} the typed array constructor matching type
+ */
+function arrayType(type: GLenum) {
+    switch (type) {
+    case FLOAT: return Float32Array;
+    case BYTE: return Int8Array;
+    case SHORT: return Int16Array;
+    case INT: return Int32Array;
+    case HALF_FLOAT:
+    case 0x8D61: // HALF_FLOAT_OES
+    case UNSIGNED_SHORT:
+    case UNSIGNED_SHORT_4_4_4_4:
+    case UNSIGNED_SHORT_5_5_5_1:
+    case UNSIGNED_SHORT_5_6_5:
+        return Uint16Array;
+    case UNSIGNED_INT:
+    case UNSIGNED_INT_2_10_10_10_REV:
+    case UNSIGNED_INT_10F_11F_11F_REV:
+    case UNSIGNED_INT_5_9_9_9_REV:
+    case UNSIGNED_INT_24_8:
+        return Uint32Array;
+    default: return Uint8Array;
+    }
+}
+
+/**
+ * Check whether a format capability is available, enabling the
+ * extension it depends on if there is one.
+ * @param {WebGLAnyContext} gl
+ * @param {boolean|string} capability a TextureFormat filterable/renderable
+ * @returns {boolean}
+ */
+function supports(gl: WebGLAnyContext, capability: boolean | string): boolean {
+    if (typeof capability === "string") return capabilities(gl).has(capability);
+    return capability;
+}
+
+/**
+ * Texture sampling parameters, shared by Texture and Sampler.
+ */
+export interface TextureParams {
+    minFilter?: GLenum;
+    magFilter?: GLenum;
+    wrapS?: GLenum;
+    wrapT?: GLenum;
+    /** WebGL2 */
+    wrapR?: GLenum;
+    /** WebGL2, textures only */
+    baseLevel?: number;
+    /** WebGL2, textures only */
+    maxLevel?: number;
+    /** WebGL2 */
+    minLod?: number;
+    /** WebGL2 */
+    maxLod?: number;
+    /** WebGL2 depth comparison function, null to turn comparison off */
+    compareFunc?: GLenum | null;
+    /** clamped to what EXT_texture_filter_anisotropic allows, ignored without it */
+    anisotropy?: number;
+}
+
+/**
+ * Apply TextureParams through texParameter* or samplerParameter*.
+ * @param {WebGLAnyContext} gl
+ * @param {TextureParams} params
+ * @param {boolean} texture false for samplers, which lack level params
+ * @param {Function} set called with (pname, value, isFloat)
+ */
+function setParameters(gl: WebGLAnyContext, params: TextureParams, texture: boolean,
+                       set: (pname: GLenum, value: number, float: boolean) => void) {
+    const webgl2 = function(name: string) {
+        if (!isWebGL2(gl)) throw new Error(`Texture parameter ${name} requires WebGL2`);
+        return gl as WebGL2RenderingContext;
+    };
+    if (params.minFilter != null) set(gl.TEXTURE_MIN_FILTER, params.minFilter, false);
+    if (params.magFilter != null) set(gl.TEXTURE_MAG_FILTER, params.magFilter, false);
+    if (params.wrapS != null) set(gl.TEXTURE_WRAP_S, params.wrapS, false);
+    if (params.wrapT != null) set(gl.TEXTURE_WRAP_T, params.wrapT, false);
+    if (params.wrapR != null) set(webgl2("wrapR").TEXTURE_WRAP_R, params.wrapR, false);
+    if (texture && params.baseLevel != null) {
+        set(webgl2("baseLevel").TEXTURE_BASE_LEVEL, params.baseLevel, false);
+    }
+    if (texture && params.maxLevel != null) {
+        set(webgl2("maxLevel").TEXTURE_MAX_LEVEL, params.maxLevel, false);
+    }
+    if (params.minLod != null) set(webgl2("minLod").TEXTURE_MIN_LOD, params.minLod, true);
+    if (params.maxLod != null) set(webgl2("maxLod").TEXTURE_MAX_LOD, params.maxLod, true);
+    if (params.compareFunc === null) {
+        set(webgl2("compareFunc").TEXTURE_COMPARE_MODE, gl.NONE, false);
+    } else if (params.compareFunc != null) {
+        const gl2 = webgl2("compareFunc");
+        set(gl2.TEXTURE_COMPARE_MODE, gl2.COMPARE_REF_TO_TEXTURE, false);
+        set(gl2.TEXTURE_COMPARE_FUNC, params.compareFunc, false);
+    }
+    if (params.anisotropy != null) {
+        const caps = capabilities(gl);
+        const ext = caps.extension("EXT_texture_filter_anisotropic");
+        if (ext != null) {
+            set(ext.TEXTURE_MAX_ANISOTROPY_EXT, Math.min(params.anisotropy, caps.maxAnisotropy), true);
+        }
+    }
+}
+
 export class Texture {
     gl: WebGLAnyContext;
     texture: WebGLTexture | null;
+    target: GLenum;
     format: GLenum;
     internalFormat: GLint;
     type: GLenum;
+    formatInfo: TextureFormat | null;
+    /** size of the base level, 0 until allocated */
+    width: number;
+    height: number;
+    /** depth or layer count, 1 for 2D textures */
+    depth: number;
+    /** named in error messages */
+    label: string | null;
+    disposed: boolean;
+    /** keep full uploads of the base level to replay them after a context restore */
+    retain: boolean;
+    /** sampling parameters, reapplied after a context restore */
+    params: TextureParams;
+    private mipmapped: boolean;
+    protected retained: {[target: number]: () => void};
     /**
-     * Create a new texture, optionally filled blank.
+     * Create a new texture, optionally filled blank. The format may be
+     * given by name (see TEXTURE_FORMATS), in which case the type and
+     * filter are checked against the context before anything is uploaded
+     * and internalFormat is ignored.
      * @param {WebGLAnyContext} gl
-     * @param {GLenum} [format=GL_RGBA]
+     * @param {GLenum|string} [format=GL_RGBA]
      * @param {GLenum} [wrap=GL_CLAMP_TO_EDGE]
-     * @param {GLenum} [filter=GL_LINEAR]
-     * @param {GLenum} [type=UNSIGNED_BYTE]
+     * @param {GLenum} [filter=GL_LINEAR, or GL_NEAREST if not filterable]
+     * @param {GLenum} [type=UNSIGNED_BYTE, or the format's default type]
      * @param {GLenum} [internalFormat=GL_RGBA]
+     * @param {GLenum} [target=GL_TEXTURE_2D] see the Texture subclasses
      * @returns {Igloo.Texture}
      */
-    constructor(gl : WebGLAnyContext, format : GLenum, wrap : GLint, filter : GLint, type : GLenum, internalFormat : GLint) {
+    constructor(gl : WebGLAnyContext, format? : GLenum | string, wrap? : GLint, filter? : GLint, type? : GLenum, internalFormat? : GLint,
+                target? : GLenum) {
+        this.gl = gl;
+        this.target = target == null ? gl.TEXTURE_2D : target;
+        this.formatInfo = null;
+        this.width = this.height = 0;
+        this.depth = 1;
+        this.label = null;
+        this.disposed = false;
+        this.mipmapped = false;
+        this.retain = false;
+        this.retained = {};
+        if (typeof format === "string") {
+            const info = this.formatInfo = Texture.checkFormat(gl, format, filter, type);
+            format = info.format;
+            internalFormat = info.internalFormat;
+            type = type == null ? info.types[0] : type;
+            if (filter == null && !supports(gl, info.filterable)) filter = gl.NEAREST;
+        }
+        const texture = this.texture = own(this, gl.createTexture());
+        glState(gl).bindTexture(this.target, texture);
+        wrap = wrap == null ? gl.CLAMP_TO_EDGE : wrap;
+        filter = filter == null ? gl.LINEAR : filter;
+        gl.texParameteri(this.target, gl.TEXTURE_WRAP_S, wrap);
+        gl.texParameteri(this.target, gl.TEXTURE_WRAP_T, wrap);
+        if (isWebGL2(gl) && this.target !== gl.TEXTURE_2D) {
+            gl.texParameteri(this.target, gl.TEXTURE_WRAP_R, wrap);
+        }
+        gl.texParameteri(this.target, gl.TEXTURE_MIN_FILTER, filter);
+        gl.texParameteri(this.target, gl.TEXTURE_MAG_FILTER, filter);
+        this.params = {wrapS: wrap, wrapT: wrap, minFilter: filter, magFilter: filter};
+        if (isWebGL2(gl) && this.target !== gl.TEXTURE_2D) this.params.wrapR = wrap;
+        this.format = format == null ? gl.RGBA : format;
+        this.internalFormat = internalFormat == null ? gl.RGBA : internalFormat;
+        this.type = type == null ? gl.UNSIGNED_BYTE : type;
+    }
+
+    /**
+     * @returns {string} "Texture"
+     */
+    get kind(): string {
+        return "Texture";
+    }
+
+    /**
+     * Look up a named format and check that the context can use it with
+     * the given filter and type.
+     * @param {WebGLAnyContext} gl
+     * @param {string} name a key of TEXTURE_FORMATS
+     * @param {GLenum} [filter]
+     * @param {GLenum} [type]
+     * @returns {TextureFormat}
+     */
+    static checkFormat(gl: WebGLAnyContext, name: string, filter?: GLenum, type?: GLenum): TextureFormat {
+        const info = TEXTURE_FORMATS[name];
+        if (info == null) throw new Error(`Unknown texture format '${name}'`);
+        if (info.webgl2 && !isWebGL2(gl)) {
+            throw new Error(`Texture format ${name} requires WebGL2`);
+        }
+        if (type != null && info.types.indexOf(type) < 0) {
+            throw new Error(`Texture format ${name} does not accept type 0x${type.toString(16)}`);
+        }
+        const linear = filter != null && filter !== gl.NEAREST && filter !== gl.NEAREST_MIPMAP_NEAREST;
+        if (linear && !supports(gl, info.filterable)) {
+            throw new Error(`Texture format ${name} is not filterable` +
+                            (typeof info.filterable === "string" ?
+                             ` without ${info.filterable}` : "") + ", use NEAREST");
+        }
+        return info;
+    }
+
+    /**
+     * @param {?number} [unit] active texture unit to bind
+     * @returns {Texture}
+     */
+    bind(unit?: number) : Texture {
+        const gl = this.gl;
+        alive(this);
+        glState(gl).bindTexture(this.target, this.texture, unit);
+        return this;
+    }
+
+    /**
+     * Set texture to particular size, filled with vec4(0, 0, 0, 1).
+     * @param {number} width
+     * @param {number} height
+     * @returns {Igloo.Texture}
+     */
+    blank(width: any, height: any) : Texture {
+        const gl = this.gl;
+        this.bind();
+        gl.texImage2D(this.target, 0, this.internalFormat, width, height,
+                      0, this.format, this.type, null);
+        this.width = width;
+        this.height = height;
+        return this;
+    }
+
+    /**
+     * Set the texture to a particular image.
+     * @param {Array|ArrayBufferView|TexImageSource} source
+     * @param {number} [width]
+     * @param {number} [height]
+     * @returns {Igloo.Texture}
+     */
+    set(source?: Array<number> | ArrayBufferView | TexImageSource, 
+        width?: number, height?: number) {
+
+        this.bind();
+        return this.image(this.target, source, width, height);
+    }
+
+    /**
+     * Set part of the texture to a particular image.
+     * @param {Array|ArrayBufferView|TexImageSource} source
+     * @param {number} xoff
+     * @param {number} yoff
+     * @param {number} [width]
+     * @param {number} [height]
+     * @returns {Igloo.Texture}
+     */
+    subset(source: ArrayBufferView | TexImageSource | Array<number> | null, 
+        xoff: number, 
+        yoff: number, 
+        width: number | null, 
+        height: number | null) : Texture {
+
+        this.bind();
+        return this.subimage(this.target, source, xoff, yoff, width, height);
+    }
+
+    /**
+     * Copy part/all of the current framebuffer to this image.
+     * @param {number} x
+     * @param {number} y
+     * @param {number} width
+     * @param {number} height
+     * @returns {Igloo.Texture}
+     */
+    copy(x: number, y: number, width: number, height: number) : Texture {
+        const gl = this.gl;
+        this.bind();
+        gl.copyTexImage2D(this.target, 0, this.internalFormat, x, y, width, height, 0);
+        this.width = width;
+        this.height = height;
+        return this;
+    }
+
+    /**
+     * Read pixels back from the texture through a temporary framebuffer.
+     * @param {ReadOptions} [options] attachment is ignored
+     * @returns {ArrayBufferView}
+     */
+    read(options?: ReadOptions): ArrayBufferView {
+        const framebuffer = this.readFramebuffer(options);
+        try {
+            return framebuffer.read(Object.assign({}, options, {attachment: 0}));
+        } finally {
+            framebuffer.unbind().dispose();
+        }
+    }
+
+    /**
+     * Like read(), but without stalling on WebGL2, see Framebuffer.readAsync().
+     * @param {ReadOptions} [options] attachment is ignored
+     * @returns {Promise<ArrayBufferView>}
+     */
+    readAsync(options?: ReadOptions): Promise<ArrayBufferView> {
+        const framebuffer = this.readFramebuffer(options);
+        // the pixels are in the pack buffer once readAsync() returns
+        const result = framebuffer.readAsync(Object.assign({}, options, {attachment: 0}));
+        framebuffer.unbind().dispose();
+        return result;
+    }
+
+    /**
+     * @param {ReadOptions} [options]
+     * @returns {Framebuffer} a new framebuffer with this texture attached
+     */
+    private readFramebuffer(options?: ReadOptions): Framebuffer {
+        return new Framebuffer(this.gl).attach(this, 0, options && options.layer || 0);
+    }
+
+    /**
+     * Explicitly set a single mipmap level to a particular image. Cube
+     * maps take their levels face by face, see TextureCube.face().
+     * @param {number} level mipmap level, 0 being the base image
+     * @param {Array|ArrayBufferView|TexImageSource} source
+     * @param {number} [width]
+     * @param {number} [height]
+     * @returns {Igloo.Texture}
+     */
+    level(level: number, source: Array<number> | ArrayBufferView | TexImageSource | null,
+          width?: number, height?: number): Texture {
+        if (this.target === this.gl.TEXTURE_CUBE_MAP) {
+            throw new Error(`${describe(this)}: cube map levels need a face, ` +
+                            "use face(face, source, width, height, level)");
+        }
+        this.checkLevel(level);
+        this.bind();
+        return this.image(this.target, source, width, height, level);
+    }
+
+    /**
+     * @param {number} level
+     */
+    protected checkLevel(level: number) {
+        if (!(level >= 0 && level % 1 === 0)) {
+            throw new Error(`${describe(this)}: invalid mipmap level ${level}`);
+        }
+    }
+
+    /**
+     * Generate all mipmap levels from the base image.
+     * @returns {Igloo.Texture}
+     */
+    generateMipmap(): Texture {
+        this.bind();
+        this.gl.generateMipmap(this.target);
+        this.mipmapped = true;
+        return this;
+    }
+
+    /**
+     * @param {string} label names this in error messages and reports
+     * @returns {Texture} this
+     */
+    setLabel(label: string): Texture {
+        this.label = label;
+        return this;
+    }
+
+    /**
+     * Delete the texture. Safe to call more than once.
+     */
+    dispose() {
+        if (this.disposed) return;
+        glState(this.gl).forget(this.texture);
+        this.gl.deleteTexture(this.texture);
+        this.texture = null;
+        this.disposed = true;
+    }
+
+    /**
+     * Recreate the texture after a context restore: the parameters and
+     * size come back, and so do the base level images if retain was set
+     * when they were uploaded. Anything else is blank.
+     */
+    restore() {
+        if (this.disposed) return;
+        // allocate() records blank uploads over the ones to replay
+        const retained = Object.assign({}, this.retained);
+        this.texture = own(this, this.gl.createTexture());
+        this.parameters(this.params);
+        if (this.width > 0) this.allocate();
+        for (const target in retained) retained[target]();
+        this.retained = retained;
+        if (this.mipmapped) this.generateMipmap();
+    }
+
+    /**
+     * Allocate blank storage at the current size.
+     */
+    protected allocate() {
+        this.blank(this.width, this.height);
+    }
+
+    /**
+     * @returns {number} estimated GPU memory held, in bytes
+     */
+    bytes(): number {
+        if (this.disposed) return 0;
+        const pixel = this.formatInfo != null ? this.formatInfo.bytes :
+              pixelElements(this.format, this.type) * arrayType(this.type).BYTES_PER_ELEMENT;
+        const faces = this.target === this.gl.TEXTURE_CUBE_MAP ? 6 : 1;
+        const base = this.width * this.height * this.depth * faces * pixel;
+        return Math.ceil(this.mipmapped ? base * 4 / 3 : base);
+    }
+
+    /**
+     * Set sampling parameters, leaving those not given unchanged.
+     * @param {TextureParams} params
+     * @returns {Igloo.Texture}
+     */
+    parameters(params: TextureParams): Texture {
+        const gl = this.gl;
+        this.bind();
+        Object.assign(this.params, params);
+        setParameters(gl, params, true, (pname, value, float) => {
+            if (float) {
+                gl.texParameterf(this.target, pname, value);
+            } else {
+                gl.texParameteri(this.target, pname, value);
+            }
+        });
+        return this;
+    }
+
+    /**
+     * Upload a whole 2D image to the bound texture.
+     * @param {GLenum} target TEXTURE_2D or a cube map face
+     * @returns {Igloo.Texture}
+     */
+    protected image(target: GLenum, source?: Array<number> | ArrayBufferView | TexImageSource | null,
+                    width?: number, height?: number, level = 0): Texture {
+        const gl = this.gl;
+        if (this.retain && level === 0) {
+            const data = source, w = width, h = height;
+            this.retained[target] = () => this.image(target, data, w, h);
+        }
+        if (source instanceof Array) {
+            source = new (arrayType(this.type))(source);
+        }
+        if (width != null && height != null) {
+            gl.texImage2D(target, level, this.internalFormat,
+                          width, height, 0, this.format,
+                          this.type, source as ArrayBufferView | null);
+        } else {
+            gl.texImage2D(target, level, this.internalFormat,
+                          this.format, this.type, source as TexImageSource);
+            const image = source as {width: number, height: number};
+            width = image.width;
+            height = image.height;
+        }
+        if (level === 0) {
+            this.width = width || 0;
+            this.height = height || 0;
+        }
+        return this;
+    }
+
+    /**
+     * Upload part of a 2D image to the bound texture.
+     * @param {GLenum} target TEXTURE_2D or a cube map face
+     * @returns {Igloo.Texture}
+     */
+    protected subimage(target: GLenum, source: ArrayBufferView | TexImageSource | Array<number> | null,
+                       xoff: number, yoff: number,
+                       width?: number | null, height?: number | null): Texture {
+        const gl = this.gl;
+        if (source instanceof Array) {
+            source = new (arrayType(this.type))(source);
+        }
+        if (width != null && height != null) {
+            gl.texSubImage2D(target, 0, xoff, yoff,
+                             width, height,
+                             this.format, this.type, source as ArrayBufferView | null);
+        } else {
+            gl.texSubImage2D(target, 0, xoff, yoff,
+                             this.format, this.type, source as TexImageSource);
+        }
+        return this;
+    }
+}
+
+export class Texture3D extends Texture {
+    gl: WebGL2RenderingContext;
+    /**
+     * A WebGL2 3D texture. Also the base of TextureArray, where depth
+     * counts layers.
+     * @param {WebGL2RenderingContext} gl
+     * @param {GLenum|string} [format=GL_RGBA]
+     * @param {GLenum} [wrap=GL_CLAMP_TO_EDGE]
+     * @param {GLenum} [filter=GL_LINEAR]
+     * @param {GLenum} [type=UNSIGNED_BYTE]
+     * @param {GLenum} [internalFormat=GL_RGBA]
+     * @param {GLenum} [target=GL_TEXTURE_3D]
+     */
+    constructor(gl: WebGLAnyContext, format?: GLenum | string, wrap?: GLint, filter?: GLint,
+                type?: GLenum, internalFormat?: GLint, target?: GLenum) {
+        if (!isWebGL2(gl)) throw new Error("3D and array textures require WebGL2");
+        super(gl, format, wrap, filter, type, internalFormat,
+              target == null ? gl.TEXTURE_3D : target);
+        this.gl = gl;
+    }
+
+    /**
+     * @returns {string} "Texture3D"
+     */
+    get kind(): string {
+        return "Texture3D";
+    }
+
+    /**
+     * Set texture to particular size, filled with vec4(0, 0, 0, 1).
+     * @param {number} width
+     * @param {number} height
+     * @param {number} [depth=1]
+     * @returns {Texture3D}
+     */
+    blank(width: number, height: number, depth = 1): Texture3D {
+        const gl = this.gl;
+        this.bind();
+        gl.texImage3D(this.target, 0, this.internalFormat, width, height, depth,
+                      0, this.format, this.type, null);
+        this.width = width;
+        this.height = height;
+        this.depth = depth;
+        return this;
+    }
+
+    /**
+     * Set the whole volume to a particular image.
+     * @param {Array|ArrayBufferView|TexImageSource} source
+     * @param {number} width
+     * @param {number} height
+     * @param {number} [depth=1]
+     * @returns {Texture3D}
+     */
+    set(source?: Array<number> | ArrayBufferView | TexImageSource,
+        width?: number, height?: number, depth = 1): Texture3D {
+        return this.level(0, source || null, width, height, depth);
+    }
+
+    /**
+     * Explicitly set a single mipmap level of the volume.
+     * @param {number} level mipmap level, 0 being the base image
+     * @param {Array|ArrayBufferView|TexImageSource} source
+     * @param {number} width
+     * @param {number} height
+     * @param {number} [depth=1]
+     * @returns {Texture3D}
+     */
+    level(level: number, source: Array<number> | ArrayBufferView | TexImageSource | null,
+          width?: number, height?: number, depth = 1): Texture3D {
+        const gl = this.gl;
+        if (width == null || height == null) {
+            throw new Error("3D texture uploads need a width and height");
+        }
+        this.checkLevel(level);
+        if (this.retain && level === 0) {
+            const data = source, w = width, h = height;
+            this.retained[this.target] = () => this.level(0, data, w, h, depth);
+        }
+        this.bind();
+        if (source instanceof Array) {
+            source = new (arrayType(this.type))(source);
+        }
+        if (source == null || ArrayBuffer.isView(source)) {
+            gl.texImage3D(this.target, level, this.internalFormat, width, height, depth,
+                          0, this.format, this.type, source);
+        } else {
+            gl.texImage3D(this.target, level, this.internalFormat, width, height, depth,
+                          0, this.format, this.type, source);
+        }
+        if (level === 0) {
+            this.width = width;
+            this.height = height;
+            this.depth = depth;
+        }
+        return this;
+    }
+
+    /**
+     * Set part of the volume to a particular image.
+     * @param {Array|ArrayBufferView|TexImageSource} source
+     * @param {number} xoff
+     * @param {number} yoff
+     * @param {number} width
+     * @param {number} height
+     * @param {number} [zoff=0] first depth slice or layer
+     * @param {number} [depth=1]
+     * @returns {Texture3D}
+     */
+    subset(source: ArrayBufferView | TexImageSource | Array<number> | null,
+           xoff: number, yoff: number, width: number | null, height: number | null,
+           zoff = 0, depth = 1): Texture3D {
+        const gl = this.gl;
+        if (width == null || height == null) {
+            throw new Error("3D texture uploads need a width and height");
+        }
+        this.bind();
+        if (source instanceof Array) {
+            source = new (arrayType(this.type))(source);
+        }
+        if (source == null || ArrayBuffer.isView(source)) {
+            gl.texSubImage3D(this.target, 0, xoff, yoff, zoff, width, height, depth,
+                             this.format, this.type, source);
+        } else {
+            gl.texSubImage3D(this.target, 0, xoff, yoff, zoff, width, height, depth,
+                             this.format, this.type, source);
+        }
+        return this;
+    }
+
+    /**
+     * Copy part of the current framebuffer into one slice or layer.
+     * @param {number} x
+     * @param {number} y
+     * @param {number} width
+     * @param {number} height
+     * @param {number} [zoff=0] destination slice or layer
+     * @returns {Texture3D}
+     */
+    copy(x: number, y: number, width: number, height: number, zoff = 0): Texture3D {
+        const gl = this.gl;
+        this.bind();
+        gl.copyTexSubImage3D(this.target, 0, 0, 0, zoff, x, y, width, height);
+        return this;
+    }
+
+    /**
+     * Allocate blank storage at the current size.
+     */
+    protected allocate() {
+        this.blank(this.width, this.height, this.depth);
+    }
+}
+
+export class TextureArray extends Texture3D {
+    /**
+     * A WebGL2 2D array texture, e.g. for sprite atlases. Uses the
+     * Texture3D API with depth counting layers.
+     * @param {WebGL2RenderingContext} gl
+     * @param {GLenum|string} [format=GL_RGBA]
+     * @param {GLenum} [wrap=GL_CLAMP_TO_EDGE]
+     * @param {GLenum} [filter=GL_LINEAR]
+     * @param {GLenum} [type=UNSIGNED_BYTE]
+     * @param {GLenum} [internalFormat=GL_RGBA]
+     */
+    constructor(gl: WebGLAnyContext, format?: GLenum | string, wrap?: GLint, filter?: GLint,
+                type?: GLenum, internalFormat?: GLint) {
+        super(gl, format, wrap, filter, type, internalFormat, 0x8C1A); // TEXTURE_2D_ARRAY
+    }
+
+    /**
+     * @returns {string} "TextureArray"
+     */
+    get kind(): string {
+        return "TextureArray";
+    }
+
+    /**
+     * Set a single layer to a particular image.
+     * @param {number} layer
+     * @param {Array|ArrayBufferView|TexImageSource} source
+     * @param {number} width
+     * @param {number} height
+     * @returns {TextureArray}
+     */
+    layer(layer: number, source: ArrayBufferView | TexImageSource | Array<number>,
+          width: number, height: number): TextureArray {
+        this.subset(source, 0, 0, width, height, layer, 1);
+        return this;
+    }
+}
+
+export class TextureCube extends Texture {
+    /**
+     * A cube map texture. Faces are numbered 0 to 5 in the order +X, -X,
+     * +Y, -Y, +Z, -Z. The inherited methods apply to all six faces.
+     * @param {WebGLAnyContext} gl
+     * @param {GLenum|string} [format=GL_RGBA]
+     * @param {GLenum} [wrap=GL_CLAMP_TO_EDGE]
+     * @param {GLenum} [filter=GL_LINEAR]
+     * @param {GLenum} [type=UNSIGNED_BYTE]
+     * @param {GLenum} [internalFormat=GL_RGBA]
+     */
+    constructor(gl: WebGLAnyContext, format?: GLenum | string, wrap?: GLint, filter?: GLint,
+                type?: GLenum, internalFormat?: GLint) {
+        super(gl, format, wrap, filter, type, internalFormat, gl.TEXTURE_CUBE_MAP);
+    }
+
+    /**
+     * @returns {string} "TextureCube"
+     */
+    get kind(): string {
+        return "TextureCube";
+    }
+
+    /**
+     * Set every face to particular size, filled with vec4(0, 0, 0, 1).
+     * @param {number} width
+     * @param {number} height
+     * @returns {TextureCube}
+     */
+    blank(width: number, height: number): TextureCube {
+        this.bind();
+        for (let face = 0; face < 6; face++) {
+            this.image(this.gl.TEXTURE_CUBE_MAP_POSITIVE_X + face, null, width, height);
+        }
+        return this;
+    }
+
+    /**
+     * Set every face to the same image.
+     * @param {Array|ArrayBufferView|TexImageSource} source
+     * @param {number} [width]
+     * @param {number} [height]
+     * @returns {TextureCube}
+     */
+    set(source?: Array<number> | ArrayBufferView | TexImageSource,
+        width?: number, height?: number): TextureCube {
+        this.bind();
+        for (let face = 0; face < 6; face++) {
+            this.image(this.gl.TEXTURE_CUBE_MAP_POSITIVE_X + face, source, width, height);
+        }
+        return this;
+    }
+
+    /**
+     * Set part of every face to the same image.
+     * @returns {TextureCube}
+     */
+    subset(source: ArrayBufferView | TexImageSource | Array<number> | null,
+           xoff: number, yoff: number, width: number | null, height: number | null): TextureCube {
+        this.bind();
+        for (let face = 0; face < 6; face++) {
+            this.subimage(this.gl.TEXTURE_CUBE_MAP_POSITIVE_X + face,
+                          source, xoff, yoff, width, height);
+        }
+        return this;
+    }
+
+    /**
+     * Copy part of the current framebuffer to every face.
+     * @returns {TextureCube}
+     */
+    copy(x: number, y: number, width: number, height: number): TextureCube {
+        for (let face = 0; face < 6; face++) this.copyFace(face, x, y, width, height);
+        return this;
+    }
+
+    /**
+     * Set a single face, or one mipmap level of it, to a particular image.
+     * @param {number} face 0 to 5
+     * @param {Array|ArrayBufferView|TexImageSource} source
+     * @param {number} [width]
+     * @param {number} [height]
+     * @param {number} [level=0] mipmap level, 0 being the base image
+     * @returns {TextureCube}
+     */
+    face(face: number, source: Array<number> | ArrayBufferView | TexImageSource | null,
+         width?: number, height?: number, level = 0): TextureCube {
+        this.checkFace(face);
+        this.checkLevel(level);
+        this.bind();
+        this.image(this.gl.TEXTURE_CUBE_MAP_POSITIVE_X + face, source, width, height, level);
+        return this;
+    }
+
+    /**
+     * Set part of a single face to a particular image.
+     * @param {number} face 0 to 5
+     * @returns {TextureCube}
+     */
+    subsetFace(face: number, source: ArrayBufferView | TexImageSource | Array<number> | null,
+               xoff: number, yoff: number, width?: number, height?: number): TextureCube {
+        this.checkFace(face);
+        this.bind();
+        this.subimage(this.gl.TEXTURE_CUBE_MAP_POSITIVE_X + face,
+                      source, xoff, yoff, width, height);
+        return this;
+    }
+
+    /**
+     * Copy part of the current framebuffer to a single face.
+     * @param {number} face 0 to 5
+     * @returns {TextureCube}
+     */
+    copyFace(face: number, x: number, y: number, width: number, height: number): TextureCube {
+        const gl = this.gl;
+        this.checkFace(face);
+        this.bind();
+        gl.copyTexImage2D(gl.TEXTURE_CUBE_MAP_POSITIVE_X + face, 0, this.internalFormat,
+                          x, y, width, height, 0);
+        return this;
+    }
+
+    /**
+     * @param {number} face
+     */
+    private checkFace(face: number) {
+        if (!(face >= 0 && face < 6 && face % 1 === 0)) {
+            throw new Error(`${describe(this)}: invalid cube map face ${face}`);
+        }
+    }
+}
+
+export class Sampler {
+    gl: WebGL2RenderingContext;
+    sampler: WebGLSampler | null;
+    /** named in error messages */
+    label: string | null;
+    disposed: boolean;
+    /** sampling parameters, reapplied after a context restore */
+    params: TextureParams;
+    /**
+     * WebGL2 sampler object, overriding the sampling parameters of
+     * whatever texture is bound to the same unit.
+     * @param {WebGL2RenderingContext} gl
+     * @param {TextureParams} [params]
+     * @constructor
+     */
+    constructor(gl: WebGLAnyContext, params?: TextureParams) {
+        if (!isWebGL2(gl)) throw new Error("Samplers require WebGL2");
+        this.gl = gl;
+        this.sampler = own(this, gl.createSampler());
+        this.label = null;
+        this.disposed = false;
+        this.params = {};
+        if (params != null) this.parameters(params);
+    }
+
+    /**
+     * @returns {string} "Sampler"
+     */
+    get kind(): string {
+        return "Sampler";
+    }
+
+    /**
+     * @param {number} unit texture unit to sample with this sampler
+     * @returns {Sampler} this
+     */
+    bind(unit: number): Sampler {
+        alive(this);
+        this.gl.bindSampler(unit, this.sampler);
+        return this;
+    }
+
+    /**
+     * @param {string} label names this in error messages and reports
+     * @returns {Sampler} this
+     */
+    setLabel(label: string): Sampler {
+        this.label = label;
+        return this;
+    }
+
+    /**
+     * Delete the sampler. Safe to call more than once.
+     */
+    dispose() {
+        if (this.disposed) return;
+        this.gl.deleteSampler(this.sampler);
+        this.sampler = null;
+        this.disposed = true;
+    }
+
+    /**
+     * Recreate the sampler and its parameters after a context restore.
+     */
+    restore() {
+        if (this.disposed) return;
+        this.sampler = own(this, this.gl.createSampler());
+        this.parameters(this.params);
+    }
+
+    /**
+     * @returns {number} always 0, samplers hold no image data
+     */
+    bytes(): number {
+        return 0;
+    }
+
+    /**
+     * @param {number} unit texture unit to go back to texture parameters
+     * @returns {Sampler} this
+     */
+    unbind(unit: number): Sampler {
+        this.gl.bindSampler(unit, null);
+        return this;
+    }
+
+    /**
+     * Set sampling parameters, leaving those not given unchanged.
+     * @param {TextureParams} params baseLevel and maxLevel do not apply
+     * @returns {Sampler} this
+     */
+    parameters(params: TextureParams): Sampler {
+        const gl = this.gl;
+        alive(this);
+        Object.assign(this.params, params);
+        const sampler = this.sampler as WebGLSampler;
+        setParameters(gl, params, false, function(pname, value, float) {
+            if (float) {
+                gl.samplerParameterf(sampler, pname, value);
+            } else {
+                gl.samplerParameteri(sampler, pname, value);
+            }
+        });
+        return this;
+    }
+}
+
+/**
+ * Explanations of checkFramebufferStatus() results.
+ */
+const FRAMEBUFFER_STATUS: {[status: number]: string} = {
+    0x8CD6: "FRAMEBUFFER_INCOMPLETE_ATTACHMENT: an attachment is not renderable or has no storage",
+    0x8CD7: "FRAMEBUFFER_INCOMPLETE_MISSING_ATTACHMENT: there are no attachments",
+    0x8CD9: "FRAMEBUFFER_INCOMPLETE_DIMENSIONS: attachments differ in size",
+    0x8CDD: "FRAMEBUFFER_UNSUPPORTED: this combination of formats is not supported",
+    0x8D56: "FRAMEBUFFER_INCOMPLETE_MULTISAMPLE: attachments differ in sample count",
+};
+
+/**
+ * Region and attachment to read back with read()/readAsync().
+ */
+export interface ReadOptions {
+    x?: number;
+    y?: number;
+    /** defaults to the size of the attachment, minus x */
+    width?: number;
+    /** defaults to the size of the attachment, minus y */
+    height?: number;
+    /** color attachment index, default 0 */
+    attachment?: number;
+    /** layer of a 3D/array texture, or cube map face (Texture only) */
+    layer?: number;
+    /** return rows top to bottom instead of GL's bottom to top */
+    flip?: boolean;
+}
+
+/**
+ * @param {GLenum} format
+ * @param {GLenum} type
+ * @returns {number} array elements per pixel
+ */
+function pixelElements(format: GLenum, type: GLenum): number {
+    switch (type) {
+    case UNSIGNED_SHORT_4_4_4_4:
+    case UNSIGNED_SHORT_5_5_5_1:
+    case UNSIGNED_SHORT_5_6_5:
+    case UNSIGNED_INT_2_10_10_10_REV:
+    case UNSIGNED_INT_10F_11F_11F_REV:
+    case UNSIGNED_INT_5_9_9_9_REV:
+    case UNSIGNED_INT_24_8:
+        return 1;
+    }
+    switch (format) {
+    case RED: case RED_INTEGER: case DEPTH_COMPONENT: case 0x1906: case 0x1909:
+        return 1;
+    case RG: case RG_INTEGER: case 0x190A:
+        return 2;
+    case RGB: case RGB_INTEGER:
+        return 3;
+    default:
+        return 4;
+    }
+}
+
+/**
+ * Reverse the row order of a pixel array in place.
+ * @param {ArrayBufferView} pixels
+ * @param {number} rowLength elements per row
+ * @param {number} rows
+ */
+function flipRows(pixels: ArrayLike<number> & {[i: number]: number}, rowLength: number, rows: number) {
+    for (let top = 0, bottom = rows - 1; top < bottom; top++, bottom--) {
+        for (let i = 0; i < rowLength; i++) {
+            const a = top * rowLength + i, b = bottom * rowLength + i;
+            const t = pixels[a];
+            pixels[a] = pixels[b];
+            pixels[b] = t;
+        }
+    }
+}
+
+/**
+ * @param {GLenum} format renderbuffer format
+ * @returns {number} estimated bytes per pixel
+ */
+function pixelBytes(format: GLenum): number {
+    switch (format) {
+    case 0x8D48: return 1; // STENCIL_INDEX8
+    case 0x81A5: case 0x8056: case 0x8057: case 0x8D62: return 2;
+    case 0x8CAD: return 8; // DEPTH32F_STENCIL8
+    default: return 4;
+    }
+}
+
+export class Framebuffer {
+    gl: WebGLAnyContext;
+    framebuffer: WebGLFramebuffer | null;
+    /** the most recently attached renderbuffer, if any */
+    renderbuffer: WebGLRenderbuffer | null;
+    /** renderbuffers by attachment point */
+    renderbuffers: {[attachment: number]: WebGLRenderbuffer | null};
+    /** attached color textures, by attachment index */
+    colors: (Texture | null)[];
+    /** named in error messages */
+    label: string | null;
+    disposed: boolean;
+    /** attached textures by attachment point, replayed after a context restore */
+    private textures: {[attachment: number]: {texture: Texture, layer: number}};
+    /** renderbuffer storage by attachment point */
+    private storage: {[attachment: number]: {format: GLenum, width: number, height: number}};
+    /**
+     * @param {WebGLAnyContext} gl
+     * @param {WebGLFramebuffer} [framebuffer] to be wrapped (null for default)
+     * @returns {Framebuffer}
+     */
+    constructor(gl: WebGLAnyContext, framebuffer: WebGLFramebuffer | null = null) {
+        this.gl = gl;
+        this.framebuffer =
+            arguments.length == 2 ? framebuffer : own(this, gl.createFramebuffer());
+        this.renderbuffer = null;
+        this.renderbuffers = {};
+        this.textures = {};
+        this.storage = {};
+        this.colors = [];
+        this.label = null;
+        this.disposed = false;
+    }
+
+    /**
+     * @returns {string} "Framebuffer"
+     */
+    get kind(): string {
+        return "Framebuffer";
+    }
+
+    /**
+     * @returns {Framebuffer}
+     */
+    bind(): Framebuffer {
+        alive(this);
+        glState(this.gl).bindFramebuffer(this.framebuffer);
+        return this;
+    }
+
+    /**
+     * @param {string} label names this in error messages and reports
+     * @returns {Framebuffer} this
+     */
+    setLabel(label: string): Framebuffer {
+        this.label = label;
+        return this;
+    }
+
+    /**
+     * Delete the framebuffer and its renderbuffers, but not the attached
+     * textures. Safe to call more than once.
+     */
+    dispose() {
+        if (this.disposed) return;
+        const gl = this.gl;
+        glState(gl).forget(this.framebuffer);
+        if (this.framebuffer != null) gl.deleteFramebuffer(this.framebuffer);
+        for (const attachment in this.renderbuffers) {
+            gl.deleteRenderbuffer(this.renderbuffers[attachment]);
+        }
+        this.framebuffer = this.renderbuffer = null;
+        this.renderbuffers = {};
+        this.textures = {};
+        this.storage = {};
+        this.colors = [];
+        this.disposed = true;
+    }
+
+    /**
+     * Recreate the framebuffer after a context restore, reattaching the
+     * same textures and renderbuffers. Restore the textures first.
+     */
+    restore() {
+        if (this.disposed || this.framebuffer == null) return; // default framebuffer
+        const gl = this.gl;
+        this.framebuffer = own(this, gl.createFramebuffer());
+        this.renderbuffers = {};
+        this.bind();
+        for (const attachment in this.textures) {
+            const {texture, layer} = this.textures[attachment];
+            this.attachTexture(Number(attachment), texture, layer);
+        }
+        for (const attachment in this.storage) {
+            const {format, width, height} = this.storage[attachment];
+            this.attachRenderbuffer(Number(attachment), format, width, height);
+        }
+        this.drawBuffers().unbind();
+    }
+
+    /**
+     * @returns {number} estimated memory of the renderbuffers, in bytes
+     */
+    bytes(): number {
+        let total = 0;
+        for (const attachment in this.storage) {
+            const {format, width, height} = this.storage[attachment];
+            total += width * height * pixelBytes(format);
+        }
+        return total;
+    }
+
+    /**
+     * @returns {Framebuffer}
+     */
+    unbind(): Framebuffer {
+        glState(this.gl).bindFramebuffer(null);
+        return this;
+    }
+
+    /**
+     * Attach a color texture. Draw buffers are set up to render into
+     * every attached color attachment.
+     * @param {Texture} texture
+     * @param {number} i color attachment to use
+     * @param {number} [layer=0] layer of a 3D/array texture, or cube map face
+     * @returns {Framebuffer}
+     */
+    attach(texture: Texture, i=0, layer=0): Framebuffer {
+        const gl = this.gl;
+        const info = texture.formatInfo;
+        if (info != null && !supports(gl, info.renderable)) {
+            throw new Error("Texture format is not color-renderable" +
+                            (typeof info.renderable === "string" ?
+                             ` without ${info.renderable}` : ""));
+        }
+        this.bind();
+        this.attachTexture(gl.COLOR_ATTACHMENT0 + i, texture, layer);
+        this.colors[i] = texture;
+        return this.drawBuffers();
+    }
+
+    /**
+     * Attach a renderbuffer as a depth buffer for depth-tested rendering.
+     * @param {number} width
+     * @param {number} height
+     * @param {GLenum} [format=GL_DEPTH_COMPONENT16]
+     * @returns {Igloo.Framebuffer}
+     */
+    attachDepth(width: number, height: number, format?: GLenum) {
+        const gl = this.gl;
+        format = format == null ? gl.DEPTH_COMPONENT16 : format;
+        return this.attachRenderbuffer(gl.DEPTH_ATTACHMENT, format, width, height);
+    }
+
+    /**
+     * Attach a renderbuffer as a stencil buffer.
+     * @param {number} width
+     * @param {number} height
+     * @param {GLenum} [format=GL_STENCIL_INDEX8]
+     * @returns {Igloo.Framebuffer}
+     */
+    attachStencil(width: number, height: number, format?: GLenum) {
+        const gl = this.gl;
+        format = format == null ? gl.STENCIL_INDEX8 : format;
+        return this.attachRenderbuffer(gl.STENCIL_ATTACHMENT, format, width, height);
+    }
+
+    /**
+     * Attach a renderbuffer as a combined depth and stencil buffer.
+     * @param {number} width
+     * @param {number} height
+     * @param {GLenum} [format=GL_DEPTH24_STENCIL8, or GL_DEPTH_STENCIL on WebGL1]
+     * @returns {Igloo.Framebuffer}
+     */
+    attachDepthStencil(width: number, height: number, format?: GLenum) {
+        const gl = this.gl;
+        if (format == null) format = isWebGL2(gl) ? gl.DEPTH24_STENCIL8 : gl.DEPTH_STENCIL;
+        return this.attachRenderbuffer(gl.DEPTH_STENCIL_ATTACHMENT, format, width, height);
+    }
+
+    /**
+     * Attach a depth or depth-stencil texture, e.g. for shadow maps. The
+     * attachment point follows from the texture's format.
+     * @param {Texture} texture
+     * @param {number} [layer=0] layer of a 3D/array texture, or cube map face
+     * @returns {Igloo.Framebuffer}
+     */
+    attachDepthTexture(texture: Texture, layer=0) {
+        const gl = this.gl;
+        let attachment: GLenum;
+        if (texture.format === gl.DEPTH_STENCIL) {
+            attachment = gl.DEPTH_STENCIL_ATTACHMENT;
+        } else if (texture.format === gl.DEPTH_COMPONENT) {
+            attachment = gl.DEPTH_ATTACHMENT;
+        } else {
+            throw new Error("Depth attachments need a depth or depth-stencil texture format");
+        }
+        this.bind();
+        return this.attachTexture(attachment, texture, layer);
+    }
+
+    /**
+     * Check that the framebuffer is complete, naming the failure if not.
+     * @returns {Igloo.Framebuffer}
+     */
+    check(): Framebuffer {
+        const gl = this.gl;
+        this.bind();
+        const status = gl.checkFramebufferStatus(gl.FRAMEBUFFER);
+        if (status !== gl.FRAMEBUFFER_COMPLETE) {
+            throw new Error(`${describe(this)} is incomplete: ` +
+                            (FRAMEBUFFER_STATUS[status] || `status 0x${status.toString(16)}`));
+        }
+        return this;
+    }
+
+    /**
+     * Read pixels back from a color attachment, as a typed array matching
+     * its format and type. Stalls until rendering has finished.
+     * @param {ReadOptions} [options]
+     * @returns {ArrayBufferView}
+     */
+    read(options?: ReadOptions): ArrayBufferView {
+        const r = this.readRegion(options);
+        const pixels = new (arrayType(r.type))(r.width * r.height * r.elements);
+        this.gl.readPixels(r.x, r.y, r.width, r.height, r.format, r.type, pixels);
+        if (r.flip) flipRows(pixels, r.width * r.elements, r.height);
+        return pixels;
+    }
+
+    /**
+     * Read pixels back without stalling: on WebGL2 the pixels are copied
+     * into a PIXEL_PACK_BUFFER and the Promise resolves once a fence
+     * says the GPU is done. Falls back to read() on WebGL1.
+     * @param {ReadOptions} [options]
+     * @returns {Promise<ArrayBufferView>}
+     */
+    readAsync(options?: ReadOptions): Promise<ArrayBufferView> {
+        const gl = this.gl;
+        if (!isWebGL2(gl)) {
+            try {
+                return Promise.resolve(this.read(options));
+            } catch (e) {
+                return Promise.reject(e);
+            }
+        }
+        const r = this.readRegion(options);
+        const pixels = new (arrayType(r.type))(r.width * r.height * r.elements);
+        const buffer = new Buffer(gl, gl.PIXEL_PACK_BUFFER).bind();
+        gl.bufferData(gl.PIXEL_PACK_BUFFER, pixels.byteLength, gl.STREAM_READ);
+        gl.readPixels(r.x, r.y, r.width, r.height, r.format, r.type, 0);
+        glState(gl).bindBuffer(gl.PIXEL_PACK_BUFFER, null);
+        const sync = gl.fenceSync(gl.SYNC_GPU_COMMANDS_COMPLETE, 0);
+        gl.flush();
+
+        return new Promise(function(resolve, reject) {
+            const poll = function() {
+                const status = gl.clientWaitSync(sync as WebGLSync, 0, 0);
+                if (status === gl.TIMEOUT_EXPIRED) {
+                    nextFrame(poll);
+                    return;
+                }
+                gl.deleteSync(sync);
+                if (status === gl.WAIT_FAILED) {
+                    buffer.dispose();
+                    reject(new Error("Waiting for pixel readback failed"));
+                    return;
+                }
+                buffer.bind();
+                gl.getBufferSubData(gl.PIXEL_PACK_BUFFER, 0, pixels);
+                glState(gl).bindBuffer(gl.PIXEL_PACK_BUFFER, null);
+                buffer.dispose();
+                if (r.flip) flipRows(pixels, r.width * r.elements, r.height);
+                resolve(pixels);
+            };
+            nextFrame(poll);
+        });
+    }
+
+    /**
+     * Bind the framebuffer for reading and work out what to read.
+     * @param {ReadOptions} [options]
+     */
+    private readRegion(options?: ReadOptions) {
+        const gl = this.gl;
+        const o = options || {};
+        const i = o.attachment || 0;
+        const texture = this.colors[i];
+        this.bind();
+        if (isWebGL2(gl) && this.framebuffer != null) {
+            gl.readBuffer(gl.COLOR_ATTACHMENT0 + i);
+        }
+
+        // use the attachment's own format if the implementation allows
+        // it, otherwise the format that is always readable
+        let format: GLenum = gl.RGBA, type: GLenum = gl.UNSIGNED_BYTE;
+        if (texture != null) {
+            const integer = [RED_INTEGER, RG_INTEGER, RGB_INTEGER, RGBA_INTEGER]
+                .indexOf(texture.format) >= 0;
+            if (gl.getParameter(gl.IMPLEMENTATION_COLOR_READ_FORMAT) === texture.format &&
+                gl.getParameter(gl.IMPLEMENTATION_COLOR_READ_TYPE) === texture.type) {
+                format = texture.format;
+                type = texture.type;
+            } else if (integer) {
+                format = RGBA_INTEGER;
+                type = [UNSIGNED_BYTE, UNSIGNED_SHORT, UNSIGNED_INT].indexOf(texture.type) >= 0 ?
+                    UNSIGNED_INT : INT;
+            } else if (texture.type === FLOAT || texture.type === HALF_FLOAT) {
+                type = FLOAT;
+            }
+        }
+
+        const x = o.x || 0, y = o.y || 0;
+        const width = o.width != null ? o.width :
+              (texture != null ? texture.width : gl.drawingBufferWidth) - x;
+        const height = o.height != null ? o.height :
+              (texture != null ? texture.height : gl.drawingBufferHeight) - y;
+        return {x, y, width, height, format, type,
+                elements: pixelElements(format, type), flip: Boolean(o.flip)};
+    }
+
+    /**
+     * Attach any texture to the bound framebuffer.
+     * @param {GLenum} attachment
+     * @param {Texture} texture
+     * @param {number} layer
+     * @returns {Framebuffer}
+     */
+    private attachTexture(attachment: GLenum, texture: Texture, layer: number): Framebuffer {
+        const gl = this.gl;
+        this.textures[attachment] = {texture, layer};
+        if (texture.target === gl.TEXTURE_CUBE_MAP) {
+            gl.framebufferTexture2D(gl.FRAMEBUFFER, attachment,
+                                    gl.TEXTURE_CUBE_MAP_POSITIVE_X+layer, texture.texture, 0);
+        } else if (texture.target !== gl.TEXTURE_2D) {
+            (gl as WebGL2RenderingContext).framebufferTextureLayer(
+                gl.FRAMEBUFFER, attachment, texture.texture, 0, layer);
+        } else {
+            gl.framebufferTexture2D(gl.FRAMEBUFFER, attachment,
+                                    gl.TEXTURE_2D, texture.texture, 0);
+        }
+        return this;
+    }
+
+    /**
+     * Create (or resize) and attach the renderbuffer.
+     * @param {GLenum} attachment
+     * @param {GLenum} format
+     * @param {number} width
+     * @param {number} height
+     * @returns {Framebuffer}
+     */
+    private attachRenderbuffer(attachment: GLenum, format: GLenum,
+                               width: number, height: number): Framebuffer {
+        const gl = this.gl;
+        this.bind();
+        if (this.renderbuffers[attachment] == null) {
+            this.renderbuffers[attachment] = own(this, gl.createRenderbuffer());
+        }
+        this.renderbuffer = this.renderbuffers[attachment];
+        gl.bindRenderbuffer(gl.RENDERBUFFER, this.renderbuffer);
+        gl.renderbufferStorage(gl.RENDERBUFFER, format, width, height);
+        this.storage[attachment] = {format, width, height};
+        gl.framebufferRenderbuffer(gl.FRAMEBUFFER, attachment,
+                                   gl.RENDERBUFFER, this.renderbuffer);
+        return this;
+    }
+
+    /**
+     * Route fragment outputs to every attached color attachment.
+     * @returns {Framebuffer}
+     */
+    private drawBuffers(): Framebuffer {
+        const gl = this.gl;
+        const buffers = [];
+        for (let i = 0; i < this.colors.length; i++) {
+            buffers.push(this.colors[i] != null ? gl.COLOR_ATTACHMENT0 + i : gl.NONE);
+        }
+        if (isWebGL2(gl)) {
+            gl.drawBuffers(buffers);
+        } else if (buffers.length > 1) {
+            const ext = capabilities(gl).extension("WEBGL_draw_buffers");
+            if (!ext) {
+                throw new Error("Multiple render targets require WEBGL_draw_buffers");
+            }
+            ext.drawBuffersWEBGL(buffers);
+        }
+        return this;
+    }
+}
+
+
+export type BufferData = BufferSource | number[];
+
+/**
+ * @param {BufferSource} data
+ * @returns {?GLenum} the GL component type matching a typed array
+ */
+function dataType(data: BufferSource): GLenum | null {
+    if (data instanceof Float32Array) return FLOAT;
+    if (data instanceof Uint16Array) return UNSIGNED_SHORT;
+    if (data instanceof Uint32Array) return UNSIGNED_INT;
+    if (data instanceof Uint8Array) return UNSIGNED_BYTE;
+    if (data instanceof Int8Array) return BYTE;
+    if (data instanceof Int16Array) return SHORT;
+    if (data instanceof Int32Array) return INT;
+    return null;
+}
+
+export class Buffer {
+    gl: WebGLAnyContext;
+    buffer: WebGLBuffer | null;
+    target: number;
+    /** bytes of contents written so far, see update(), subdata() and copy() */
+    size: number;
+    /** allocated bytes, at least size, see reserve() */
+    capacity: number;
+    /** component type of the last typed array uploaded, e.g. the index type */
+    type: GLenum | null;
+    usage: GLenum;
+    /** named in error messages */
+    label: string | null;
+    disposed: boolean;
+    /** the last whole upload of a STATIC_DRAW buffer, replayed after a context restore */
+    private contents: BufferSource | null;
+    /**
+     * Fluent WebGLBuffer wrapper.
+     * @param {WebGLAnyContext} gl
+     * @param {GLenum} [target] either GL_ARRAY_BUFFER or GL_ELEMENT_ARRAY_BUFFER
+     * @returns {WebGLProgram}
+     * @constructor
+     */
+    constructor(gl: WebGLAnyContext, target?: GLenum) {
+        this.gl = gl;
+        this.buffer = own(this, gl.createBuffer());
+        this.target = (target == null ? gl.ARRAY_BUFFER : target);
+        this.size = 0;
+        this.capacity = 0;
+        this.type = null;
+        this.usage = gl.DYNAMIC_DRAW;
+        this.label = null;
+        this.disposed = false;
+        this.contents = null;
+    }
+
+    /**
+     * @returns {string} "Buffer"
+     */
+    get kind(): string {
+        return "Buffer";
+    }
+
+    /**
+     * Binds this buffer to ARRAY_BUFFER.
+     * @returns {Buffer} this
+     */
+    bind(): Buffer {
+        alive(this);
+        glState(this.gl).bindBuffer(this.target, this.buffer);
+        return this;
+    }
+
+    /**
+     * @param {string} label names this in error messages and reports
+     * @returns {Buffer} this
+     */
+    setLabel(label: string): Buffer {
+        this.label = label;
+        return this;
+    }
+
+    /**
+     * Delete the buffer. Safe to call more than once.
+     */
+    dispose() {
+        if (this.disposed) return;
+        glState(this.gl).forget(this.buffer);
+        this.gl.deleteBuffer(this.buffer);
+        this.buffer = null;
+        this.size = this.capacity = 0;
+        this.disposed = true;
+    }
+
+    /**
+     * Recreate the buffer after a context restore. STATIC_DRAW contents
+     * set by update() come back, other buffers are zeroed at their size.
+     */
+    restore() {
+        if (this.disposed) return;
+        const gl = this.gl;
+        this.buffer = own(this, gl.createBuffer());
+        this.bind();
+        if (this.capacity > 0) gl.bufferData(this.target, this.capacity, this.usage);
+        if (this.contents != null) gl.bufferSubData(this.target, 0, this.contents);
+    }
+
+    /**
+     * @returns {number} allocated size, in bytes
+     */
+    bytes(): number {
+        return this.capacity;
+    }
+
+    /**
+     * Replace the contents of the buffer. Plain arrays become Uint16Array
+     * or Uint32Array element data, or Float32Array vertex data. The storage
+     * is only reallocated to grow or to change usage, so a reserve() holds.
+     * @param {ArrayBuffer|ArrayBufferView|Array<number>} data
+     * @param {GLenum} [usage]
+     * @returns {Buffer} this
+     */
+    update(data: BufferData, usage?: GLenum): Buffer {
+        const gl = this.gl;
+        data = this.convert(data);
+        usage = usage == null ? gl.DYNAMIC_DRAW : usage;
+        this.bind();
+        if (data.byteLength > this.capacity || this.usage !== usage) {
+            gl.bufferData(this.target, data, usage);
+            this.capacity = data.byteLength;
+            this.usage = usage;
+        } else {
+            gl.bufferSubData(this.target, 0, data);
+        }
+        this.size = data.byteLength;
+        this.type = dataType(data) || this.type;
+        this.contents = usage === gl.STATIC_DRAW ? data : null;
+        return this;
+    }
+
+    /**
+     * Update a range of the buffer, growing it first if needed. On WebGL1
+     * only a write from offset 0 over all the contents may grow it.
+     * @param {number} offset in bytes
+     * @param {ArrayBuffer|ArrayBufferView|Array<number>} data
+     * @returns {Buffer} this
+     */
+    subdata(offset: number, data: BufferData): Buffer {
+        const gl = this.gl;
+        data = this.convert(data);
+        const end = offset + data.byteLength;
+        // contents past offset are overwritten, so only those before it need keeping
+        if (end > this.capacity) this.grow(end, Math.min(offset, this.size));
+        this.bind();
+        gl.bufferSubData(this.target, offset, data);
+        this.size = Math.max(this.size, end);
+        this.contents = null;
+        this.type = dataType(data) || this.type;
+        return this;
+    }
+
+    /**
+     * Make sure the buffer can hold at least size bytes, at least doubling
+     * its capacity when it has to grow so that streamed geometry does not
+     * reallocate every frame. The WebGLBuffer stays the same, so
+     * VertexArrays and other users of it stay valid. WebGL1 cannot keep
+     * the contents, so there only an empty buffer may grow.
+     * @param {number} size in bytes
+     * @returns {Buffer} this
+     */
+    reserve(size: number): Buffer {
+        if (size > this.capacity) this.grow(size, this.size);
+        return this;
+    }
+
+    /**
+     * Reallocate to at least size bytes, keeping the first keep bytes.
+     * @param {number} size in bytes
+     * @param {number} keep in bytes
+     */
+    private grow(size: number, keep: number) {
+        const gl = this.gl;
+        alive(this);
+        const capacity = Math.max(size, this.capacity * 2);
+        if (keep > 0 && !isWebGL2(gl)) {
+            throw new Error(`Growing ${describe(this)} would lose its contents on WebGL1, ` +
+                            "update() it whole instead");
+        }
+        const state = glState(gl);
+        let scratch: WebGLBuffer | null = null;
+        if (keep > 0) {
+            // park the contents in a scratch buffer, since bufferData() drops them
+            const gl2 = gl as WebGL2RenderingContext;
+            scratch = gl2.createBuffer();
+            state.bindBuffer(gl2.COPY_READ_BUFFER, this.buffer);
+            state.bindBuffer(gl2.COPY_WRITE_BUFFER, scratch);
+            gl2.bufferData(gl2.COPY_WRITE_BUFFER, keep, gl2.STREAM_COPY);
+            gl2.copyBufferSubData(gl2.COPY_READ_BUFFER, gl2.COPY_WRITE_BUFFER, 0, 0, keep);
+        }
+        this.bind();
+        gl.bufferData(this.target, capacity, this.usage);
+        if (scratch != null) {
+            const gl2 = gl as WebGL2RenderingContext;
+            state.bindBuffer(gl2.COPY_READ_BUFFER, scratch);
+            gl2.copyBufferSubData(gl2.COPY_READ_BUFFER, this.target, 0, 0, keep);
+            state.bindBuffer(gl2.COPY_READ_BUFFER, null);
+            state.bindBuffer(gl2.COPY_WRITE_BUFFER, null);
+            state.forget(scratch);
+            gl2.deleteBuffer(scratch);
+        }
+        this.capacity = capacity;
+        this.contents = null;
+    }
+
+    /**
+     * Reallocate the storage at the same size, letting the driver hand
+     * out fresh memory instead of waiting on draws still using the old.
+     * The contents are lost.
+     * @returns {Buffer} this
+     */
+    orphan(): Buffer {
+        if (this.capacity > 0) {
+            this.bind();
+            this.gl.bufferData(this.target, this.capacity, this.usage);
+            this.size = 0;
+            this.contents = null;
+        }
+        return this;
+    }
+
+    /**
+     * Copy a range of another buffer into this one (WebGL2).
+     * @param {Buffer} source
+     * @param {number} [sourceOffset=0] in bytes
+     * @param {number} [offset=0] destination offset in bytes
+     * @param {number} [size] in bytes, defaults to the rest of source
+     * @returns {Buffer} this
+     */
+    copy(source: Buffer, sourceOffset = 0, offset = 0, size?: number): Buffer {
+        const gl = this.gl;
+        alive(this);
+        alive(source);
+        if (!isWebGL2(gl)) throw new Error("Buffer copies require WebGL2");
+        size = size == null ? source.size - sourceOffset : size;
+        if (offset + size > this.capacity) this.grow(offset + size, Math.min(offset, this.size));
+        const state = glState(gl);
+        state.bindBuffer(gl.COPY_READ_BUFFER, source.buffer);
+        state.bindBuffer(gl.COPY_WRITE_BUFFER, this.buffer);
+        gl.copyBufferSubData(gl.COPY_READ_BUFFER, gl.COPY_WRITE_BUFFER,
+                             sourceOffset, offset, size);
+        this.contents = null;
+        state.bindBuffer(gl.COPY_READ_BUFFER, null);
+        state.bindBuffer(gl.COPY_WRITE_BUFFER, null);
+        this.size = Math.max(this.size, offset + size);
+        if (this.type == null) this.type = source.type;
+        return this;
+    }
+
+    /**
+     * Read the contents of the buffer back (WebGL2). This stalls until
+     * the GPU is done writing to it.
+     * @param {ArrayBufferView} [dest] defaults to a typed array of this.type
+     * @param {number} [offset=0] source offset in bytes
+     * @returns {ArrayBufferView} dest
+     */
+    read(dest?: ArrayBufferView, offset = 0): ArrayBufferView {
+        const gl = this.gl;
+        alive(this);
+        if (!isWebGL2(gl)) throw new Error("Buffer readback requires WebGL2");
+        if (dest == null) {
+            const Type = arrayType(this.type == null ? UNSIGNED_BYTE : this.type);
+            // whole elements only, a trailing partial one is left out
+            dest = new Type(Math.floor((this.size - offset) / Type.BYTES_PER_ELEMENT));
+        }
+        glState(gl).bindBuffer(gl.COPY_READ_BUFFER, this.buffer);
+        gl.getBufferSubData(gl.COPY_READ_BUFFER, offset, dest);
+        glState(gl).bindBuffer(gl.COPY_READ_BUFFER, null);
+        return dest;
+    }
+
+    /**
+     * @param {ArrayBuffer|ArrayBufferView|Array<number>} data
+     * @returns {BufferSource} data as something bufferData() accepts
+     */
+    private convert(data: BufferData): BufferSource {
+        if (!(data instanceof Array)) return data;
+        if (this.target === this.gl.ELEMENT_ARRAY_BUFFER) {
+            const wide = data.some(function(i) { return i > 0xFFFF; });
+            return wide ? new Uint32Array(data) : new Uint16Array(data);
+        }
+        return new Float32Array(data);
+    }
+}
+
+/**
+ * Where a line of preprocessed shader source came from.
+ */
+export interface SourceLine {
+    file: string;
+    /** 1-based line number within file */
+    line: number;
+    text: string;
+}
+
+/**
+ * Preprocessed shader source, with a map back to the original files.
+ */
+export interface ShaderSource {
+    source: string;
+    /** lines[i] is the origin of line i + 1 of source */
+    lines: SourceLine[];
+}
+
+export interface PreprocessOptions {
+    /** injected as #define lines right after #version */
+    defines?: {[name: string]: string | number | boolean};
+    /** name of the root source, used in error messages */
+    file?: string;
+}
+
+/**
+ * Trivially map a plain source string onto itself.
+ * @param {string} source
+ * @param {string} file
+ * @returns {ShaderSource}
+ */
+function plainSource(source: string, file: string): ShaderSource {
+    const lines = source.split("\n").map(function(text, i) {
+        return {file, line: i + 1, text};
+    });
+    return {source, lines};
+}
+
+/**
+ * Turn a shader info log into an error pointing at the original files.
+ * @param {string} log as returned by getShaderInfoLog()
+ * @param {ShaderSource} source
+ * @returns {Error}
+ */
+function shaderError(log: string, source: ShaderSource): Error {
+    const messages = log.split("\n").filter(Boolean).map(function(entry) {
+        const match = /^(ERROR|WARNING):\s*\d+:(\d+):\s*(.*)$/.exec(entry);
+        if (match == null) return entry;
+        const index = Number(match[2]) - 1;
+        const origin = source.lines[index];
+        if (origin == null) return entry;
+        const excerpt = [];
+        for (let i = Math.max(0, index - 1); i <= index + 1 && i < source.lines.length; i++) {
+            const line = source.lines[i];
+            excerpt.push(`${i === index ? ">" : " "} ${line.file}:${line.line} | ${line.text}`);
+        }
+        return `${match[1]}: ${origin.file}:${origin.line}: ${match[3]}\n${excerpt.join("\n")}`;
+    });
+    return new Error(messages.join("\n") || "Failed to compile shader");
+}
+
+export class Preprocessor {
+    chunks: {[name: string]: string};
+    /**
+     * GLSL preprocessor resolving #include "name" against a registry of
+     * named chunks. Includes are never fetched while processing: load
+     * URLs with preload() first, as loadProgram() and programAsync() do.
+     * Each file is included at most once per shader.
+     * @param {Object} [chunks] initial named chunks
+     * @constructor
+     */
+    constructor(chunks?: {[name: string]: string}) {
+        this.chunks = Object.assign({}, chunks);
+    }
+
+    /**
+     * Register a named chunk for #include.
+     * @param {string} name
+     * @param {string} source
+     * @returns {Preprocessor} this
+     */
+    register(name: string, source: string): Preprocessor {
+        this.chunks[name] = source;
+        return this;
+    }
+
+    /**
+     * @param {string} source GLSL source
+     * @param {PreprocessOptions} [options]
+     * @returns {ShaderSource}
+     */
+    process(source: string, options?: PreprocessOptions): ShaderSource {
+        options = options || {};
+        const file = options.file || "shader";
+        const body: SourceLine[] = [];
+        const version: SourceLine[] = [];
+        const included: {[name: string]: boolean} = {};
+        included[file] = true;
+
+        const expand = (text: string, name: string) => {
+            const lines = text.split("\n");
+            for (let i = 0; i < lines.length; i++) {
+                const line = {file: name, line: i + 1, text: lines[i]};
+                const include = /^\s*#\s*include\s+["<]([^">]+)[">]/.exec(line.text);
+                if (/^\s*#\s*version\b/.test(line.text)) {
+                    if (version.length === 0) version.push(line);
+                } else if (include != null) {
+                    const target = include[1];
+                    if (!included[target]) {
+                        included[target] = true;
+                        expand(this.resolve(target, name, line.line), target);
+                    }
+                } else {
+                    body.push(line);
+                }
+            }
+        };
+        expand(source, file);
+
+        const defines: SourceLine[] = [];
+        for (const name in options.defines) {
+            const value = options.defines[name];
+            if (value === false) continue;
+            const text = value === true ? `#define ${name}` : `#define ${name} ${value}`;
+            defines.push({file: "<defines>", line: defines.length + 1, text});
+        }
+
+        const lines = version.concat(defines, body);
+        return {
+            source: lines.map(function(line) { return line.text; }).join("\n"),
+            lines
+        };
+    }
+
+    /**
+     * Load every #include target of source that is not registered yet,
+     * recursively, and register it under its name.
+     * @param {string} source GLSL source
+     * @param {Function} loader returns a Promise of the source at a URL
+     * @returns {Promise<Preprocessor>} this, once all includes are registered
+     */
+    preload(source: string, loader: (url: string) => Promise<string>): Promise<Preprocessor> {
+        const pending: Promise<unknown>[] = [];
+        const re = /^\s*#\s*include\s+["<]([^">]+)[">]/gm;
+        let match;
+        while ((match = re.exec(source)) != null) {
+            const name = match[1];
+            if (this.chunks[name] != null) continue;
+            pending.push(loader(name).then((chunk) => {
+                if (this.chunks[name] != null) return;
+                this.chunks[name] = chunk;
+                return this.preload(chunk, loader);
+            }));
+        }
+        return Promise.all(pending).then(() => this);
+    }
+
+    /**
+     * @param {string} name include target
+     * @param {string} from including file, for error messages
+     * @param {number} line including line, for error messages
+     * @returns {string} the source of the target
+     */
+    private resolve(name: string, from: string, line: number): string {
+        if (this.chunks[name] != null) return this.chunks[name];
+        // no synchronous fetch here, so that nothing blocks on the network
+        throw new Error(`${from}:${line}: Cannot resolve #include "${name}": it is not registered ` +
+                        "or preloaded, see Preprocessor.preload() and Igloo.programAsync()");
+    }
+}
+
+type UniformSetter = (gl: WebGLAnyContext, loc: WebGLUniformLocation,
+                      data: ArrayLike<number>, transpose: boolean) => void;
+
+/**
+ * The WebGL uniform setters by name, with one signature. The unsigned and
+ * non-square ones exist only on WebGL2, whose types only WebGL2 reports.
+ */
+const UNIFORM_SETTERS: {[method: string]: UniformSetter} = {
+    uniform1fv: (gl, loc, data) => gl.uniform1fv(loc, data as Float32List),
+    uniform2fv: (gl, loc, data) => gl.uniform2fv(loc, data as Float32List),
+    uniform3fv: (gl, loc, data) => gl.uniform3fv(loc, data as Float32List),
+    uniform4fv: (gl, loc, data) => gl.uniform4fv(loc, data as Float32List),
+    uniform1iv: (gl, loc, data) => gl.uniform1iv(loc, data as Int32List),
+    uniform2iv: (gl, loc, data) => gl.uniform2iv(loc, data as Int32List),
+    uniform3iv: (gl, loc, data) => gl.uniform3iv(loc, data as Int32List),
+    uniform4iv: (gl, loc, data) => gl.uniform4iv(loc, data as Int32List),
+    uniform1uiv: (gl, loc, data) => (gl as WebGL2RenderingContext).uniform1uiv(loc, data as Uint32List),
+    uniform2uiv: (gl, loc, data) => (gl as WebGL2RenderingContext).uniform2uiv(loc, data as Uint32List),
+    uniform3uiv: (gl, loc, data) => (gl as WebGL2RenderingContext).uniform3uiv(loc, data as Uint32List),
+    uniform4uiv: (gl, loc, data) => (gl as WebGL2RenderingContext).uniform4uiv(loc, data as Uint32List),
+    uniformMatrix2fv: (gl, loc, data, transpose) => gl.uniformMatrix2fv(loc, transpose, data as Float32List),
+    uniformMatrix3fv: (gl, loc, data, transpose) => gl.uniformMatrix3fv(loc, transpose, data as Float32List),
+    uniformMatrix4fv: (gl, loc, data, transpose) => gl.uniformMatrix4fv(loc, transpose, data as Float32List),
+    uniformMatrix2x3fv: (gl, loc, data, transpose) =>
+        (gl as WebGL2RenderingContext).uniformMatrix2x3fv(loc, transpose, data as Float32List),
+    uniformMatrix2x4fv: (gl, loc, data, transpose) =>
+        (gl as WebGL2RenderingContext).uniformMatrix2x4fv(loc, transpose, data as Float32List),
+    uniformMatrix3x2fv: (gl, loc, data, transpose) =>
+        (gl as WebGL2RenderingContext).uniformMatrix3x2fv(loc, transpose, data as Float32List),
+    uniformMatrix3x4fv: (gl, loc, data, transpose) =>
+        (gl as WebGL2RenderingContext).uniformMatrix3x4fv(loc, transpose, data as Float32List),
+    uniformMatrix4x2fv: (gl, loc, data, transpose) =>
+        (gl as WebGL2RenderingContext).uniformMatrix4x2fv(loc, transpose, data as Float32List),
+    uniformMatrix4x3fv: (gl, loc, data, transpose) =>
+        (gl as WebGL2RenderingContext).uniformMatrix4x3fv(loc, transpose, data as Float32List),
+};
+
+/**
+ * How to upload a particular GLSL uniform type.
+ */
+interface UniformType {
+    /** GLSL type name, for error messages */
+    name: string;
+    /** number of components per array element */
+    components: number;
+    /** WebGL setter method, see UNIFORM_SETTERS */
+    method: string;
+    matrix?: boolean;
+}
+
+const SAMPLER: UniformType = {name: "sampler", components: 1, method: "uniform1iv"};
+
+/**
+ * Uniform types as reported by getActiveUniform(). Numeric keys are used
+ * because WebGL1 contexts lack the WebGL2 enum names.
+ */
+const UNIFORM_TYPES: {[type: number]: UniformType} = {
+    0x1406: {name: "float", components: 1, method: "uniform1fv"},
+    0x8B50: {name: "vec2", components: 2, method: "uniform2fv"},
+    0x8B51: {name: "vec3", components: 3, method: "uniform3fv"},
+    0x8B52: {name: "vec4", components: 4, method: "uniform4fv"},
+    0x1404: {name: "int", components: 1, method: "uniform1iv"},
+    0x8B53: {name: "ivec2", components: 2, method: "uniform2iv"},
+    0x8B54: {name: "ivec3", components: 3, method: "uniform3iv"},
+    0x8B55: {name: "ivec4", components: 4, method: "uniform4iv"},
+    0x1405: {name: "uint", components: 1, method: "uniform1uiv"},
+    0x8DC6: {name: "uvec2", components: 2, method: "uniform2uiv"},
+    0x8DC7: {name: "uvec3", components: 3, method: "uniform3uiv"},
+    0x8DC8: {name: "uvec4", components: 4, method: "uniform4uiv"},
+    0x8B56: {name: "bool", components: 1, method: "uniform1iv"},
+    0x8B57: {name: "bvec2", components: 2, method: "uniform2iv"},
+    0x8B58: {name: "bvec3", components: 3, method: "uniform3iv"},
+    0x8B59: {name: "bvec4", components: 4, method: "uniform4iv"},
+    0x8B5A: {name: "mat2", components: 4, method: "uniformMatrix2fv", matrix: true},
+    0x8B5B: {name: "mat3", components: 9, method: "uniformMatrix3fv", matrix: true},
+    0x8B5C: {name: "mat4", components: 16, method: "uniformMatrix4fv", matrix: true},
+    0x8B65: {name: "mat2x3", components: 6, method: "uniformMatrix2x3fv", matrix: true},
+    0x8B66: {name: "mat2x4", components: 8, method: "uniformMatrix2x4fv", matrix: true},
+    0x8B67: {name: "mat3x2", components: 6, method: "uniformMatrix3x2fv", matrix: true},
+    0x8B68: {name: "mat3x4", components: 12, method: "uniformMatrix3x4fv", matrix: true},
+    0x8B69: {name: "mat4x2", components: 8, method: "uniformMatrix4x2fv", matrix: true},
+    0x8B6A: {name: "mat4x3", components: 12, method: "uniformMatrix4x3fv", matrix: true},
+    0x8B5E: SAMPLER, // sampler2D
+    0x8B5F: SAMPLER, // sampler3D
+    0x8B60: SAMPLER, // samplerCube
+    0x8B62: SAMPLER, // sampler2DShadow
+    0x8DC1: SAMPLER, // sampler2DArray
+    0x8DC4: SAMPLER, // sampler2DArrayShadow
+    0x8DC5: SAMPLER, // samplerCubeShadow
+    0x8DCA: SAMPLER, // isampler2D
+    0x8DCB: SAMPLER, // isampler3D
+    0x8DCC: SAMPLER, // isamplerCube
+    0x8DCF: SAMPLER, // isampler2DArray
+    0x8DD2: SAMPLER, // usampler2D
+    0x8DD3: SAMPLER, // usampler3D
+    0x8DD4: SAMPLER, // usamplerCube
+    0x8DD7: SAMPLER, // usampler2DArray
+};
+
+/**
+ * An active uniform, as reflected from a linked program.
+ */
+export interface UniformInfo {
+    /** name without any trailing "[0]" */
+    name: string;
+    type: GLenum;
+    /** array length, 1 for non-arrays */
+    size: number;
+    location: WebGLUniformLocation;
+}
+
+export type UniformValue = number | boolean | ArrayLike<number>;
+
+/**
+ * Normalize a uniform value and check it against the uniform's shape.
+ * @param {string} name uniform name, for error messages
+ * @param {UniformValue} value
+ * @param {UniformType} type
+ * @param {number} size array length of the uniform
+ * @returns {ArrayLike<number>}
+ */
+function uniformData(name: string, value: UniformValue, type: UniformType, size: number): ArrayLike<number> {
+    let data: ArrayLike<number>;
+    if (typeof value === "number" || typeof value === "boolean") {
+        data = [Number(value)];
+    } else if (value != null && typeof value.length === "number") {
+        data = value;
+    } else {
+        throw new Error(`Invalid value for uniform '${name}': ${value}`);
+    }
+    const n = data.length / type.components;
+    if (n < 1 || n > size || n !== Math.floor(n)) {
+        const expected = size > 1 ?
+              `${type.name}[${size}] (a multiple of ${type.components} values, ` +
+              `up to ${type.components * size})` :
+              `${type.name} (${type.components} value${type.components > 1 ? "s" : ""})`;
+        throw new Error(`Uniform '${name}' is a ${expected}, got ${data.length} values`);
+    }
+    return data;
+}
+
+/**
+ * Vertex shader outputs to capture with transform feedback.
+ */
+export interface FeedbackOptions {
+    varyings: string[];
+    /** one buffer per varying instead of a single interleaved buffer */
+    separate?: boolean;
+}
+
+export class Program {
+    gl: WebGLAnyContext;
+    program: WebGLProgram;
+    vars: {[index: string]: WebGLUniformLocation};
+    uniforms: {[name: string]: UniformInfo};
+    vao: VertexArray | null;
+    private missing: {[name: string]: boolean};
+    /** named in error messages */
+    label: string | null;
+    disposed: boolean;
+    private shaders: {shader: WebGLShader, source: ShaderSource}[];
+    private feedback: FeedbackOptions | undefined;
+    private linked: boolean;
+    /**
+     * Fluent WebGLProgram wrapper for managing variables and data. The
+     * constructor compiles and links a program from a pair of shaders.
+     * Throws an exception if compiling or linking fails.
+     * @param {WebGLAnyContext} gl
+     * @param {string|ShaderSource} vertex Shader source
+     * @param {string|ShaderSource} fragment Shader source
+     * @param {boolean} [defer=false] only submit the compile and link, leaving
+     *     the status checks to a later check() call
+     * @param {FeedbackOptions} [feedback] WebGL2 transform feedback varyings
+     * @constructor
+     */
+    constructor(gl: WebGLAnyContext, vertex: string | ShaderSource, fragment: string | ShaderSource,
+                defer = false, feedback?: FeedbackOptions) {
+        this.gl = gl;
+        this.vars = {};
+        this.vao = null;
+        this.uniforms = {};
+        this.missing = {};
+        this.linked = false;
+        this.label = null;
+        this.disposed = false;
+        this.shaders = [];
+        this.feedback = feedback;
+        this.program = this.link(vertex, fragment);
+        if (!defer) {
+            try {
+                this.check();
+            } catch (e) {
+                this.dispose();
+                throw e;
+            }
+        }
+    }
+
+    /**
+     * @returns {string} "Program"
+     */
+    get kind(): string {
+        return "Program";
+    }
+
+    /**
+     * Submit the compile and link of a new WebGLProgram.
+     * @param {string|ShaderSource} vertex
+     * @param {string|ShaderSource} fragment
+     * @returns {WebGLProgram}
+     */
+    private link(vertex: string | ShaderSource, fragment: string | ShaderSource): WebGLProgram {
+        const gl = this.gl;
+        const p = own(this, gl.createProgram());
+        if (!p) throw new Error("Failed to create program");
+        this.shaders = [
+            this.compileShader(gl.VERTEX_SHADER, vertex),
+            this.compileShader(gl.FRAGMENT_SHADER, fragment),
+        ];
+        gl.attachShader(p, this.shaders[0].shader);
+        gl.attachShader(p, this.shaders[1].shader);
+        const feedback = this.feedback;
+        if (feedback != null) {
+            if (!isWebGL2(gl)) throw new Error("Transform feedback requires WebGL2");
+            gl.transformFeedbackVaryings(p, feedback.varyings, feedback.separate ?
+                                         gl.SEPARATE_ATTRIBS : gl.INTERLEAVED_ATTRIBS);
+        }
+        gl.linkProgram(p);
+        return p;
+    }
+
+    /**
+     * @returns {boolean} true once the driver has finished compiling and
+     *     linking, always true without KHR_parallel_shader_compile
+     */
+    isComplete(): boolean {
+        const ext = capabilities(this.gl).extension("KHR_parallel_shader_compile");
+        if (ext == null) return true;
+        return this.gl.getProgramParameter(this.program, ext.COMPLETION_STATUS_KHR);
+    }
+
+    /**
+     * Check the compile and link status of a deferred program, blocking
+     * if it is not complete yet. Throws the same errors as makeShader().
+     * @returns {Program} this
+     */
+    check(): Program {
+        if (this.linked) return this;
+        const gl = this.gl;
+        if (!gl.getProgramParameter(this.program, gl.LINK_STATUS)) {
+            for (const {shader, source} of this.shaders) {
+                if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+                    throw shaderError(gl.getShaderInfoLog(shader) || "", source);
+                }
+            }
+            throw new Error(gl.getProgramInfoLog(this.program) || "Failed to link program");
+        }
+        this.linked = true;
+        // the linked program no longer needs its shader objects
+        for (const {shader} of this.shaders) {
+            gl.detachShader(this.program, shader);
+            gl.deleteShader(shader);
+        }
+        this.reflect();
+        return this;
+    }
+
+    /**
+     * @param {string} label names this in error messages and reports
+     * @returns {Program} this
+     */
+    setLabel(label: string): Program {
+        this.label = label;
+        return this;
+    }
+
+    /**
+     * Delete the program, and its shaders if it never linked. Safe to
+     * call more than once.
+     */
+    dispose() {
+        if (this.disposed) return;
+        const gl = this.gl;
+        if (!this.linked) {
+            for (const {shader} of this.shaders) gl.deleteShader(shader);
+        }
+        glState(gl).forget(this.program);
+        gl.deleteProgram(this.program);
+        this.disposed = true;
+    }
+
+    /**
+     * Recompile and relink from the original sources after a context
+     * restore. Uniform values are lost and must be set again.
+     */
+    restore() {
+        if (this.disposed) return;
+        this.vars = {};
+        this.uniforms = {};
+        this.linked = false;
+        this.program = this.link(this.shaders[0].source, this.shaders[1].source);
+        this.check();
+    }
+
+    /**
+     * @returns {number} always 0, program memory is not estimated
+     */
+    bytes(): number {
+        return 0;
+    }
+
+    /**
+     * Collect the active uniforms of the linked program, including array
+     * and struct members, into the uniforms table.
+     */
+    private reflect() {
+        const gl = this.gl;
+        const count = gl.getProgramParameter(this.program, gl.ACTIVE_UNIFORMS);
+        for (let i = 0; i < count; i++) {
+            const active = gl.getActiveUniform(this.program, i);
+            if (active == null) continue;
+            const location = gl.getUniformLocation(this.program, active.name);
+            if (location == null) continue; // uniform block member
+            const name = active.name.replace(/\[0\]$/, "");
+            const info = {name, type: active.type, size: active.size, location};
+            this.uniforms[name] = info;
+            if (name !== active.name) this.uniforms[active.name] = info;
+        }
+    }
+
+    /**
+     * Find a uniform by name, including individual array elements.
+     * @param {string} name
+     * @returns {?UniformInfo}
+     */
+    uniformInfo(name: string): UniformInfo | null {
+        if (this.uniforms[name] != null) return this.uniforms[name];
+        const match = /^(.*)\[(\d+)\]$/.exec(name);
+        if (match == null) return null;
+        const array = this.uniforms[match[1]];
+        const index = Number(match[2]);
+        if (array == null || index >= array.size) return null;
+        const location = this.gl.getUniformLocation(this.program, name);
+        if (location == null) return null;
+        return this.uniforms[name] = {
+            name, type: array.type, size: array.size - index, location
+        };
+    }
+
+    /**
+     * Set a uniform using its reflected type to pick the right setter.
+     * Uniforms the driver optimized away only produce a warning.
+     * @param {string} name uniform variable name
+     * @param {number|boolean|ArrayLike<number>} value
+     * @returns {Program} this
+     */
+    set(name: string, value: UniformValue): Program {
+        alive(this);
+        const info = this.uniformInfo(name);
+        if (info == null) {
+            if (!this.missing[name]) {
+                this.missing[name] = true;
+                console.warn(`Uniform '${name}' is not active in this program`);
+            }
+            return this;
+        }
+        const type = UNIFORM_TYPES[info.type];
+        if (type == null) {
+            throw new Error(`Uniform '${name}' has unsupported type 0x${info.type.toString(16)}`);
+        }
+
+        const data = uniformData(name, value, type, info.size);
+        UNIFORM_SETTERS[type.method](this.gl, info.location, data, false);
+        return this;
+    }
+
+    /**
+     * Compile a shader from source. Compile errors are reported against
+     * the original files when given a preprocessed ShaderSource.
+     * @param {number} type
+     * @param {string|ShaderSource} source
+     * @returns {WebGLShader}
+     */
+    makeShader(type: number, source: string | ShaderSource): WebGLShader {
+        const gl = this.gl;
+        const compiled = this.compileShader(type, source);
+        if (gl.getShaderParameter(compiled.shader, gl.COMPILE_STATUS)) {
+            return compiled.shader;
+        } else {
+            throw shaderError(gl.getShaderInfoLog(compiled.shader) || "", compiled.source);
+        }
+    }
+
+    /**
+     * Submit a shader for compilation without waiting for the result.
+     * @param {number} type
+     * @param {string|ShaderSource} source
+     * @returns {{shader: WebGLShader, source: ShaderSource}}
+     */
+    private compileShader(type: number, source: string | ShaderSource) {
+        const gl = this.gl;
+        const shader = own(this, gl.createShader(type));
+
+        if (!shader) throw new Error("Failed to create shader");
+
+        if (typeof source === "string") {
+            const file = type === gl.VERTEX_SHADER ? "vertex" : "fragment";
+            source = plainSource(source, file);
+        }
+        gl.shaderSource(shader, source.source);
+        gl.compileShader(shader);
+        return {shader, source};
+    }
+
+    /**
+     * Tell WebGL to use this program right now.
+     * @returns {Program} this
+     */
+    use(): Program {
+        alive(this);
+        glState(this.gl).useProgram(this.program);
+        return this;
+    }
+
+    /**
+     * Declare/set a uniform or set a uniform's data.
+     * @param {string} name uniform variable name
+     * @param {number|Array<number>} [value]
+     * @param {boolean} [i] if true use the integer version
+     * @param {number} [dim] dimension of the variable
+     * @returns {Program} this
+     */
+    uniform(name: string, value: number|Array<number>, i?: boolean, dim?: number): Program {
+        alive(this);
+        if (this.vars[name] == null) {
+            const loc = this.gl.getUniformLocation(this.program, name);
+            if (!loc) throw new Error(`Failed to locate uniform '${name}'`);
+
+            this.vars[name] = loc
+        }
+
+        const v = this.vars[name];
+        if (Igloo.isArray(value)) {
+            const arrVal = value as Array<number>;
+            const l = dim ? dim : arrVal.length;
+            const method = "uniform" + l + (i ? "i" : "f") + "v";
+            // hack to dynamically access method
+            (this.gl as any)[method](v, arrVal);
+        } else if (typeof value === "number" || typeof value === "boolean") {
+            if (i) {
+                this.gl.uniform1i(v, value);
+            } else {
+                this.gl.uniform1f(v, value);
+            }
+        } else {
+            throw new Error("Invalid uniform value: " + value);
+        }
+        
+        return this;
+    }
+
+    /**
+     * Bind a named uniform block of this program to a binding point.
+     * @param {string} name uniform block name
+     * @param {number} point binding point, as given to UniformBlock.bind()
+     * @returns {Program} this
+     */
+    uniformBlock(name: string, point: number): Program {
+        alive(this);
+        const gl = this.gl;
+        if (!isWebGL2(gl)) throw new Error("Uniform blocks require WebGL2");
+        const index = gl.getUniformBlockIndex(this.program, name);
+        if (index === gl.INVALID_INDEX) {
+            if (!this.missing[name]) {
+                this.missing[name] = true;
+                console.warn(`Uniform block '${name}' is not active in this program`);
+            }
+            return this;
+        }
+        gl.uniformBlockBinding(this.program, index, point);
+        return this;
+    }
+
+    /**
+     * Set a uniform's data to a specific matrix.
+     * @param {string} name uniform variable name
+     * @param {Array|ArrayBufferView} matrix
+     * @param {boolean} [transpose=false]
+     * @returns {Program} this
+     */
+    matrix(name: string, matrix: Array<number>, transpose?: boolean): Program {
+        alive(this);
+        const info = this.uniformInfo(name);
+        const type = info && UNIFORM_TYPES[info.type];
+        if (info != null && type != null && type.matrix) {
+            UNIFORM_SETTERS[type.method](this.gl, info.location, matrix, Boolean(transpose));
+            return this;
+        }
+
+        if (this.vars[name] == null) {
+            const loc = this.gl.getUniformLocation(this.program, name);
+            if (!loc) throw new Error(`Failed to locate uniform '${name}'`);
+
+            this.vars[name] = loc
+        }
+
+        const method = "uniformMatrix" + Math.sqrt(matrix.length) + "fv";
+        (this.gl as any)[method](this.vars[name], Boolean(transpose), matrix);
+        return this;
+    }
+
+    /**
+     * Like the uniform() method, but using integers.
+     * @param {string} name uniform variable name
+     * @param {number|Array<number>} [value]
+     * @returns {Program} this
+     */
+    uniformi(name: string, value: number | number[]): Program {
+        return this.uniform(name, value, true);
+    }
+
+    /**
+     * Declare an attrib or set an attrib's buffer.
+     * @param {string} name attrib variable name
+     * @param {Buffer} [value]
+     * @param {number} [size] element size (required if value is provided)
+     * @param {number} [stride=0]
+     * @param {number} [divisor] instancing divisor, left unchanged if omitted
+     * @returns {Program} this
+     */
+    attrib(name: string, value: Buffer, size: number, stride: number, divisor?: number): Program {
+        alive(this);
+        const gl = this.gl;
+        const location = this.attribLocation(name);
+
+        value.bind();
+        gl.enableVertexAttribArray(location);
+        gl.vertexAttribPointer(location, size, gl.FLOAT,
+                            false, stride == null ? 0 : stride, 0);
+        if (divisor != null) vertexAttribDivisor(gl, location, divisor);
+        return this;
+    }
+
+    /**
+     * Look up the location of an attrib, caching it for later calls.
+     * @param {string} name attrib variable name
+     * @returns {number} the location, or -1 if the attrib is not active
+     */
+    attribLocation(name: string): number {
+        alive(this);
+        if (this.vars[name] == null) {
+            const location = this.gl.getAttribLocation(this.program, name);
+            if (location === -1 && debugging(this.gl)) {
+                throw new Error(`${describe(this)}: attrib '${name}' is not active ` +
+                                "(missing from the vertex shader, or optimized away)");
+            }
+            this.vars[name] = location;
+        }
+        return this.vars[name] as number;
+    }
+
+    /**
+     * Set the vertex array to bind for subsequent draw() calls.
+     * @param {?VertexArray} vertexArray null to go back to plain attribs
+     * @returns {Program} this
+     */
+    vertexArray(vertexArray: VertexArray | null): Program {
+        this.vao = vertexArray;
+        return this;
+    }
+
+    /**
+     * Call glDrawArrays or glDrawElements with this program.
+     * @param {number} mode
+     * @param {number} count the number of vertex attribs to render
+     * @param {GLenum|Buffer} [type] use glDrawElements of this type, or with
+     *     this element buffer and its type; inferred from the vertex array
+     * @param {number} [offset=0] first vertex, or byte offset into the elements
+     * @returns {Program} this
+     */
+    draw(mode: number, count: number, type?: GLenum | Buffer, offset = 0): Program {
+        alive(this);
+        const gl = this.gl;
+        if (this.vao != null) this.vao.bind();
+        const elements = this.elementType(type);
+        if (debugging(gl)) {
+            validateDraw(this, elements == null ? offset + count : 0, elements, count, offset, 0);
+        }
+        if (elements == null) {
+            gl.drawArrays(mode, offset, count);
+        } else {
+            gl.drawElements(mode, count, elements, offset);
+        }
+        return this.finish();
+    }
+
+    /**
+     * Call glDrawArraysInstanced with this program.
+     * @param {number} mode
+     * @param {number} first the first vertex to render
+     * @param {number} count the number of vertex attribs to render
+     * @param {number} instances the number of instances to render
+     * @returns {Program} this
+     */
+    drawArraysInstanced(mode: number, first: number, count: number, instances: number): Program {
+        alive(this);
+        const gl = this.gl;
+        if (this.vao != null) this.vao.bind();
+        if (debugging(gl)) validateDraw(this, first + count, null, 0, 0, instances);
+        if (isWebGL2(gl)) {
+            gl.drawArraysInstanced(mode, first, count, instances);
+        } else {
+            instancing(gl).drawArraysInstancedANGLE(mode, first, count, instances);
+        }
+        return this.finish();
+    }
+
+    /**
+     * Call glDrawElementsInstanced with this program.
+     * @param {number} mode
+     * @param {number} count the number of elements to render
+     * @param {?GLenum|Buffer} type of the element buffer, or the element
+     *     buffer itself; null to infer it from the vertex array
+     * @param {number} offset byte offset into the element buffer
+     * @param {number} instances the number of instances to render
+     * @returns {Program} this
+     */
+    drawElementsInstanced(mode: number, count: number, type: GLenum | Buffer | null,
+                          offset: number, instances: number): Program {
+        const gl = this.gl;
+        alive(this);
+        if (this.vao != null) this.vao.bind();
+        const elements = this.elementType(type);
+        if (elements == null) throw new Error("No element buffer type to draw with");
+        type = elements;
+        if (debugging(gl)) validateDraw(this, 0, type, count, offset, instances);
+        if (isWebGL2(gl)) {
+            gl.drawElementsInstanced(mode, count, type, offset, instances);
+        } else {
+            instancing(gl).drawElementsInstancedANGLE(mode, count, type, offset, instances);
+        }
+        return this.finish();
+    }
+
+    /**
+     * Work out the index type of an element draw. Binds the element
+     * buffer when given one.
+     * @param {?GLenum|Buffer} [type]
+     * @returns {?GLenum} null for a non-indexed draw
+     */
+    private elementType(type?: GLenum | Buffer | null): GLenum | null {
+        if (type instanceof Buffer) {
+            type.bind();
+            return type.type == null ? this.gl.UNSIGNED_SHORT : type.type;
+        }
+        if (type != null) return type;
+        const elements = this.vao && this.vao.elements;
+        if (elements == null) return null;
+        return elements.type == null ? this.gl.UNSIGNED_SHORT : elements.type;
+    }
+
+    /**
+     * Clean up after a draw call and check for errors.
+     * @returns {Program} this
+     */
+    private finish(): Program {
+        const gl = this.gl;
+        if (this.vao != null) this.vao.unbind();
+        const error = gl.getError();
+        if (error !== gl.NO_ERROR && !gl.isContextLost()) {
+            throw new Error(`WebGL error ${enumName(gl, error)} drawing with ${describe(this)}`);
+        }
+        return this;
+    }
+
+    /**
+     * Disables all attribs from this program.
+     * @returns {Program} this
+     */
+    disable(): Program {
+        for (const attrib in this.vars) {
+            const location = this.vars[attrib];
+            if (this.vars.hasOwnProperty(attrib)) {
+                if (typeof location === "number") {
+                    this.gl.disableVertexAttribArray(location);
+                }
+            }
+        }
+        return this;
+    }
+}
+
+/**
+ * Where a single vertex attrib pulls its data from.
+ */
+export interface VertexAttrib {
+    buffer: Buffer;
+    /** number of components per vertex (1 to 4) */
+    size: number;
+    /** component type, defaults to GL_FLOAT */
+    type?: GLenum;
+    normalized?: boolean;
+    /** use vertexAttribIPointer (WebGL2 integer attribs) */
+    integer?: boolean;
+    stride?: number;
+    offset?: number;
+    divisor?: number;
+}
+
+/**
+ * Declarative description of a VertexArray. Attribs are keyed by name when
+ * a Program is given to resolve them, otherwise by location.
+ */
+export interface VertexLayout {
+    attribs: {[name: string]: VertexAttrib};
+    elements?: Buffer;
+}
+
+/**
+ * Point an attrib location at a buffer, recording into the bound vertex
+ * array if there is one.
+ * @param {WebGLAnyContext} gl
+ * @param {number} location
+ * @param {VertexAttrib} attrib
+ */
+function vertexAttrib(gl: WebGLAnyContext, location: number, attrib: VertexAttrib) {
+    const type = attrib.type == null ? gl.FLOAT : attrib.type;
+    const stride = attrib.stride || 0;
+    const offset = attrib.offset || 0;
+    attrib.buffer.bind();
+    gl.enableVertexAttribArray(location);
+    if (attrib.integer) {
+        if (!isWebGL2(gl)) throw new Error("Integer attribs require WebGL2");
+        gl.vertexAttribIPointer(location, attrib.size, type, stride, offset);
+    } else {
+        gl.vertexAttribPointer(location, attrib.size, type,
+                               Boolean(attrib.normalized), stride, offset);
+    }
+    // reset the divisor too where instancing exists, as the location
+    // may have been used for instanced data before
+    if (attrib.divisor || capabilities(gl).instancing) {
+        vertexAttribDivisor(gl, location, attrib.divisor || 0);
+    }
+}
+
+export class VertexArray {
+    gl: WebGLAnyContext;
+    vao: WebGLVertexArrayObject | WebGLVertexArrayObjectOES | null;
+    ext: OES_vertex_array_object | null;
+    layout: VertexLayout;
+    elements: Buffer | null;
+    /** named in error messages */
+    label: string | null;
+    disposed: boolean;
+    /** resolves attrib names, again after a restore since relinking may move them */
+    private program: Program | null;
+    /**
+     * Fluent vertex array object wrapper, recording a whole vertex layout
+     * up front. Uses OES_vertex_array_object on WebGL1.
+     * @param {WebGLAnyContext} gl
+     * @param {VertexLayout} layout
+     * @param {Program} [program] resolves attrib names to locations
+     * @constructor
+     */
+    constructor(gl: WebGLAnyContext, layout: VertexLayout, program?: Program) {
+        this.gl = gl;
+        if (isWebGL2(gl)) {
+            this.ext = null;
+        } else {
+            this.ext = capabilities(gl).extension("OES_vertex_array_object");
+            if (!this.ext) {
+                throw new Error("Vertex arrays require OES_vertex_array_object");
+            }
+        }
+        this.layout = layout;
+        this.elements = layout.elements || null;
+        this.label = null;
+        this.disposed = false;
+        this.program = program || null;
+        this.vao = null;
+        this.record();
+    }
+
+    /**
+     * @returns {string} "VertexArray"
+     */
+    get kind(): string {
+        return "VertexArray";
+    }
+
+    /**
+     * Create the vertex array object and record the layout into it,
+     * resolving attrib names to locations now.
+     */
+    private record() {
+        const layout = this.layout, program = this.program;
+        if (this.ext != null) {
+            this.vao = own(this, this.ext.createVertexArrayOES());
+        } else {
+            this.vao = own(this, (this.gl as WebGL2RenderingContext).createVertexArray());
+        }
+        this.bind();
+        for (const name in layout.attribs) {
+            const location = program ? program.attribLocation(name) : Number(name);
+            if (location < 0 || isNaN(location)) continue; // optimized away
+            vertexAttrib(this.gl, location, layout.attribs[name]);
+        }
+        if (this.elements != null) this.elements.bind();
+        this.unbind();
+    }
+
+    /**
+     * @returns {VertexArray} this
+     */
+    bind(): VertexArray {
+        alive(this);
+        glState(this.gl).bindVertexArray(this.vao);
+        return this;
+    }
+
+    /**
+     * @returns {VertexArray} this
+     */
+    unbind(): VertexArray {
+        glState(this.gl).bindVertexArray(null);
+        return this;
+    }
+
+    /**
+     * @param {string} label names this in error messages and reports
+     * @returns {VertexArray} this
+     */
+    setLabel(label: string): VertexArray {
+        this.label = label;
+        return this;
+    }
+
+    /**
+     * Delete the vertex array object, but not the buffers it refers to.
+     * Safe to call more than once.
+     */
+    dispose() {
+        if (this.disposed) return;
+        glState(this.gl).forget(this.vao);
+        if (this.ext != null) {
+            this.ext.deleteVertexArrayOES(this.vao);
+        } else {
+            (this.gl as WebGL2RenderingContext).deleteVertexArray(this.vao);
+        }
+        this.vao = null;
+        this.disposed = true;
+    }
+
+    /**
+     * Record the layout again after a context restore, looking the attrib
+     * locations up again. Restore the buffers and the program first.
+     */
+    restore() {
+        if (this.disposed) return;
+        if (this.ext != null) {
+            // extension objects die with the context they came from
+            this.ext = capabilities(this.gl).extension("OES_vertex_array_object");
+        }
+        this.record();
+    }
+
+    /**
+     * @returns {number} always 0, the buffers are counted separately
+     */
+    bytes(): number {
+        return 0;
+    }
+}
+
+/**
+ * A member of a uniform block, with its std140 placement.
+ */
+export interface UniformBlockField {
+    name: string;
+    type: GLenum;
+    size: number;
+    /** byte offset from the start of the block */
+    offset: number;
+    arrayStride: number;
+    matrixStride: number;
+}
+
+export class UniformBlock {
+    gl: WebGL2RenderingContext;
+    buffer: Buffer;
+    name: string;
+    fields: {[name: string]: UniformBlockField};
+    /** named in error messages */
+    label: string | null;
+    data: ArrayBuffer;
+    private raw: Uint8Array;
+    private views: {[kind: string]: Float32Array | Int32Array | Uint32Array};
+    private dirtyStart: number;
+    private dirtyEnd: number;
+    /**
+     * Uniform buffer holding the data of one uniform block, laid out as
+     * reported by the given program. Fields are written to a CPU-side copy
+     * and uploaded on flush().
+     * @param {WebGL2RenderingContext} gl
+     * @param {Program} program a program declaring the block
+     * @param {string} name uniform block name
+     * @constructor
+     */
+    constructor(gl: WebGLAnyContext, program: Program, name: string) {
+        if (!isWebGL2(gl)) throw new Error("Uniform blocks require WebGL2");
+        this.gl = gl;
+        this.name = name;
+        this.fields = {};
+        this.label = null;
+
+        const p = program.program;
+        const index = gl.getUniformBlockIndex(p, name);
+        if (index === gl.INVALID_INDEX) {
+            throw new Error(`Failed to locate uniform block '${name}'`);
+        }
+        const size = gl.getActiveUniformBlockParameter(p, index, gl.UNIFORM_BLOCK_DATA_SIZE);
+        const indices = gl.getActiveUniformBlockParameter(
+            p, index, gl.UNIFORM_BLOCK_ACTIVE_UNIFORM_INDICES);
+        const offsets = gl.getActiveUniforms(p, indices, gl.UNIFORM_OFFSET);
+        const arrayStrides = gl.getActiveUniforms(p, indices, gl.UNIFORM_ARRAY_STRIDE);
+        const matrixStrides = gl.getActiveUniforms(p, indices, gl.UNIFORM_MATRIX_STRIDE);
+        for (let i = 0; i < indices.length; i++) {
+            const active = gl.getActiveUniform(p, indices[i]);
+            if (active == null) continue;
+            const field = {
+                name: active.name.replace(/\[0\]$/, ""),
+                type: active.type,
+                size: active.size,
+                offset: offsets[i],
+                arrayStride: arrayStrides[i],
+                matrixStride: matrixStrides[i],
+            };
+            this.fields[field.name] = field;
+            // members of a named block instance are prefixed by the block name
+            const prefix = name + ".";
+            if (field.name.indexOf(prefix) === 0) {
+                this.fields[field.name.slice(prefix.length)] = field;
+            }
+        }
+
+        this.data = new ArrayBuffer(size);
+        this.raw = new Uint8Array(this.data);
+        this.views = {
+            f: new Float32Array(this.data),
+            i: new Int32Array(this.data),
+            ui: new Uint32Array(this.data),
+        };
+        this.buffer = new Buffer(gl, gl.UNIFORM_BUFFER).update(this.raw);
+        this.dirtyStart = size;
+        this.dirtyEnd = 0;
+    }
+
+    /**
+     * @returns {string} "UniformBlock"
+     */
+    get kind(): string {
+        return "UniformBlock";
+    }
+
+    /**
+     * Write a field into the block. Nothing is uploaded until flush().
+     * @param {string} name field name, with or without the block prefix
+     * @param {number|boolean|ArrayLike<number>} value
+     * @returns {UniformBlock} this
+     */
+    set(name: string, value: UniformValue): UniformBlock {
+        const field = this.fields[name];
+        if (field == null) {
+            throw new Error(`Uniform block '${this.name}' has no field '${name}'`);
+        }
+        const type = UNIFORM_TYPES[field.type];
+        if (type == null) {
+            throw new Error(`Uniform '${name}' has unsupported type 0x${field.type.toString(16)}`);
+        }
+        const data = uniformData(name, value, type, field.size);
+        const view = this.views[/uiv$/.test(type.method) ? "ui" :
+                                /iv$/.test(type.method) ? "i" : "f"];
+
+        // split matrices into columns, each column aligned to matrixStride
+        const dims = /^mat(\d)(?:x(\d))?$/.exec(type.name);
+        const columns = dims ? Number(dims[1]) : 1;
+        const rows = type.components / columns;
+        const count = data.length / type.components;
+        for (let e = 0; e < count; e++) {
+            for (let c = 0; c < columns; c++) {
+                const offset = field.offset + e * field.arrayStride + c * field.matrixStride;
+                for (let r = 0; r < rows; r++) {
+                    view[offset / 4 + r] = data[e * type.components + c * rows + r];
+                }
+            }
+        }
+
+        const end = field.offset + (count - 1) * field.arrayStride +
+              (columns - 1) * field.matrixStride + rows * 4;
+        this.dirtyStart = Math.min(this.dirtyStart, field.offset);
+        this.dirtyEnd = Math.max(this.dirtyEnd, end);
+        return this;
+    }
+
+    /**
+     * Upload the range of the block modified since the last flush.
+     * @returns {UniformBlock} this
+     */
+    flush(): UniformBlock {
+        alive(this);
+        if (this.dirtyEnd > this.dirtyStart) {
+            const gl = this.gl;
+            this.buffer.bind();
+            gl.bufferSubData(gl.UNIFORM_BUFFER, this.dirtyStart, this.raw,
+                             this.dirtyStart, this.dirtyEnd - this.dirtyStart);
+        }
+        this.dirtyStart = this.data.byteLength;
+        this.dirtyEnd = 0;
+        return this;
+    }
+
+    /**
+     * Flush pending writes and bind the buffer to a binding point.
+     * @param {number} point binding point, see Program.uniformBlock()
+     * @returns {UniformBlock} this
+     */
+    bind(point: number): UniformBlock {
+        this.flush();
+        glState(this.gl).bindBufferBase(this.gl.UNIFORM_BUFFER, point, this.buffer.buffer);
+        return this;
+    }
+
+    /**
+     * @returns {boolean} true once the buffer has been disposed
+     */
+    get disposed(): boolean {
+        return this.buffer.disposed;
+    }
+
+    /**
+     * @param {string} label names this in error messages and reports
+     * @returns {UniformBlock} this
+     */
+    setLabel(label: string): UniformBlock {
+        this.label = label;
+        return this;
+    }
+
+    /**
+     * Delete the uniform buffer. Safe to call more than once.
+     */
+    dispose() {
+        this.buffer.dispose();
+    }
+
+    /**
+     * Recreate the uniform buffer after a context restore and upload the
+     * CPU-side copy of the block.
+     */
+    restore() {
+        if (this.disposed) return;
+        this.buffer.restore();
+        this.buffer.update(this.raw);
+    }
+
+    /**
+     * @returns {number} size of the uniform buffer, in bytes
+     */
+    bytes(): number {
+        return this.buffer.bytes();
+    }
+}
+
+export interface ProgramOptions {
+    /** transforms each shader source before preprocessing */
+    transform?: (arg0: string) => string;
+    /** injected into both shaders as #define lines */
+    defines?: {[name: string]: string | number | boolean};
+    /** transform feedback varyings, see Program */
+    feedback?: FeedbackOptions;
+}
+
+export type TextLoader = (url: string) => Promise<string>;
+export type ImageLoader = (url: string) => Promise<TexImageSource>;
+
+export interface LoadProgramOptions extends ProgramOptions {
+    /** replaces Igloo.loadText, e.g. to read local files in tests */
+    loader?: TextLoader;
+}
+
+export interface LoadTextureOptions {
+    /** replaces Igloo.loadImage, e.g. to decode local files in tests */
+    loader?: ImageLoader;
+    format?: GLenum | string;
+    wrap?: GLenum;
+    filter?: GLenum;
+    type?: GLenum;
+    internalFormat?: GLint;
+    /** keep the image to upload it again after a context restore */
+    retain?: boolean;
+}
+
+/**
+ * A texture together with a framebuffer rendering into it.
+ */
+export interface RenderTarget {
+    texture: Texture;
+    framebuffer: Framebuffer;
+}
+
+export interface PingPongOptions {
+    /** enum or TEXTURE_FORMATS name, see Texture */
+    format?: GLenum | string;
+    wrap?: GLenum;
+    filter?: GLenum;
+    type?: GLenum;
+    internalFormat?: GLint;
+    /** sampler uniform receiving the front texture, default "state" */
+    sampler?: string;
+    /** vec2 attrib receiving Igloo.QUAD2, default "points" */
+    attrib?: string;
+}
+
+export class PingPong {
+    gl: WebGLAnyContext;
+    width: number;
+    height: number;
+    options: PingPongOptions;
+    targets: RenderTarget[];
+    quad: Buffer;
+    /** named in error messages */
+    label: string | null;
+    /**
+     * Double-buffered render target for iterative GPU simulations: each
+     * step() renders into back while sampling front, then swaps them.
+     * @param {WebGLAnyContext} gl
+     * @param {number} width
+     * @param {number} height
+     * @param {PingPongOptions} [options]
+     * @constructor
+     */
+    constructor(gl: WebGLAnyContext, width: number, height: number, options?: PingPongOptions) {
+        this.gl = gl;
+        this.width = width;
+        this.height = height;
+        this.options = options || {};
+        this.label = null;
+        this.targets = [this.target(), this.target()];
+        this.quad = new Buffer(gl).update(Igloo.QUAD2, gl.STATIC_DRAW);
+    }
+
+    /**
+     * @returns {string} "PingPong"
+     */
+    get kind(): string {
+        return "PingPong";
+    }
+
+    /**
+     * @returns {RenderTarget} the target holding the current state
+     */
+    get front(): RenderTarget {
+        return this.targets[0];
+    }
+
+    /**
+     * @returns {RenderTarget} the target the next step renders into
+     */
+    get back(): RenderTarget {
+        return this.targets[1];
+    }
+
+    /**
+     * Exchange front and back.
+     * @returns {PingPong} this
+     */
+    swap(): PingPong {
+        this.targets.reverse();
+        return this;
+    }
+
+    /**
+     * Run program over the whole back target with front bound to the
+     * sampler uniform, then swap. Texture values in uniforms are bound
+     * to the following texture units.
+     * @param {Program} program
+     * @param {Object} [uniforms] values for Program.set(), or Textures
+     * @returns {PingPong} this
+     */
+    step(program: Program, uniforms?: {[name: string]: UniformValue | Texture}): PingPong {
+        const gl = this.gl;
+        alive(this);
+        const state = glState(gl).push();
+        this.back.framebuffer.bind();
+        state.set({viewport: [0, 0, this.width, this.height]});
+
+        program.use();
+        this.front.texture.bind(0);
+        program.set(this.options.sampler || "state", 0);
+        let unit = 1;
+        for (const name in uniforms) {
+            const value = uniforms[name];
+            if (value instanceof Texture) {
+                value.bind(unit);
+                program.set(name, unit++);
+            } else {
+                program.set(name, value);
+            }
+        }
+        program.attrib(this.options.attrib || "points", this.quad, 2, 0)
+            .draw(gl.TRIANGLE_STRIP, Igloo.QUAD2.length / 2);
+
+        state.pop();
+        return this.swap();
+    }
+
+    /**
+     * Reallocate both targets at a new size.
+     * @param {number} width
+     * @param {number} height
+     * @param {boolean} [keep=false] copy the overlapping part of front
+     * @returns {PingPong} this
+     */
+    resize(width: number, height: number, keep = false): PingPong {
+        const gl = this.gl;
+        const old = this.targets;
+        const oldWidth = this.width, oldHeight = this.height;
+        this.width = width;
+        this.height = height;
+        this.targets = [this.target(), this.target()];
+        if (keep) {
+            old[0].framebuffer.bind();
+            this.front.texture.bind();
+            gl.copyTexSubImage2D(gl.TEXTURE_2D, 0, 0, 0, 0, 0,
+                                 Math.min(width, oldWidth), Math.min(height, oldHeight));
+            old[0].framebuffer.unbind();
+        }
+        for (const target of old) {
+            target.framebuffer.dispose();
+            target.texture.dispose();
+        }
+        return this;
+    }
+
+    /**
+     * @returns {boolean} true once the targets have been disposed
+     */
+    get disposed(): boolean {
+        return this.quad.disposed;
+    }
+
+    /**
+     * @param {string} label names this in error messages and reports
+     * @returns {PingPong} this
+     */
+    setLabel(label: string): PingPong {
+        this.label = label;
+        return this;
+    }
+
+    /**
+     * Delete both targets and the quad buffer. Safe to call more than once.
+     */
+    dispose() {
+        for (const target of this.targets) {
+            target.framebuffer.dispose();
+            target.texture.dispose();
+        }
+        this.quad.dispose();
+    }
+
+    /**
+     * Recreate both targets and the quad after a context restore. The
+     * simulation state is gone, so seed it again from a restored hook.
+     */
+    restore() {
+        if (this.disposed) return;
+        for (const target of this.targets) {
+            target.texture.restore();
+            target.framebuffer.restore();
+        }
+        this.quad.restore();
+    }
+
+    /**
+     * @returns {number} estimated memory of both targets and the quad
+     */
+    bytes(): number {
+        return this.targets.reduce((total, target) => {
+            return total + target.texture.bytes() + target.framebuffer.bytes();
+        }, this.quad.bytes());
+    }
+
+    /**
+     * @returns {RenderTarget} a new, blank target at the current size
+     */
+    private target(): RenderTarget {
+        const o = this.options;
+        const texture = new Texture(this.gl, o.format, o.wrap, o.filter, o.type, o.internalFormat)
+            .blank(this.width, this.height);
+        const framebuffer = new Framebuffer(this.gl).attach(texture).check();
+        framebuffer.unbind();
+        return {texture, framebuffer};
+    }
+}
+
+export class TransformFeedback {
+    gl: WebGL2RenderingContext;
+    feedback: WebGLTransformFeedback | null;
+    buffers: Buffer[];
+    /** named in error messages */
+    label: string | null;
+    disposed: boolean;
+    /**
+     * WebGL2 transform feedback object capturing vertex shader outputs
+     * into Buffers, e.g. to update particles without any readback.
+     * @param {WebGL2RenderingContext} gl
+     * @param {Array<Buffer>} [buffers] output buffers, see setBuffers()
+     * @constructor
+     */
+    constructor(gl: WebGLAnyContext, buffers?: Buffer[]) {
+        if (!isWebGL2(gl)) throw new Error("Transform feedback requires WebGL2");
         this.gl = gl;
-        const texture = this.texture = gl.createTexture();
-        gl.bindTexture(gl.TEXTURE_2D, texture);
-        wrap = wrap == null ? gl.CLAMP_TO_EDGE : wrap;
-        filter = filter == null ? gl.LINEAR : filter;
-        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, wrap);
-        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, wrap);
-        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, filter);
-        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, filter);
-        this.format = format == null ? gl.RGBA : format;
-        this.internalFormat = internalFormat == null ? gl.RGBA : internalFormat;
-        this.type = type == null ? gl.UNSIGNED_BYTE : type;
+        this.feedback = own(this, gl.createTransformFeedback());
+        this.buffers = [];
+        this.label = null;
+        this.disposed = false;
+        if (buffers != null) this.setBuffers(buffers);
     }
 
     /**
-     * @param {?number} [unit] active texture unit to bind
-     * @returns {Texture}
+     * @returns {string} "TransformFeedback"
      */
-    bind(unit?: number) : Texture {
-        const gl = this.gl;
-        if (unit != null && unit != undefined) {
-            gl.activeTexture(gl.TEXTURE0 + unit);
-        }
-        gl.bindTexture(gl.TEXTURE_2D, this.texture);
-        return this;
+    get kind(): string {
+        return "TransformFeedback";
     }
 
     /**
-     * Set texture to particular size, filled with vec4(0, 0, 0, 1).
-     * @param {number} width
-     * @param {number} height
-     * @returns {Igloo.Texture}
+     * @returns {TransformFeedback} this
      */
-    blank(width: any, height: any) : Texture {
-        const gl = this.gl;
-        this.bind();
-        gl.texImage2D(gl.TEXTURE_2D, 0, this.internalFormat, width, height,
-                      0, this.format, this.type, null);
+    bind(): TransformFeedback {
+        alive(this);
+        this.gl.bindTransformFeedback(this.gl.TRANSFORM_FEEDBACK, this.feedback);
         return this;
     }
 
     /**
-     * Set the texture to a particular image.
-     * @param {Array|ArrayBufferView|TexImageSource} source
-     * @param {number} [width]
-     * @param {number} [height]
-     * @returns {Igloo.Texture}
+     * @returns {TransformFeedback} this
      */
-    set(source?: Array<number> | ArrayBufferView | TexImageSource, 
-        width?: number, height?: number) {
+    unbind(): TransformFeedback {
+        this.gl.bindTransformFeedback(this.gl.TRANSFORM_FEEDBACK, null);
+        return this;
+    }
 
+    /**
+     * Bind output buffers to the indexed TRANSFORM_FEEDBACK_BUFFER points,
+     * one per varying with separate attribs, or a single interleaved one.
+     * Call again with swapped buffers between frames.
+     * @param {Array<Buffer>} buffers
+     * @returns {TransformFeedback} this
+     */
+    setBuffers(buffers: Buffer[]): TransformFeedback {
         const gl = this.gl;
         this.bind();
-        if (source instanceof Array) {
-            if (this.type == gl.FLOAT) {
-                source = new Float32Array(source);
-            } else {
-                source = new Uint8Array(source);
-            }
-        }
-        if (width != null && height != null) {
-            gl.texImage2D(gl.TEXTURE_2D, 0, this.internalFormat,
-                          width, height, 0, this.format,
-                          this.type, source as ArrayBufferView | null);
-        } else {
-            gl.texImage2D(gl.TEXTURE_2D, 0, this.internalFormat,
-                          this.format, this.type, source as TexImageSource);
+        for (let i = 0; i < Math.max(buffers.length, this.buffers.length); i++) {
+            const buffer = buffers[i];
+            glState(gl).bindBufferBase(gl.TRANSFORM_FEEDBACK_BUFFER, i, buffer ? buffer.buffer : null);
         }
+        // bindBufferBase also binds the generic point, which must not
+        // hold a buffer that is used as a vertex input
+        glState(gl).bindBuffer(gl.TRANSFORM_FEEDBACK_BUFFER, null);
+        this.unbind();
+        this.buffers = buffers.slice();
         return this;
     }
 
     /**
-     * Set part of the texture to a particular image.
-     * @param {Array|ArrayBufferView|TexImageSource} source
-     * @param {number} xoff
-     * @param {number} yoff
-     * @param {number} [width]
-     * @param {number} [height]
-     * @returns {Igloo.Texture}
+     * Draw with program while capturing its outputs into the buffers.
+     * @param {Program} program linked with feedback varyings
+     * @param {number} mode POINTS, LINES or TRIANGLES
+     * @param {number} count the number of vertices to process
+     * @param {boolean} [discard=true] skip rasterization (RASTERIZER_DISCARD)
+     * @param {number} [first=0] first vertex
+     * @returns {TransformFeedback} this
      */
-    subset(source: ArrayBufferView | TexImageSource | Array<number> | null, 
-        xoff: number, 
-        yoff: number, 
-        width: number | null, 
-        height: number | null) : Texture {
-
-        const gl = this.gl;
+    run(program: Program, mode: GLenum, count: number, discard = true, first = 0): TransformFeedback {
+        const gl = this.gl, state = glState(gl), vao = program.vao;
+        program.use();
+        if (vao != null) vao.bind();
         this.bind();
-        if (source instanceof Array) {
-            if (this.type == gl.FLOAT) {
-                source = new Float32Array(source);
-            } else {
-                source = new Uint8Array(source);
-            }
+        if (discard) state.push().set({rasterizerDiscard: true});
+        gl.beginTransformFeedback(mode);
+        try {
+            // not program.draw(), which picks drawElements() for a vertex
+            // array with an element buffer, and that cannot be captured
+            gl.drawArrays(mode, first, count);
+        } finally {
+            gl.endTransformFeedback();
+            if (discard) state.pop();
+            this.unbind();
+            if (vao != null) vao.unbind();
         }
-        if (width != null && height != null) {
-            gl.texSubImage2D(gl.TEXTURE_2D, 0, xoff, yoff,
-                             width, height,
-                             this.format, this.type, source as ArrayBufferView | null);
-        } else {
-            gl.texSubImage2D(gl.TEXTURE_2D, 0, xoff, yoff,
-                             this.format, this.type, source as TexImageSource);
+        const error = gl.getError();
+        if (error !== gl.NO_ERROR && !gl.isContextLost()) {
+            throw new Error(`WebGL error ${enumName(gl, error)} capturing ${describe(program)} ` +
+                            `into ${describe(this)}`);
         }
         return this;
     }
 
     /**
-     * Copy part/all of the current framebuffer to this image.
-     * @param {Array|ArrayBufferView|TexImageSource} source
-     * @param {number} x
-     * @param {number} y
-     * @param {number} width
-     * @param {number} height
-     * @returns {Igloo.Texture}
+     * @param {string} label names this in error messages and reports
+     * @returns {TransformFeedback} this
      */
-    copy(x: number, y: number, width: number, height: number) : Texture {
-        const gl = this.gl;
-        gl.copyTexImage2D(gl.TEXTURE_2D, 0, this.internalFormat, x, y, width, height, 0);
+    setLabel(label: string): TransformFeedback {
+        this.label = label;
         return this;
     }
+
+    /**
+     * Delete the transform feedback object, but not its buffers. Safe to
+     * call more than once.
+     */
+    dispose() {
+        if (this.disposed) return;
+        this.gl.deleteTransformFeedback(this.feedback);
+        this.feedback = null;
+        this.buffers = [];
+        this.disposed = true;
+    }
+
+    /**
+     * Recreate the transform feedback object after a context restore.
+     * Restore the buffers first.
+     */
+    restore() {
+        if (this.disposed) return;
+        this.feedback = own(this, this.gl.createTransformFeedback());
+        this.setBuffers(this.buffers);
+    }
+
+    /**
+     * @returns {number} always 0, the buffers are counted separately
+     */
+    bytes(): number {
+        return 0;
+    }
 }
 
-export class Framebuffer {
+export interface DrawOptions {
+    program: Program;
+    /** attribs by name, recorded into a vertex array once */
+    attribs?: {[name: string]: VertexAttrib};
+    elements?: Buffer;
+    /** values for Program.set(), or Textures, which get a texture unit each */
+    uniforms?: {[name: string]: UniformValue | Texture};
+    /** render target, null for the canvas; left as it is if not given */
+    framebuffer?: Framebuffer | null;
+    /** [x, y, width, height], defaults to the whole framebuffer if one is given */
+    viewport?: number[];
+    /** render state to set, see GLState.set() */
+    state?: RenderState;
+    /** default GL_TRIANGLES */
+    mode?: GLenum;
+    /** vertex or element count, worked out from the buffers if not given */
+    count?: number;
+    /** first vertex, or byte offset into the elements */
+    offset?: number;
+    /** draw this many instances */
+    instances?: number;
+}
+
+/**
+ * Per-call changes to a DrawCommand. Uniforms are merged with the
+ * command's own.
+ */
+export type DrawOverrides = Omit<DrawOptions, "program" | "attribs" | "elements">;
+
+export class DrawCommand {
     gl: WebGLAnyContext;
-    framebuffer: WebGLFramebuffer | null;
-    renderbuffer: WebGLRenderbuffer | null;
+    options: DrawOptions;
+    vao: VertexArray | null;
+    /** named in error messages */
+    label: string | null;
+    disposed: boolean;
+    /** attribs by location, when vertex arrays are not supported */
+    private attribs: {[location: number]: VertexAttrib};
+    /** texture units by sampler uniform name */
+    private units: {[name: string]: number};
     /**
+     * A complete description of a draw call, set up once and then run as
+     * often as needed. Texture uniforms are assigned texture units in
+     * order, so they never collide.
      * @param {WebGLAnyContext} gl
-     * @param {WebGLFramebuffer} [framebuffer] to be wrapped (null for default)
-     * @returns {Framebuffer}
+     * @param {DrawOptions} options
+     * @constructor
      */
-    constructor(gl: WebGLAnyContext, framebuffer: WebGLFramebuffer | null = null) {
+    constructor(gl: WebGLAnyContext, options: DrawOptions) {
         this.gl = gl;
-        this.framebuffer =
-            arguments.length == 2 ? framebuffer : gl.createFramebuffer();
-        this.renderbuffer = null;
+        this.options = options;
+        this.label = null;
+        this.disposed = false;
+        this.attribs = {};
+        this.units = {};
+        const attribs = options.attribs || {};
+        if (capabilities(gl).vertexArrays) {
+            this.vao = new VertexArray(gl, {attribs, elements: options.elements}, options.program);
+        } else {
+            this.vao = null;
+            for (const name in attribs) {
+                const location = options.program.attribLocation(name);
+                if (location >= 0) this.attribs[location] = attribs[name];
+            }
+        }
+        for (const name in options.uniforms) {
+            if (options.uniforms[name] instanceof Texture) this.unit(name);
+        }
     }
 
     /**
-     * @returns {Framebuffer}
+     * @returns {string} "DrawCommand"
      */
-    bind(): Framebuffer {
-        this.gl.bindFramebuffer(this.gl.FRAMEBUFFER, this.framebuffer);
-        return this;
+    get kind(): string {
+        return "DrawCommand";
     }
 
     /**
-     * @returns {Framebuffer}
+     * Draw, with any overrides applied to this call only.
+     * @param {DrawOverrides} [overrides]
+     * @returns {DrawCommand} this
      */
-    unbind(): Framebuffer {
-        this.gl.bindFramebuffer(this.gl.FRAMEBUFFER, null);
+    run(overrides?: DrawOverrides): DrawCommand {
+        alive(this);
+        const gl = this.gl;
+        const state = glState(gl);
+        const o: DrawOptions = Object.assign({}, this.options, overrides);
+        const uniforms = Object.assign({}, this.options.uniforms, overrides && overrides.uniforms);
+
+        if (o.framebuffer === null) {
+            state.bindFramebuffer(null);
+        } else if (o.framebuffer != null) {
+            o.framebuffer.bind();
+        }
+        const viewport = o.viewport || this.viewport(o.framebuffer);
+        if (viewport != null) state.set({viewport});
+        if (o.state != null) state.set(o.state);
+
+        const program = o.program.use();
+        for (const name in uniforms) {
+            const value = uniforms[name];
+            if (value instanceof Texture) {
+                const unit = this.unit(name);
+                value.bind(unit);
+                program.set(name, unit);
+            } else {
+                program.set(name, value);
+            }
+        }
+
+        const mode = o.mode == null ? gl.TRIANGLES : o.mode;
+        const offset = o.offset || 0;
+        const count = o.count != null ? o.count : this.count(offset);
+        const elements = this.vao == null ? this.options.elements : undefined;
+        if (this.vao == null) {
+            for (const location in this.attribs) {
+                vertexAttrib(gl, Number(location), this.attribs[location]);
+            }
+        }
+        const previous = program.vao;
+        program.vertexArray(this.vao);
+        try {
+            if (o.instances == null) {
+                program.draw(mode, count, elements, offset);
+            } else if (this.options.elements != null) {
+                program.drawElementsInstanced(mode, count, elements || null, offset, o.instances);
+            } else {
+                program.drawArraysInstanced(mode, offset, count, o.instances);
+            }
+        } finally {
+            program.vertexArray(previous);
+        }
         return this;
     }
 
     /**
-     * @param {Texture} texture
-     * @param {number} i color attachment to use
-     * @returns {Framebuffer}
+     * @param {string} name sampler uniform
+     * @returns {number} the texture unit for name, assigned on first use
      */
-    attach(texture: Texture, i=0): Framebuffer {
-        const gl = this.gl;
-        if (i==0) this.bind();
-        gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0+i,
-                                gl.TEXTURE_2D, texture.texture, 0);
-        return this;
+    private unit(name: string): number {
+        if (this.units[name] == null) {
+            const unit = Object.keys(this.units).length;
+            if (unit >= capabilities(this.gl).maxCombinedTextureUnits) {
+                throw new Error(`No texture unit left for '${name}'`);
+            }
+            this.units[name] = unit;
+        }
+        return this.units[name];
     }
 
     /**
-     * Attach a renderbuffer as a depth buffer for depth-tested rendering.
-     * @param {number} width
-     * @param {number} height
-     * @returns {Igloo.Framebuffer}
+     * @param {?Framebuffer} [framebuffer]
+     * @returns {?Array<number>} the whole of framebuffer, null if not given
      */
-    attachDepth(width: number, height: number) {
+    private viewport(framebuffer?: Framebuffer | null): number[] | null {
         const gl = this.gl;
-        this.bind();
-        if (this.renderbuffer == null) {
-            this.renderbuffer = gl.createRenderbuffer();
-            gl.renderbufferStorage(gl.RENDERBUFFER, gl.DEPTH_COMPONENT16,
-                                   width, height);
-            gl.framebufferRenderbuffer(gl.FRAMEBUFFER, gl.DEPTH_ATTACHMENT,
-                                       gl.RENDERBUFFER, this.renderbuffer);
+        if (framebuffer === undefined) return null;
+        if (framebuffer === null) return [0, 0, gl.drawingBufferWidth, gl.drawingBufferHeight];
+        const color = framebuffer.colors.filter(function(texture) { return texture != null; })[0];
+        return color != null ? [0, 0, color.width, color.height] : null;
+    }
+
+    /**
+     * @param {number} offset first vertex, or byte offset into the elements
+     * @returns {number} how many elements or vertices the buffers hold
+     */
+    private count(offset: number): number {
+        const elements = this.options.elements;
+        if (elements != null) {
+            const type = elements.type == null ? UNSIGNED_SHORT : elements.type;
+            return (elements.size - offset) / arrayType(type).BYTES_PER_ELEMENT;
         }
-        return this;
+        let count = Infinity;
+        const attribs = this.options.attribs || {};
+        for (const name in attribs) {
+            const a = attribs[name];
+            if (a.divisor) continue;
+            const stride = a.stride || a.size * arrayType(a.type == null ? FLOAT : a.type).BYTES_PER_ELEMENT;
+            count = Math.min(count, Math.floor((a.buffer.size - (a.offset || 0)) / stride));
+        }
+        if (count === Infinity) throw new Error("DrawCommand needs a count without per-vertex attribs");
+        return count - offset;
     }
-    
-}
 
+    /**
+     * @param {string} label names this in error messages and reports
+     * @returns {DrawCommand} this
+     */
+    setLabel(label: string): DrawCommand {
+        this.label = label;
+        return this;
+    }
 
-export class Buffer {
-    gl: WebGLAnyContext;
-    buffer: WebGLBuffer | null;
-    target: number;
-    size: number;
     /**
-     * Fluent WebGLBuffer wrapper.
-     * @param {WebGLAnyContext} gl
-     * @param {GLenum} [target] either GL_ARRAY_BUFFER or GL_ELEMENT_ARRAY_BUFFER
-     * @returns {WebGLProgram}
-     * @constructor
+     * Delete the vertex array, but not the program or buffers. Safe to
+     * call more than once.
      */
-    constructor(gl: WebGLAnyContext, target?: GLenum) {
-        this.gl = gl;
-        this.buffer = gl.createBuffer();
-        this.target = (target == null ? gl.ARRAY_BUFFER : target);
-        this.size = -1;
+    dispose() {
+        if (this.disposed) return;
+        if (this.vao != null) this.vao.dispose();
+        this.disposed = true;
     }
 
     /**
-     * Binds this buffer to ARRAY_BUFFER.
-     * @returns {Buffer} this
+     * Record the vertex array again after a context restore.
      */
-    bind(): Buffer {
-        this.gl.bindBuffer(this.target, this.buffer);
-        return this;
+    restore() {
+        if (this.disposed) return;
+        if (this.vao != null) this.vao.restore();
     }
 
     /**
-     * @param {ArrayBuffer|ArrayBufferView} data
-     * @param {GLenum} [usage]
-     * @returns {Buffer} this
+     * @returns {number} always 0, the buffers are counted separately
      */
-    update(data: BufferSource, usage?: GLenum): Buffer {
-        const gl = this.gl;
-        if (data instanceof Array) {
-            data = new Float32Array(data);
-        }
-        usage = usage == null ? gl.DYNAMIC_DRAW : usage;
-        this.bind();
-        if (this.size !== data.byteLength) {
-            gl.bufferData(this.target, data, usage);
-            this.size = data.byteLength;
-        } else {
-            gl.bufferSubData(this.target, 0, data);
-        }
-        return this;
+    bytes(): number {
+        return 0;
     }
 }
 
-export class Program {
-    gl: WebGLAnyContext;
-    program: WebGLProgram;
-    vars: {[index: string]: WebGLUniformLocation};
+export class Query {
+    gl: WebGL2RenderingContext;
+    query: WebGLQuery | null;
+    /** TIME_ELAPSED_EXT, ANY_SAMPLES_PASSED or ANY_SAMPLES_PASSED_CONSERVATIVE */
+    target: GLenum;
+    /** nanoseconds for timer queries, 0 or 1 for occlusion queries */
+    result: number | null;
+    /** the GPU was disturbed while timing, so there is no result */
+    disjoint: boolean;
+    /** named in error messages */
+    label: string | null;
+    disposed: boolean;
+    private ext: EXT_disjoint_timer_query_webgl2 | null;
+    private pending: boolean;
+    private epoch: number;
     /**
-     * Fluent WebGLProgram wrapper for managing variables and data. The
-     * constructor compiles and links a program from a pair of shaders.
-     * Throws an exception if compiling or linking fails.
-     * @param {WebGLAnyContext} gl
-     * @param {string} vertex Shader source
-     * @param {string} fragment Shader source
+     * WebGL2 query object: either a GPU timer through
+     * EXT_disjoint_timer_query_webgl2, or an occlusion query. Results
+     * arrive frames later, so poll() once per frame instead of waiting.
+     * @param {WebGL2RenderingContext} gl
+     * @param {GLenum} [target=TIME_ELAPSED_EXT]
      * @constructor
      */
-    constructor(gl: WebGLAnyContext, vertex: string, fragment: string) {
+    constructor(gl: WebGLAnyContext, target?: GLenum) {
+        if (!isWebGL2(gl)) throw new Error("Queries require WebGL2");
         this.gl = gl;
-        const p = gl.createProgram();
-        if (!p) throw new Error("Failed to create program");
-        this.program = p;
-
-        gl.attachShader(p, this.makeShader(gl.VERTEX_SHADER, vertex));
-        gl.attachShader(p, this.makeShader(gl.FRAGMENT_SHADER, fragment));
-        gl.linkProgram(p);
-        if (!gl.getProgramParameter(p, gl.LINK_STATUS)) {
-            throw new Error(gl.getProgramInfoLog(p) || "Failed to link program");
+        this.target = target == null ? TIME_ELAPSED_EXT : target;
+        this.ext = null;
+        if (this.target === TIME_ELAPSED_EXT) {
+            this.ext = capabilities(gl).extension("EXT_disjoint_timer_query_webgl2");
+            if (this.ext == null) {
+                throw new Error("Timer queries require EXT_disjoint_timer_query_webgl2");
+            }
         }
-        this.vars = {};
+        this.query = own(this, gl.createQuery());
+        this.result = null;
+        this.disjoint = false;
+        this.label = null;
+        this.disposed = false;
+        this.pending = false;
+        this.epoch = 0;
     }
 
     /**
-     * Compile a shader from source.
-     * @param {number} type
-     * @param {string} source
-     * @returns {WebGLShader}
+     * @returns {string} "Query"
      */
-    makeShader(type: number, source: string): WebGLShader {
-        const gl = this.gl;
-        const shader = gl.createShader(type);
+    get kind(): string {
+        return "Query";
+    }
 
-        if (!shader) throw new Error("Failed to create shader");
+    /**
+     * Start measuring, discarding any result not collected yet. Only one
+     * query per target can be active at a time.
+     * @returns {Query} this
+     */
+    begin(): Query {
+        alive(this);
+        if (this.ext != null) this.epoch = disjoints(this.gl, this.ext);
+        this.gl.beginQuery(this.target, this.query as WebGLQuery);
+        this.pending = true;
+        this.result = null;
+        this.disjoint = false;
+        return this;
+    }
 
-        gl.shaderSource(shader, source);
-        gl.compileShader(shader);
-        if (gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
-            return shader;
+    /**
+     * @returns {Query} this
+     */
+    end(): Query {
+        this.gl.endQuery(this.target);
+        return this;
+    }
+
+    /**
+     * Collect the result if the GPU has it, without blocking.
+     * @returns {boolean} true once result (or disjoint) is set
+     */
+    poll(): boolean {
+        const gl = this.gl;
+        if (!this.pending) return this.result != null || this.disjoint;
+        const query = this.query as WebGLQuery;
+        if (!gl.getQueryParameter(query, gl.QUERY_RESULT_AVAILABLE)) return false;
+        this.pending = false;
+        if (this.ext != null && disjoints(gl, this.ext) !== this.epoch) {
+            this.disjoint = true;
         } else {
-            throw new Error(gl.getShaderInfoLog(shader) || "Failed to compile shader");
+            this.result = Number(gl.getQueryParameter(query, gl.QUERY_RESULT));
         }
+        return true;
     }
 
     /**
-     * Tell WebGL to use this program right now.
-     * @returns {Program} this
+     * Poll once per frame until the result is in.
+     * @returns {Promise<?number>} the result, null if disjoint
      */
-    use(): Program {
-        this.gl.useProgram(this.program);
-        return this;
+    resultAsync(): Promise<number | null> {
+        return new Promise((resolve, reject) => {
+            const poll = () => {
+                try {
+                    if (this.poll()) {
+                        resolve(this.result);
+                    } else {
+                        nextFrame(poll);
+                    }
+                } catch (e) {
+                    reject(e);
+                }
+            };
+            nextFrame(poll);
+        });
     }
 
     /**
-     * Declare/set a uniform or set a uniform's data.
-     * @param {string} name uniform variable name
-     * @param {number|Array<number>} [value]
-     * @param {boolean} [i] if true use the integer version
-     * @param {number} [dim] dimension of the variable
-     * @returns {Program} this
+     * @param {string} label names this in error messages and reports
+     * @returns {Query} this
      */
-    uniform(name: string, value: number|Array<number>, i?: boolean, dim?: number): Program {
+    setLabel(label: string): Query {
+        this.label = label;
+        return this;
+    }
 
-        if (this.vars[name] == null) {
-            const loc = this.gl.getUniformLocation(this.program, name);
-            if (!loc) throw new Error(`Failed to locate uniform '${name}'`);
+    /**
+     * Delete the query. Safe to call more than once.
+     */
+    dispose() {
+        if (this.disposed) return;
+        this.gl.deleteQuery(this.query);
+        this.query = null;
+        this.disposed = true;
+    }
 
-            this.vars[name] = loc
+    /**
+     * Recreate the query after a context restore. A pending result is lost.
+     */
+    restore() {
+        if (this.disposed) return;
+        if (this.ext != null) {
+            this.ext = capabilities(this.gl).extension("EXT_disjoint_timer_query_webgl2");
         }
+        this.query = own(this, this.gl.createQuery());
+        this.pending = false;
+    }
 
-        const v = this.vars[name];
-        if (Igloo.isArray(value)) {
-            const arrVal = value as Array<number>;
-            const l = dim ? dim : arrVal.length;
-            const method = "uniform" + l + (i ? "i" : "f") + "v";
-            // hack to dynamically access method
-            (this.gl as any)[method](v, arrVal);
-        } else if (typeof value === "number" || typeof value === "boolean") {
-            if (i) {
-                this.gl.uniform1i(v, value);
-            } else {
-                this.gl.uniform1f(v, value);
-            }
-        } else {
-            throw new Error("Invalid uniform value: " + value);
-        }
-        
-        return this;
+    /**
+     * @returns {number} always 0
+     */
+    bytes(): number {
+        return 0;
+    }
+}
+
+export class Profiler {
+    gl: WebGLAnyContext;
+    /** how many frames the averages cover */
+    window: number;
+    /** named in error messages */
+    label: string | null;
+    disposed: boolean;
+    private free: Query[];
+    private pending: {name: string, query: Query}[];
+    private active: {name: string, query: Query} | null;
+    private samples: {[name: string]: number[]};
+    /**
+     * Times named sections of each frame on the GPU. Results come in a
+     * few frames late, so call frame() once per frame to collect them,
+     * and read averages() whenever convenient. Does nothing where timer
+     * queries are not supported.
+     * @param {WebGLAnyContext} gl
+     * @param {number} [window=60] number of samples to average over
+     * @constructor
+     */
+    constructor(gl: WebGLAnyContext, window = 60) {
+        this.gl = gl;
+        this.window = window;
+        this.label = null;
+        this.disposed = false;
+        this.free = [];
+        this.pending = [];
+        this.active = null;
+        this.samples = {};
     }
 
     /**
-     * Set a uniform's data to a specific matrix.
-     * @param {string} name uniform variable name
-     * @param {Array|ArrayBufferView} matrix
-     * @param {boolean} [transpose=false]
-     * @returns {Program} this
+     * @returns {string} "Profiler"
      */
-    matrix(name: string, matrix: Array<number>, transpose?: boolean): Program {
-        if (this.vars[name] == null) {
-            const loc = this.gl.getUniformLocation(this.program, name);
-            if (!loc) throw new Error(`Failed to locate uniform '${name}'`);
+    get kind(): string {
+        return "Profiler";
+    }
 
-            this.vars[name] = loc
-        }
+    /**
+     * @returns {boolean} true if timer queries are available
+     */
+    get supported(): boolean {
+        return isWebGL2(this.gl) && capabilities(this.gl).has("EXT_disjoint_timer_query_webgl2");
+    }
 
-        const method = "uniformMatrix" + Math.sqrt(matrix.length) + "fv";
-        (this.gl as any)[method](this.vars[name], Boolean(transpose), matrix);
+    /**
+     * Start timing a section. Sections cannot nest, as only one timer
+     * query can run at a time.
+     * @param {string} name
+     * @returns {Profiler} this
+     */
+    begin(name: string): Profiler {
+        alive(this);
+        if (!this.supported) return this;
+        if (this.active != null) {
+            throw new Error(`Cannot begin section '${name}' inside '${this.active.name}'`);
+        }
+        const query = this.free.pop() || new Query(this.gl);
+        query.label = name;
+        this.active = {name, query: query.begin()};
         return this;
     }
 
     /**
-     * Like the uniform() method, but using integers.
-     * @param {string} name uniform variable name
-     * @param {number|Array<number>} [value]
-     * @returns {Program} this
+     * End the current section.
+     * @returns {Profiler} this
      */
-    uniformi(name: string, value: number | number[]): Program {
-        return this.uniform(name, value, true);
+    end(): Profiler {
+        if (!this.supported) return this;
+        if (this.active == null) throw new Error("end() without begin()");
+        this.pending.push({name: this.active.name, query: this.active.query.end()});
+        this.active = null;
+        return this;
     }
 
     /**
-     * Declare an attrib or set an attrib's buffer.
-     * @param {string} name attrib variable name
-     * @param {Buffer} [value]
-     * @param {number} [size] element size (required if value is provided)
-     * @param {number} [stride=0]
-     * @returns {Program} this
+     * Time a callback as a section.
+     * @param {string} name
+     * @param {Function} callback
+     * @returns {Profiler} this
      */
-    attrib(name: string, value: Buffer, size: number, stride: number): Program {
-        const gl = this.gl;
-        if (this.vars[name] == null) {
-            this.vars[name] = gl.getAttribLocation(this.program, name);
+    section(name: string, callback: () => void): Profiler {
+        this.begin(name);
+        try {
+            callback();
+        } finally {
+            this.end();
         }
-
-        value.bind();
-        gl.enableVertexAttribArray(this.vars[name] as number);
-        gl.vertexAttribPointer(this.vars[name] as number, size, gl.FLOAT,
-                            false, stride == null ? 0 : stride, 0);
         return this;
     }
 
     /**
-     * Call glDrawArrays or glDrawElements with this program.
-     * @param {number} mode
-     * @param {number} count the number of vertex attribs to render
-     * @param {GLenum} [type] use glDrawElements of this type
-     * @returns {Program} this
+     * Collect the results that have come in. Call once per frame.
+     * @returns {Profiler} this
      */
-    draw(mode: number, count: number, type?: GLenum): Program {
-        const gl = this.gl;
-        if (type == null) {
-            gl.drawArrays(mode, 0, count);
-        } else {
-            gl.drawElements(mode, count, type, 0);
-        }
-        if (gl.getError() !== gl.NO_ERROR) {
-            throw new Error("WebGL rendering error");
+    frame(): Profiler {
+        // queries complete in the order they were issued
+        while (this.pending.length > 0 && this.pending[0].query.poll()) {
+            const {name, query} = this.pending.shift() as {name: string, query: Query};
+            if (query.result != null) {
+                const samples = this.samples[name] = this.samples[name] || [];
+                samples.push(query.result / 1e6);
+                if (samples.length > this.window) samples.shift();
+            }
+            this.free.push(query);
         }
         return this;
     }
 
     /**
-     * Disables all attribs from this program.
-     * @returns {Program} this
+     * @returns {Object} the average duration of each section, in milliseconds
      */
-    disable(): Program {
-        for (const attrib in this.vars) {
-            const location = this.vars[attrib];
-            if (this.vars.hasOwnProperty(attrib)) {
-                if (typeof location === "number") {
-                    this.gl.disableVertexAttribArray(location);
-                }
-            }
+    averages(): {[name: string]: number} {
+        const averages: {[name: string]: number} = {};
+        for (const name in this.samples) {
+            const samples = this.samples[name];
+            if (samples.length === 0) continue;
+            averages[name] = samples.reduce((a, b) => a + b, 0) / samples.length;
         }
+        return averages;
+    }
+
+    /**
+     * Forget all samples.
+     * @returns {Profiler} this
+     */
+    reset(): Profiler {
+        this.samples = {};
         return this;
     }
-}
 
+    /**
+     * @param {string} label names this in error messages and reports
+     * @returns {Profiler} this
+     */
+    setLabel(label: string): Profiler {
+        this.label = label;
+        return this;
+    }
+
+    /**
+     * Delete the queries. Safe to call more than once.
+     */
+    dispose() {
+        if (this.disposed) return;
+        this.queries().forEach(function(query) { query.dispose(); });
+        this.free = [];
+        this.pending = [];
+        this.active = null;
+        this.disposed = true;
+    }
+
+    /**
+     * Drop the measurements in flight after a context restore.
+     */
+    restore() {
+        if (this.disposed) return;
+        this.free = [];
+        this.pending = [];
+        this.active = null;
+    }
+
+    /**
+     * @returns {number} always 0
+     */
+    bytes(): number {
+        return 0;
+    }
 
+    /**
+     * @returns {Array<Query>} every query owned by the profiler
+     */
+    private queries(): Query[] {
+        const queries = this.free.concat(this.pending.map(function(p) { return p.query; }));
+        if (this.active != null) queries.push(this.active.query);
+        return queries;
+    }
+}
 
 export class Igloo {
     static Framebuffer = Framebuffer;
     static Texture = Texture;
+    static Texture3D = Texture3D;
+    static TextureArray = TextureArray;
+    static TextureCube = TextureCube;
+    static Sampler = Sampler;
+    static Capabilities = Capabilities;
+    static GLState = GLState;
     static Program = Program;
     static Buffer = Buffer;
+    static VertexArray = VertexArray;
+    static UniformBlock = UniformBlock;
+    static Preprocessor = Preprocessor;
+    static PingPong = PingPong;
+    static TransformFeedback = TransformFeedback;
+    static DrawCommand = DrawCommand;
+    static Query = Query;
+    static Profiler = Profiler;
 
     gl: WebGLAnyContext;
-    canvas: HTMLCanvasElement;
+    canvas: AnyCanvas;
     defaultFramebuffer: any;
+    preprocessor: Preprocessor;
+    /** every resource created through this instance, until disposed */
+    resources: Set<Resource>;
+    /** true between webglcontextlost and webglcontextrestored */
+    lost: boolean;
+    private listeners: {[type: string]: Array<(error?: Error, resource?: Resource) => void>};
+    private loseExtension: WEBGL_lose_context | null;
+    private profiling: Profiler | null;
 
     static QUAD2 = new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]);
+    static FORMATS = TEXTURE_FORMATS;
+    static debugContext = debugContext;
     /**
-     * Wrap WebGLAnyContext objects with useful behavior.
-     * @param {WebGLAnyContext|HTMLCanvasElement} gl
+     * Wrap WebGLAnyContext objects with useful behavior. Pass
+     * {debug: true} in options to check every GL call, see debugContext.
+     * Works in workers too, given an OffscreenCanvas or its context.
+     * @param {WebGLAnyContext|AnyCanvas} gl
      * @param {Record<string, unknown>} [options] to pass to getContext()
      * @returns {Igloo}
      * @namespace
      */
-    constructor(gl:WebGLAnyContext|HTMLCanvasElement, options?:Record<string, unknown>) {
-        let canvas : HTMLCanvasElement;
-        if (gl instanceof HTMLCanvasElement) {
-            canvas = gl;
-            const temp = Igloo.getContext(gl, options);
+    constructor(gl:WebGLAnyContext|AnyCanvas, options?:Record<string, unknown>) {
+        let canvas : AnyCanvas;
+        // duck typed, so that OffscreenCanvas and stand-ins such as MockCanvas work too
+        if (typeof (gl as AnyCanvas).getContext === "function") {
+            canvas = gl as AnyCanvas;
+            const temp = Igloo.getContext(canvas, options);
             if (temp) gl = temp;
             
         } else {
-            canvas = gl.canvas;
+            // the DOM typings claim HTMLCanvasElement, but it is the OffscreenCanvas in workers
+            canvas = (gl as WebGLAnyContext).canvas as AnyCanvas;
         }
         this.gl = gl as WebGLAnyContext;
+        if (options && options.debug) this.gl = debugContext(this.gl);
         this.canvas = canvas;
         this.defaultFramebuffer = new Igloo.Framebuffer(this.gl, null);
+        this.preprocessor = new Igloo.Preprocessor();
+        this.resources = new Set();
+        this.lost = false;
+        this.listeners = {lost: [], restored: [], error: []};
+        this.loseExtension = null;
+        this.profiling = null;
+        if (canvas != null && typeof canvas.addEventListener === "function") {
+            canvas.addEventListener("webglcontextlost", (event) => {
+                // without preventDefault() the context is never restored
+                event.preventDefault();
+                this.lost = true;
+                this.emit("lost");
+            }, false);
+            canvas.addEventListener("webglcontextrestored", () => {
+                this.lost = false;
+                const failures = this.restore();
+                this.emit("restored");
+                // like an EventEmitter, throw when nobody listens for errors
+                if (failures.length > 0 && this.listeners.error.length === 0) throw failures[0].error;
+                failures.forEach((failure) => this.emit("error", failure.error, failure.resource));
+            }, false);
+        }
     }
 
     /**
-     * @param {HTMLCanvasElement} canvas
+     * @returns {Capabilities} what the context supports, see Capabilities
+     */
+    get caps(): Capabilities {
+        return capabilities(this.gl);
+    }
+
+    /**
+     * @returns {GLState} the binding and render state cache of the context
+     */
+    get state(): GLState {
+        return glState(this.gl);
+    }
+
+    /**
+     * @returns {Profiler} the GPU profiler of this instance, created on first use
+     */
+    get profiler(): Profiler {
+        if (this.profiling == null || this.profiling.disposed) {
+            this.profiling = this.track(new Igloo.Profiler(this.gl));
+        }
+        return this.profiling;
+    }
+
+    /**
+     * Listen for context loss. Tracked resources are recreated before
+     * "restored" listeners run, so these only need to upload the data
+     * that was not retained (dynamic buffers, rendered textures,
+     * uniform values) and reset any GL state the app relies on. A
+     * resource that fails to restore does not stop the others: each
+     * failure goes to the "error" listeners after "restored", or is
+     * thrown if there are none.
+     * @param {string} type "lost", "restored" or "error"
+     * @param {Function} listener
+     * @returns {Igloo} this
+     */
+    on(type: "lost" | "restored", listener: () => void): Igloo;
+    on(type: "error", listener: (error: Error, resource: Resource) => void): Igloo;
+    on(type: string, listener: (error: Error, resource: Resource) => void): Igloo {
+        this.listeners[type].push(listener as (error?: Error, resource?: Resource) => void);
+        return this;
+    }
+
+    /**
+     * @param {string} type "lost", "restored" or "error"
+     * @param {Function} listener as given to on()
+     * @returns {Igloo} this
+     */
+    off(type: "lost" | "restored", listener: () => void): Igloo;
+    off(type: "error", listener: (error: Error, resource: Resource) => void): Igloo;
+    off(type: string, listener: (error: Error, resource: Resource) => void): Igloo {
+        const listeners = this.listeners[type];
+        const i = listeners.indexOf(listener as (error?: Error, resource?: Resource) => void);
+        if (i >= 0) listeners.splice(i, 1);
+        return this;
+    }
+
+    /**
+     * @param {string} type
+     * @param {Error} [error] for "error"
+     * @param {Resource} [resource] for "error", the one that failed
+     */
+    private emit(type: string, error?: Error, resource?: Resource) {
+        this.listeners[type].slice().forEach(function(listener) { listener(error, resource); });
+    }
+
+    /**
+     * Simulate a context loss through WEBGL_lose_context, for testing.
+     * @returns {Igloo} this
+     */
+    loseContext(): Igloo {
+        this.loseExtension = this.loseExtension || this.caps.extension("WEBGL_lose_context");
+        if (this.loseExtension == null) {
+            throw new Error("Simulating context loss requires WEBGL_lose_context");
+        }
+        this.loseExtension.loseContext();
+        return this;
+    }
+
+    /**
+     * End a loss started by loseContext().
+     * @returns {Igloo} this
+     */
+    restoreContext(): Igloo {
+        if (this.loseExtension == null) {
+            throw new Error("restoreContext() must follow loseContext()");
+        }
+        this.loseExtension.restoreContext();
+        return this;
+    }
+
+    /**
+     * Recreate every tracked resource on the restored context. Resources
+     * that others refer to go first.
+     * @returns {Array<Object>} the resources that failed, and why
+     */
+    private restore(): {resource: Resource, error: Error}[] {
+        this.caps.reset();
+        this.state.invalidate();
+        const first: Resource[] = [], rest: Resource[] = [];
+        this.resources.forEach((resource) => {
+            if (resource.disposed) {
+                this.resources.delete(resource);
+            } else if (resource instanceof Buffer || resource instanceof Texture ||
+                       resource instanceof Sampler || resource instanceof Program) {
+                first.push(resource);
+            } else {
+                rest.push(resource);
+            }
+        });
+        const failures: {resource: Resource, error: Error}[] = [];
+        first.concat(rest).forEach(function(resource) {
+            try {
+                resource.restore();
+            } catch (e) {
+                failures.push({resource, error: e instanceof Error ? e : new Error(String(e))});
+            }
+        });
+        return failures;
+    }
+
+    /**
+     * Register a resource so dispose() and report() cover it. All the
+     * factory methods call this for you.
+     * @param {Resource} resource
+     * @returns {Resource} resource
+     */
+    track<T extends Resource>(resource: T): T {
+        this.resources.add(resource);
+        return resource;
+    }
+
+    /**
+     * Dispose every tracked resource, e.g. when tearing down a view.
+     * @returns {Igloo} this
+     */
+    dispose(): Igloo {
+        this.resources.forEach(function(resource) { resource.dispose(); });
+        this.resources.clear();
+        return this;
+    }
+
+    /**
+     * List the tracked resources that are still alive, to spot leaks.
+     * @returns {Object} total bytes and one {type, label, bytes} entry per resource
+     */
+    report(): {bytes: number, resources: {type: string, label: string | null, bytes: number}[]} {
+        const resources: {type: string, label: string | null, bytes: number}[] = [];
+        let bytes = 0;
+        this.resources.forEach((resource) => {
+            if (resource.disposed) {
+                this.resources.delete(resource);
+                return;
+            }
+            const size = resource.bytes();
+            resources.push({type: resource.kind, label: resource.label, bytes: size});
+            bytes += size;
+        });
+        return {bytes, resources};
+    }
+
+    /**
+     * Create a WebGL2 context, falling back to WebGL1.
+     * @param {AnyCanvas} canvas
      * @param {Record<string, unknown>} [options] to pass to getContext()
      * @param {boolean} [noerror] If true, return null instead of throwing
      * @returns {?WebGLAnyContext} a WebGL rendering context.
      */
-    static getContext(canvas:HTMLCanvasElement, options?:Record<string, unknown>, noerror?:boolean) : WebGLAnyContext | null {
-        let gl : WebGLAnyContext | null;
-        try {
-            gl = canvas.getContext("webgl2", options || {}) as WebGLAnyContext;
-        } catch (e) {
-            gl = null;
+    static getContext(canvas:AnyCanvas, options?:Record<string, unknown>, noerror?:boolean) : WebGLAnyContext | null {
+        let gl : WebGLAnyContext | null = null;
+        for (const type of ["webgl2", "webgl", "experimental-webgl"]) {
+            try {
+                gl = (canvas as OffscreenCanvas).getContext(type, options || {}) as WebGLAnyContext | null;
+            } catch (e) {
+                gl = null;
+            }
+            if (gl != null) break;
         }
         if (gl == null && !noerror) {
             throw new Error("Could not create WebGL context.");
@@ -494,13 +5174,37 @@ export class Igloo {
         }
     }
 
+    /**
+     * Hand a page canvas over to a worker, which can then render to it
+     * with new Igloo(canvas). The canvas arrives as the canvas property
+     * of the posted message; the page can no longer get a context of it.
+     * @param {HTMLCanvasElement} canvas
+     * @param {Worker} worker
+     * @param {Record<string, unknown>} [message] other properties to post along
+     * @returns {OffscreenCanvas} the canvas as transferred
+     */
+    static transferToWorker(canvas: HTMLCanvasElement, worker: Worker,
+                            message?: Record<string, unknown>): OffscreenCanvas {
+        const page = canvas as HTMLCanvasElement & {transferControlToOffscreen?: () => OffscreenCanvas};
+        if (typeof page.transferControlToOffscreen !== "function") {
+            throw new Error("OffscreenCanvas is not supported, cannot transfer the canvas");
+        }
+        const offscreen = page.transferControlToOffscreen();
+        worker.postMessage(Object.assign({}, message, {canvas: offscreen}), [offscreen as unknown as Transferable]);
+        return offscreen;
+    }
+
     /**
      * Asynchronously or synchronously fetch data from the server.
+     * Requires XMLHttpRequest, prefer loadText() where it may be missing.
      * @param {string} url
      * @param {Function} [callback] if provided, call is asynchronous
      * @returns {string}
      */
     static fetch = function(url: string | URL, callback?: ((arg0: string) => void)) : string {
+        if (typeof XMLHttpRequest === "undefined") {
+            throw new Error(`Cannot fetch ${url} without XMLHttpRequest, use loadProgram() or loadText()`);
+        }
         const xhr = new XMLHttpRequest();
         xhr.open("GET", url, Boolean(callback));
         if (callback != null) {
@@ -512,6 +5216,38 @@ export class Igloo {
         return xhr.responseText;
     };
 
+    /**
+     * Fetch a text resource without blocking.
+     * @param {string} url
+     * @returns {Promise<string>}
+     */
+    static loadText(url: string): Promise<string> {
+        return fetch(url).then(function(response) {
+            if (!response.ok) {
+                throw new Error(`Failed to load ${url}: HTTP ${response.status} ${response.statusText}`);
+            }
+            return response.text();
+        });
+    }
+
+    /**
+     * Fetch and decode an image without blocking.
+     * @param {string} url
+     * @returns {Promise<TexImageSource>}
+     */
+    static loadImage(url: string): Promise<TexImageSource> {
+        return fetch(url).then(function(response) {
+            if (!response.ok) {
+                throw new Error(`Failed to load ${url}: HTTP ${response.status} ${response.statusText}`);
+            }
+            return response.blob();
+        }).then(function(blob) {
+            return createImageBitmap(blob).catch(function(e) {
+                throw new Error(`Failed to decode image ${url}: ${e && e.message || e}`);
+            });
+        });
+    }
+
     /**
      * @param {string} string
      * @returns {boolean} True if the string looks like a URL
@@ -531,32 +5267,143 @@ export class Igloo {
     }
 
     /**
-     * Creates a program from a program configuration.
+     * Creates a program from a program configuration. Both shaders go
+     * through the preprocessor, so they may #include registered chunks.
      *
      * @param {string} vertex URL or source of the vertex shader
      * @param {string} fragment URL or source of the fragment shader
-     * @param {Function} [transform] Transforms the shaders before compilation
+     * @param {Function|ProgramOptions} [options] transform function or options
      * @returns {Program}
      */
-    program(vertex:string, fragment:string, transform?: ((arg0: string) => string)): Program {
+    program(vertex:string, fragment:string, options?: ((arg0: string) => string) | ProgramOptions): Program {
+        const opts = typeof options === "function" ? {transform: options} : options || {};
+        const vertexFile = Igloo.looksLikeURL(vertex) ? vertex : "vertex";
+        const fragmentFile = Igloo.looksLikeURL(fragment) ? fragment : "fragment";
         if (Igloo.looksLikeURL(vertex)) vertex = Igloo.fetch(vertex);
         if (Igloo.looksLikeURL(fragment)) fragment = Igloo.fetch(fragment);
-        if (transform != null) {
-            vertex = transform(vertex);
-            fragment = transform(fragment);
+        return this.compile(vertex, fragment, vertexFile, fragmentFile, opts);
+    }
+
+    /**
+     * Asynchronously load and create a program. Unregistered #include
+     * targets are loaded through the same loader before compiling.
+     * @param {string} vertexUrl
+     * @param {string} fragmentUrl
+     * @param {LoadProgramOptions} [options]
+     * @returns {Promise<Program>}
+     */
+    loadProgram(vertexUrl: string, fragmentUrl: string, options?: LoadProgramOptions): Promise<Program> {
+        const opts = options || {};
+        const loader = opts.loader || Igloo.loadText;
+        return Promise.all([loader(vertexUrl), loader(fragmentUrl)]).then(([vertex, fragment]) => {
+            return Promise.all([
+                this.preprocessor.preload(vertex, loader),
+                this.preprocessor.preload(fragment, loader),
+            ]).then(() => {
+                return Igloo.whenComplete(
+                    this.compile(vertex, fragment, vertexUrl, fragmentUrl, opts, true));
+            });
+        });
+    }
+
+    /**
+     * Like program(), but without blocking: URLs and unregistered #include
+     * targets are loaded with loadText(), as loadProgram() does, so it
+     * works without XMLHttpRequest. The compile and link are then submitted
+     * without waiting for the driver and the Program resolves once ready.
+     * Create all programs before awaiting any of them so the driver can
+     * compile them in parallel (KHR_parallel_shader_compile).
+     * @param {string} vertex URL or source of the vertex shader
+     * @param {string} fragment URL or source of the fragment shader
+     * @param {Function|ProgramOptions} [options] transform function or options
+     * @returns {Promise<Program>}
+     */
+    programAsync(vertex: string, fragment: string,
+                 options?: ((arg0: string) => string) | ProgramOptions): Promise<Program> {
+        const opts = typeof options === "function" ? {transform: options} : options || {};
+        const vertexFile = Igloo.looksLikeURL(vertex) ? vertex : "vertex";
+        const fragmentFile = Igloo.looksLikeURL(fragment) ? fragment : "fragment";
+        const load = function(source: string): Promise<string> {
+            return Igloo.looksLikeURL(source) ? Igloo.loadText(source) : Promise.resolve(source);
+        };
+        return Promise.all([load(vertex), load(fragment)]).then(([vertex, fragment]) => {
+            return Promise.all([
+                this.preprocessor.preload(vertex, Igloo.loadText),
+                this.preprocessor.preload(fragment, Igloo.loadText),
+            ]).then(() => {
+                return Igloo.whenComplete(
+                    this.compile(vertex, fragment, vertexFile, fragmentFile, opts, true));
+            });
+        });
+    }
+
+    /**
+     * Poll a deferred program once per frame until it is complete.
+     * @param {Program} program created with defer set
+     * @returns {Promise<Program>} the checked program
+     */
+    private static whenComplete(program: Program): Promise<Program> {
+        return new Promise(function(resolve, reject) {
+            const poll = function() {
+                if (!program.isComplete()) {
+                    nextFrame(poll);
+                    return;
+                }
+                try {
+                    resolve(program.check());
+                } catch (e) {
+                    reject(e);
+                }
+            };
+            // always wait once, so programs submitted after this one get
+            // to the driver before anything blocks on a status check
+            nextFrame(poll);
+        });
+    }
+
+    /**
+     * Transform, preprocess and link a pair of shader sources.
+     * @param {string} vertex
+     * @param {string} fragment
+     * @param {string} vertexFile name used in error messages
+     * @param {string} fragmentFile name used in error messages
+     * @param {ProgramOptions} opts
+     * @param {boolean} [defer=false] see the Program constructor
+     * @returns {Program}
+     */
+    private compile(vertex: string, fragment: string,
+                    vertexFile: string, fragmentFile: string, opts: ProgramOptions,
+                    defer = false): Program {
+        if (opts.transform != null) {
+            vertex = opts.transform(vertex);
+            fragment = opts.transform(fragment);
         }
-        return new Igloo.Program(this.gl, vertex, fragment);
+        return this.track(new Igloo.Program(this.gl,
+            this.preprocessor.process(vertex, {defines: opts.defines, file: vertexFile}),
+            this.preprocessor.process(fragment, {defines: opts.defines, file: fragmentFile}),
+            defer, opts.feedback));
+    }
+
+    /**
+     * Register a named GLSL chunk for #include in program() shaders.
+     * @param {string} name
+     * @param {string} source
+     * @returns {Igloo} this
+     */
+    include(name: string, source: string): Igloo {
+        this.preprocessor.register(name, source);
+        return this;
     }
 
     /**
      * Create a new GL_ARRAY_BUFFER with optional data.
-     * @param {BufferSource} [data]
+     * @param {BufferData} [data]
      * @param {GLenum} [usage]
      * @returns {Buffer}
      */
-    array(data?: BufferSource, usage?: GLenum): Buffer {
+    array(data?: BufferData, usage?: GLenum): Buffer {
         const gl = this.gl,
-            buffer = new Igloo.Buffer(gl, gl.ARRAY_BUFFER);
+            buffer = this.track(new Igloo.Buffer(gl, gl.ARRAY_BUFFER));
         if (data != null) {
             buffer.update(data, usage == null ? gl.STATIC_DRAW : usage);
         }
@@ -565,22 +5412,42 @@ export class Igloo {
 
     /**
      * Create a new GL_ELEMENT_ARRAY_BUFFER with optional data.
-     * @param {BufferSource} [data]
+     * @param {BufferData} [data]
      * @param {GLenum} [usage]
      * @returns {Buffer}
      */
-    elements(data?: BufferSource, usage?: GLenum): Buffer {
+    elements(data?: BufferData, usage?: GLenum): Buffer {
         const gl = this.gl,
-            buffer = new Igloo.Buffer(gl, gl.ELEMENT_ARRAY_BUFFER);
+            buffer = this.track(new Igloo.Buffer(gl, gl.ELEMENT_ARRAY_BUFFER));
         if (data != null) {
             buffer.update(data, usage == null ? gl.STATIC_DRAW : usage);
         }
         return buffer;
     }
 
+    /**
+     * Create a new vertex array from a declarative layout.
+     * @param {VertexLayout} layout
+     * @param {Program} [program] resolves attrib names to locations
+     * @returns {VertexArray}
+     */
+    vertexArray(layout: VertexLayout, program?: Program): VertexArray {
+        return this.track(new Igloo.VertexArray(this.gl, layout, program));
+    }
+
+    /**
+     * Create a uniform buffer for a uniform block declared in a program.
+     * @param {Program} program
+     * @param {string} name uniform block name
+     * @returns {UniformBlock}
+     */
+    uniformBlock(program: Program, name: string): UniformBlock {
+        return this.track(new Igloo.UniformBlock(this.gl, program, name));
+    }
+
     /**
      * @param {TexImageSource} [source]
-     * @param {GLenum} [format=GL_RGBA]
+     * @param {GLenum|string} [format=GL_RGBA] enum or TEXTURE_FORMATS name
      * @param {GLenum} [wrap=GL_CLAMP_TO_EDGE]
      * @param {GLenum} [filter=GL_LINEAR]
      * @param {GLenum} [type=UNSIGNED_BYTE]
@@ -589,16 +5456,17 @@ export class Igloo {
      * @returns {Texture}
      */
     texture(source: ArrayBufferView | TexImageSource | number[] | null,
-        format: GLenum, 
-        wrap: GLenum, 
-        filter: GLenum, 
-        type: GLenum, 
-        internalFormat: GLint, 
-        options: { type: "ArrayBufferView" | "TexImageSource"; 
+        format?: GLenum | string, 
+        wrap?: GLenum, 
+        filter?: GLenum, 
+        type?: GLenum, 
+        internalFormat?: GLint, 
+        options?: { type: "ArrayBufferView" | "TexImageSource"; 
             width?: number; 
             height?: number; }): Texture {
 
-        const texture = new Igloo.Texture(this.gl, format, wrap, filter, type, internalFormat);
+        const texture = this.track(
+            new Igloo.Texture(this.gl, format, wrap, filter, type, internalFormat));
         if (source != null) {
             if (options && options.type === "ArrayBufferView") {
                 texture.set(source, options.width, options.height);
@@ -610,12 +5478,131 @@ export class Igloo {
         return texture;
     }
 
+    /**
+     * Create a new, empty WebGL2 3D texture.
+     * @param {GLenum|string} [format=GL_RGBA] enum or TEXTURE_FORMATS name
+     * @param {GLenum} [wrap=GL_CLAMP_TO_EDGE]
+     * @param {GLenum} [filter=GL_LINEAR]
+     * @param {GLenum} [type=UNSIGNED_BYTE]
+     * @param {GLenum} [internalFormat=GL_RGBA]
+     * @returns {Texture3D}
+     */
+    texture3D(format?: GLenum | string, wrap?: GLenum, filter?: GLenum,
+              type?: GLenum, internalFormat?: GLint): Texture3D {
+        return this.track(new Igloo.Texture3D(this.gl, format, wrap, filter, type, internalFormat));
+    }
+
+    /**
+     * Create a new, empty WebGL2 2D array texture.
+     * @param {GLenum|string} [format=GL_RGBA] enum or TEXTURE_FORMATS name
+     * @param {GLenum} [wrap=GL_CLAMP_TO_EDGE]
+     * @param {GLenum} [filter=GL_LINEAR]
+     * @param {GLenum} [type=UNSIGNED_BYTE]
+     * @param {GLenum} [internalFormat=GL_RGBA]
+     * @returns {TextureArray}
+     */
+    textureArray(format?: GLenum | string, wrap?: GLenum, filter?: GLenum,
+                 type?: GLenum, internalFormat?: GLint): TextureArray {
+        return this.track(new Igloo.TextureArray(this.gl, format, wrap, filter, type, internalFormat));
+    }
+
+    /**
+     * Create a new cube map texture, optionally from six face images.
+     * @param {Array<TexImageSource>} [faces] +X, -X, +Y, -Y, +Z, -Z
+     * @param {GLenum|string} [format=GL_RGBA] enum or TEXTURE_FORMATS name
+     * @param {GLenum} [wrap=GL_CLAMP_TO_EDGE]
+     * @param {GLenum} [filter=GL_LINEAR]
+     * @param {GLenum} [type=UNSIGNED_BYTE]
+     * @param {GLenum} [internalFormat=GL_RGBA]
+     * @returns {TextureCube}
+     */
+    textureCube(faces?: TexImageSource[] | null, format?: GLenum | string, wrap?: GLenum,
+                filter?: GLenum, type?: GLenum, internalFormat?: GLint): TextureCube {
+        const texture = this.track(
+            new Igloo.TextureCube(this.gl, format, wrap, filter, type, internalFormat));
+        if (faces != null) {
+            faces.forEach(function(source, face) { texture.face(face, source); });
+        }
+        return texture;
+    }
+
+    /**
+     * Create a new WebGL2 sampler object.
+     * @param {TextureParams} [params]
+     * @returns {Sampler}
+     */
+    sampler(params?: TextureParams): Sampler {
+        return this.track(new Igloo.Sampler(this.gl, params));
+    }
+
+    /**
+     * Asynchronously load an image into a new texture.
+     * @param {string} url
+     * @param {LoadTextureOptions} [options]
+     * @returns {Promise<Texture>}
+     */
+    loadTexture(url: string, options?: LoadTextureOptions): Promise<Texture> {
+        const opts = options || {};
+        const loader = opts.loader || Igloo.loadImage;
+        return loader(url).then((image) => {
+            const texture = this.texture(null, opts.format, opts.wrap, opts.filter,
+                                         opts.type, opts.internalFormat);
+            texture.retain = Boolean(opts.retain);
+            try {
+                return texture.set(image);
+            } catch (e) {
+                // a source set() cannot upload would leave the texture behind
+                texture.dispose();
+                this.resources.delete(texture);
+                throw e;
+            }
+        });
+    }
+
+    /**
+     * Create a new WebGL2 transform feedback object.
+     * @param {Array<Buffer>} [buffers] output buffers
+     * @returns {TransformFeedback}
+     */
+    transformFeedback(buffers?: Buffer[]): TransformFeedback {
+        return this.track(new Igloo.TransformFeedback(this.gl, buffers));
+    }
+
+    /**
+     * Create a reusable draw call, see DrawCommand.
+     * @param {DrawOptions} options
+     * @returns {DrawCommand}
+     */
+    command(options: DrawOptions): DrawCommand {
+        return this.track(new Igloo.DrawCommand(this.gl, options));
+    }
+
+    /**
+     * Create a new WebGL2 query object.
+     * @param {GLenum} [target=TIME_ELAPSED_EXT] or an occlusion query target
+     * @returns {Query}
+     */
+    query(target?: GLenum): Query {
+        return this.track(new Igloo.Query(this.gl, target));
+    }
+
+    /**
+     * Create a double-buffered render target for GPU simulations.
+     * @param {number} width
+     * @param {number} height
+     * @param {PingPongOptions} [options]
+     * @returns {PingPong}
+     */
+    pingPong(width: number, height: number, options?: PingPongOptions): PingPong {
+        return this.track(new Igloo.PingPong(this.gl, width, height, options));
+    }
+
     /**
      * @param {Texture} [texture]
      * @returns {Framebuffer}
      */
     framebuffer(texture: Texture): Framebuffer {
-        const framebuffer = new Igloo.Framebuffer(this.gl);
+        const framebuffer = this.track(new Igloo.Framebuffer(this.gl));
         if (texture != null) framebuffer.attach(texture);
         return framebuffer;
     }
@@ -0,0 +1,5394 @@
+/**
+ * The WebGL constants by name, as found on the prototypes of real
+ * contexts. Mock contexts copy them the same way, so that code reading
+ * gl.TEXTURE_2D or naming enums by enumerating gl works unchanged.
+ */
+const WEBGL1_CONSTANTS = {
+    ACTIVE_ATTRIBUTES: 0x8B89, ACTIVE_TEXTURE: 0x84E0, ACTIVE_UNIFORMS: 0x8B86,
+    ALIASED_LINE_WIDTH_RANGE: 0x846E, ALIASED_POINT_SIZE_RANGE: 0x846D, ALPHA: 0x1906,
+    ALPHA_BITS: 0x0D55, ALWAYS: 0x0207, ARRAY_BUFFER: 0x8892, ARRAY_BUFFER_BINDING: 0x8894,
+    ATTACHED_SHADERS: 0x8B85, BACK: 0x0405, BLEND: 0x0BE2, BLEND_COLOR: 0x8005,
+    BLEND_DST_ALPHA: 0x80CA, BLEND_DST_RGB: 0x80C8, BLEND_EQUATION: 0x8009,
+    BLEND_EQUATION_ALPHA: 0x883D, BLEND_EQUATION_RGB: 0x8009, BLEND_SRC_ALPHA: 0x80CB,
+    BLEND_SRC_RGB: 0x80C9, BLUE_BITS: 0x0D54, BOOL: 0x8B56, BOOL_VEC2: 0x8B57, BOOL_VEC3: 0x8B58,
+    BOOL_VEC4: 0x8B59, BROWSER_DEFAULT_WEBGL: 0x9244, BUFFER_SIZE: 0x8764, BUFFER_USAGE: 0x8765,
+    BYTE: 0x1400, CCW: 0x0901, CLAMP_TO_EDGE: 0x812F, COLOR_ATTACHMENT0: 0x8CE0,
+    COLOR_BUFFER_BIT: 0x00004000, COLOR_CLEAR_VALUE: 0x0C22, COLOR_WRITEMASK: 0x0C23,
+    COMPILE_STATUS: 0x8B81, COMPRESSED_TEXTURE_FORMATS: 0x86A3, CONSTANT_ALPHA: 0x8003,
+    CONSTANT_COLOR: 0x8001, CONTEXT_LOST_WEBGL: 0x9242, CULL_FACE: 0x0B44, CULL_FACE_MODE: 0x0B45,
+    CURRENT_PROGRAM: 0x8B8D, CURRENT_VERTEX_ATTRIB: 0x8626, CW: 0x0900, DECR: 0x1E03,
+    DECR_WRAP: 0x8508, DELETE_STATUS: 0x8B80, DEPTH_ATTACHMENT: 0x8D00, DEPTH_BITS: 0x0D56,
+    DEPTH_BUFFER_BIT: 0x00000100, DEPTH_CLEAR_VALUE: 0x0B73, DEPTH_COMPONENT: 0x1902,
+    DEPTH_COMPONENT16: 0x81A5, DEPTH_FUNC: 0x0B74, DEPTH_RANGE: 0x0B70, DEPTH_STENCIL: 0x84F9,
+    DEPTH_STENCIL_ATTACHMENT: 0x821A, DEPTH_TEST: 0x0B71, DEPTH_WRITEMASK: 0x0B72, DITHER: 0x0BD0,
+    DONT_CARE: 0x1100, DST_ALPHA: 0x0304, DST_COLOR: 0x0306, DYNAMIC_DRAW: 0x88E8,
+    ELEMENT_ARRAY_BUFFER: 0x8893, ELEMENT_ARRAY_BUFFER_BINDING: 0x8895, EQUAL: 0x0202,
+    FASTEST: 0x1101, FLOAT: 0x1406, FLOAT_MAT2: 0x8B5A, FLOAT_MAT3: 0x8B5B, FLOAT_MAT4: 0x8B5C,
+    FLOAT_VEC2: 0x8B50, FLOAT_VEC3: 0x8B51, FLOAT_VEC4: 0x8B52, FRAGMENT_SHADER: 0x8B30,
+    FRAMEBUFFER: 0x8D40, FRAMEBUFFER_ATTACHMENT_OBJECT_NAME: 0x8CD1,
+    FRAMEBUFFER_ATTACHMENT_OBJECT_TYPE: 0x8CD0,
+    FRAMEBUFFER_ATTACHMENT_TEXTURE_CUBE_MAP_FACE: 0x8CD3,
+    FRAMEBUFFER_ATTACHMENT_TEXTURE_LEVEL: 0x8CD2, FRAMEBUFFER_BINDING: 0x8CA6,
+    FRAMEBUFFER_COMPLETE: 0x8CD5, FRAMEBUFFER_INCOMPLETE_ATTACHMENT: 0x8CD6,
+    FRAMEBUFFER_INCOMPLETE_DIMENSIONS: 0x8CD9, FRAMEBUFFER_INCOMPLETE_MISSING_ATTACHMENT: 0x8CD7,
+    FRAMEBUFFER_UNSUPPORTED: 0x8CDD, FRONT: 0x0404, FRONT_AND_BACK: 0x0408, FRONT_FACE: 0x0B46,
+    FUNC_ADD: 0x8006, FUNC_REVERSE_SUBTRACT: 0x800B, FUNC_SUBTRACT: 0x800A,
+    GENERATE_MIPMAP_HINT: 0x8192, GEQUAL: 0x0206, GREATER: 0x0204, GREEN_BITS: 0x0D53,
+    HIGH_FLOAT: 0x8DF2, HIGH_INT: 0x8DF5, IMPLEMENTATION_COLOR_READ_FORMAT: 0x8B9B,
+    IMPLEMENTATION_COLOR_READ_TYPE: 0x8B9A, INCR: 0x1E02, INCR_WRAP: 0x8507, INT: 0x1404,
+    INT_VEC2: 0x8B53, INT_VEC3: 0x8B54, INT_VEC4: 0x8B55, INVALID_ENUM: 0x0500,
+    INVALID_FRAMEBUFFER_OPERATION: 0x0506, INVALID_OPERATION: 0x0502, INVALID_VALUE: 0x0501,
+    INVERT: 0x150A, KEEP: 0x1E00, LEQUAL: 0x0203, LESS: 0x0201, LINEAR: 0x2601,
+    LINEAR_MIPMAP_LINEAR: 0x2703, LINEAR_MIPMAP_NEAREST: 0x2701, LINES: 0x0001, LINE_LOOP: 0x0002,
+    LINE_STRIP: 0x0003, LINE_WIDTH: 0x0B21, LINK_STATUS: 0x8B82, LOW_FLOAT: 0x8DF0, LOW_INT: 0x8DF3,
+    LUMINANCE: 0x1909, LUMINANCE_ALPHA: 0x190A, MAX_COMBINED_TEXTURE_IMAGE_UNITS: 0x8B4D,
+    MAX_CUBE_MAP_TEXTURE_SIZE: 0x851C, MAX_FRAGMENT_UNIFORM_VECTORS: 0x8DFD,
+    MAX_RENDERBUFFER_SIZE: 0x84E8, MAX_TEXTURE_IMAGE_UNITS: 0x8872, MAX_TEXTURE_SIZE: 0x0D33,
+    MAX_VARYING_VECTORS: 0x8DFC, MAX_VERTEX_ATTRIBS: 0x8869, MAX_VERTEX_TEXTURE_IMAGE_UNITS: 0x8B4C,
+    MAX_VERTEX_UNIFORM_VECTORS: 0x8DFB, MAX_VIEWPORT_DIMS: 0x0D3A, MEDIUM_FLOAT: 0x8DF1,
+    MEDIUM_INT: 0x8DF4, MIRRORED_REPEAT: 0x8370, NEAREST: 0x2600, NEAREST_MIPMAP_LINEAR: 0x2702,
+    NEAREST_MIPMAP_NEAREST: 0x2700, NEVER: 0x0200, NICEST: 0x1102, NONE: 0, NOTEQUAL: 0x0205,
+    NO_ERROR: 0, ONE: 1, ONE_MINUS_CONSTANT_ALPHA: 0x8004, ONE_MINUS_CONSTANT_COLOR: 0x8002,
+    ONE_MINUS_DST_ALPHA: 0x0305, ONE_MINUS_DST_COLOR: 0x0307, ONE_MINUS_SRC_ALPHA: 0x0303,
+    ONE_MINUS_SRC_COLOR: 0x0301, OUT_OF_MEMORY: 0x0505, PACK_ALIGNMENT: 0x0D05, POINTS: 0x0000,
+    POLYGON_OFFSET_FACTOR: 0x8038, POLYGON_OFFSET_FILL: 0x8037, POLYGON_OFFSET_UNITS: 0x2A00,
+    RED_BITS: 0x0D52, RENDERBUFFER: 0x8D41, RENDERBUFFER_ALPHA_SIZE: 0x8D53,
+    RENDERBUFFER_BINDING: 0x8CA7, RENDERBUFFER_BLUE_SIZE: 0x8D52, RENDERBUFFER_DEPTH_SIZE: 0x8D54,
+    RENDERBUFFER_GREEN_SIZE: 0x8D51, RENDERBUFFER_HEIGHT: 0x8D43,
+    RENDERBUFFER_INTERNAL_FORMAT: 0x8D44, RENDERBUFFER_RED_SIZE: 0x8D50,
+    RENDERBUFFER_STENCIL_SIZE: 0x8D55, RENDERBUFFER_WIDTH: 0x8D42, RENDERER: 0x1F01, REPEAT: 0x2901,
+    REPLACE: 0x1E01, RGB: 0x1907, RGB565: 0x8D62, RGB5_A1: 0x8057, RGBA: 0x1908, RGBA4: 0x8056,
+    SAMPLER_2D: 0x8B5E, SAMPLER_CUBE: 0x8B60, SAMPLES: 0x80A9, SAMPLE_ALPHA_TO_COVERAGE: 0x809E,
+    SAMPLE_BUFFERS: 0x80A8, SAMPLE_COVERAGE: 0x80A0, SAMPLE_COVERAGE_INVERT: 0x80AB,
+    SAMPLE_COVERAGE_VALUE: 0x80AA, SCISSOR_BOX: 0x0C10, SCISSOR_TEST: 0x0C11, SHADER_TYPE: 0x8B4F,
+    SHADING_LANGUAGE_VERSION: 0x8B8C, SHORT: 0x1402, SRC_ALPHA: 0x0302, SRC_ALPHA_SATURATE: 0x0308,
+    SRC_COLOR: 0x0300, STATIC_DRAW: 0x88E4, STENCIL_ATTACHMENT: 0x8D20, STENCIL_BACK_FAIL: 0x8801,
+    STENCIL_BACK_FUNC: 0x8800, STENCIL_BACK_PASS_DEPTH_FAIL: 0x8802,
+    STENCIL_BACK_PASS_DEPTH_PASS: 0x8803, STENCIL_BACK_REF: 0x8CA3, STENCIL_BACK_VALUE_MASK: 0x8CA4,
+    STENCIL_BACK_WRITEMASK: 0x8CA5, STENCIL_BITS: 0x0D57, STENCIL_BUFFER_BIT: 0x00000400,
+    STENCIL_CLEAR_VALUE: 0x0B91, STENCIL_FAIL: 0x0B94, STENCIL_FUNC: 0x0B92, STENCIL_INDEX8: 0x8D48,
+    STENCIL_PASS_DEPTH_FAIL: 0x0B95, STENCIL_PASS_DEPTH_PASS: 0x0B96, STENCIL_REF: 0x0B97,
+    STENCIL_TEST: 0x0B90, STENCIL_VALUE_MASK: 0x0B93, STENCIL_WRITEMASK: 0x0B98,
+    STREAM_DRAW: 0x88E0, SUBPIXEL_BITS: 0x0D50, TEXTURE: 0x1702, TEXTURE0: 0x84C0, TEXTURE1: 0x84C1,
+    TEXTURE10: 0x84CA, TEXTURE11: 0x84CB, TEXTURE12: 0x84CC, TEXTURE13: 0x84CD, TEXTURE14: 0x84CE,
+    TEXTURE15: 0x84CF, TEXTURE16: 0x84D0, TEXTURE17: 0x84D1, TEXTURE18: 0x84D2, TEXTURE19: 0x84D3,
+    TEXTURE2: 0x84C2, TEXTURE20: 0x84D4, TEXTURE21: 0x84D5, TEXTURE22: 0x84D6, TEXTURE23: 0x84D7,
+    TEXTURE24: 0x84D8, TEXTURE25: 0x84D9, TEXTURE26: 0x84DA, TEXTURE27: 0x84DB, TEXTURE28: 0x84DC,
+    TEXTURE29: 0x84DD, TEXTURE3: 0x84C3, TEXTURE30: 0x84DE, TEXTURE31: 0x84DF, TEXTURE4: 0x84C4,
+    TEXTURE5: 0x84C5, TEXTURE6: 0x84C6, TEXTURE7: 0x84C7, TEXTURE8: 0x84C8, TEXTURE9: 0x84C9,
+    TEXTURE_2D: 0x0DE1, TEXTURE_BINDING_2D: 0x8069, TEXTURE_BINDING_CUBE_MAP: 0x8514,
+    TEXTURE_CUBE_MAP: 0x8513, TEXTURE_CUBE_MAP_NEGATIVE_X: 0x8516,
+    TEXTURE_CUBE_MAP_NEGATIVE_Y: 0x8518, TEXTURE_CUBE_MAP_NEGATIVE_Z: 0x851A,
+    TEXTURE_CUBE_MAP_POSITIVE_X: 0x8515, TEXTURE_CUBE_MAP_POSITIVE_Y: 0x8517,
+    TEXTURE_CUBE_MAP_POSITIVE_Z: 0x8519, TEXTURE_MAG_FILTER: 0x2800, TEXTURE_MIN_FILTER: 0x2801,
+    TEXTURE_WRAP_S: 0x2802, TEXTURE_WRAP_T: 0x2803, TRIANGLES: 0x0004, TRIANGLE_FAN: 0x0006,
+    TRIANGLE_STRIP: 0x0005, UNPACK_ALIGNMENT: 0x0CF5, UNPACK_COLORSPACE_CONVERSION_WEBGL: 0x9243,
+    UNPACK_FLIP_Y_WEBGL: 0x9240, UNPACK_PREMULTIPLY_ALPHA_WEBGL: 0x9241, UNSIGNED_BYTE: 0x1401,
+    UNSIGNED_INT: 0x1405, UNSIGNED_SHORT: 0x1403, UNSIGNED_SHORT_4_4_4_4: 0x8033,
+    UNSIGNED_SHORT_5_5_5_1: 0x8034, UNSIGNED_SHORT_5_6_5: 0x8363, VALIDATE_STATUS: 0x8B83,
+    VENDOR: 0x1F00, VERSION: 0x1F02, VERTEX_ATTRIB_ARRAY_BUFFER_BINDING: 0x889F,
+    VERTEX_ATTRIB_ARRAY_ENABLED: 0x8622, VERTEX_ATTRIB_ARRAY_NORMALIZED: 0x886A,
+    VERTEX_ATTRIB_ARRAY_POINTER: 0x8645, VERTEX_ATTRIB_ARRAY_SIZE: 0x8623,
+    VERTEX_ATTRIB_ARRAY_STRIDE: 0x8624, VERTEX_ATTRIB_ARRAY_TYPE: 0x8625, VERTEX_SHADER: 0x8B31,
+    VIEWPORT: 0x0BA2, ZERO: 0,
+};
+
+const WEBGL2_CONSTANTS = {
+    ACTIVE_UNIFORM_BLOCKS: 0x8A36, ALREADY_SIGNALED: 0x911A, ANY_SAMPLES_PASSED: 0x8C2F,
+    ANY_SAMPLES_PASSED_CONSERVATIVE: 0x8D6A, COLOR: 0x1800, COLOR_ATTACHMENT1: 0x8CE1,
+    COLOR_ATTACHMENT10: 0x8CEA, COLOR_ATTACHMENT11: 0x8CEB, COLOR_ATTACHMENT12: 0x8CEC,
+    COLOR_ATTACHMENT13: 0x8CED, COLOR_ATTACHMENT14: 0x8CEE, COLOR_ATTACHMENT15: 0x8CEF,
+    COLOR_ATTACHMENT2: 0x8CE2, COLOR_ATTACHMENT3: 0x8CE3, COLOR_ATTACHMENT4: 0x8CE4,
+    COLOR_ATTACHMENT5: 0x8CE5, COLOR_ATTACHMENT6: 0x8CE6, COLOR_ATTACHMENT7: 0x8CE7,
+    COLOR_ATTACHMENT8: 0x8CE8, COLOR_ATTACHMENT9: 0x8CE9, COMPARE_REF_TO_TEXTURE: 0x884E,
+    CONDITION_SATISFIED: 0x911C, COPY_READ_BUFFER: 0x8F36, COPY_READ_BUFFER_BINDING: 0x8F36,
+    COPY_WRITE_BUFFER: 0x8F37, COPY_WRITE_BUFFER_BINDING: 0x8F37, CURRENT_QUERY: 0x8865,
+    DEPTH: 0x1801, DEPTH24_STENCIL8: 0x88F0, DEPTH32F_STENCIL8: 0x8CAD, DEPTH_COMPONENT24: 0x81A6,
+    DEPTH_COMPONENT32F: 0x8CAC, DRAW_BUFFER0: 0x8825, DRAW_BUFFER1: 0x8826, DRAW_BUFFER10: 0x882F,
+    DRAW_BUFFER11: 0x8830, DRAW_BUFFER12: 0x8831, DRAW_BUFFER13: 0x8832, DRAW_BUFFER14: 0x8833,
+    DRAW_BUFFER15: 0x8834, DRAW_BUFFER2: 0x8827, DRAW_BUFFER3: 0x8828, DRAW_BUFFER4: 0x8829,
+    DRAW_BUFFER5: 0x882A, DRAW_BUFFER6: 0x882B, DRAW_BUFFER7: 0x882C, DRAW_BUFFER8: 0x882D,
+    DRAW_BUFFER9: 0x882E, DRAW_FRAMEBUFFER: 0x8CA9, DRAW_FRAMEBUFFER_BINDING: 0x8CA6,
+    DYNAMIC_COPY: 0x88EA, DYNAMIC_READ: 0x88E9, FLOAT_32_UNSIGNED_INT_24_8_REV: 0x8DAD,
+    FRAGMENT_SHADER_DERIVATIVE_HINT: 0x8B8B, FRAMEBUFFER_ATTACHMENT_ALPHA_SIZE: 0x8215,
+    FRAMEBUFFER_ATTACHMENT_BLUE_SIZE: 0x8214, FRAMEBUFFER_ATTACHMENT_COLOR_ENCODING: 0x8210,
+    FRAMEBUFFER_ATTACHMENT_COMPONENT_TYPE: 0x8211, FRAMEBUFFER_ATTACHMENT_DEPTH_SIZE: 0x8216,
+    FRAMEBUFFER_ATTACHMENT_GREEN_SIZE: 0x8213, FRAMEBUFFER_ATTACHMENT_RED_SIZE: 0x8212,
+    FRAMEBUFFER_ATTACHMENT_STENCIL_SIZE: 0x8217, FRAMEBUFFER_ATTACHMENT_TEXTURE_LAYER: 0x8CD4,
+    FRAMEBUFFER_DEFAULT: 0x8218, FRAMEBUFFER_INCOMPLETE_MULTISAMPLE: 0x8D56, HALF_FLOAT: 0x140B,
+    INTERLEAVED_ATTRIBS: 0x8C8C, INT_2_10_10_10_REV: 0x8D9F, INT_SAMPLER_2D: 0x8DCA,
+    INT_SAMPLER_2D_ARRAY: 0x8DCF, INT_SAMPLER_3D: 0x8DCB, INT_SAMPLER_CUBE: 0x8DCC,
+    INVALID_INDEX: 0xFFFFFFFF, MAX: 0x8008, MAX_3D_TEXTURE_SIZE: 0x8073,
+    MAX_ARRAY_TEXTURE_LAYERS: 0x88FF, MAX_CLIENT_WAIT_TIMEOUT_WEBGL: 0x9247,
+    MAX_COLOR_ATTACHMENTS: 0x8CDF, MAX_COMBINED_FRAGMENT_UNIFORM_COMPONENTS: 0x8A33,
+    MAX_COMBINED_UNIFORM_BLOCKS: 0x8A2E, MAX_COMBINED_VERTEX_UNIFORM_COMPONENTS: 0x8A31,
+    MAX_DRAW_BUFFERS: 0x8824, MAX_ELEMENTS_INDICES: 0x80E9, MAX_ELEMENTS_VERTICES: 0x80E8,
+    MAX_ELEMENT_INDEX: 0x8D6B, MAX_FRAGMENT_INPUT_COMPONENTS: 0x9125,
+    MAX_FRAGMENT_UNIFORM_BLOCKS: 0x8A2D, MAX_FRAGMENT_UNIFORM_COMPONENTS: 0x8B49,
+    MAX_PROGRAM_TEXEL_OFFSET: 0x8905, MAX_SAMPLES: 0x8D57, MAX_SERVER_WAIT_TIMEOUT: 0x9111,
+    MAX_TEXTURE_LOD_BIAS: 0x84FD, MAX_TRANSFORM_FEEDBACK_INTERLEAVED_COMPONENTS: 0x8C8A,
+    MAX_TRANSFORM_FEEDBACK_SEPARATE_ATTRIBS: 0x8C8B,
+    MAX_TRANSFORM_FEEDBACK_SEPARATE_COMPONENTS: 0x8C80, MAX_UNIFORM_BLOCK_SIZE: 0x8A30,
+    MAX_UNIFORM_BUFFER_BINDINGS: 0x8A2F, MAX_VARYING_COMPONENTS: 0x8B4B,
+    MAX_VERTEX_OUTPUT_COMPONENTS: 0x9122, MAX_VERTEX_UNIFORM_BLOCKS: 0x8A2B,
+    MAX_VERTEX_UNIFORM_COMPONENTS: 0x8B4A, MIN: 0x8007, MIN_PROGRAM_TEXEL_OFFSET: 0x8904,
+    OBJECT_TYPE: 0x9112, PACK_ROW_LENGTH: 0x0D02, PACK_SKIP_PIXELS: 0x0D04, PACK_SKIP_ROWS: 0x0D03,
+    PIXEL_PACK_BUFFER: 0x88EB, PIXEL_PACK_BUFFER_BINDING: 0x88ED, PIXEL_UNPACK_BUFFER: 0x88EC,
+    PIXEL_UNPACK_BUFFER_BINDING: 0x88EF, QUERY_RESULT: 0x8866, QUERY_RESULT_AVAILABLE: 0x8867,
+    R11F_G11F_B10F: 0x8C3A, R16F: 0x822D, R16I: 0x8233, R16UI: 0x8234, R32F: 0x822E, R32I: 0x8235,
+    R32UI: 0x8236, R8: 0x8229, R8I: 0x8231, R8UI: 0x8232, R8_SNORM: 0x8F94,
+    RASTERIZER_DISCARD: 0x8C89, READ_BUFFER: 0x0C02, READ_FRAMEBUFFER: 0x8CA8,
+    READ_FRAMEBUFFER_BINDING: 0x8CAA, RED: 0x1903, RED_INTEGER: 0x8D94,
+    RENDERBUFFER_SAMPLES: 0x8CAB, RG: 0x8227, RG16F: 0x822F, RG16I: 0x8239, RG16UI: 0x823A,
+    RG32F: 0x8230, RG32I: 0x823B, RG32UI: 0x823C, RG8: 0x822B, RG8I: 0x8237, RG8UI: 0x8238,
+    RG8_SNORM: 0x8F95, RGB10_A2: 0x8059, RGB10_A2UI: 0x906F, RGB16F: 0x881B, RGB16I: 0x8D89,
+    RGB16UI: 0x8D77, RGB32F: 0x8815, RGB32I: 0x8D83, RGB32UI: 0x8D71, RGB8: 0x8051, RGB8I: 0x8D8F,
+    RGB8UI: 0x8D7D, RGB8_SNORM: 0x8F96, RGB9_E5: 0x8C3D, RGBA16F: 0x881A, RGBA16I: 0x8D88,
+    RGBA16UI: 0x8D76, RGBA32F: 0x8814, RGBA32I: 0x8D82, RGBA32UI: 0x8D70, RGBA8: 0x8058,
+    RGBA8I: 0x8D8E, RGBA8UI: 0x8D7C, RGBA8_SNORM: 0x8F97, RGBA_INTEGER: 0x8D99, RGB_INTEGER: 0x8D98,
+    RG_INTEGER: 0x8228, SAMPLER_2D_ARRAY: 0x8DC1, SAMPLER_2D_ARRAY_SHADOW: 0x8DC4,
+    SAMPLER_2D_SHADOW: 0x8B62, SAMPLER_3D: 0x8B5F, SAMPLER_BINDING: 0x8919,
+    SAMPLER_CUBE_SHADOW: 0x8DC5, SEPARATE_ATTRIBS: 0x8C8D, SIGNALED: 0x9119,
+    SIGNED_NORMALIZED: 0x8F9C, SRGB: 0x8C40, SRGB8: 0x8C41, SRGB8_ALPHA8: 0x8C43,
+    STATIC_COPY: 0x88E6, STATIC_READ: 0x88E5, STENCIL: 0x1802, STREAM_COPY: 0x88E2,
+    STREAM_READ: 0x88E1, SYNC_CONDITION: 0x9113, SYNC_FENCE: 0x9116, SYNC_FLAGS: 0x9115,
+    SYNC_FLUSH_COMMANDS_BIT: 0x00000001, SYNC_GPU_COMMANDS_COMPLETE: 0x9117, SYNC_STATUS: 0x9114,
+    TEXTURE_2D_ARRAY: 0x8C1A, TEXTURE_3D: 0x806F, TEXTURE_BASE_LEVEL: 0x813C,
+    TEXTURE_BINDING_2D_ARRAY: 0x8C1D, TEXTURE_BINDING_3D: 0x806A, TEXTURE_COMPARE_FUNC: 0x884D,
+    TEXTURE_COMPARE_MODE: 0x884C, TEXTURE_IMMUTABLE_FORMAT: 0x912F,
+    TEXTURE_IMMUTABLE_LEVELS: 0x82DF, TEXTURE_MAX_LEVEL: 0x813D, TEXTURE_MAX_LOD: 0x813B,
+    TEXTURE_MIN_LOD: 0x813A, TEXTURE_WRAP_R: 0x8072, TIMEOUT_EXPIRED: 0x911B,
+    TRANSFORM_FEEDBACK: 0x8E22, TRANSFORM_FEEDBACK_ACTIVE: 0x8E24,
+    TRANSFORM_FEEDBACK_BINDING: 0x8E25, TRANSFORM_FEEDBACK_BUFFER: 0x8C8E,
+    TRANSFORM_FEEDBACK_BUFFER_BINDING: 0x8C8F, TRANSFORM_FEEDBACK_BUFFER_MODE: 0x8C7F,
+    TRANSFORM_FEEDBACK_BUFFER_SIZE: 0x8C85, TRANSFORM_FEEDBACK_BUFFER_START: 0x8C84,
+    TRANSFORM_FEEDBACK_PAUSED: 0x8E23, TRANSFORM_FEEDBACK_PRIMITIVES_WRITTEN: 0x8C88,
+    TRANSFORM_FEEDBACK_VARYINGS: 0x8C83, UNIFORM_ARRAY_STRIDE: 0x8A3C,
+    UNIFORM_BLOCK_ACTIVE_UNIFORMS: 0x8A42, UNIFORM_BLOCK_ACTIVE_UNIFORM_INDICES: 0x8A43,
+    UNIFORM_BLOCK_BINDING: 0x8A3F, UNIFORM_BLOCK_DATA_SIZE: 0x8A40, UNIFORM_BLOCK_INDEX: 0x8A3A,
+    UNIFORM_BLOCK_REFERENCED_BY_FRAGMENT_SHADER: 0x8A46,
+    UNIFORM_BLOCK_REFERENCED_BY_VERTEX_SHADER: 0x8A44, UNIFORM_BUFFER: 0x8A11,
+    UNIFORM_BUFFER_BINDING: 0x8A28, UNIFORM_BUFFER_OFFSET_ALIGNMENT: 0x8A34,
+    UNIFORM_BUFFER_SIZE: 0x8A2A, UNIFORM_BUFFER_START: 0x8A29, UNIFORM_IS_ROW_MAJOR: 0x8A3E,
+    UNIFORM_MATRIX_STRIDE: 0x8A3D, UNIFORM_OFFSET: 0x8A3B, UNIFORM_SIZE: 0x8A38,
+    UNIFORM_TYPE: 0x8A37, UNPACK_IMAGE_HEIGHT: 0x806E, UNPACK_ROW_LENGTH: 0x0CF2,
+    UNPACK_SKIP_IMAGES: 0x806D, UNPACK_SKIP_PIXELS: 0x0CF4, UNPACK_SKIP_ROWS: 0x0CF3,
+    UNSIGNALED: 0x9118, UNSIGNED_INT_10F_11F_11F_REV: 0x8C3B, UNSIGNED_INT_24_8: 0x84FA,
+    UNSIGNED_INT_2_10_10_10_REV: 0x8368, UNSIGNED_INT_5_9_9_9_REV: 0x8C3E,
+    UNSIGNED_INT_SAMPLER_2D: 0x8DD2, UNSIGNED_INT_SAMPLER_2D_ARRAY: 0x8DD7,
+    UNSIGNED_INT_SAMPLER_3D: 0x8DD3, UNSIGNED_INT_SAMPLER_CUBE: 0x8DD4, UNSIGNED_INT_VEC2: 0x8DC6,
+    UNSIGNED_INT_VEC3: 0x8DC7, UNSIGNED_INT_VEC4: 0x8DC8, UNSIGNED_NORMALIZED: 0x8C17,
+    VERTEX_ARRAY_BINDING: 0x85B5, VERTEX_ATTRIB_ARRAY_DIVISOR: 0x88FE,
+    VERTEX_ATTRIB_ARRAY_INTEGER: 0x88FD, WAIT_FAILED: 0x911D,
+};
+
+const GL = Object.assign({}, WEBGL1_CONSTANTS, WEBGL2_CONSTANTS);
+
+/**
+ * The WebGL methods by name. Calling one that the mock leaves out throws
+ * an Error saying so, instead of a TypeError about undefined.
+ */
+const WEBGL1_METHODS = [
+    "activeTexture", "attachShader", "bindAttribLocation", "bindBuffer", "bindFramebuffer",
+    "bindRenderbuffer", "bindTexture", "blendColor", "blendEquation", "blendEquationSeparate",
+    "blendFunc", "blendFuncSeparate", "bufferData", "bufferSubData", "checkFramebufferStatus",
+    "clear", "clearColor", "clearDepth", "clearStencil", "colorMask", "compileShader",
+    "compressedTexImage2D", "compressedTexSubImage2D", "copyTexImage2D", "copyTexSubImage2D",
+    "createBuffer", "createFramebuffer", "createProgram", "createRenderbuffer", "createShader",
+    "createTexture", "cullFace", "deleteBuffer", "deleteFramebuffer", "deleteProgram",
+    "deleteRenderbuffer", "deleteShader", "deleteTexture", "depthFunc", "depthMask", "depthRange",
+    "detachShader", "disable", "disableVertexAttribArray", "drawArrays", "drawElements", "enable",
+    "enableVertexAttribArray", "finish", "flush", "framebufferRenderbuffer", "framebufferTexture2D",
+    "frontFace", "generateMipmap", "getActiveAttrib", "getActiveUniform", "getAttachedShaders",
+    "getAttribLocation", "getBufferParameter", "getContextAttributes", "getError", "getExtension",
+    "getFramebufferAttachmentParameter", "getParameter", "getProgramInfoLog", "getProgramParameter",
+    "getRenderbufferParameter", "getShaderInfoLog", "getShaderParameter",
+    "getShaderPrecisionFormat", "getShaderSource", "getSupportedExtensions", "getTexParameter",
+    "getUniform", "getUniformLocation", "getVertexAttrib", "getVertexAttribOffset", "hint",
+    "isBuffer", "isContextLost", "isEnabled", "isFramebuffer", "isProgram", "isRenderbuffer",
+    "isShader", "isTexture", "lineWidth", "linkProgram", "pixelStorei", "polygonOffset",
+    "readPixels", "renderbufferStorage", "sampleCoverage", "scissor", "shaderSource", "stencilFunc",
+    "stencilFuncSeparate", "stencilMask", "stencilMaskSeparate", "stencilOp", "stencilOpSeparate",
+    "texImage2D", "texParameterf", "texParameteri", "texSubImage2D", "uniform1f", "uniform1fv",
+    "uniform1i", "uniform1iv", "uniform2f", "uniform2fv", "uniform2i", "uniform2iv", "uniform3f",
+    "uniform3fv", "uniform3i", "uniform3iv", "uniform4f", "uniform4fv", "uniform4i", "uniform4iv",
+    "uniformMatrix2fv", "uniformMatrix3fv", "uniformMatrix4fv", "useProgram", "validateProgram",
+    "vertexAttrib1f", "vertexAttrib1fv", "vertexAttrib2f", "vertexAttrib2fv", "vertexAttrib3f",
+    "vertexAttrib3fv", "vertexAttrib4f", "vertexAttrib4fv", "vertexAttribPointer", "viewport",
+];
+
+const WEBGL2_METHODS = [
+    "beginQuery", "beginTransformFeedback", "bindBufferBase", "bindBufferRange", "bindSampler",
+    "bindTransformFeedback", "bindVertexArray", "blitFramebuffer", "clearBufferfi", "clearBufferfv",
+    "clearBufferiv", "clearBufferuiv", "clientWaitSync", "compressedTexImage3D",
+    "compressedTexSubImage3D", "copyBufferSubData", "copyTexSubImage3D", "createQuery",
+    "createSampler", "createTransformFeedback", "createVertexArray", "deleteQuery", "deleteSampler",
+    "deleteSync", "deleteTransformFeedback", "deleteVertexArray", "drawArraysInstanced",
+    "drawBuffers", "drawElementsInstanced", "drawRangeElements", "endQuery", "endTransformFeedback",
+    "fenceSync", "framebufferTextureLayer", "getActiveUniformBlockName",
+    "getActiveUniformBlockParameter", "getActiveUniforms", "getBufferSubData",
+    "getFragDataLocation", "getIndexedParameter", "getInternalformatParameter", "getQuery",
+    "getQueryParameter", "getSamplerParameter", "getSyncParameter", "getTransformFeedbackVarying",
+    "getUniformBlockIndex", "getUniformIndices", "invalidateFramebuffer",
+    "invalidateSubFramebuffer", "isQuery", "isSampler", "isSync", "isTransformFeedback",
+    "isVertexArray", "pauseTransformFeedback", "readBuffer", "renderbufferStorageMultisample",
+    "resumeTransformFeedback", "samplerParameterf", "samplerParameteri", "texImage3D",
+    "texStorage2D", "texStorage3D", "texSubImage3D", "transformFeedbackVaryings", "uniform1ui",
+    "uniform1uiv", "uniform2ui", "uniform2uiv", "uniform3ui", "uniform3uiv", "uniform4ui",
+    "uniform4uiv", "uniformBlockBinding", "uniformMatrix2x3fv", "uniformMatrix2x4fv",
+    "uniformMatrix3x2fv", "uniformMatrix3x4fv", "uniformMatrix4x2fv", "uniformMatrix4x3fv",
+    "vertexAttribDivisor", "vertexAttribI4i", "vertexAttribI4iv", "vertexAttribI4ui",
+    "vertexAttribI4uiv", "vertexAttribIPointer", "waitSync",
+];
+
+/**
+ * A GL call recorded by a mock context.
+ */
+export interface MockCall {
+    name: string;
+    args: unknown[];
+}
+
+/**
+ * Options for mock contexts and canvases.
+ */
+export interface MockOptions {
+    /** 1 or 2, default 2; a version 1 canvas returns null for "webgl2" */
+    version?: number;
+    /** supported extensions, replacing the default list of the version */
+    extensions?: string[];
+    /** getParameter() results to override, by pname */
+    parameters?: {[pname: number]: unknown};
+    /** throw on every GL error, instead of only reporting it through getError() */
+    strict?: boolean;
+    /** what TIME_ELAPSED_EXT queries report, in nanoseconds, 0 by default */
+    timeElapsed?: number;
+}
+
+const DEFAULT_EXTENSIONS: {[version: number]: string[]} = {
+    1: [
+        "ANGLE_instanced_arrays", "EXT_color_buffer_half_float", "EXT_texture_filter_anisotropic",
+        "KHR_parallel_shader_compile", "OES_element_index_uint", "OES_standard_derivatives",
+        "OES_texture_float", "OES_texture_float_linear", "OES_texture_half_float",
+        "OES_texture_half_float_linear", "OES_vertex_array_object", "WEBGL_color_buffer_float",
+        "WEBGL_depth_texture", "WEBGL_draw_buffers", "WEBGL_lose_context",
+    ],
+    2: [
+        "EXT_color_buffer_float", "EXT_color_buffer_half_float", "EXT_disjoint_timer_query_webgl2",
+        "EXT_texture_filter_anisotropic", "KHR_parallel_shader_compile", "OES_texture_float_linear",
+        "WEBGL_lose_context",
+    ],
+};
+
+/**
+ * Constants of the extensions the mock knows, by extension name.
+ */
+const EXTENSION_CONSTANTS: {[name: string]: {[key: string]: number}} = {
+    ANGLE_instanced_arrays: {VERTEX_ATTRIB_ARRAY_DIVISOR_ANGLE: 0x88FE},
+    EXT_color_buffer_half_float: {
+        RGBA16F_EXT: 0x881A, RGB16F_EXT: 0x881B,
+        FRAMEBUFFER_ATTACHMENT_COMPONENT_TYPE_EXT: 0x8211, UNSIGNED_NORMALIZED_EXT: 0x8C17,
+    },
+    EXT_disjoint_timer_query_webgl2: {
+        QUERY_COUNTER_BITS_EXT: 0x8864, TIME_ELAPSED_EXT: 0x88BF, TIMESTAMP_EXT: 0x8E28,
+        GPU_DISJOINT_EXT: 0x8FBB,
+    },
+    EXT_texture_filter_anisotropic: {
+        TEXTURE_MAX_ANISOTROPY_EXT: 0x84FE, MAX_TEXTURE_MAX_ANISOTROPY_EXT: 0x84FF,
+    },
+    KHR_parallel_shader_compile: {COMPLETION_STATUS_KHR: 0x91B1},
+    OES_standard_derivatives: {FRAGMENT_SHADER_DERIVATIVE_HINT_OES: 0x8B8B},
+    OES_texture_half_float: {HALF_FLOAT_OES: 0x8D61},
+    OES_vertex_array_object: {VERTEX_ARRAY_BINDING_OES: 0x85B5},
+    WEBGL_color_buffer_float: {
+        RGBA32F_EXT: 0x8814, FRAMEBUFFER_ATTACHMENT_COMPONENT_TYPE_EXT: 0x8211,
+        UNSIGNED_NORMALIZED_EXT: 0x8C17,
+    },
+    WEBGL_depth_texture: {UNSIGNED_INT_24_8_WEBGL: 0x84FA},
+    WEBGL_draw_buffers: {MAX_COLOR_ATTACHMENTS_WEBGL: 0x8CDF, MAX_DRAW_BUFFERS_WEBGL: 0x8824},
+};
+for (let i = 0; i < 16; i++) {
+    EXTENSION_CONSTANTS.WEBGL_draw_buffers[`COLOR_ATTACHMENT${i}_WEBGL`] = 0x8CE0 + i;
+    EXTENSION_CONSTANTS.WEBGL_draw_buffers[`DRAW_BUFFER${i}_WEBGL`] = 0x8825 + i;
+}
+
+const HALF_FLOAT_OES = 0x8D61;
+const MAX_TEXTURE_MAX_ANISOTROPY_EXT = 0x84FF, TEXTURE_MAX_ANISOTROPY_EXT = 0x84FE;
+const COMPLETION_STATUS_KHR = 0x91B1;
+const VERTEX_ARRAY_BINDING_OES = 0x85B5;
+const MAX_DRAW_BUFFERS_WEBGL = 0x8824, MAX_COLOR_ATTACHMENTS_WEBGL = 0x8CDF;
+const TIME_ELAPSED_EXT = 0x88BF, TIMESTAMP_EXT = 0x8E28, GPU_DISJOINT_EXT = 0x8FBB;
+
+/**
+ * getParameter() results that only depend on the version, by pname.
+ */
+const LIMITS: {[version: number]: {[pname: number]: unknown}} = {
+    1: {
+        [GL.MAX_TEXTURE_SIZE]: 4096,
+        [GL.MAX_CUBE_MAP_TEXTURE_SIZE]: 4096,
+        [GL.MAX_RENDERBUFFER_SIZE]: 4096,
+        [GL.MAX_TEXTURE_IMAGE_UNITS]: 16,
+        [GL.MAX_VERTEX_TEXTURE_IMAGE_UNITS]: 16,
+        [GL.MAX_COMBINED_TEXTURE_IMAGE_UNITS]: 32,
+        [GL.MAX_VERTEX_ATTRIBS]: 16,
+        [GL.MAX_VARYING_VECTORS]: 15,
+        [GL.MAX_VERTEX_UNIFORM_VECTORS]: 1024,
+        [GL.MAX_FRAGMENT_UNIFORM_VECTORS]: 1024,
+        [GL.MAX_VIEWPORT_DIMS]: new Int32Array([4096, 4096]),
+        [GL.ALIASED_LINE_WIDTH_RANGE]: new Float32Array([1, 1]),
+        [GL.ALIASED_POINT_SIZE_RANGE]: new Float32Array([1, 1024]),
+        [GL.RED_BITS]: 8, [GL.GREEN_BITS]: 8, [GL.BLUE_BITS]: 8, [GL.ALPHA_BITS]: 8,
+        [GL.DEPTH_BITS]: 24, [GL.STENCIL_BITS]: 0, [GL.SUBPIXEL_BITS]: 4,
+        [GL.SAMPLES]: 0, [GL.SAMPLE_BUFFERS]: 0,
+        [GL.VENDOR]: "Igloo",
+        [GL.RENDERER]: "Igloo mock",
+        [GL.VERSION]: "WebGL 1.0 (Igloo mock)",
+        [GL.SHADING_LANGUAGE_VERSION]: "WebGL GLSL ES 1.0 (Igloo mock)",
+        [GL.COMPRESSED_TEXTURE_FORMATS]: new Uint32Array(0),
+        [MAX_TEXTURE_MAX_ANISOTROPY_EXT]: 16,
+        [MAX_DRAW_BUFFERS_WEBGL]: 4,
+        [MAX_COLOR_ATTACHMENTS_WEBGL]: 4,
+    },
+    2: {
+        [GL.MAX_DRAW_BUFFERS]: 8,
+        [GL.MAX_COLOR_ATTACHMENTS]: 8,
+        [GL.MAX_SAMPLES]: 4,
+        [GL.MAX_3D_TEXTURE_SIZE]: 256,
+        [GL.MAX_ARRAY_TEXTURE_LAYERS]: 256,
+        [GL.MAX_UNIFORM_BUFFER_BINDINGS]: 24,
+        [GL.UNIFORM_BUFFER_OFFSET_ALIGNMENT]: 256,
+        [GL.MAX_UNIFORM_BLOCK_SIZE]: 16384,
+        [GL.MAX_VERTEX_UNIFORM_BLOCKS]: 12,
+        [GL.MAX_FRAGMENT_UNIFORM_BLOCKS]: 12,
+        [GL.MAX_COMBINED_UNIFORM_BLOCKS]: 24,
+        [GL.MAX_TRANSFORM_FEEDBACK_SEPARATE_ATTRIBS]: 4,
+        [GL.MAX_TRANSFORM_FEEDBACK_INTERLEAVED_COMPONENTS]: 64,
+        [GL.MAX_TRANSFORM_FEEDBACK_SEPARATE_COMPONENTS]: 4,
+        [GL.MAX_TEXTURE_LOD_BIAS]: 2,
+        [GL.MAX_ELEMENT_INDEX]: 4294967295,
+        [GL.MAX_SERVER_WAIT_TIMEOUT]: 0,
+        [GL.MAX_CLIENT_WAIT_TIMEOUT_WEBGL]: 0,
+        [GL.VERSION]: "WebGL 2.0 (Igloo mock)",
+        [GL.SHADING_LANGUAGE_VERSION]: "WebGL GLSL ES 3.00 (Igloo mock)",
+    },
+};
+
+const GL_ERROR_NAMES: {[error: number]: string} = {
+    [GL.INVALID_ENUM]: "INVALID_ENUM",
+    [GL.INVALID_VALUE]: "INVALID_VALUE",
+    [GL.INVALID_OPERATION]: "INVALID_OPERATION",
+    [GL.OUT_OF_MEMORY]: "OUT_OF_MEMORY",
+    [GL.INVALID_FRAMEBUFFER_OPERATION]: "INVALID_FRAMEBUFFER_OPERATION",
+};
+
+let NEXT_ID = 1;
+
+/**
+ * Base of the objects a mock context hands out in place of WebGLBuffer,
+ * WebGLTexture and the others.
+ */
+export class MockObject {
+    /** unique across contexts, to tell objects apart in test output */
+    id: number;
+    context: MockContext;
+    /** the generation of the context it belongs to, see MockContext.generation */
+    generation: number;
+    deleted: boolean;
+    /** false until first bound, for the object types that WebGL creates on bind */
+    bound: boolean;
+    /**
+     * @param {MockContext} context
+     * @constructor
+     */
+    constructor(context: MockContext) {
+        this.id = NEXT_ID++;
+        this.context = context;
+        this.generation = context.generation;
+        this.deleted = false;
+        this.bound = false;
+    }
+
+    /**
+     * @returns {string} e.g. "Buffer" for a MockBuffer
+     */
+    get kind(): string {
+        return this.constructor.name.replace(/^Mock/, "");
+    }
+}
+
+export class MockBuffer extends MockObject {
+    /** true once bound to ELEMENT_ARRAY_BUFFER, which rules out other targets */
+    elements: boolean | null = null;
+    data = new Uint8Array(0);
+    usage: GLenum = GL.STATIC_DRAW;
+}
+
+/**
+ * The contents of one texture level, face or renderbuffer. Texels are
+ * kept as RGBA values, normalized to [0, 1] for normalized formats, so
+ * uploads, clears and copies can be read back in another format.
+ */
+export class MockImage {
+    width: number;
+    height: number;
+    depth: number;
+    internalFormat: GLenum;
+    /** format and type of the upload, or the natural ones of a renderbuffer */
+    format: GLenum;
+    type: GLenum;
+    samples: number;
+    texels: Float64Array;
+    /**
+     * @param {number} width
+     * @param {number} height
+     * @param {number} depth
+     * @param {GLenum} internalFormat
+     * @param {GLenum} format
+     * @param {GLenum} type
+     * @param {number} [samples=0]
+     * @constructor
+     */
+    constructor(width: number, height: number, depth: number, internalFormat: GLenum,
+                format: GLenum, type: GLenum, samples = 0) {
+        this.width = width;
+        this.height = height;
+        this.depth = depth;
+        this.internalFormat = internalFormat;
+        this.format = format;
+        this.type = type;
+        this.samples = samples;
+        this.texels = new Float64Array(width * height * depth * 4);
+    }
+
+    /**
+     * @param {number} x
+     * @param {number} y
+     * @param {number} [z=0]
+     * @returns {Array<number>} the RGBA values of one texel
+     */
+    texel(x: number, y: number, z = 0): number[] {
+        const i = ((z * this.height + y) * this.width + x) * 4;
+        return Array.from(this.texels.subarray(i, i + 4));
+    }
+}
+
+export class MockTexture extends MockObject {
+    /** set by the first bindTexture() */
+    target: GLenum | null = null;
+    /** images by "face:level", the face being the texture target but for cube maps */
+    images: {[key: string]: MockImage} = {};
+    params: {[pname: number]: number} = {
+        [GL.TEXTURE_MIN_FILTER]: GL.NEAREST_MIPMAP_LINEAR,
+        [GL.TEXTURE_MAG_FILTER]: GL.LINEAR,
+        [GL.TEXTURE_WRAP_S]: GL.REPEAT,
+        [GL.TEXTURE_WRAP_T]: GL.REPEAT,
+        [GL.TEXTURE_WRAP_R]: GL.REPEAT,
+        [GL.TEXTURE_BASE_LEVEL]: 0,
+        [GL.TEXTURE_MAX_LEVEL]: 1000,
+        [GL.TEXTURE_MIN_LOD]: -1000,
+        [GL.TEXTURE_MAX_LOD]: 1000,
+        [GL.TEXTURE_COMPARE_MODE]: GL.NONE,
+        [GL.TEXTURE_COMPARE_FUNC]: GL.LEQUAL,
+        [TEXTURE_MAX_ANISOTROPY_EXT]: 1,
+    };
+    /** the levels allocated by texStorage2D/3D, 0 for a mutable texture */
+    levels = 0;
+
+    /**
+     * @param {GLenum} face the texture target, or a cube map face
+     * @param {number} [level=0]
+     * @returns {?MockImage}
+     */
+    image(face: GLenum, level = 0): MockImage | null {
+        return this.images[`${face}:${level}`] || null;
+    }
+}
+
+export class MockRenderbuffer extends MockObject {
+    image: MockImage | null = null;
+}
+
+/**
+ * What a framebuffer attachment point refers to.
+ */
+export interface MockAttachment {
+    object: MockTexture | MockRenderbuffer;
+    level: number;
+    /** the image face, see MockTexture.images */
+    face: GLenum;
+    layer: number;
+}
+
+export class MockFramebuffer extends MockObject {
+    attachments: {[attachment: number]: MockAttachment} = {};
+    drawBuffers: GLenum[] = [GL.COLOR_ATTACHMENT0];
+    readBuffer: GLenum = GL.COLOR_ATTACHMENT0;
+}
+
+export class MockShader extends MockObject {
+    type: GLenum;
+    source = "";
+    compiled = false;
+    log = "";
+    /** the reflection of the last successful compile */
+    parsed: GLSLShader | null = null;
+    /**
+     * @param {MockContext} context
+     * @param {GLenum} type
+     * @constructor
+     */
+    constructor(context: MockContext, type: GLenum) {
+        super(context);
+        this.type = type;
+        this.bound = true;
+    }
+}
+
+/**
+ * An active attrib or uniform of a linked MockProgram.
+ */
+export interface MockVariable {
+    /** as getActiveUniform() names it, with [0] for arrays */
+    name: string;
+    type: GLenum;
+    size: number;
+    /** attrib location, or -1 for uniforms */
+    location: number;
+    /** current uniform value, size times the components of its type */
+    value: number[];
+    /** where a uniform block member lives in its buffer, absent for other variables */
+    layout?: MockBlockLayout;
+}
+
+/**
+ * The std140 layout of a uniform block member, as getActiveUniforms() reports it.
+ */
+export interface MockBlockLayout {
+    /** index of the block in MockProgram.blocks */
+    block: number;
+    offset: number;
+    /** 0 if not an array */
+    arrayStride: number;
+    /** 0 if not a matrix */
+    matrixStride: number;
+    rowMajor: boolean;
+}
+
+/**
+ * An active uniform block of a linked MockProgram.
+ */
+export interface MockUniformBlock {
+    name: string;
+    /** UNIFORM_BLOCK_DATA_SIZE in bytes */
+    size: number;
+    /** indices of its members in MockProgram.uniforms */
+    uniforms: number[];
+    /** set by uniformBlockBinding(), 0 after every link */
+    binding: number;
+    vertex: boolean;
+    fragment: boolean;
+}
+
+export class MockProgram extends MockObject {
+    shaders: MockShader[] = [];
+    linked = false;
+    validated = false;
+    log = "";
+    /** incremented by every link, which invalidates uniform locations */
+    links = 0;
+    attribs: MockVariable[] = [];
+    uniforms: MockVariable[] = [];
+    blocks: MockUniformBlock[] = [];
+    /** set by bindAttribLocation(), used by the next link */
+    bindings: {[name: string]: number} = {};
+    /** set by transformFeedbackVaryings(), used by the next link */
+    varyings: string[] = [];
+    bufferMode: GLenum = GL.INTERLEAVED_ATTRIBS;
+    /** the varyings captured by the linked program */
+    feedback: MockVariable[] = [];
+    feedbackMode: GLenum = GL.INTERLEAVED_ATTRIBS;
+    /**
+     * @param {MockContext} context
+     * @constructor
+     */
+    constructor(context: MockContext) {
+        super(context);
+        this.bound = true;
+    }
+}
+
+export class MockUniformLocation {
+    program: MockProgram;
+    /** MockProgram.links when it was looked up */
+    links: number;
+    uniform: MockVariable;
+    /** array element it starts at */
+    element: number;
+    /**
+     * @param {MockProgram} program
+     * @param {MockVariable} uniform
+     * @param {number} element
+     * @constructor
+     */
+    constructor(program: MockProgram, uniform: MockVariable, element: number) {
+        this.program = program;
+        this.links = program.links;
+        this.uniform = uniform;
+        this.element = element;
+    }
+}
+
+export class MockActiveInfo {
+    name: string;
+    type: GLenum;
+    size: number;
+    /**
+     * @param {MockVariable} variable
+     * @constructor
+     */
+    constructor(variable: MockVariable) {
+        this.name = variable.name;
+        this.type = variable.type;
+        this.size = variable.size;
+    }
+}
+
+/**
+ * The state of one vertex attrib location.
+ */
+export interface MockAttrib {
+    enabled: boolean;
+    buffer: MockBuffer | null;
+    size: number;
+    type: GLenum;
+    normalized: boolean;
+    stride: number;
+    offset: number;
+    divisor: number;
+    integer: boolean;
+}
+
+export class MockVertexArray extends MockObject {
+    attribs: MockAttrib[] = [];
+    elements: MockBuffer | null = null;
+    /**
+     * @param {MockContext} context
+     * @param {number} count vertex attrib locations
+     * @constructor
+     */
+    constructor(context: MockContext, count: number) {
+        super(context);
+        for (let i = 0; i < count; i++) {
+            this.attribs.push({
+                enabled: false, buffer: null, size: 4, type: GL.FLOAT, normalized: false,
+                stride: 0, offset: 0, divisor: 0, integer: false,
+            });
+        }
+    }
+}
+
+export class MockSampler extends MockObject {
+    params: {[pname: number]: number} = {
+        [GL.TEXTURE_MIN_FILTER]: GL.NEAREST_MIPMAP_LINEAR,
+        [GL.TEXTURE_MAG_FILTER]: GL.LINEAR,
+        [GL.TEXTURE_WRAP_S]: GL.REPEAT,
+        [GL.TEXTURE_WRAP_T]: GL.REPEAT,
+        [GL.TEXTURE_WRAP_R]: GL.REPEAT,
+        [GL.TEXTURE_MIN_LOD]: -1000,
+        [GL.TEXTURE_MAX_LOD]: 1000,
+        [GL.TEXTURE_COMPARE_MODE]: GL.NONE,
+        [GL.TEXTURE_COMPARE_FUNC]: GL.LEQUAL,
+        [TEXTURE_MAX_ANISOTROPY_EXT]: 1,
+    };
+    /**
+     * @param {MockContext} context
+     * @constructor
+     */
+    constructor(context: MockContext) {
+        super(context);
+        this.bound = true;
+    }
+}
+
+export class MockQuery extends MockObject {
+    /** set by the first beginQuery() */
+    target: GLenum | null = null;
+    active = false;
+    /** like real queries, results only become available on a later task */
+    available = false;
+    result = 0;
+    /** draw calls or time when it began */
+    start = 0;
+}
+
+/**
+ * An indexed buffer binding, see bindBufferBase() and bindBufferRange().
+ */
+export interface MockIndexedBinding {
+    buffer: MockBuffer | null;
+    offset: number;
+    /** 0 for the whole buffer */
+    size: number;
+}
+
+export class MockTransformFeedback extends MockObject {
+    /** by index, see bindBufferBase() */
+    buffers: {[index: number]: MockIndexedBinding} = {};
+    active = false;
+    paused = false;
+    program: MockProgram | null = null;
+    mode: GLenum = GL.POINTS;
+}
+
+export class MockSync extends MockObject {
+    /** like real fences, signaled on a later task */
+    signaled = false;
+    /**
+     * @param {MockContext} context
+     * @constructor
+     */
+    constructor(context: MockContext) {
+        super(context);
+        this.bound = true;
+    }
+}
+
+/**
+ * A GLSL type as far as reflection and uniform setters are concerned.
+ */
+interface GLSLType {
+    type: GLenum;
+    kind: "float" | "int" | "uint" | "bool" | "sampler";
+    components: number;
+    /** the uniform setter without its "v", or the prefix for bools */
+    setter: string;
+    /** attrib locations taken, the columns of a matrix */
+    columns: number;
+    /** the texture target read by a sampler */
+    target?: GLenum;
+}
+
+/**
+ * @param {GLenum} type
+ * @param {string} kind
+ * @param {number} components
+ * @param {string} setter
+ * @param {number} [columns=1]
+ * @param {GLenum} [target]
+ * @returns {GLSLType}
+ */
+function glsl(type: GLenum, kind: GLSLType["kind"], components: number, setter: string,
+              columns = 1, target?: GLenum): GLSLType {
+    return {type, kind, components, setter, columns, target};
+}
+
+const SAMPLER_2D = 0x0DE1, SAMPLER_CUBE = 0x8513, SAMPLER_3D = 0x806F, SAMPLER_ARRAY = 0x8C1A;
+
+const GLSL_TYPES: {[name: string]: GLSLType} = {
+    float: glsl(0x1406, "float", 1, "uniform1f"),
+    vec2: glsl(0x8B50, "float", 2, "uniform2f"),
+    vec3: glsl(0x8B51, "float", 3, "uniform3f"),
+    vec4: glsl(0x8B52, "float", 4, "uniform4f"),
+    int: glsl(0x1404, "int", 1, "uniform1i"),
+    ivec2: glsl(0x8B53, "int", 2, "uniform2i"),
+    ivec3: glsl(0x8B54, "int", 3, "uniform3i"),
+    ivec4: glsl(0x8B55, "int", 4, "uniform4i"),
+    uint: glsl(0x1405, "uint", 1, "uniform1ui"),
+    uvec2: glsl(0x8DC6, "uint", 2, "uniform2ui"),
+    uvec3: glsl(0x8DC7, "uint", 3, "uniform3ui"),
+    uvec4: glsl(0x8DC8, "uint", 4, "uniform4ui"),
+    bool: glsl(0x8B56, "bool", 1, "uniform1"),
+    bvec2: glsl(0x8B57, "bool", 2, "uniform2"),
+    bvec3: glsl(0x8B58, "bool", 3, "uniform3"),
+    bvec4: glsl(0x8B59, "bool", 4, "uniform4"),
+    mat2: glsl(0x8B5A, "float", 4, "uniformMatrix2f", 2),
+    mat3: glsl(0x8B5B, "float", 9, "uniformMatrix3f", 3),
+    mat4: glsl(0x8B5C, "float", 16, "uniformMatrix4f", 4),
+    mat2x3: glsl(0x8B65, "float", 6, "uniformMatrix2x3f", 2),
+    mat2x4: glsl(0x8B66, "float", 8, "uniformMatrix2x4f", 2),
+    mat3x2: glsl(0x8B67, "float", 6, "uniformMatrix3x2f", 3),
+    mat3x4: glsl(0x8B68, "float", 12, "uniformMatrix3x4f", 3),
+    mat4x2: glsl(0x8B69, "float", 8, "uniformMatrix4x2f", 4),
+    mat4x3: glsl(0x8B6A, "float", 12, "uniformMatrix4x3f", 4),
+    sampler2D: glsl(0x8B5E, "sampler", 1, "uniform1i", 1, SAMPLER_2D),
+    sampler3D: glsl(0x8B5F, "sampler", 1, "uniform1i", 1, SAMPLER_3D),
+    samplerCube: glsl(0x8B60, "sampler", 1, "uniform1i", 1, SAMPLER_CUBE),
+    sampler2DShadow: glsl(0x8B62, "sampler", 1, "uniform1i", 1, SAMPLER_2D),
+    sampler2DArray: glsl(0x8DC1, "sampler", 1, "uniform1i", 1, SAMPLER_ARRAY),
+    sampler2DArrayShadow: glsl(0x8DC4, "sampler", 1, "uniform1i", 1, SAMPLER_ARRAY),
+    samplerCubeShadow: glsl(0x8DC5, "sampler", 1, "uniform1i", 1, SAMPLER_CUBE),
+    isampler2D: glsl(0x8DCA, "sampler", 1, "uniform1i", 1, SAMPLER_2D),
+    isampler3D: glsl(0x8DCB, "sampler", 1, "uniform1i", 1, SAMPLER_3D),
+    isamplerCube: glsl(0x8DCC, "sampler", 1, "uniform1i", 1, SAMPLER_CUBE),
+    isampler2DArray: glsl(0x8DCF, "sampler", 1, "uniform1i", 1, SAMPLER_ARRAY),
+    usampler2D: glsl(0x8DD2, "sampler", 1, "uniform1i", 1, SAMPLER_2D),
+    usampler3D: glsl(0x8DD3, "sampler", 1, "uniform1i", 1, SAMPLER_3D),
+    usamplerCube: glsl(0x8DD4, "sampler", 1, "uniform1i", 1, SAMPLER_CUBE),
+    usampler2DArray: glsl(0x8DD7, "sampler", 1, "uniform1i", 1, SAMPLER_ARRAY),
+};
+
+/** GLSL types by GL enum */
+const GLSL_ENUMS: {[type: number]: GLSLType} = {};
+for (const name in GLSL_TYPES) GLSL_ENUMS[GLSL_TYPES[name].type] = GLSL_TYPES[name];
+
+/**
+ * A top level declaration of a shader.
+ */
+interface GLSLDeclaration {
+    /** uniform, attribute, varying, in or out */
+    qualifier: string;
+    type: string;
+    name: string;
+    /** 0 if not an array */
+    size: number;
+    /** from layout(location = N), or -1 */
+    location: number;
+    /** for matrices in uniform blocks, from layout(row_major) */
+    rowMajor?: boolean;
+}
+
+/**
+ * A uniform block declaration of a shader.
+ */
+interface GLSLBlock {
+    name: string;
+    /** the instance name, null if members are in the global scope */
+    instance: string | null;
+    fields: GLSLDeclaration[];
+}
+
+/**
+ * What the mock compiler makes of a shader.
+ */
+interface GLSLShader {
+    version: number;
+    declarations: GLSLDeclaration[];
+    structs: {[name: string]: GLSLDeclaration[]};
+    blocks: GLSLBlock[];
+    /** the source without comments and preprocessor lines, to look for uses */
+    code: string;
+}
+
+/**
+ * Blank out comments, keeping line breaks so line numbers stay right.
+ * @param {string} source
+ * @returns {string}
+ */
+function stripComments(source: string): string {
+    return source.replace(/\/\*[\s\S]*?\*\/|\/\/[^\n]*/g, function(comment) {
+        return comment.replace(/[^\n]/g, " ");
+    });
+}
+
+/**
+ * @param {string} code
+ * @param {string} name
+ * @returns {number} how often name occurs in code as a whole word
+ */
+function occurrences(code: string, name: string): number {
+    return (code.match(new RegExp(`\\b${name}\\b`, "g")) || []).length;
+}
+
+/**
+ * Parse the declarations of a shader, which is as much as the mock needs
+ * to reflect programs. There is no real compiler behind this: besides
+ * #version and #error, only unbalanced braces, unknown types of
+ * declared variables and uniform blocks outside GLSL ES 3.00 or with
+ * samplers fail to compile.
+ * @param {string} source
+ * @param {number} version the context version
+ * @returns {GLSLShader|string} the parsed shader, or an info log
+ */
+function parseShader(source: string, version: number): GLSLShader | string {
+    const lines = stripComments(source).split("\n");
+    let shaderVersion = 100;
+    for (let i = 0; i < lines.length; i++) {
+        const directive = /^\s*#\s*(\w+)\s*(.*)$/.exec(lines[i]);
+        if (directive == null) continue;
+        if (directive[1] === "version") {
+            shaderVersion = parseInt(directive[2], 10);
+            if (shaderVersion !== 100 && !(shaderVersion === 300 && version === 2)) {
+                return `ERROR: 0:${i + 1}: '${directive[2].trim()}' : version number not supported\n`;
+            }
+        } else if (directive[1] === "error") {
+            return `ERROR: 0:${i + 1}: '#error' : ${directive[2].trim()}\n`;
+        }
+        lines[i] = "";
+    }
+    const code = lines.join("\n");
+
+    // split the top level into statements; structs and blocks keep their body
+    const statements: {text: string, line: number, body: string | null}[] = [];
+    const lineAt = function(index: number) {
+        return code.slice(0, index).split("\n").length;
+    };
+    let depth = 0, start = 0, begin = 0, open = 0;
+    let head: string | null = null, body: string | null = null;
+    for (let i = 0; i < code.length; i++) {
+        const c = code[i];
+        if (c === "{") {
+            if (depth++ === 0) {
+                head = code.slice(start, i);
+                open = i + 1;
+            }
+        } else if (c === "}") {
+            if (--depth < 0) return `ERROR: 0:${lineAt(i)}: '}' : syntax error\n`;
+            if (depth > 0) continue;
+            if (/\)\s*$/.test(head as string)) {
+                // a function definition ends with its body
+                head = null;
+                begin = i + 1;
+            } else {
+                body = code.slice(open, i);
+            }
+            start = i + 1;
+        } else if (c === ";" && depth === 0) {
+            const text = code.slice(start, i);
+            statements.push({
+                text: head != null ? `${head} ${text}` : text,
+                line: lineAt(begin + Math.max(code.slice(begin).search(/\S/), 0)),
+                body,
+            });
+            head = body = null;
+            start = begin = i + 1;
+        }
+    }
+    if (depth !== 0) {
+        return `ERROR: 0:${lineAt(code.length)}: '' : syntax error: unexpected end of file\n`;
+    }
+
+    const shader: GLSLShader = {version: shaderVersion, declarations: [], structs: {}, blocks: [], code};
+    const known = function(type: string) {
+        return GLSL_TYPES[type] != null || shader.structs[type] != null;
+    };
+    for (const statement of statements) {
+        const text = statement.text.replace(/\s+/g, " ").trim();
+        const struct = /^struct (\w+)$/.exec(text);
+        if (struct != null && statement.body != null) {
+            const fields: GLSLDeclaration[] = [];
+            for (const field of statement.body.split(";")) {
+                const match = /^\s*(?:(?:lowp|mediump|highp)\s+)?(\w+)\s+(.+?)\s*$/.exec(field);
+                if (match == null) continue;
+                if (!known(match[1])) {
+                    return `ERROR: 0:${statement.line}: '${match[1]}' : unknown type\n`;
+                }
+                fields.push(...declarators("", match[1], match[2], -1));
+            }
+            shader.structs[struct[1]] = fields;
+            continue;
+        }
+        const block = /^(?:layout ?\(([^)]*)\) ?)?uniform (\w+)(?: (\w+))?$/.exec(text);
+        if (block != null && statement.body != null) {
+            if (shaderVersion !== 300) {
+                return `ERROR: 0:${statement.line}: '${block[2]}' : uniform blocks require #version 300 es\n`;
+            }
+            const rowMajor = /\brow_major\b/.test(block[1] || "");
+            const fields: GLSLDeclaration[] = [];
+            for (const field of statement.body.split(";")) {
+                const match = new RegExp("^\\s*(?:layout\\s*\\(([^)]*)\\)\\s*)?" +
+                    "(?:(?:lowp|mediump|highp)\\s+)?(\\w+)\\s+(.+?)\\s*$").exec(field);
+                if (match == null) continue;
+                if (!known(match[2])) {
+                    return `ERROR: 0:${statement.line}: '${match[2]}' : unknown type\n`;
+                }
+                if (GLSL_TYPES[match[2]] != null && GLSL_TYPES[match[2]].kind === "sampler") {
+                    return `ERROR: 0:${statement.line}: '${match[2]}' : samplers are not allowed in uniform blocks\n`;
+                }
+                const layout = match[1] || "";
+                const major = /\brow_major\b/.test(layout) || rowMajor && !/\bcolumn_major\b/.test(layout);
+                for (const declaration of declarators("", match[2], match[3], -1)) {
+                    fields.push(Object.assign(declaration, {rowMajor: major}));
+                }
+            }
+            shader.blocks.push({name: block[2], instance: block[3] || null, fields});
+            continue;
+        }
+        if (statement.body != null) continue;
+        const match = new RegExp("^(?:layout ?\\(([^)]*)\\) ?)?" +
+            "(?:(?:flat|smooth|centroid|invariant) )*" +
+            "(uniform|attribute|varying|in|out) (?:(?:lowp|mediump|highp) )?(\\w+) (.+)$").exec(text);
+        if (match == null) continue;
+        if (!known(match[3])) {
+            return `ERROR: 0:${statement.line}: '${match[3]}' : unknown type\n`;
+        }
+        const location = /location ?= ?(\d+)/.exec(match[1] || "");
+        shader.declarations.push(
+            ...declarators(match[2], match[3], match[4], location ? Number(location[1]) : -1));
+    }
+    return shader;
+}
+
+/**
+ * @param {string} qualifier
+ * @param {string} type
+ * @param {string} list e.g. "a, b[4]"
+ * @param {number} location
+ * @returns {Array<GLSLDeclaration>} one declaration per name
+ */
+function declarators(qualifier: string, type: string, list: string, location: number): GLSLDeclaration[] {
+    const result: GLSLDeclaration[] = [];
+    for (const part of list.split(",")) {
+        const match = /^\s*(\w+)\s*(?:\[\s*(\w*)\s*\])?/.exec(part);
+        if (match == null) continue;
+        const size = match[2] == null ? 0 : Number(match[2]) || 1;
+        result.push({qualifier, type, name: match[1], size, location});
+    }
+    return result;
+}
+
+/**
+ * Expand a declaration into the variables reflection reports: arrays
+ * named with [0], structs as one variable per member.
+ * @param {GLSLShader} shader
+ * @param {string} name
+ * @param {string} type
+ * @param {number} size
+ * @param {Array<MockVariable>} out
+ */
+function flatten(shader: GLSLShader, name: string, type: string, size: number, out: MockVariable[]) {
+    const fields = shader.structs[type];
+    if (fields == null) {
+        const info = GLSL_TYPES[type];
+        out.push({
+            name: size > 0 ? `${name}[0]` : name,
+            type: info.type,
+            size: Math.max(size, 1),
+            location: -1,
+            value: new Array(info.components * Math.max(size, 1)).fill(0),
+        });
+        return;
+    }
+    for (let i = 0; i < Math.max(size, 1); i++) {
+        const prefix = size > 0 ? `${name}[${i}]` : name;
+        for (const field of fields) {
+            flatten(shader, `${prefix}.${field.name}`, field.type, field.size, out);
+        }
+    }
+}
+
+/**
+ * The std140 alignment and size of a type, and the stride between its
+ * elements when declared as an array of size elements.
+ * @param {GLSLShader} shader
+ * @param {string} type
+ * @param {number} size 0 if not an array
+ * @param {boolean} rowMajor for matrices
+ * @returns {Object} {align, size, stride} in bytes
+ */
+function std140(shader: GLSLShader, type: string, size: number,
+                rowMajor: boolean): {align: number, size: number, stride: number} {
+    let base: {align: number, size: number};
+    const fields = shader.structs[type];
+    if (fields != null) {
+        let end = 0;
+        for (const field of fields) {
+            const member = std140(shader, field.type, field.size, rowMajor);
+            end = align(end, member.align) + member.size;
+        }
+        base = {align: 16, size: align(end, 16)};
+    } else {
+        const info = GLSL_TYPES[type];
+        if (info.columns > 1) {
+            // matrices are arrays of column vectors, or row vectors if row_major
+            const vectors = rowMajor ? info.components / info.columns : info.columns;
+            base = {align: 16, size: vectors * 16};
+        } else {
+            base = {align: info.components === 3 ? 16 : info.components * 4, size: info.components * 4};
+        }
+    }
+    if (size === 0) return {align: base.align, size: base.size, stride: 0};
+    // array elements are padded to a vec4
+    const stride = align(base.size, 16);
+    return {align: 16, size: stride * size, stride};
+}
+
+/**
+ * Expand a uniform block member into the variables reflection reports,
+ * like flatten(), with their std140 layout.
+ * @param {GLSLShader} shader
+ * @param {string} name
+ * @param {GLSLDeclaration} declaration type, size and matrix layout
+ * @param {number} offset in bytes from the start of the block
+ * @param {number} block index of the block
+ * @param {Array<MockVariable>} out
+ */
+function layoutMember(shader: GLSLShader, name: string, declaration: GLSLDeclaration,
+                      offset: number, block: number, out: MockVariable[]) {
+    const {type, size} = declaration, rowMajor = Boolean(declaration.rowMajor);
+    const member = std140(shader, type, size, rowMajor);
+    const fields = shader.structs[type];
+    if (fields == null) {
+        const info = GLSL_TYPES[type];
+        out.push({
+            name: size > 0 ? `${name}[0]` : name,
+            type: info.type,
+            size: Math.max(size, 1),
+            location: -1,
+            value: [],
+            layout: {
+                block, offset, arrayStride: member.stride,
+                matrixStride: info.columns > 1 ? 16 : 0,
+                rowMajor: info.columns > 1 && rowMajor,
+            },
+        });
+        return;
+    }
+    for (let i = 0; i < Math.max(size, 1); i++) {
+        const prefix = size > 0 ? `${name}[${i}]` : name;
+        let end = offset + i * member.stride;
+        for (const field of fields) {
+            const inner = Object.assign({}, field, {rowMajor});
+            const start = align(end, std140(shader, field.type, field.size, rowMajor).align);
+            layoutMember(shader, `${prefix}.${field.name}`, inner, start, block, out);
+            end = start + std140(shader, field.type, field.size, rowMajor).size;
+        }
+    }
+}
+
+/**
+ * How a texture or renderbuffer format can be uploaded and rendered to.
+ */
+interface MockFormat {
+    format: GLenum;
+    types: GLenum[];
+    /**
+     * "color", "half" or "float" for color-renderable formats, the last
+     * two needing an extension; "depth", "stencil" or "depth-stencil";
+     * "" if it cannot be rendered to
+     */
+    renderable: string;
+}
+
+/**
+ * @param {GLenum} format
+ * @param {Array<GLenum>} types
+ * @param {string} [renderable=""]
+ * @returns {MockFormat}
+ */
+function mockFormat(format: GLenum, types: GLenum[], renderable = ""): MockFormat {
+    return {format, types, renderable};
+}
+
+const UB = GL.UNSIGNED_BYTE, B = GL.BYTE, US = GL.UNSIGNED_SHORT, S = GL.SHORT;
+const UI = GL.UNSIGNED_INT, I = GL.INT, F = GL.FLOAT, HF = GL.HALF_FLOAT;
+
+/**
+ * The sized internal formats of WebGL2, and the unsized ones both
+ * versions share, where the internal format is the format.
+ */
+const SIZED_FORMATS: {[internalFormat: number]: MockFormat} = {
+    [GL.R8]: mockFormat(GL.RED, [UB], "color"),
+    [GL.R8_SNORM]: mockFormat(GL.RED, [B]),
+    [GL.R16F]: mockFormat(GL.RED, [HF, F], "half"),
+    [GL.R32F]: mockFormat(GL.RED, [F], "float"),
+    [GL.R8UI]: mockFormat(GL.RED_INTEGER, [UB], "color"),
+    [GL.R8I]: mockFormat(GL.RED_INTEGER, [B], "color"),
+    [GL.R16UI]: mockFormat(GL.RED_INTEGER, [US], "color"),
+    [GL.R16I]: mockFormat(GL.RED_INTEGER, [S], "color"),
+    [GL.R32UI]: mockFormat(GL.RED_INTEGER, [UI], "color"),
+    [GL.R32I]: mockFormat(GL.RED_INTEGER, [I], "color"),
+    [GL.RG8]: mockFormat(GL.RG, [UB], "color"),
+    [GL.RG8_SNORM]: mockFormat(GL.RG, [B]),
+    [GL.RG16F]: mockFormat(GL.RG, [HF, F], "half"),
+    [GL.RG32F]: mockFormat(GL.RG, [F], "float"),
+    [GL.RG8UI]: mockFormat(GL.RG_INTEGER, [UB], "color"),
+    [GL.RG8I]: mockFormat(GL.RG_INTEGER, [B], "color"),
+    [GL.RG16UI]: mockFormat(GL.RG_INTEGER, [US], "color"),
+    [GL.RG16I]: mockFormat(GL.RG_INTEGER, [S], "color"),
+    [GL.RG32UI]: mockFormat(GL.RG_INTEGER, [UI], "color"),
+    [GL.RG32I]: mockFormat(GL.RG_INTEGER, [I], "color"),
+    [GL.RGB8]: mockFormat(GL.RGB, [UB], "color"),
+    [GL.SRGB8]: mockFormat(GL.RGB, [UB]),
+    [GL.RGB565]: mockFormat(GL.RGB, [UB, GL.UNSIGNED_SHORT_5_6_5], "color"),
+    [GL.RGB8_SNORM]: mockFormat(GL.RGB, [B]),
+    [GL.R11F_G11F_B10F]: mockFormat(GL.RGB, [GL.UNSIGNED_INT_10F_11F_11F_REV, HF, F], "float"),
+    [GL.RGB9_E5]: mockFormat(GL.RGB, [GL.UNSIGNED_INT_5_9_9_9_REV, HF, F]),
+    [GL.RGB16F]: mockFormat(GL.RGB, [HF, F]),
+    [GL.RGB32F]: mockFormat(GL.RGB, [F]),
+    [GL.RGB8UI]: mockFormat(GL.RGB_INTEGER, [UB]),
+    [GL.RGB8I]: mockFormat(GL.RGB_INTEGER, [B]),
+    [GL.RGB16UI]: mockFormat(GL.RGB_INTEGER, [US]),
+    [GL.RGB16I]: mockFormat(GL.RGB_INTEGER, [S]),
+    [GL.RGB32UI]: mockFormat(GL.RGB_INTEGER, [UI]),
+    [GL.RGB32I]: mockFormat(GL.RGB_INTEGER, [I]),
+    [GL.RGBA8]: mockFormat(GL.RGBA, [UB], "color"),
+    [GL.SRGB8_ALPHA8]: mockFormat(GL.RGBA, [UB], "color"),
+    [GL.RGBA8_SNORM]: mockFormat(GL.RGBA, [B]),
+    [GL.RGB5_A1]: mockFormat(GL.RGBA, [UB, GL.UNSIGNED_SHORT_5_5_5_1, GL.UNSIGNED_INT_2_10_10_10_REV], "color"),
+    [GL.RGBA4]: mockFormat(GL.RGBA, [UB, GL.UNSIGNED_SHORT_4_4_4_4], "color"),
+    [GL.RGB10_A2]: mockFormat(GL.RGBA, [GL.UNSIGNED_INT_2_10_10_10_REV], "color"),
+    [GL.RGBA16F]: mockFormat(GL.RGBA, [HF, F], "half"),
+    [GL.RGBA32F]: mockFormat(GL.RGBA, [F], "float"),
+    [GL.RGBA8UI]: mockFormat(GL.RGBA_INTEGER, [UB], "color"),
+    [GL.RGBA8I]: mockFormat(GL.RGBA_INTEGER, [B], "color"),
+    [GL.RGB10_A2UI]: mockFormat(GL.RGBA_INTEGER, [GL.UNSIGNED_INT_2_10_10_10_REV], "color"),
+    [GL.RGBA16UI]: mockFormat(GL.RGBA_INTEGER, [US], "color"),
+    [GL.RGBA16I]: mockFormat(GL.RGBA_INTEGER, [S], "color"),
+    [GL.RGBA32I]: mockFormat(GL.RGBA_INTEGER, [I], "color"),
+    [GL.RGBA32UI]: mockFormat(GL.RGBA_INTEGER, [UI], "color"),
+    [GL.DEPTH_COMPONENT16]: mockFormat(GL.DEPTH_COMPONENT, [US, UI], "depth"),
+    [GL.DEPTH_COMPONENT24]: mockFormat(GL.DEPTH_COMPONENT, [UI], "depth"),
+    [GL.DEPTH_COMPONENT32F]: mockFormat(GL.DEPTH_COMPONENT, [F], "depth"),
+    [GL.DEPTH24_STENCIL8]: mockFormat(GL.DEPTH_STENCIL, [GL.UNSIGNED_INT_24_8], "depth-stencil"),
+    [GL.DEPTH32F_STENCIL8]: mockFormat(GL.DEPTH_STENCIL, [GL.FLOAT_32_UNSIGNED_INT_24_8_REV], "depth-stencil"),
+};
+
+const UNSIZED_FORMATS: {[format: number]: MockFormat} = {
+    [GL.RGBA]: mockFormat(GL.RGBA, [UB, GL.UNSIGNED_SHORT_4_4_4_4, GL.UNSIGNED_SHORT_5_5_5_1], "color"),
+    [GL.RGB]: mockFormat(GL.RGB, [UB, GL.UNSIGNED_SHORT_5_6_5], "color"),
+    [GL.LUMINANCE_ALPHA]: mockFormat(GL.LUMINANCE_ALPHA, [UB]),
+    [GL.LUMINANCE]: mockFormat(GL.LUMINANCE, [UB]),
+    [GL.ALPHA]: mockFormat(GL.ALPHA, [UB]),
+};
+
+/**
+ * Renderbuffer formats that are not texture formats as well.
+ */
+const RENDERBUFFER_FORMATS: {[internalFormat: number]: MockFormat} = {
+    [GL.STENCIL_INDEX8]: mockFormat(GL.STENCIL_INDEX8, [], "stencil"),
+    [GL.DEPTH_STENCIL]: mockFormat(GL.DEPTH_STENCIL, [], "depth-stencil"),
+};
+
+/**
+ * @param {GLenum} format
+ * @returns {number} components per pixel, 0 for an unknown format
+ */
+function formatComponents(format: GLenum): number {
+    switch (format) {
+    case GL.RED: case GL.RED_INTEGER: case GL.ALPHA: case GL.LUMINANCE: case GL.DEPTH_COMPONENT:
+        return 1;
+    case GL.RG: case GL.RG_INTEGER: case GL.LUMINANCE_ALPHA: case GL.DEPTH_STENCIL:
+        return 2;
+    case GL.RGB: case GL.RGB_INTEGER:
+        return 3;
+    case GL.RGBA: case GL.RGBA_INTEGER:
+        return 4;
+    }
+    return 0;
+}
+
+/**
+ * @param {GLenum} format
+ * @returns {boolean} true for the *_INTEGER formats
+ */
+function integerFormat(format: GLenum): boolean {
+    return format === GL.RED_INTEGER || format === GL.RG_INTEGER ||
+        format === GL.RGB_INTEGER || format === GL.RGBA_INTEGER;
+}
+
+/**
+ * Pixel types: the typed array they are read from, the byte size of a
+ * component (of a whole pixel for packed types), and the maximum value
+ * normalized components are divided by.
+ */
+const PIXEL_TYPES: {[type: number]: {array: string[], bytes: number, packed: boolean, max: number}} = {
+    [GL.UNSIGNED_BYTE]: {array: ["Uint8Array", "Uint8ClampedArray"], bytes: 1, packed: false, max: 255},
+    [GL.BYTE]: {array: ["Int8Array"], bytes: 1, packed: false, max: 127},
+    [GL.UNSIGNED_SHORT]: {array: ["Uint16Array"], bytes: 2, packed: false, max: 65535},
+    [GL.SHORT]: {array: ["Int16Array"], bytes: 2, packed: false, max: 32767},
+    [GL.UNSIGNED_INT]: {array: ["Uint32Array"], bytes: 4, packed: false, max: 4294967295},
+    [GL.INT]: {array: ["Int32Array"], bytes: 4, packed: false, max: 2147483647},
+    [GL.FLOAT]: {array: ["Float32Array"], bytes: 4, packed: false, max: 0},
+    [GL.HALF_FLOAT]: {array: ["Uint16Array"], bytes: 2, packed: false, max: 0},
+    [HALF_FLOAT_OES]: {array: ["Uint16Array"], bytes: 2, packed: false, max: 0},
+    [GL.UNSIGNED_SHORT_5_6_5]: {array: ["Uint16Array"], bytes: 2, packed: true, max: 0},
+    [GL.UNSIGNED_SHORT_4_4_4_4]: {array: ["Uint16Array"], bytes: 2, packed: true, max: 0},
+    [GL.UNSIGNED_SHORT_5_5_5_1]: {array: ["Uint16Array"], bytes: 2, packed: true, max: 0},
+    [GL.UNSIGNED_INT_2_10_10_10_REV]: {array: ["Uint32Array"], bytes: 4, packed: true, max: 0},
+    [GL.UNSIGNED_INT_10F_11F_11F_REV]: {array: ["Uint32Array"], bytes: 4, packed: true, max: 0},
+    [GL.UNSIGNED_INT_5_9_9_9_REV]: {array: ["Uint32Array"], bytes: 4, packed: true, max: 0},
+    [GL.UNSIGNED_INT_24_8]: {array: ["Uint32Array"], bytes: 4, packed: true, max: 0},
+    [GL.FLOAT_32_UNSIGNED_INT_24_8_REV]: {array: ["Float32Array"], bytes: 8, packed: true, max: 0},
+};
+
+/**
+ * @param {GLenum} format
+ * @param {GLenum} type
+ * @returns {number} bytes per pixel
+ */
+function pixelSize(format: GLenum, type: GLenum): number {
+    const info = PIXEL_TYPES[type];
+    return info.packed ? info.bytes : info.bytes * formatComponents(format);
+}
+
+/**
+ * @param {number} h
+ * @returns {number} the half float h as a number
+ */
+function fromHalf(h: number): number {
+    const exponent = (h >> 10) & 0x1F, fraction = h & 0x3FF;
+    const sign = h & 0x8000 ? -1 : 1;
+    if (exponent === 0) return sign * Math.pow(2, -14) * fraction / 1024;
+    if (exponent === 0x1F) return fraction ? NaN : sign * Infinity;
+    return sign * Math.pow(2, exponent - 15) * (1 + fraction / 1024);
+}
+
+/**
+ * @param {number} value
+ * @returns {number} value as a half float, rounded toward zero
+ */
+function toHalf(value: number): number {
+    if (isNaN(value)) return 0x7E00;
+    const sign = value < 0 || Object.is(value, -0) ? 0x8000 : 0;
+    value = Math.abs(value);
+    if (value >= 65520) return sign | 0x7C00;
+    if (value < Math.pow(2, -14)) return sign | Math.floor(value / Math.pow(2, -24));
+    const exponent = Math.floor(Math.log2(value));
+    const fraction = Math.floor((value / Math.pow(2, exponent) - 1) * 1024);
+    return sign | ((exponent + 15) << 10) | fraction;
+}
+
+/**
+ * Turn stored components into RGBA values, filling in what the format
+ * lacks the way a sampler would.
+ * @param {GLenum} format
+ * @param {Array<number>} c the components of one pixel
+ * @returns {Array<number>}
+ */
+function toRGBA(format: GLenum, c: number[]): number[] {
+    switch (format) {
+    case GL.RED: case GL.RED_INTEGER: case GL.DEPTH_COMPONENT: return [c[0], 0, 0, 1];
+    case GL.RG: case GL.RG_INTEGER: return [c[0], c[1], 0, 1];
+    case GL.RGB: case GL.RGB_INTEGER: return [c[0], c[1], c[2], 1];
+    case GL.LUMINANCE: return [c[0], c[0], c[0], 1];
+    case GL.LUMINANCE_ALPHA: return [c[0], c[0], c[0], c[1]];
+    case GL.ALPHA: return [0, 0, 0, c[0]];
+    }
+    return c.slice(0, 4);
+}
+
+/**
+ * @param {GLenum} format
+ * @param {Array<number>} rgba
+ * @returns {Array<number>} the components format stores
+ */
+function fromRGBA(format: GLenum, rgba: number[]): number[] {
+    switch (format) {
+    case GL.LUMINANCE: return [rgba[0]];
+    case GL.LUMINANCE_ALPHA: return [rgba[0], rgba[3]];
+    case GL.ALPHA: return [rgba[3]];
+    }
+    return rgba.slice(0, formatComponents(format));
+}
+
+/**
+ * Decode one component from client memory.
+ * @param {GLenum} type
+ * @param {boolean} integer true for integer formats, which are not normalized
+ * @param {number} value
+ * @returns {number}
+ */
+function decode(type: GLenum, integer: boolean, value: number): number {
+    if (type === GL.FLOAT) return value;
+    if (type === GL.HALF_FLOAT || type === HALF_FLOAT_OES) return fromHalf(value);
+    if (integer) return value;
+    return Math.max(value / PIXEL_TYPES[type].max, -1);
+}
+
+/**
+ * Encode one component for client memory.
+ * @param {GLenum} type
+ * @param {boolean} integer
+ * @param {number} value
+ * @returns {number}
+ */
+function encode(type: GLenum, integer: boolean, value: number): number {
+    if (type === GL.FLOAT) return value;
+    if (type === GL.HALF_FLOAT || type === HALF_FLOAT_OES) return toHalf(value);
+    if (integer) return value;
+    const max = PIXEL_TYPES[type].max;
+    const signed = type === GL.BYTE || type === GL.SHORT || type === GL.INT;
+    return Math.round(Math.min(Math.max(value, signed ? -1 : 0), 1) * max);
+}
+
+/**
+ * @param {number} bytes
+ * @param {number} alignment
+ * @returns {number} bytes rounded up to a multiple of alignment
+ */
+function align(bytes: number, alignment: number): number {
+    return Math.ceil(bytes / alignment) * alignment;
+}
+
+/**
+ * @param {*} value
+ * @returns {boolean} true for an ArrayBufferView
+ */
+function isView(value: unknown): value is ArrayBufferView {
+    return ArrayBuffer.isView(value);
+}
+
+/**
+ * @param {ArrayBufferView} view
+ * @returns {Uint8Array} the bytes of view
+ */
+function bytesOf(view: ArrayBufferView): Uint8Array {
+    return new Uint8Array(view.buffer, view.byteOffset, view.byteLength);
+}
+
+/**
+ * Read the components of one pixel from client memory.
+ * @param {DataView} view
+ * @param {number} offset
+ * @param {GLenum} format
+ * @param {GLenum} type
+ * @returns {Array<number>} the components of format, normalized unless it is an integer format
+ */
+function readPixel(view: DataView, offset: number, format: GLenum, type: GLenum): number[] {
+    const integer = integerFormat(format);
+    const n = formatComponents(format);
+    const c: number[] = [];
+    switch (type) {
+    case GL.UNSIGNED_SHORT_5_6_5: {
+        const v = view.getUint16(offset, true);
+        return [(v >> 11) / 31, ((v >> 5) & 63) / 63, (v & 31) / 31];
+    }
+    case GL.UNSIGNED_SHORT_4_4_4_4: {
+        const v = view.getUint16(offset, true);
+        return [(v >> 12) / 15, ((v >> 8) & 15) / 15, ((v >> 4) & 15) / 15, (v & 15) / 15];
+    }
+    case GL.UNSIGNED_SHORT_5_5_5_1: {
+        const v = view.getUint16(offset, true);
+        return [(v >> 11) / 31, ((v >> 6) & 31) / 31, ((v >> 1) & 31) / 31, v & 1];
+    }
+    case GL.UNSIGNED_INT_2_10_10_10_REV: {
+        const v = view.getUint32(offset, true);
+        const rgba = [v & 1023, (v >> 10) & 1023, (v >> 20) & 1023, v >>> 30];
+        return integer ? rgba : [rgba[0] / 1023, rgba[1] / 1023, rgba[2] / 1023, rgba[3] / 3];
+    }
+    }
+    for (let i = 0; i < n; i++) {
+        const at = offset + i * PIXEL_TYPES[type].bytes;
+        let value = 0;
+        switch (type) {
+        case GL.UNSIGNED_BYTE: value = view.getUint8(at); break;
+        case GL.BYTE: value = view.getInt8(at); break;
+        case GL.UNSIGNED_SHORT: case GL.HALF_FLOAT: case HALF_FLOAT_OES: value = view.getUint16(at, true); break;
+        case GL.SHORT: value = view.getInt16(at, true); break;
+        case GL.UNSIGNED_INT: value = view.getUint32(at, true); break;
+        case GL.INT: value = view.getInt32(at, true); break;
+        case GL.FLOAT: value = view.getFloat32(at, true); break;
+        default:
+            // the packed depth, stencil and shared exponent types are not decoded
+            return new Array(n).fill(0);
+        }
+        c.push(decode(type, integer, value));
+    }
+    return c;
+}
+
+/**
+ * Write the components of one pixel to client memory.
+ * @param {DataView} view
+ * @param {number} offset
+ * @param {GLenum} format
+ * @param {GLenum} type
+ * @param {Array<number>} c the components of format
+ */
+function writePixel(view: DataView, offset: number, format: GLenum, type: GLenum, c: number[]) {
+    const integer = integerFormat(format);
+    const unorm = function(value: number, max: number) {
+        return Math.round(Math.min(Math.max(value, 0), 1) * max);
+    };
+    switch (type) {
+    case GL.UNSIGNED_SHORT_5_6_5:
+        view.setUint16(offset, unorm(c[0], 31) << 11 | unorm(c[1], 63) << 5 | unorm(c[2], 31), true);
+        return;
+    case GL.UNSIGNED_SHORT_4_4_4_4:
+        view.setUint16(offset, unorm(c[0], 15) << 12 | unorm(c[1], 15) << 8 |
+            unorm(c[2], 15) << 4 | unorm(c[3], 15), true);
+        return;
+    case GL.UNSIGNED_SHORT_5_5_5_1:
+        view.setUint16(offset, unorm(c[0], 31) << 11 | unorm(c[1], 31) << 6 |
+            unorm(c[2], 31) << 1 | unorm(c[3], 1), true);
+        return;
+    case GL.UNSIGNED_INT_2_10_10_10_REV: {
+        const rgba = integer ? c : [unorm(c[0], 1023), unorm(c[1], 1023), unorm(c[2], 1023), unorm(c[3], 3)];
+        view.setUint32(offset, ((rgba[3] & 3) << 30 | (rgba[2] & 1023) << 20 |
+            (rgba[1] & 1023) << 10 | (rgba[0] & 1023)) >>> 0, true);
+        return;
+    }
+    }
+    for (let i = 0; i < c.length; i++) {
+        const at = offset + i * PIXEL_TYPES[type].bytes;
+        const value = encode(type, integer, c[i]);
+        switch (type) {
+        case GL.UNSIGNED_BYTE: view.setUint8(at, value); break;
+        case GL.BYTE: view.setInt8(at, value); break;
+        case GL.UNSIGNED_SHORT: case GL.HALF_FLOAT: case HALF_FLOAT_OES: view.setUint16(at, value, true); break;
+        case GL.SHORT: view.setInt16(at, value, true); break;
+        case GL.UNSIGNED_INT: view.setUint32(at, value, true); break;
+        case GL.INT: view.setInt32(at, value, true); break;
+        case GL.FLOAT: view.setFloat32(at, value, true); break;
+        }
+    }
+}
+
+/**
+ * @param {MockImage} image
+ * @returns {string} how its values are stored: "normalized", "float", "int" or "uint"
+ */
+function imageKind(image: MockImage): string {
+    if (integerFormat(image.format)) {
+        return image.type === GL.BYTE || image.type === GL.SHORT || image.type === GL.INT ? "int" : "uint";
+    }
+    const sized = SIZED_FORMATS[image.internalFormat];
+    if (image.type === GL.FLOAT || image.type === GL.HALF_FLOAT || image.type === HALF_FLOAT_OES ||
+        sized != null && sized.types.indexOf(GL.FLOAT) >= 0 && image.format !== GL.DEPTH_COMPONENT) {
+        return "float";
+    }
+    return "normalized";
+}
+
+/**
+ * @param {GLenum} type of a vertex attrib
+ * @returns {number} the bytes of one component, or of all for packed types
+ */
+function attribBytes(type: GLenum): number {
+    switch (type) {
+    case GL.BYTE: case GL.UNSIGNED_BYTE: return 1;
+    case GL.SHORT: case GL.UNSIGNED_SHORT: case GL.HALF_FLOAT: return 2;
+    }
+    return 4;
+}
+
+/**
+ * The event mock canvases dispatch on context loss and restore.
+ */
+export class MockContextEvent {
+    type: string;
+    statusMessage: string;
+    defaultPrevented: boolean;
+    /**
+     * @param {string} type
+     * @constructor
+     */
+    constructor(type: string) {
+        this.type = type;
+        this.statusMessage = "";
+        this.defaultPrevented = false;
+    }
+
+    preventDefault() {
+        this.defaultPrevented = true;
+    }
+}
+
+type MockListener = ((event: MockContextEvent) => void) |
+    {handleEvent: (event: MockContextEvent) => void};
+
+export class MockCanvas {
+    width: number;
+    height: number;
+    options: MockOptions;
+    /** the context of the first getContext() call */
+    context: MockContext | null;
+    /** set by transferControlToOffscreen() */
+    transferred: boolean;
+    private listeners: {[type: string]: MockListener[]};
+    /**
+     * Stand-in for an HTMLCanvasElement, whose getContext() creates mock
+     * contexts. Pass it to new Igloo() like a real canvas.
+     * @param {number} [width=300]
+     * @param {number} [height=150]
+     * @param {MockOptions} [options] for the contexts it creates
+     * @constructor
+     */
+    constructor(width = 300, height = 150, options: MockOptions = {}) {
+        this.width = width;
+        this.height = height;
+        this.options = options;
+        this.context = null;
+        this.transferred = false;
+        this.listeners = {};
+    }
+
+    /**
+     * Like a real canvas, the first call decides the kind of context and
+     * later calls return it again, or null when asking for another kind.
+     * @param {string} type "webgl2", "webgl" or "experimental-webgl"
+     * @param {Object} [attributes] reported by getContextAttributes()
+     * @returns {?MockContext}
+     */
+    getContext(type: string, attributes?: WebGLContextAttributes): MockContext | null {
+        if (this.transferred) throw new Error("InvalidStateError: the canvas was transferred to offscreen");
+        const version = type === "webgl2" ? 2 : type === "webgl" || type === "experimental-webgl" ? 1 : 0;
+        if (version === 0 || version > (this.options.version || 2)) return null;
+        if (this.context == null) {
+            this.context = version === 2 ?
+                new MockWebGL2RenderingContext(this.options, this, attributes) :
+                new MockWebGLRenderingContext(this.options, this, attributes);
+        }
+        return this.context.version === version ? this.context : null;
+    }
+
+    /**
+     * Like HTMLCanvasElement.transferControlToOffscreen(): the canvas can
+     * no longer make contexts, the returned one stands in for the
+     * OffscreenCanvas a worker would receive.
+     * @returns {MockCanvas}
+     */
+    transferControlToOffscreen(): MockCanvas {
+        if (this.transferred || this.context != null) {
+            throw new Error("InvalidStateError: the canvas has a context or was transferred");
+        }
+        this.transferred = true;
+        return new MockCanvas(this.width, this.height, this.options);
+    }
+
+    /**
+     * @param {string} type
+     * @param {Function|Object} listener
+     */
+    addEventListener(type: string, listener: MockListener) {
+        const listeners = this.listeners[type] = this.listeners[type] || [];
+        if (listeners.indexOf(listener) < 0) listeners.push(listener);
+    }
+
+    /**
+     * @param {string} type
+     * @param {Function|Object} listener
+     */
+    removeEventListener(type: string, listener: MockListener) {
+        const listeners = this.listeners[type] || [];
+        const i = listeners.indexOf(listener);
+        if (i >= 0) listeners.splice(i, 1);
+    }
+
+    /**
+     * Call the listeners of event.type, synchronously.
+     * @param {MockContextEvent} event
+     * @returns {boolean} false if a listener called preventDefault()
+     */
+    dispatchEvent(event: MockContextEvent): boolean {
+        for (const listener of (this.listeners[event.type] || []).slice()) {
+            if (typeof listener === "function") {
+                listener.call(this, event);
+            } else {
+                listener.handleEvent(event);
+            }
+        }
+        return !event.defaultPrevented;
+    }
+}
+
+const METHODS: {[version: number]: Set<string>} = {
+    1: new Set(WEBGL1_METHODS),
+    2: new Set(WEBGL1_METHODS.concat(WEBGL2_METHODS)),
+};
+
+/** helpers of the mock, which are not GL calls and are not recorded */
+const UNRECORDED = new Set(["clearCalls", "liveObjects"]);
+
+/** calls that still run while the context is lost */
+const LOST_SAFE = new Set(["getError", "isContextLost", "loseContext", "restoreContext"]);
+
+/** what calls return while the context is lost, when not null or undefined */
+const LOST_RESULTS: {[name: string]: unknown} = {
+    checkFramebufferStatus: GL.FRAMEBUFFER_UNSUPPORTED,
+    getAttribLocation: -1,
+    getFragDataLocation: -1,
+    clientWaitSync: GL.WAIT_FAILED,
+};
+
+const CAPABILITIES = [
+    GL.BLEND, GL.CULL_FACE, GL.DEPTH_TEST, GL.DITHER, GL.POLYGON_OFFSET_FILL,
+    GL.SAMPLE_ALPHA_TO_COVERAGE, GL.SAMPLE_COVERAGE, GL.SCISSOR_TEST, GL.STENCIL_TEST,
+];
+const BLEND_FACTORS = [
+    GL.ZERO, GL.ONE, GL.SRC_COLOR, GL.ONE_MINUS_SRC_COLOR, GL.DST_COLOR, GL.ONE_MINUS_DST_COLOR,
+    GL.SRC_ALPHA, GL.ONE_MINUS_SRC_ALPHA, GL.DST_ALPHA, GL.ONE_MINUS_DST_ALPHA, GL.CONSTANT_COLOR,
+    GL.ONE_MINUS_CONSTANT_COLOR, GL.CONSTANT_ALPHA, GL.ONE_MINUS_CONSTANT_ALPHA, GL.SRC_ALPHA_SATURATE,
+];
+const COMPARE_FUNCS = [
+    GL.NEVER, GL.LESS, GL.EQUAL, GL.LEQUAL, GL.GREATER, GL.NOTEQUAL, GL.GEQUAL, GL.ALWAYS,
+];
+const STENCIL_OPS = [
+    GL.KEEP, GL.ZERO, GL.REPLACE, GL.INCR, GL.INCR_WRAP, GL.DECR, GL.DECR_WRAP, GL.INVERT,
+];
+const PIXEL_STORE = [
+    GL.PACK_ALIGNMENT, GL.UNPACK_ALIGNMENT, GL.UNPACK_FLIP_Y_WEBGL, GL.UNPACK_PREMULTIPLY_ALPHA_WEBGL,
+    GL.UNPACK_COLORSPACE_CONVERSION_WEBGL, GL.PACK_ROW_LENGTH, GL.PACK_SKIP_PIXELS, GL.PACK_SKIP_ROWS,
+    GL.UNPACK_ROW_LENGTH, GL.UNPACK_IMAGE_HEIGHT, GL.UNPACK_SKIP_PIXELS, GL.UNPACK_SKIP_ROWS,
+    GL.UNPACK_SKIP_IMAGES,
+];
+const FACES = [GL.FRONT, GL.BACK, GL.FRONT_AND_BACK];
+const DRAW_MODES = [
+    GL.POINTS, GL.LINES, GL.LINE_LOOP, GL.LINE_STRIP, GL.TRIANGLES, GL.TRIANGLE_STRIP, GL.TRIANGLE_FAN,
+];
+const USAGES = [GL.STREAM_DRAW, GL.STATIC_DRAW, GL.DYNAMIC_DRAW];
+const WEBGL2_USAGES = [
+    GL.STREAM_READ, GL.STREAM_COPY, GL.STATIC_READ, GL.STATIC_COPY, GL.DYNAMIC_READ, GL.DYNAMIC_COPY,
+];
+const WRAP_MODES = [GL.REPEAT, GL.CLAMP_TO_EDGE, GL.MIRRORED_REPEAT];
+const MIN_FILTERS = [
+    GL.NEAREST, GL.LINEAR, GL.NEAREST_MIPMAP_NEAREST, GL.LINEAR_MIPMAP_NEAREST,
+    GL.NEAREST_MIPMAP_LINEAR, GL.LINEAR_MIPMAP_LINEAR,
+];
+
+/**
+ * Buffer binding points and the parameter to query each of them.
+ */
+const BUFFER_TARGETS: {[target: number]: GLenum} = {
+    [GL.ARRAY_BUFFER]: GL.ARRAY_BUFFER_BINDING,
+    [GL.ELEMENT_ARRAY_BUFFER]: GL.ELEMENT_ARRAY_BUFFER_BINDING,
+    [GL.COPY_READ_BUFFER]: GL.COPY_READ_BUFFER_BINDING,
+    [GL.COPY_WRITE_BUFFER]: GL.COPY_WRITE_BUFFER_BINDING,
+    [GL.PIXEL_PACK_BUFFER]: GL.PIXEL_PACK_BUFFER_BINDING,
+    [GL.PIXEL_UNPACK_BUFFER]: GL.PIXEL_UNPACK_BUFFER_BINDING,
+    [GL.TRANSFORM_FEEDBACK_BUFFER]: GL.TRANSFORM_FEEDBACK_BUFFER_BINDING,
+    [GL.UNIFORM_BUFFER]: GL.UNIFORM_BUFFER_BINDING,
+};
+
+/**
+ * Texture targets and the parameter to query each of them.
+ */
+const TEXTURE_TARGETS: {[target: number]: GLenum} = {
+    [GL.TEXTURE_2D]: GL.TEXTURE_BINDING_2D,
+    [GL.TEXTURE_CUBE_MAP]: GL.TEXTURE_BINDING_CUBE_MAP,
+    [GL.TEXTURE_3D]: GL.TEXTURE_BINDING_3D,
+    [GL.TEXTURE_2D_ARRAY]: GL.TEXTURE_BINDING_2D_ARRAY,
+};
+
+/**
+ * Parameters getParameter() only accepts once their extension is enabled,
+ * by version.
+ */
+const EXTENSION_PARAMETERS: {[version: number]: {[pname: number]: string}} = {
+    1: {
+        [MAX_TEXTURE_MAX_ANISOTROPY_EXT]: "EXT_texture_filter_anisotropic",
+        [VERTEX_ARRAY_BINDING_OES]: "OES_vertex_array_object",
+        [GL.FRAGMENT_SHADER_DERIVATIVE_HINT]: "OES_standard_derivatives",
+        [MAX_DRAW_BUFFERS_WEBGL]: "WEBGL_draw_buffers",
+        [MAX_COLOR_ATTACHMENTS_WEBGL]: "WEBGL_draw_buffers",
+    },
+    2: {
+        [MAX_TEXTURE_MAX_ANISOTROPY_EXT]: "EXT_texture_filter_anisotropic",
+        [GPU_DISJOINT_EXT]: "EXT_disjoint_timer_query_webgl2",
+    },
+};
+
+export class MockContext {
+    /** 1 or 2 */
+    version: number;
+    canvas: MockCanvas;
+    options: MockOptions;
+    /** every GL call so far, including those on extension objects */
+    calls: MockCall[];
+    /** a message for every GL error raised, to see what went wrong in a test */
+    errors: string[];
+    /** incremented by every context loss, making older objects invalid */
+    generation: number;
+    protected attributes: WebGLContextAttributes;
+    protected error!: GLenum;
+    protected current: string;
+    protected lost: boolean;
+    protected restorable: boolean;
+    protected extensions!: {[name: string]: unknown};
+    protected objects!: Set<MockObject>;
+    /** simple state, by getParameter() pname */
+    protected values!: {[pname: number]: unknown};
+    protected program!: MockProgram | null;
+    /** buffer bindings but ELEMENT_ARRAY_BUFFER, which belongs to the vertex array */
+    protected buffers!: {[target: number]: MockBuffer | null};
+    protected uniformBuffers!: MockIndexedBinding[];
+    protected unit!: number;
+    protected textures!: {[target: number]: MockTexture | null}[];
+    protected samplers!: (MockSampler | null)[];
+    protected drawFramebuffer!: MockFramebuffer | null;
+    protected readFramebuffer!: MockFramebuffer | null;
+    protected renderbuffer!: MockRenderbuffer | null;
+    protected defaultVertexArray!: MockVertexArray;
+    protected vertexArray!: MockVertexArray;
+    protected defaultFeedback!: MockTransformFeedback;
+    protected feedback!: MockTransformFeedback;
+    protected queries!: {[target: number]: MockQuery | null};
+    /** generic vertex attrib values, for locations without an array */
+    protected generic!: number[][];
+    protected backbuffer!: MockImage | null;
+    /** draw and read buffer of the default framebuffer, BACK or NONE */
+    protected defaultDrawBuffer!: GLenum;
+    protected defaultReadBuffer!: GLenum;
+    /** draw calls so far, for occlusion queries */
+    protected draws!: number;
+    /**
+     * Base of the mock contexts: use MockWebGLRenderingContext or
+     * MockWebGL2RenderingContext, or a MockCanvas. It keeps track of
+     * objects, bindings and render state, validates arguments the way
+     * WebGL does, and reports problems through getError(), with a message
+     * for each in errors. Texture and renderbuffer contents are kept, so
+     * uploads, clears and copies can be read back, but draw calls only
+     * validate: nothing is rasterized, and transform feedback captures
+     * nothing. Shaders are parsed for reflection rather than compiled, see
+     * parseShader(), uniform blocks with the std140 layout. Blits and
+     * compressed textures are not supported, and throw when used.
+     *
+     * The constructor returns a Proxy recording every call in calls.
+     * @param {number} version
+     * @param {MockOptions} [options]
+     * @param {MockCanvas} [canvas] one is made if not given
+     * @param {Object} [attributes] as passed to getContext()
+     * @constructor
+     */
+    constructor(version: number, options: MockOptions = {}, canvas?: MockCanvas,
+                attributes?: WebGLContextAttributes) {
+        this.version = version;
+        this.options = options;
+        this.canvas = canvas || new MockCanvas(300, 150, Object.assign({}, options, {version}));
+        this.attributes = Object.assign({
+            alpha: true, antialias: true, depth: true, desynchronized: false,
+            failIfMajorPerformanceCaveat: false, powerPreference: "default",
+            premultipliedAlpha: true, preserveDrawingBuffer: false, stencil: false,
+        }, attributes);
+        this.calls = [];
+        this.errors = [];
+        this.generation = 0;
+        this.current = "";
+        this.lost = false;
+        this.restorable = false;
+        this.reset();
+
+        const recorders: {[name: string]: unknown} = {};
+        const methods = METHODS[version];
+        const context = new Proxy(this, {
+            get: (target, name) => {
+                const value = Reflect.get(target, name);
+                if (typeof name !== "string") return value;
+                if (value === undefined && methods.has(name)) {
+                    throw new Error(`${target.constructor.name} does not implement ${name}()`);
+                }
+                if (typeof value !== "function" || UNRECORDED.has(name) || name === "constructor") {
+                    return value;
+                }
+                if (recorders[name] == null) {
+                    recorders[name] = function(...args: unknown[]) {
+                        return target.call(name, args, value);
+                    };
+                }
+                return recorders[name];
+            },
+        });
+        this.canvas.context = context;
+        return context;
+    }
+
+    /**
+     * Put the context in its initial state, as after creation or a restore.
+     */
+    protected reset() {
+        const webgl2 = this.version === 2;
+        this.error = GL.NO_ERROR;
+        this.extensions = {};
+        this.objects = new Set();
+        const width = this.canvas.width, height = this.canvas.height;
+        const values: {[pname: number]: unknown} = this.values = {
+            [GL.VIEWPORT]: new Int32Array([0, 0, width, height]),
+            [GL.SCISSOR_BOX]: new Int32Array([0, 0, width, height]),
+            [GL.COLOR_CLEAR_VALUE]: new Float32Array([0, 0, 0, 0]),
+            [GL.DEPTH_CLEAR_VALUE]: 1,
+            [GL.STENCIL_CLEAR_VALUE]: 0,
+            [GL.COLOR_WRITEMASK]: [true, true, true, true],
+            [GL.DEPTH_WRITEMASK]: true,
+            [GL.DEPTH_FUNC]: GL.LESS,
+            [GL.DEPTH_RANGE]: new Float32Array([0, 1]),
+            [GL.CULL_FACE_MODE]: GL.BACK,
+            [GL.FRONT_FACE]: GL.CCW,
+            [GL.BLEND_SRC_RGB]: GL.ONE,
+            [GL.BLEND_SRC_ALPHA]: GL.ONE,
+            [GL.BLEND_DST_RGB]: GL.ZERO,
+            [GL.BLEND_DST_ALPHA]: GL.ZERO,
+            [GL.BLEND_EQUATION_RGB]: GL.FUNC_ADD,
+            [GL.BLEND_EQUATION_ALPHA]: GL.FUNC_ADD,
+            [GL.BLEND_COLOR]: new Float32Array([0, 0, 0, 0]),
+            [GL.LINE_WIDTH]: 1,
+            [GL.POLYGON_OFFSET_FACTOR]: 0,
+            [GL.POLYGON_OFFSET_UNITS]: 0,
+            [GL.SAMPLE_COVERAGE_VALUE]: 1,
+            [GL.SAMPLE_COVERAGE_INVERT]: false,
+            [GL.STENCIL_FUNC]: GL.ALWAYS,
+            [GL.STENCIL_REF]: 0,
+            [GL.STENCIL_VALUE_MASK]: 0xFFFFFFFF,
+            [GL.STENCIL_WRITEMASK]: 0xFFFFFFFF,
+            [GL.STENCIL_FAIL]: GL.KEEP,
+            [GL.STENCIL_PASS_DEPTH_FAIL]: GL.KEEP,
+            [GL.STENCIL_PASS_DEPTH_PASS]: GL.KEEP,
+            [GL.STENCIL_BACK_FUNC]: GL.ALWAYS,
+            [GL.STENCIL_BACK_REF]: 0,
+            [GL.STENCIL_BACK_VALUE_MASK]: 0xFFFFFFFF,
+            [GL.STENCIL_BACK_WRITEMASK]: 0xFFFFFFFF,
+            [GL.STENCIL_BACK_FAIL]: GL.KEEP,
+            [GL.STENCIL_BACK_PASS_DEPTH_FAIL]: GL.KEEP,
+            [GL.STENCIL_BACK_PASS_DEPTH_PASS]: GL.KEEP,
+            [GL.GENERATE_MIPMAP_HINT]: GL.DONT_CARE,
+            [GL.PACK_ALIGNMENT]: 4,
+            [GL.UNPACK_ALIGNMENT]: 4,
+            [GL.UNPACK_FLIP_Y_WEBGL]: false,
+            [GL.UNPACK_PREMULTIPLY_ALPHA_WEBGL]: false,
+            [GL.UNPACK_COLORSPACE_CONVERSION_WEBGL]: GL.BROWSER_DEFAULT_WEBGL,
+        };
+        for (const cap of CAPABILITIES) values[cap] = cap === GL.DITHER;
+        values[GL.FRAGMENT_SHADER_DERIVATIVE_HINT] = GL.DONT_CARE;
+        if (webgl2) {
+            for (const pname of [GL.PACK_ROW_LENGTH, GL.PACK_SKIP_PIXELS, GL.PACK_SKIP_ROWS,
+                                 GL.UNPACK_ROW_LENGTH, GL.UNPACK_IMAGE_HEIGHT, GL.UNPACK_SKIP_PIXELS,
+                                 GL.UNPACK_SKIP_ROWS, GL.UNPACK_SKIP_IMAGES]) {
+                values[pname] = 0;
+            }
+            values[GL.RASTERIZER_DISCARD] = false;
+        }
+
+        this.program = null;
+        this.buffers = {};
+        for (const target in BUFFER_TARGETS) this.buffers[target] = null;
+        this.uniformBuffers = [];
+        for (let i = 0; i < this.limit(GL.MAX_UNIFORM_BUFFER_BINDINGS); i++) {
+            this.uniformBuffers.push({buffer: null, offset: 0, size: 0});
+        }
+        this.unit = 0;
+        this.textures = [];
+        this.samplers = [];
+        for (let i = 0; i < this.limit(GL.MAX_COMBINED_TEXTURE_IMAGE_UNITS); i++) {
+            const unit: {[target: number]: MockTexture | null} = {};
+            for (const target in TEXTURE_TARGETS) unit[target] = null;
+            this.textures.push(unit);
+            this.samplers.push(null);
+        }
+        this.drawFramebuffer = this.readFramebuffer = null;
+        this.renderbuffer = null;
+        const attribs = this.limit(GL.MAX_VERTEX_ATTRIBS);
+        this.vertexArray = this.defaultVertexArray = new MockVertexArray(this, attribs);
+        this.feedback = this.defaultFeedback = new MockTransformFeedback(this);
+        this.generic = [];
+        for (let i = 0; i < attribs; i++) this.generic.push([0, 0, 0, 1]);
+        this.queries = {};
+        this.backbuffer = null;
+        this.defaultDrawBuffer = this.defaultReadBuffer = GL.BACK;
+        this.draws = 0;
+    }
+
+    /**
+     * Run a GL call for the recording Proxy.
+     * @param {string} name
+     * @param {Array} args
+     * @param {Function} method
+     * @returns {*} the result of the call
+     */
+    protected call(name: string, args: unknown[], method: (...args: unknown[]) => unknown): unknown {
+        this.calls.push({name, args: args.slice()});
+        if (this.lost && !LOST_SAFE.has(name)) {
+            if (name in LOST_RESULTS) return LOST_RESULTS[name];
+            if (/^is/.test(name)) return false;
+            return /^(get|create|fence)/.test(name) ? null : undefined;
+        }
+        const outer = this.current;
+        this.current = name;
+        try {
+            return method.apply(this, args);
+        } finally {
+            this.current = outer;
+        }
+    }
+
+    /**
+     * Raise a GL error: keep the first for getError(), log it in errors,
+     * and throw it in strict mode.
+     * @param {GLenum} error
+     * @param {string} message
+     * @returns {null} for returning from the failed call
+     */
+    protected fail(error: GLenum, message: string): null {
+        const text = `${GL_ERROR_NAMES[error]} in ${this.current}: ${message}`;
+        this.errors.push(text);
+        if (this.error === GL.NO_ERROR) this.error = error;
+        if (this.options.strict) throw new Error(text);
+        return null;
+    }
+
+    /**
+     * Check an object argument like WebGL does. Objects of the wrong kind
+     * throw a TypeError; deleted objects, or those of another context or
+     * generation, raise INVALID_OPERATION.
+     * @param {*} object
+     * @param {Function} type the expected MockObject subclass
+     * @param {boolean} [deleted=false] allow deleted objects
+     * @returns {boolean} true if object is null or usable
+     */
+    protected check(object: unknown, type: new (...args: never[]) => MockObject, deleted = false): boolean {
+        if (object == null) return true;
+        if (!(object instanceof type)) {
+            throw new TypeError(`${this.current}: parameter is not a ${type.name.replace(/^Mock/, "WebGL")}`);
+        }
+        if (object.context !== this) {
+            this.fail(GL.INVALID_OPERATION, `${object.kind} ${object.id} belongs to another context`);
+            return false;
+        }
+        if (object.generation !== this.generation) {
+            this.fail(GL.INVALID_OPERATION, `${object.kind} ${object.id} was lost with the context`);
+            return false;
+        }
+        if (object.deleted && !deleted) {
+            this.fail(GL.INVALID_OPERATION, `${object.kind} ${object.id} was deleted`);
+            return false;
+        }
+        return true;
+    }
+
+    /**
+     * @param {MockObject} object
+     * @returns {MockObject} object, tracked for liveObjects()
+     */
+    protected create<T extends MockObject>(object: T): T {
+        this.objects.add(object);
+        return object;
+    }
+
+    /**
+     * @param {*} object
+     * @param {Function} type
+     * @returns {boolean} true if object can be deleted, false if it is null or already deleted
+     */
+    protected deletable(object: unknown, type: new (...args: never[]) => MockObject): object is MockObject {
+        if (!this.check(object, type, true) || object == null) return false;
+        const o = object as MockObject;
+        if (o.deleted) return false;
+        o.deleted = true;
+        this.objects.delete(o);
+        return true;
+    }
+
+    /**
+     * @param {GLenum} pname
+     * @returns {number} an implementation limit, see LIMITS
+     */
+    protected limit(pname: GLenum): number {
+        const overrides = this.options.parameters;
+        if (overrides != null && pname in overrides) return overrides[pname] as number;
+        const limits = LIMITS[this.version];
+        return (pname in limits ? limits[pname] : LIMITS[1][pname]) as number;
+    }
+
+    /**
+     * @param {string} name
+     * @returns {boolean} true if the extension was enabled with getExtension()
+     */
+    protected enabled(name: string): boolean {
+        return this.extensions[name] != null;
+    }
+
+    /**
+     * @param {GLenum} value
+     * @param {Array<GLenum>} valid
+     * @param {string} what named in the error
+     * @returns {boolean} true if value is one of valid, else raises INVALID_ENUM
+     */
+    protected oneOf(value: GLenum, valid: GLenum[], what: string): boolean {
+        if (valid.indexOf(value) >= 0) return true;
+        this.fail(GL.INVALID_ENUM, `invalid ${what} 0x${Number(value).toString(16)}`);
+        return false;
+    }
+
+    /**
+     * Forget all recorded calls, e.g. after setting up a test.
+     */
+    clearCalls() {
+        this.calls.length = 0;
+    }
+
+    /**
+     * @param {string} [kind] e.g. "Texture", to only list those
+     * @returns {Array<MockObject>} the objects created and not deleted yet
+     */
+    liveObjects(kind?: string): MockObject[] {
+        const live: MockObject[] = [];
+        this.objects.forEach(function(object) {
+            if (kind == null || object.kind === kind) live.push(object);
+        });
+        return live;
+    }
+
+    get drawingBufferWidth(): number {
+        return this.canvas.width;
+    }
+
+    get drawingBufferHeight(): number {
+        return this.canvas.height;
+    }
+
+    // context
+
+    isContextLost(): boolean {
+        return this.lost;
+    }
+
+    getError(): GLenum {
+        const error = this.error;
+        this.error = GL.NO_ERROR;
+        return error;
+    }
+
+    getContextAttributes(): WebGLContextAttributes {
+        return Object.assign({}, this.attributes);
+    }
+
+    getSupportedExtensions(): string[] {
+        return (this.options.extensions || DEFAULT_EXTENSIONS[this.version]).slice();
+    }
+
+    getExtension(name: string): unknown {
+        const supported = this.getSupportedExtensions().filter(function(known) {
+            return known.toLowerCase() === String(name).toLowerCase();
+        });
+        if (supported.length === 0) return null;
+        const key = supported[0];
+        if (this.extensions[key] == null) this.extensions[key] = this.extension(key);
+        return this.extensions[key];
+    }
+
+    /**
+     * Make the object of an extension, whose methods are recorded like
+     * the methods of the context.
+     * @param {string} name
+     * @returns {Object}
+     */
+    protected extension(name: string): unknown {
+        const ext: {[key: string]: unknown} = Object.assign({}, EXTENSION_CONSTANTS[name]);
+        const method = (key: string, impl: (...args: never[]) => unknown) => {
+            ext[key] = (...args: unknown[]) => this.call(key, args, impl as (...args: unknown[]) => unknown);
+        };
+        switch (name) {
+        case "ANGLE_instanced_arrays":
+            method("drawArraysInstancedANGLE", (mode: GLenum, first: number, count: number, instances: number) =>
+                this.draw(mode, first, count, null, 0, instances));
+            method("drawElementsInstancedANGLE", (mode: GLenum, count: number, type: GLenum,
+                                                  offset: number, instances: number) =>
+                this.draw(mode, 0, count, type, offset, instances));
+            method("vertexAttribDivisorANGLE", (index: number, divisor: number) =>
+                this.divisor(index, divisor));
+            break;
+        case "OES_vertex_array_object":
+            method("createVertexArrayOES", () => this.createVertexArrayObject());
+            method("deleteVertexArrayOES", (vao: MockVertexArray | null) => this.deleteVertexArrayObject(vao));
+            method("isVertexArrayOES", (vao: MockVertexArray | null) => this.isObject(vao, MockVertexArray));
+            method("bindVertexArrayOES", (vao: MockVertexArray | null) => this.bindVertexArrayObject(vao));
+            break;
+        case "WEBGL_draw_buffers":
+            method("drawBuffersWEBGL", (buffers: GLenum[]) => this.setDrawBuffers(buffers));
+            break;
+        case "WEBGL_lose_context":
+            method("loseContext", () => this.loseContext());
+            method("restoreContext", () => this.restoreContext());
+            break;
+        case "EXT_disjoint_timer_query_webgl2":
+            method("queryCounterEXT", (query: MockQuery, target: GLenum) => this.queryCounter(query, target));
+            break;
+        case "KHR_parallel_shader_compile":
+            method("maxShaderCompilerThreadsKHR", () => undefined);
+            break;
+        }
+        return ext;
+    }
+
+    /**
+     * Lose the context like WEBGL_lose_context does: every object becomes
+     * invalid, and webglcontextlost is dispatched on the canvas. Unlike in
+     * browsers the events are dispatched synchronously.
+     */
+    protected loseContext() {
+        if (this.lost) return;
+        this.lost = true;
+        this.generation++;
+        this.error = GL.CONTEXT_LOST_WEBGL;
+        const event = new MockContextEvent("webglcontextlost");
+        this.canvas.dispatchEvent(event);
+        this.restorable = event.defaultPrevented;
+    }
+
+    /**
+     * Restore a lost context to its initial state and dispatch
+     * webglcontextrestored, if the loss event had its default prevented.
+     */
+    protected restoreContext() {
+        if (!this.lost) {
+            this.fail(GL.INVALID_OPERATION, "the context is not lost");
+            return;
+        }
+        if (!this.restorable) return;
+        this.lost = false;
+        this.reset();
+        this.canvas.dispatchEvent(new MockContextEvent("webglcontextrestored"));
+    }
+
+    // state
+
+    getParameter(pname: GLenum): unknown {
+        const overrides = this.options.parameters;
+        if (overrides != null && pname in overrides) return overrides[pname];
+        const extension = EXTENSION_PARAMETERS[this.version][pname];
+        if (extension != null && !this.enabled(extension)) {
+            return this.fail(GL.INVALID_ENUM, `getParameter(0x${pname.toString(16)}) needs ${extension}`);
+        }
+        switch (pname) {
+        case GL.CURRENT_PROGRAM: return this.program;
+        case GL.ACTIVE_TEXTURE: return GL.TEXTURE0 + this.unit;
+        case GL.FRAMEBUFFER_BINDING: return this.drawFramebuffer;
+        case GL.RENDERBUFFER_BINDING: return this.renderbuffer;
+        case VERTEX_ARRAY_BINDING_OES:
+            return this.vertexArray === this.defaultVertexArray ? null : this.vertexArray;
+        case GPU_DISJOINT_EXT: return false;
+        case GL.IMPLEMENTATION_COLOR_READ_FORMAT:
+        case GL.IMPLEMENTATION_COLOR_READ_TYPE: {
+            const source = this.readSource();
+            if (source == null) return null;
+            const [format, type] = this.readFormat(source.image);
+            return pname === GL.IMPLEMENTATION_COLOR_READ_FORMAT ? format : type;
+        }
+        }
+        for (const target of this.bufferTargets()) {
+            if (BUFFER_TARGETS[target] === pname) return this.boundBuffer(target);
+        }
+        for (const target of this.textureTargets()) {
+            if (TEXTURE_TARGETS[target] === pname) return this.textures[this.unit][target];
+        }
+        const value = this.parameter(pname);
+        if (value !== undefined) return value;
+        if (pname in this.values) {
+            const v = this.values[pname];
+            if (v instanceof Array) return v.slice();
+            if (isView(v)) return (v as Float32Array).slice();
+            return v;
+        }
+        if (pname in LIMITS[this.version]) return LIMITS[this.version][pname];
+        if (pname in LIMITS[1]) return LIMITS[1][pname];
+        return this.fail(GL.INVALID_ENUM, `unknown parameter 0x${pname.toString(16)}`);
+    }
+
+    /**
+     * getParameter() for the pnames a subclass adds.
+     * @param {GLenum} pname
+     * @returns {*} undefined if unknown
+     */
+    protected parameter(pname: GLenum): unknown {
+        if (pname >= GL.DRAW_BUFFER0 && pname <= GL.DRAW_BUFFER15 && this.enabled("WEBGL_draw_buffers")) {
+            return this.activeDrawBuffers()[pname - GL.DRAW_BUFFER0] || GL.NONE;
+        }
+        return undefined;
+    }
+
+    /**
+     * @returns {Array<GLenum>} the texture targets of this version
+     */
+    protected textureTargets(): GLenum[] {
+        return [GL.TEXTURE_2D, GL.TEXTURE_CUBE_MAP];
+    }
+
+    /**
+     * @returns {Array<GLenum>} the buffer targets of this version
+     */
+    protected bufferTargets(): GLenum[] {
+        return [GL.ARRAY_BUFFER, GL.ELEMENT_ARRAY_BUFFER];
+    }
+
+    /**
+     * @returns {Array<GLenum>} what enable() accepts in this version
+     */
+    protected capabilities(): GLenum[] {
+        return CAPABILITIES;
+    }
+
+    enable(cap: GLenum) {
+        if (this.oneOf(cap, this.capabilities(), "capability")) this.values[cap] = true;
+    }
+
+    disable(cap: GLenum) {
+        if (this.oneOf(cap, this.capabilities(), "capability")) this.values[cap] = false;
+    }
+
+    isEnabled(cap: GLenum): boolean {
+        if (!this.oneOf(cap, this.capabilities(), "capability")) return false;
+        return this.values[cap] as boolean;
+    }
+
+    viewport(x: number, y: number, width: number, height: number) {
+        if (width < 0 || height < 0) return this.fail(GL.INVALID_VALUE, "negative viewport size");
+        const max = LIMITS[1][GL.MAX_VIEWPORT_DIMS] as Int32Array;
+        this.values[GL.VIEWPORT] = new Int32Array([x, y, Math.min(width, max[0]), Math.min(height, max[1])]);
+    }
+
+    scissor(x: number, y: number, width: number, height: number) {
+        if (width < 0 || height < 0) return this.fail(GL.INVALID_VALUE, "negative scissor size");
+        this.values[GL.SCISSOR_BOX] = new Int32Array([x, y, width, height]);
+    }
+
+    clearColor(red: number, green: number, blue: number, alpha: number) {
+        this.values[GL.COLOR_CLEAR_VALUE] = new Float32Array([red, green, blue, alpha]);
+    }
+
+    clearDepth(depth: number) {
+        this.values[GL.DEPTH_CLEAR_VALUE] = Math.min(Math.max(depth, 0), 1);
+    }
+
+    clearStencil(s: number) {
+        this.values[GL.STENCIL_CLEAR_VALUE] = s;
+    }
+
+    colorMask(red: boolean, green: boolean, blue: boolean, alpha: boolean) {
+        this.values[GL.COLOR_WRITEMASK] = [Boolean(red), Boolean(green), Boolean(blue), Boolean(alpha)];
+    }
+
+    depthMask(flag: boolean) {
+        this.values[GL.DEPTH_WRITEMASK] = Boolean(flag);
+    }
+
+    depthFunc(func: GLenum) {
+        if (this.oneOf(func, COMPARE_FUNCS, "depth function")) this.values[GL.DEPTH_FUNC] = func;
+    }
+
+    depthRange(zNear: number, zFar: number) {
+        if (zNear > zFar) return this.fail(GL.INVALID_OPERATION, "zNear is greater than zFar");
+        this.values[GL.DEPTH_RANGE] = new Float32Array([zNear, zFar].map((z) => Math.min(Math.max(z, 0), 1)));
+    }
+
+    cullFace(mode: GLenum) {
+        if (this.oneOf(mode, FACES, "face")) this.values[GL.CULL_FACE_MODE] = mode;
+    }
+
+    frontFace(mode: GLenum) {
+        if (this.oneOf(mode, [GL.CW, GL.CCW], "front face")) this.values[GL.FRONT_FACE] = mode;
+    }
+
+    blendFunc(sfactor: GLenum, dfactor: GLenum) {
+        this.blendFuncSeparate(sfactor, dfactor, sfactor, dfactor);
+    }
+
+    blendFuncSeparate(srcRGB: GLenum, dstRGB: GLenum, srcAlpha: GLenum, dstAlpha: GLenum) {
+        for (const factor of [srcRGB, dstRGB, srcAlpha, dstAlpha]) {
+            if (!this.oneOf(factor, BLEND_FACTORS, "blend factor")) return;
+        }
+        const constant = function(f: GLenum) {
+            return f === GL.CONSTANT_COLOR || f === GL.ONE_MINUS_CONSTANT_COLOR ? 1 :
+                f === GL.CONSTANT_ALPHA || f === GL.ONE_MINUS_CONSTANT_ALPHA ? 2 : 0;
+        };
+        if (constant(srcRGB) * constant(dstRGB) === 2) {
+            return this.fail(GL.INVALID_OPERATION, "constant color and constant alpha cannot be combined");
+        }
+        this.values[GL.BLEND_SRC_RGB] = srcRGB;
+        this.values[GL.BLEND_DST_RGB] = dstRGB;
+        this.values[GL.BLEND_SRC_ALPHA] = srcAlpha;
+        this.values[GL.BLEND_DST_ALPHA] = dstAlpha;
+    }
+
+    blendEquation(mode: GLenum) {
+        this.blendEquationSeparate(mode, mode);
+    }
+
+    blendEquationSeparate(modeRGB: GLenum, modeAlpha: GLenum) {
+        const modes = [GL.FUNC_ADD, GL.FUNC_SUBTRACT, GL.FUNC_REVERSE_SUBTRACT];
+        if (this.version === 2) modes.push(GL.MIN, GL.MAX);
+        if (!this.oneOf(modeRGB, modes, "blend equation") ||
+            !this.oneOf(modeAlpha, modes, "blend equation")) return;
+        this.values[GL.BLEND_EQUATION_RGB] = modeRGB;
+        this.values[GL.BLEND_EQUATION_ALPHA] = modeAlpha;
+    }
+
+    blendColor(red: number, green: number, blue: number, alpha: number) {
+        this.values[GL.BLEND_COLOR] = new Float32Array([red, green, blue, alpha]);
+    }
+
+    lineWidth(width: number) {
+        if (!(width > 0)) return this.fail(GL.INVALID_VALUE, "line width must be positive");
+        this.values[GL.LINE_WIDTH] = width;
+    }
+
+    polygonOffset(factor: number, units: number) {
+        this.values[GL.POLYGON_OFFSET_FACTOR] = factor;
+        this.values[GL.POLYGON_OFFSET_UNITS] = units;
+    }
+
+    sampleCoverage(value: number, invert: boolean) {
+        this.values[GL.SAMPLE_COVERAGE_VALUE] = Math.min(Math.max(value, 0), 1);
+        this.values[GL.SAMPLE_COVERAGE_INVERT] = Boolean(invert);
+    }
+
+    hint(target: GLenum, mode: GLenum) {
+        const targets = [GL.GENERATE_MIPMAP_HINT];
+        if (this.version === 2 || this.enabled("OES_standard_derivatives")) {
+            targets.push(GL.FRAGMENT_SHADER_DERIVATIVE_HINT);
+        }
+        if (this.oneOf(target, targets, "hint target") &&
+            this.oneOf(mode, [GL.DONT_CARE, GL.FASTEST, GL.NICEST], "hint mode")) {
+            this.values[target] = mode;
+        }
+    }
+
+    stencilFunc(func: GLenum, ref: number, mask: number) {
+        this.stencilFuncSeparate(GL.FRONT_AND_BACK, func, ref, mask);
+    }
+
+    stencilFuncSeparate(face: GLenum, func: GLenum, ref: number, mask: number) {
+        if (!this.oneOf(face, FACES, "face") || !this.oneOf(func, COMPARE_FUNCS, "stencil function")) return;
+        if (face !== GL.BACK) {
+            this.values[GL.STENCIL_FUNC] = func;
+            this.values[GL.STENCIL_REF] = ref;
+            this.values[GL.STENCIL_VALUE_MASK] = mask >>> 0;
+        }
+        if (face !== GL.FRONT) {
+            this.values[GL.STENCIL_BACK_FUNC] = func;
+            this.values[GL.STENCIL_BACK_REF] = ref;
+            this.values[GL.STENCIL_BACK_VALUE_MASK] = mask >>> 0;
+        }
+    }
+
+    stencilMask(mask: number) {
+        this.stencilMaskSeparate(GL.FRONT_AND_BACK, mask);
+    }
+
+    stencilMaskSeparate(face: GLenum, mask: number) {
+        if (!this.oneOf(face, FACES, "face")) return;
+        if (face !== GL.BACK) this.values[GL.STENCIL_WRITEMASK] = mask >>> 0;
+        if (face !== GL.FRONT) this.values[GL.STENCIL_BACK_WRITEMASK] = mask >>> 0;
+    }
+
+    stencilOp(fail: GLenum, zfail: GLenum, zpass: GLenum) {
+        this.stencilOpSeparate(GL.FRONT_AND_BACK, fail, zfail, zpass);
+    }
+
+    stencilOpSeparate(face: GLenum, fail: GLenum, zfail: GLenum, zpass: GLenum) {
+        if (!this.oneOf(face, FACES, "face")) return;
+        for (const op of [fail, zfail, zpass]) {
+            if (!this.oneOf(op, STENCIL_OPS, "stencil operation")) return;
+        }
+        if (face !== GL.BACK) {
+            this.values[GL.STENCIL_FAIL] = fail;
+            this.values[GL.STENCIL_PASS_DEPTH_FAIL] = zfail;
+            this.values[GL.STENCIL_PASS_DEPTH_PASS] = zpass;
+        }
+        if (face !== GL.FRONT) {
+            this.values[GL.STENCIL_BACK_FAIL] = fail;
+            this.values[GL.STENCIL_BACK_PASS_DEPTH_FAIL] = zfail;
+            this.values[GL.STENCIL_BACK_PASS_DEPTH_PASS] = zpass;
+        }
+    }
+
+    pixelStorei(pname: GLenum, param: number | boolean) {
+        const alignments = [GL.PACK_ALIGNMENT, GL.UNPACK_ALIGNMENT];
+        const flags = [GL.UNPACK_FLIP_Y_WEBGL, GL.UNPACK_PREMULTIPLY_ALPHA_WEBGL];
+        if (!(pname in this.values) || PIXEL_STORE.indexOf(pname) < 0) {
+            return this.fail(GL.INVALID_ENUM, `unknown pixel store parameter 0x${Number(pname).toString(16)}`);
+        }
+        if (alignments.indexOf(pname) >= 0 && [1, 2, 4, 8].indexOf(Number(param)) < 0) {
+            return this.fail(GL.INVALID_VALUE, `alignment ${param} is not 1, 2, 4 or 8`);
+        }
+        if (flags.indexOf(pname) < 0 && pname !== GL.UNPACK_COLORSPACE_CONVERSION_WEBGL &&
+            alignments.indexOf(pname) < 0 && Number(param) < 0) {
+            return this.fail(GL.INVALID_VALUE, `negative ${pname === GL.UNPACK_ROW_LENGTH ? "row length" : "skip"}`);
+        }
+        this.values[pname] = flags.indexOf(pname) >= 0 ? Boolean(param) : Number(param);
+    }
+
+    flush() {
+        // nothing is queued
+    }
+
+    finish() {
+        // nothing is queued
+    }
+
+    // buffers
+
+    /**
+     * @param {GLenum} target
+     * @returns {?MockBuffer} the buffer bound to target
+     */
+    protected boundBuffer(target: GLenum): MockBuffer | null {
+        return target === GL.ELEMENT_ARRAY_BUFFER ? this.vertexArray.elements : this.buffers[target];
+    }
+
+    /**
+     * @param {GLenum} target
+     * @returns {?MockBuffer} the buffer bound to target, else null after raising an error
+     */
+    protected targetBuffer(target: GLenum): MockBuffer | null {
+        if (!this.oneOf(target, this.bufferTargets(), "buffer target")) return null;
+        const buffer = this.boundBuffer(target);
+        if (buffer == null) return this.fail(GL.INVALID_OPERATION, "no buffer bound");
+        return buffer;
+    }
+
+    createBuffer(): MockBuffer {
+        return this.create(new MockBuffer(this));
+    }
+
+    deleteBuffer(buffer: MockBuffer | null) {
+        if (!this.deletable(buffer, MockBuffer)) return;
+        for (const target in this.buffers) {
+            if (this.buffers[target] === buffer) this.buffers[target] = null;
+        }
+        if (this.vertexArray.elements === buffer) this.vertexArray.elements = null;
+        for (const attrib of this.vertexArray.attribs) {
+            if (attrib.buffer === buffer) attrib.buffer = null;
+        }
+        for (const binding of this.uniformBuffers) {
+            if (binding.buffer === buffer) binding.buffer = null;
+        }
+        for (const index in this.feedback.buffers) {
+            if (this.feedback.buffers[index].buffer === buffer) this.feedback.buffers[index].buffer = null;
+        }
+    }
+
+    isBuffer(buffer: MockBuffer | null): boolean {
+        return this.isObject(buffer, MockBuffer);
+    }
+
+    bindBuffer(target: GLenum, buffer: MockBuffer | null) {
+        if (!this.oneOf(target, this.bufferTargets(), "buffer target") || !this.check(buffer, MockBuffer)) return;
+        if (buffer != null) {
+            const copy = target === GL.COPY_READ_BUFFER || target === GL.COPY_WRITE_BUFFER;
+            const elements = target === GL.ELEMENT_ARRAY_BUFFER;
+            if (buffer.elements != null && !copy && buffer.elements !== elements) {
+                return this.fail(GL.INVALID_OPERATION, buffer.elements ?
+                    "an element array buffer cannot be bound to another target" :
+                    "only element array buffers can be bound to ELEMENT_ARRAY_BUFFER");
+            }
+            if (!copy) buffer.elements = elements;
+            buffer.bound = true;
+        }
+        if (target === GL.ELEMENT_ARRAY_BUFFER) {
+            this.vertexArray.elements = buffer;
+        } else {
+            this.buffers[target] = buffer;
+        }
+    }
+
+    /**
+     * @returns {Array<GLenum>} what bufferData() accepts as usage in this version
+     */
+    protected usages(): GLenum[] {
+        return this.version === 2 ? USAGES.concat(WEBGL2_USAGES) : USAGES;
+    }
+
+    /**
+     * @param {ArrayBufferView|ArrayBuffer} data
+     * @param {number} [srcOffset=0] in elements of data
+     * @param {number} [length=0] in elements of data, 0 for up to the end
+     * @returns {?Uint8Array} the bytes selected, else null after raising an error
+     */
+    protected source(data: ArrayBufferView | ArrayBuffer, srcOffset = 0, length = 0): Uint8Array | null {
+        if (!isView(data)) return new Uint8Array((data as ArrayBuffer).slice(0));
+        const size = (data as Uint8Array).BYTES_PER_ELEMENT || 1;
+        const bytes = bytesOf(data);
+        const end = length > 0 ? (srcOffset + length) * size : bytes.length;
+        if (srcOffset * size > bytes.length || end > bytes.length) {
+            return this.fail(GL.INVALID_VALUE, "source offset and length exceed the data");
+        }
+        return bytes.slice(srcOffset * size, end);
+    }
+
+    bufferData(target: GLenum, data: number | ArrayBufferView | ArrayBuffer | null, usage: GLenum,
+               srcOffset?: number, length?: number) {
+        const buffer = this.targetBuffer(target);
+        if (buffer == null || !this.oneOf(usage, this.usages(), "usage")) return;
+        if (data == null) return this.fail(GL.INVALID_VALUE, "no data");
+        if (typeof data === "number") {
+            if (data < 0) return this.fail(GL.INVALID_VALUE, "negative size");
+            buffer.data = new Uint8Array(data);
+        } else {
+            const bytes = this.source(data, srcOffset, length);
+            if (bytes == null) return;
+            buffer.data = bytes;
+        }
+        buffer.usage = usage;
+    }
+
+    bufferSubData(target: GLenum, offset: number, data: ArrayBufferView | ArrayBuffer,
+                  srcOffset?: number, length?: number) {
+        const buffer = this.targetBuffer(target);
+        if (buffer == null) return;
+        if (data == null) return this.fail(GL.INVALID_VALUE, "no data");
+        const bytes = this.source(data, srcOffset, length);
+        if (bytes == null) return;
+        if (offset < 0 || offset + bytes.length > buffer.data.length) {
+            return this.fail(GL.INVALID_VALUE, `writing ${bytes.length} bytes at ${offset} exceeds ` +
+                `the ${buffer.data.length} bytes of the buffer`);
+        }
+        buffer.data.set(bytes, offset);
+    }
+
+    getBufferParameter(target: GLenum, pname: GLenum): unknown {
+        const buffer = this.targetBuffer(target);
+        if (buffer == null || !this.oneOf(pname, [GL.BUFFER_SIZE, GL.BUFFER_USAGE], "buffer parameter")) {
+            return null;
+        }
+        return pname === GL.BUFFER_SIZE ? buffer.data.length : buffer.usage;
+    }
+
+    // textures
+
+    /**
+     * @param {GLenum} target a texture target or cube map face
+     * @returns {GLenum} the target the texture is bound to
+     */
+    protected bindTarget(target: GLenum): GLenum {
+        return target >= GL.TEXTURE_CUBE_MAP_POSITIVE_X && target <= GL.TEXTURE_CUBE_MAP_NEGATIVE_Z ?
+            GL.TEXTURE_CUBE_MAP : target;
+    }
+
+    /**
+     * @param {GLenum} target
+     * @returns {?MockTexture} the texture bound to target on the active unit, else null after raising an error
+     */
+    protected boundTexture(target: GLenum): MockTexture | null {
+        if (!this.oneOf(target, this.textureTargets(), "texture target")) return null;
+        const texture = this.textures[this.unit][target];
+        if (texture == null) return this.fail(GL.INVALID_OPERATION, "no texture bound");
+        return texture;
+    }
+
+    /**
+     * @param {GLenum} target TEXTURE_2D or a cube map face, or with 3 dimensions TEXTURE_3D or TEXTURE_2D_ARRAY
+     * @param {number} dimensions 2 or 3
+     * @returns {?MockTexture} the texture an image call writes to, else null after raising an error
+     */
+    protected imageTexture(target: GLenum, dimensions: number): MockTexture | null {
+        const targets = dimensions === 2 ?
+            [GL.TEXTURE_2D, GL.TEXTURE_CUBE_MAP_POSITIVE_X, GL.TEXTURE_CUBE_MAP_NEGATIVE_X,
+             GL.TEXTURE_CUBE_MAP_POSITIVE_Y, GL.TEXTURE_CUBE_MAP_NEGATIVE_Y,
+             GL.TEXTURE_CUBE_MAP_POSITIVE_Z, GL.TEXTURE_CUBE_MAP_NEGATIVE_Z] :
+            [GL.TEXTURE_3D, GL.TEXTURE_2D_ARRAY];
+        if (!this.oneOf(target, targets, "texture target")) return null;
+        return this.boundTexture(this.bindTarget(target));
+    }
+
+    /**
+     * Check the level and size of a texture image.
+     * @param {GLenum} target
+     * @param {number} level
+     * @param {number} width
+     * @param {number} height
+     * @param {number} depth
+     * @returns {boolean} false after raising an error
+     */
+    protected checkLevel(target: GLenum, level: number, width: number, height: number, depth: number): boolean {
+        const bind = this.bindTarget(target);
+        const max = this.limit(bind === GL.TEXTURE_CUBE_MAP ? GL.MAX_CUBE_MAP_TEXTURE_SIZE :
+            bind === GL.TEXTURE_3D ? GL.MAX_3D_TEXTURE_SIZE : GL.MAX_TEXTURE_SIZE);
+        if (level < 0 || Math.pow(2, level) > max) return !!this.fail(GL.INVALID_VALUE, `invalid level ${level}`);
+        if (width < 0 || height < 0 || depth < 0) return !!this.fail(GL.INVALID_VALUE, "negative size");
+        const layers = bind === GL.TEXTURE_2D_ARRAY ? this.limit(GL.MAX_ARRAY_TEXTURE_LAYERS) : max >> level;
+        if (width > max >> level || height > max >> level || depth > layers) {
+            return !!this.fail(GL.INVALID_VALUE, `${width}x${height}x${depth} exceeds the maximum size of level ${level}`);
+        }
+        if (bind === GL.TEXTURE_CUBE_MAP && width !== height) {
+            return !!this.fail(GL.INVALID_VALUE, "cube map faces must be square");
+        }
+        return true;
+    }
+
+    /**
+     * Check a combination of internal format, format and type for uploads.
+     * @param {GLenum} internalFormat
+     * @param {GLenum} format
+     * @param {GLenum} type
+     * @returns {boolean} false after raising an error
+     */
+    protected textureFormat(internalFormat: GLenum, format: GLenum, type: GLenum): boolean {
+        const hex = (value: GLenum) => `0x${Number(value).toString(16)}`;
+        if (PIXEL_TYPES[type] == null) return !!this.fail(GL.INVALID_ENUM, `invalid type ${hex(type)}`);
+        if (formatComponents(format) === 0) return !!this.fail(GL.INVALID_ENUM, `invalid format ${hex(format)}`);
+        let known = this.version === 2 ? SIZED_FORMATS[internalFormat] || UNSIZED_FORMATS[internalFormat] :
+            UNSIZED_FORMATS[internalFormat];
+        let types = known ? known.types : [];
+        if (this.version === 1) {
+            if ((internalFormat === GL.DEPTH_COMPONENT || internalFormat === GL.DEPTH_STENCIL) &&
+                this.enabled("WEBGL_depth_texture")) {
+                known = mockFormat(internalFormat, []);
+                types = internalFormat === GL.DEPTH_STENCIL ? [GL.UNSIGNED_INT_24_8] :
+                    [GL.UNSIGNED_SHORT, GL.UNSIGNED_INT];
+            } else if (known != null) {
+                if (this.enabled("OES_texture_float")) types = types.concat(GL.FLOAT);
+                if (this.enabled("OES_texture_half_float")) types = types.concat(HALF_FLOAT_OES);
+            }
+        }
+        if (known == null) return !!this.fail(GL.INVALID_VALUE, `invalid internal format ${hex(internalFormat)}`);
+        if (known.format !== format || types.indexOf(type) < 0) {
+            return !!this.fail(GL.INVALID_OPERATION, `format ${hex(format)} and type ${hex(type)} ` +
+                `do not match internal format ${hex(internalFormat)}`);
+        }
+        return true;
+    }
+
+    /**
+     * @param {*} source an ImageData, image, canvas or video
+     * @returns {Array<number>} its width and height
+     */
+    protected sourceSize(source: unknown): number[] {
+        if (source == null || typeof source !== "object") {
+            throw new TypeError(`${this.current}: parameter is not a TexImageSource`);
+        }
+        const s = source as {[key: string]: number};
+        return [s.videoWidth || s.naturalWidth || s.displayWidth || s.width || 0,
+                s.videoHeight || s.naturalHeight || s.displayHeight || s.height || 0];
+    }
+
+    /**
+     * Read the texels of an upload, honoring the unpack parameters.
+     * @param {number} width
+     * @param {number} height
+     * @param {number} depth
+     * @param {GLenum} format
+     * @param {GLenum} type
+     * @param {*} pixels null, an ArrayBufferView, a pixel unpack buffer offset, or a TexImageSource
+     * @param {number} [srcOffset=0] in elements of an ArrayBufferView
+     * @returns {?Float64Array} RGBA texels, else null after raising an error
+     */
+    protected unpack(width: number, height: number, depth: number, format: GLenum, type: GLenum,
+                     pixels: unknown, srcOffset = 0): Float64Array | null {
+        const texels = new Float64Array(width * height * depth * 4);
+        const store = (i: number, rgba: number[]) => {
+            rgba = toRGBA(format, fromRGBA(format, rgba));
+            if (this.values[GL.UNPACK_PREMULTIPLY_ALPHA_WEBGL] && !integerFormat(format)) {
+                rgba = [rgba[0] * rgba[3], rgba[1] * rgba[3], rgba[2] * rgba[3], rgba[3]];
+            }
+            for (let k = 0; k < 4; k++) texels[i * 4 + k] = rgba[k] || 0;
+        };
+        const flip = this.values[GL.UNPACK_FLIP_Y_WEBGL] as boolean;
+        const unpackBuffer = this.buffers[GL.PIXEL_UNPACK_BUFFER];
+        if (unpackBuffer != null && typeof pixels !== "number") {
+            return this.fail(GL.INVALID_OPERATION, "a pixel unpack buffer is bound");
+        }
+        if (pixels == null) {
+            for (let i = 0; i < width * height * depth; i++) store(i, [0, 0, 0, 0]);
+            return texels;
+        }
+        let bytes: Uint8Array;
+        if (typeof pixels === "number") {
+            if (unpackBuffer == null) return this.fail(GL.INVALID_OPERATION, "no pixel unpack buffer bound");
+            if (pixels % PIXEL_TYPES[type].bytes !== 0) {
+                return this.fail(GL.INVALID_OPERATION, "offset is not a multiple of the type size");
+            }
+            bytes = unpackBuffer.data.subarray(pixels);
+        } else if (isView(pixels)) {
+            if (PIXEL_TYPES[type].array.indexOf(pixels.constructor.name) < 0) {
+                return this.fail(GL.INVALID_OPERATION, `${pixels.constructor.name} does not match the type`);
+            }
+            bytes = bytesOf(pixels).subarray(srcOffset * (pixels as Uint8Array).BYTES_PER_ELEMENT);
+        } else {
+            // ImageData is decoded as RGBA8, the contents of other sources are unknown
+            const data = (pixels as {data?: unknown}).data;
+            const rgba8 = data instanceof Uint8ClampedArray && data.length === width * height * 4 ? data : null;
+            for (let y = 0; y < height; y++) {
+                const row = flip ? height - 1 - y : y;
+                for (let x = 0; x < width; x++) {
+                    const i = (row * width + x) * 4;
+                    store(y * width + x, rgba8 == null ? [0, 0, 0, 0] :
+                        [rgba8[i] / 255, rgba8[i + 1] / 255, rgba8[i + 2] / 255, rgba8[i + 3] / 255]);
+                }
+            }
+            return texels;
+        }
+
+        const size = pixelSize(format, type);
+        const param = (pname: GLenum) => (this.values[pname] as number) || 0;
+        const rowLength = param(GL.UNPACK_ROW_LENGTH) || width;
+        const imageHeight = param(GL.UNPACK_IMAGE_HEIGHT) || height;
+        const skipPixels = param(GL.UNPACK_SKIP_PIXELS), skipRows = param(GL.UNPACK_SKIP_ROWS);
+        const skipImages = param(GL.UNPACK_SKIP_IMAGES);
+        const stride = align(rowLength * size, param(GL.UNPACK_ALIGNMENT));
+        const imageStride = stride * imageHeight;
+        const needed = width * height * depth === 0 ? 0 : (skipImages + depth - 1) * imageStride +
+            (skipRows + height - 1) * stride + (skipPixels + width) * size;
+        if (bytes.length < needed) {
+            return this.fail(GL.INVALID_OPERATION, `${needed} bytes needed but only ${bytes.length} given`);
+        }
+        const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+        for (let z = 0; z < depth; z++) {
+            for (let y = 0; y < height; y++) {
+                const row = flip ? height - 1 - y : y;
+                for (let x = 0; x < width; x++) {
+                    const offset = (skipImages + z) * imageStride + (skipRows + row) * stride + (skipPixels + x) * size;
+                    store((z * height + y) * width + x, toRGBA(format, readPixel(view, offset, format, type)));
+                }
+            }
+        }
+        return texels;
+    }
+
+    /**
+     * Copy texels into a region of an image.
+     * @param {MockImage} image
+     * @param {Float64Array} texels RGBA texels of the region
+     * @param {number} x
+     * @param {number} y
+     * @param {number} z
+     * @param {number} width
+     * @param {number} height
+     * @param {number} depth
+     */
+    protected write(image: MockImage, texels: Float64Array, x: number, y: number, z: number,
+                    width: number, height: number, depth: number) {
+        for (let k = 0; k < depth; k++) {
+            for (let j = 0; j < height; j++) {
+                const from = ((k * height + j) * width) * 4;
+                const to = (((z + k) * image.height + y + j) * image.width + x) * 4;
+                image.texels.set(texels.subarray(from, from + width * 4), to);
+            }
+        }
+    }
+
+    /**
+     * The shared part of texImage2D() and texImage3D().
+     */
+    protected texImage(target: GLenum, level: number, internalFormat: GLenum, width: number, height: number,
+                       depth: number, border: number, format: GLenum, type: GLenum, pixels: unknown,
+                       srcOffset: number, dimensions: number) {
+        const texture = this.imageTexture(target, dimensions);
+        if (texture == null) return;
+        if (texture.levels > 0) return this.fail(GL.INVALID_OPERATION, "the texture is immutable");
+        if (border !== 0) return this.fail(GL.INVALID_VALUE, "border must be 0");
+        if (!this.checkLevel(target, level, width, height, depth) ||
+            !this.textureFormat(internalFormat, format, type)) return;
+        const texels = this.unpack(width, height, depth, format, type, pixels, srcOffset);
+        if (texels == null) return;
+        const image = new MockImage(width, height, depth, internalFormat, format, type);
+        image.texels.set(texels);
+        texture.images[`${target}:${level}`] = image;
+    }
+
+    /**
+     * The shared part of texSubImage2D() and texSubImage3D().
+     */
+    protected texSubImage(target: GLenum, level: number, x: number, y: number, z: number, width: number,
+                          height: number, depth: number, format: GLenum, type: GLenum, pixels: unknown,
+                          srcOffset: number, dimensions: number) {
+        const texture = this.imageTexture(target, dimensions);
+        if (texture == null) return;
+        const image = texture.image(target, level);
+        if (image == null) return this.fail(GL.INVALID_OPERATION, `level ${level} has no image`);
+        if (x < 0 || y < 0 || z < 0 || width < 0 || height < 0 || depth < 0 || x + width > image.width ||
+            y + height > image.height || z + depth > image.depth) {
+            return this.fail(GL.INVALID_VALUE, "the region exceeds the image");
+        }
+        const sized = this.version === 2 ? SIZED_FORMATS[image.internalFormat] : null;
+        if (sized != null ? sized.format !== format || sized.types.indexOf(type) < 0 :
+            image.format !== format || image.type !== type) {
+            return this.fail(GL.INVALID_OPERATION, "format and type do not match the image");
+        }
+        const texels = this.unpack(width, height, depth, format, type, pixels, srcOffset);
+        if (texels != null) this.write(image, texels, x, y, z, width, height, depth);
+    }
+
+    createTexture(): MockTexture {
+        return this.create(new MockTexture(this));
+    }
+
+    deleteTexture(texture: MockTexture | null) {
+        if (!this.deletable(texture, MockTexture)) return;
+        for (const unit of this.textures) {
+            for (const target in unit) {
+                if (unit[target] === texture) unit[target] = null;
+            }
+        }
+        this.detach(texture);
+    }
+
+    isTexture(texture: MockTexture | null): boolean {
+        return this.isObject(texture, MockTexture);
+    }
+
+    bindTexture(target: GLenum, texture: MockTexture | null) {
+        if (!this.oneOf(target, this.textureTargets(), "texture target") || !this.check(texture, MockTexture)) return;
+        if (texture != null) {
+            if (texture.target != null && texture.target !== target) {
+                return this.fail(GL.INVALID_OPERATION, "the texture was bound to another target before");
+            }
+            texture.target = target;
+            texture.bound = true;
+        }
+        this.textures[this.unit][target] = texture;
+    }
+
+    activeTexture(texture: GLenum) {
+        const unit = texture - GL.TEXTURE0;
+        if (!(unit >= 0 && unit < this.textures.length)) {
+            return this.fail(GL.INVALID_ENUM, `invalid texture unit 0x${Number(texture).toString(16)}`);
+        }
+        this.unit = unit;
+    }
+
+    /**
+     * Check a texture or sampler parameter.
+     * @param {GLenum} pname
+     * @param {number} param
+     * @param {boolean} sampler true for samplerParameter(), which has no levels
+     * @returns {boolean} false after raising an error
+     */
+    protected textureParameter(pname: GLenum, param: number, sampler: boolean): boolean {
+        const valid: {[pname: number]: GLenum[] | null} = {
+            [GL.TEXTURE_MIN_FILTER]: MIN_FILTERS,
+            [GL.TEXTURE_MAG_FILTER]: [GL.NEAREST, GL.LINEAR],
+            [GL.TEXTURE_WRAP_S]: WRAP_MODES,
+            [GL.TEXTURE_WRAP_T]: WRAP_MODES,
+        };
+        if (this.version === 2) {
+            Object.assign(valid, {
+                [GL.TEXTURE_WRAP_R]: WRAP_MODES,
+                [GL.TEXTURE_MIN_LOD]: null,
+                [GL.TEXTURE_MAX_LOD]: null,
+                [GL.TEXTURE_COMPARE_MODE]: [GL.NONE, GL.COMPARE_REF_TO_TEXTURE],
+                [GL.TEXTURE_COMPARE_FUNC]: COMPARE_FUNCS,
+            });
+            if (!sampler) Object.assign(valid, {[GL.TEXTURE_BASE_LEVEL]: null, [GL.TEXTURE_MAX_LEVEL]: null});
+        }
+        if (this.enabled("EXT_texture_filter_anisotropic")) valid[TEXTURE_MAX_ANISOTROPY_EXT] = null;
+        if (!(pname in valid)) {
+            return !!this.fail(GL.INVALID_ENUM, `invalid texture parameter 0x${Number(pname).toString(16)}`);
+        }
+        const values = valid[pname];
+        if (values != null) return this.oneOf(param, values, "texture parameter value");
+        if ((pname === GL.TEXTURE_BASE_LEVEL || pname === GL.TEXTURE_MAX_LEVEL) && param < 0) {
+            return !!this.fail(GL.INVALID_VALUE, "negative level");
+        }
+        if (pname === TEXTURE_MAX_ANISOTROPY_EXT && param < 1) {
+            return !!this.fail(GL.INVALID_VALUE, "anisotropy must be at least 1");
+        }
+        return true;
+    }
+
+    texParameteri(target: GLenum, pname: GLenum, param: number) {
+        const texture = this.boundTexture(target);
+        if (texture != null && this.textureParameter(pname, param, false)) texture.params[pname] = param;
+    }
+
+    texParameterf(target: GLenum, pname: GLenum, param: number) {
+        this.texParameteri(target, pname, param);
+    }
+
+    getTexParameter(target: GLenum, pname: GLenum): unknown {
+        const texture = this.boundTexture(target);
+        if (texture == null) return null;
+        if (this.version === 2 && pname === GL.TEXTURE_IMMUTABLE_FORMAT) return texture.levels > 0;
+        if (this.version === 2 && pname === GL.TEXTURE_IMMUTABLE_LEVELS) {
+            return texture.levels;
+        }
+        if (!this.textureParameter(pname, texture.params[pname], false)) return null;
+        return texture.params[pname];
+    }
+
+    texImage2D(...args: unknown[]) {
+        const a = args as [GLenum, number, GLenum, number, number, number, GLenum, GLenum, unknown, number];
+        if (args.length === 6) {
+            const [width, height] = this.sourceSize(args[5]);
+            return this.texImage(a[0], a[1], a[2], width, height, 1, 0, a[3], a[4] as GLenum, args[5], 0, 2);
+        }
+        this.texImage(a[0], a[1], a[2], a[3], a[4], 1, a[5], a[6], a[7], a[8], a[9] || 0, 2);
+    }
+
+    texSubImage2D(...args: unknown[]) {
+        const a = args as [GLenum, number, number, number, number, number, GLenum, GLenum, unknown, number];
+        if (args.length === 7) {
+            const [width, height] = this.sourceSize(args[6]);
+            return this.texSubImage(a[0], a[1], a[2], a[3], 0, width, height, 1, a[4], a[5], args[6], 0, 2);
+        }
+        this.texSubImage(a[0], a[1], a[2], a[3], 0, a[4], a[5], 1, a[6], a[7], a[8], a[9] || 0, 2);
+    }
+
+    /**
+     * The shared part of copyTexImage2D() and the copyTexSubImage calls:
+     * copy from the read framebuffer, leaving texels outside it alone.
+     * @returns {boolean} false after raising an error
+     */
+    protected copy(texture: MockTexture, image: MockImage, target: GLenum, level: number, xoffset: number,
+                   yoffset: number, zoffset: number, x: number, y: number, width: number, height: number): boolean {
+        const source = this.readSource();
+        if (source == null) return false;
+        const a = source.attachment;
+        if (a != null && a.object === texture && a.level === level && a.face === target &&
+            (target !== GL.TEXTURE_3D && target !== GL.TEXTURE_2D_ARRAY || a.layer === zoffset)) {
+            return !!this.fail(GL.INVALID_OPERATION, "the texture image is also the source");
+        }
+        if (integerFormat(image.format) !== integerFormat(source.image.format)) {
+            return !!this.fail(GL.INVALID_OPERATION, "cannot copy between integer and other formats");
+        }
+        const layer = a != null ? a.layer : 0;
+        for (let j = 0; j < height; j++) {
+            for (let i = 0; i < width; i++) {
+                const sx = x + i, sy = y + j;
+                if (sx < 0 || sy < 0 || sx >= source.image.width || sy >= source.image.height) continue;
+                const rgba = toRGBA(image.format, fromRGBA(image.format, source.image.texel(sx, sy, layer)));
+                image.texels.set(rgba, (((zoffset * image.height) + yoffset + j) * image.width + xoffset + i) * 4);
+            }
+        }
+        return true;
+    }
+
+    copyTexImage2D(target: GLenum, level: number, internalFormat: GLenum, x: number, y: number,
+                   width: number, height: number, border: number) {
+        const texture = this.imageTexture(target, 2);
+        if (texture == null) return;
+        if (texture.levels > 0) return this.fail(GL.INVALID_OPERATION, "the texture is immutable");
+        if (border !== 0) return this.fail(GL.INVALID_VALUE, "border must be 0");
+        if (!this.checkLevel(target, level, width, height, 1)) return;
+        const known = UNSIZED_FORMATS[internalFormat] ||
+            (this.version === 2 && SIZED_FORMATS[internalFormat] && SIZED_FORMATS[internalFormat].renderable ?
+                SIZED_FORMATS[internalFormat] : null);
+        if (known == null || /depth|stencil/.test(known.renderable)) {
+            return this.fail(GL.INVALID_ENUM, `invalid internal format 0x${Number(internalFormat).toString(16)}`);
+        }
+        const image = new MockImage(width, height, 1, internalFormat, known.format, known.types[0]);
+        if (this.copy(texture, image, target, level, 0, 0, 0, x, y, width, height)) {
+            texture.images[`${target}:${level}`] = image;
+        }
+    }
+
+    /**
+     * The shared part of copyTexSubImage2D() and copyTexSubImage3D().
+     */
+    protected copyTexSubImage(target: GLenum, level: number, xoffset: number, yoffset: number, zoffset: number,
+                              x: number, y: number, width: number, height: number, dimensions: number) {
+        const texture = this.imageTexture(target, dimensions);
+        if (texture == null) return;
+        const image = texture.image(target, level);
+        if (image == null) return this.fail(GL.INVALID_OPERATION, `level ${level} has no image`);
+        if (xoffset < 0 || yoffset < 0 || zoffset < 0 || width < 0 || height < 0 ||
+            xoffset + width > image.width || yoffset + height > image.height || zoffset >= image.depth) {
+            return this.fail(GL.INVALID_VALUE, "the region exceeds the image");
+        }
+        this.copy(texture, image, target, level, xoffset, yoffset, zoffset, x, y, width, height);
+    }
+
+    copyTexSubImage2D(target: GLenum, level: number, xoffset: number, yoffset: number, x: number, y: number,
+                      width: number, height: number) {
+        this.copyTexSubImage(target, level, xoffset, yoffset, 0, x, y, width, height, 2);
+    }
+
+    generateMipmap(target: GLenum) {
+        const texture = this.boundTexture(target);
+        if (texture == null) return;
+        const faces = target === GL.TEXTURE_CUBE_MAP ?
+            [0, 1, 2, 3, 4, 5].map((i) => GL.TEXTURE_CUBE_MAP_POSITIVE_X + i) : [target];
+        const base = texture.params[GL.TEXTURE_BASE_LEVEL];
+        const images = faces.map((face) => texture.image(face, base));
+        const first = images[0];
+        if (first == null || images.some((image) => image == null || image.width !== first.width ||
+                                          image.height !== first.height)) {
+            return this.fail(GL.INVALID_OPERATION, "the base level is not defined, or not the same on all faces");
+        }
+        const power = (n: number) => (n & (n - 1)) === 0;
+        if (this.version === 1 && !(power(first.width) && power(first.height))) {
+            return this.fail(GL.INVALID_OPERATION, "WebGL1 cannot make mipmaps of non-power-of-two textures");
+        }
+        if (integerFormat(first.format) || first.format === GL.DEPTH_COMPONENT || first.format === GL.DEPTH_STENCIL) {
+            return this.fail(GL.INVALID_OPERATION, "the format cannot be filtered");
+        }
+        faces.forEach(function(face, f) {
+            let image = images[f] as MockImage;
+            const array = target === GL.TEXTURE_2D_ARRAY;
+            for (let level = base + 1; image.width > 1 || image.height > 1 || (!array && image.depth > 1); level++) {
+                const next = new MockImage(Math.max(image.width >> 1, 1), Math.max(image.height >> 1, 1),
+                    array ? image.depth : Math.max(image.depth >> 1, 1), image.internalFormat, image.format, image.type);
+                for (let z = 0; z < next.depth; z++) {
+                    for (let y = 0; y < next.height; y++) {
+                        for (let x = 0; x < next.width; x++) {
+                            // a box filter over the texels that exist
+                            const sum = [0, 0, 0, 0];
+                            let n = 0;
+                            for (const dz of array ? [0] : [0, 1]) {
+                                for (const dy of [0, 1]) {
+                                    for (const dx of [0, 1]) {
+                                        const sx = x * 2 + dx, sy = y * 2 + dy, sz = array ? z : z * 2 + dz;
+                                        if (sx >= image.width || sy >= image.height || sz >= image.depth) continue;
+                                        image.texel(sx, sy, sz).forEach((v, k) => sum[k] += v);
+                                        n++;
+                                    }
+                                }
+                            }
+                            next.texels.set(sum.map((v) => v / n), ((z * next.height + y) * next.width + x) * 4);
+                        }
+                    }
+                }
+                texture.images[`${face}:${level}`] = next;
+                image = next;
+            }
+        });
+    }
+
+    // renderbuffers
+
+    createRenderbuffer(): MockRenderbuffer {
+        return this.create(new MockRenderbuffer(this));
+    }
+
+    deleteRenderbuffer(renderbuffer: MockRenderbuffer | null) {
+        if (!this.deletable(renderbuffer, MockRenderbuffer)) return;
+        if (this.renderbuffer === renderbuffer) this.renderbuffer = null;
+        this.detach(renderbuffer);
+    }
+
+    isRenderbuffer(renderbuffer: MockRenderbuffer | null): boolean {
+        return this.isObject(renderbuffer, MockRenderbuffer);
+    }
+
+    bindRenderbuffer(target: GLenum, renderbuffer: MockRenderbuffer | null) {
+        if (!this.oneOf(target, [GL.RENDERBUFFER], "renderbuffer target") ||
+            !this.check(renderbuffer, MockRenderbuffer)) return;
+        if (renderbuffer != null) renderbuffer.bound = true;
+        this.renderbuffer = renderbuffer;
+    }
+
+    /**
+     * @param {GLenum} internalFormat
+     * @returns {?MockFormat} the format if renderbuffers can have it
+     */
+    protected renderbufferFormat(internalFormat: GLenum): MockFormat | null {
+        const format = SIZED_FORMATS[internalFormat] || RENDERBUFFER_FORMATS[internalFormat];
+        if (format == null) return null;
+        if (this.version === 1 && [GL.RGBA4, GL.RGB565, GL.RGB5_A1, GL.DEPTH_COMPONENT16, GL.STENCIL_INDEX8,
+                                   GL.DEPTH_STENCIL, GL.RGBA32F, GL.RGBA16F].indexOf(internalFormat) < 0) {
+            return null;
+        }
+        const image = new MockImage(0, 0, 0, internalFormat, format.format, format.types[0]);
+        return this.renderable(image) !== "" ? format : null;
+    }
+
+    /**
+     * The shared part of renderbufferStorage() and renderbufferStorageMultisample().
+     */
+    protected storage(target: GLenum, samples: number, internalFormat: GLenum, width: number, height: number) {
+        if (!this.oneOf(target, [GL.RENDERBUFFER], "renderbuffer target")) return;
+        const renderbuffer = this.renderbuffer;
+        if (renderbuffer == null) return this.fail(GL.INVALID_OPERATION, "no renderbuffer bound");
+        const format = this.renderbufferFormat(internalFormat);
+        if (format == null) {
+            return this.fail(GL.INVALID_ENUM, `invalid internal format 0x${Number(internalFormat).toString(16)}`);
+        }
+        const max = this.limit(GL.MAX_RENDERBUFFER_SIZE);
+        if (width < 0 || height < 0 || width > max || height > max) {
+            return this.fail(GL.INVALID_VALUE, `invalid size ${width}x${height}`);
+        }
+        if (samples < 0) return this.fail(GL.INVALID_VALUE, "negative samples");
+        if (samples > this.limit(GL.MAX_SAMPLES) || samples > 0 && integerFormat(format.format)) {
+            return this.fail(GL.INVALID_OPERATION, `${samples} samples are not supported by the format`);
+        }
+        const type = format.types.length > 0 ? format.types[0] :
+            internalFormat === GL.STENCIL_INDEX8 ? GL.UNSIGNED_BYTE : GL.UNSIGNED_INT_24_8;
+        renderbuffer.image = new MockImage(width, height, 1, internalFormat, format.format, type, samples);
+    }
+
+    renderbufferStorage(target: GLenum, internalFormat: GLenum, width: number, height: number) {
+        this.storage(target, 0, internalFormat, width, height);
+    }
+
+    getRenderbufferParameter(target: GLenum, pname: GLenum): unknown {
+        if (!this.oneOf(target, [GL.RENDERBUFFER], "renderbuffer target")) return null;
+        const renderbuffer = this.renderbuffer;
+        if (renderbuffer == null) return this.fail(GL.INVALID_OPERATION, "no renderbuffer bound");
+        const image = renderbuffer.image;
+        switch (pname) {
+        case GL.RENDERBUFFER_WIDTH: return image ? image.width : 0;
+        case GL.RENDERBUFFER_HEIGHT: return image ? image.height : 0;
+        case GL.RENDERBUFFER_INTERNAL_FORMAT: return image ? image.internalFormat : GL.RGBA4;
+        case GL.RENDERBUFFER_SAMPLES: if (this.version === 2) return image ? image.samples : 0; break;
+        }
+        const size = this.componentSize(image, pname);
+        return size == null ? this.fail(GL.INVALID_ENUM, `invalid parameter 0x${Number(pname).toString(16)}`) : size;
+    }
+
+    /**
+     * @param {?MockImage} image
+     * @param {GLenum} pname a RENDERBUFFER_*_SIZE or FRAMEBUFFER_ATTACHMENT_*_SIZE
+     * @returns {?number} the bits of the component, null for another pname
+     */
+    protected componentSize(image: MockImage | null, pname: GLenum): number | null {
+        const names = ["RED", "GREEN", "BLUE", "ALPHA", "DEPTH", "STENCIL"];
+        let i = names.findIndex((name) => pname === GL[`RENDERBUFFER_${name}_SIZE` as keyof typeof GL] ||
+            pname === GL[`FRAMEBUFFER_ATTACHMENT_${name}_SIZE` as keyof typeof GL]);
+        if (i < 0) return null;
+        if (image == null) return 0;
+        const kind = this.renderable(image);
+        if (kind !== "color") {
+            return (i === 4 && /depth/.test(kind)) ? (image.type === GL.FLOAT ? 32 : image.type === GL.UNSIGNED_SHORT ||
+                image.internalFormat === GL.DEPTH_COMPONENT16 ? 16 : 24) : i === 5 && /stencil/.test(kind) ? 8 : 0;
+        }
+        if (i > 3) return 0;
+        const components = formatComponents(image.format);
+        if (image.format === GL.RGB || image.format === GL.RGB_INTEGER) i = i === 3 ? 4 : i;
+        if (i >= components) return 0;
+        const type = PIXEL_TYPES[image.type];
+        return type.packed ? 8 : type.bytes * 8;
+    }
+
+    // framebuffers
+
+    /**
+     * @param {MockImage} image
+     * @returns {string} "color", "depth", "stencil" or "depth-stencil" if it can be rendered to, else ""
+     */
+    protected renderable(image: MockImage): string {
+        const half = this.version === 2 ?
+            this.enabled("EXT_color_buffer_float") || this.enabled("EXT_color_buffer_half_float") :
+            this.enabled("EXT_color_buffer_half_float");
+        const float = this.enabled(this.version === 2 ? "EXT_color_buffer_float" : "WEBGL_color_buffer_float");
+        const sized = SIZED_FORMATS[image.internalFormat] || RENDERBUFFER_FORMATS[image.internalFormat];
+        let kind = sized != null ? sized.renderable : "";
+        if (sized == null) {
+            if (image.format === GL.DEPTH_COMPONENT) return "depth";
+            if (image.format === GL.DEPTH_STENCIL) return "depth-stencil";
+            if (image.format !== GL.RGBA && image.format !== GL.RGB) return "";
+            kind = image.type === GL.FLOAT ? (image.format === GL.RGBA ? "float" : "") :
+                image.type === HALF_FLOAT_OES ? "half" : "color";
+        }
+        if (kind === "half") return half ? "color" : "";
+        if (kind === "float") return float ? "color" : "";
+        return kind;
+    }
+
+    /**
+     * @param {MockAttachment} attachment
+     * @returns {?MockImage} the image it refers to, if defined
+     */
+    protected attachmentImage(attachment: MockAttachment): MockImage | null {
+        const object = attachment.object;
+        return object instanceof MockTexture ? object.image(attachment.face, attachment.level) : object.image;
+    }
+
+    /**
+     * @returns {Array<GLenum>} the attachment points of this version and extensions
+     */
+    protected attachmentPoints(): GLenum[] {
+        const points = [GL.DEPTH_ATTACHMENT, GL.STENCIL_ATTACHMENT, GL.DEPTH_STENCIL_ATTACHMENT];
+        const colors = this.version === 2 ? this.limit(GL.MAX_COLOR_ATTACHMENTS) :
+            this.enabled("WEBGL_draw_buffers") ? this.limit(MAX_COLOR_ATTACHMENTS_WEBGL) : 1;
+        for (let i = 0; i < colors; i++) points.push(GL.COLOR_ATTACHMENT0 + i);
+        return points;
+    }
+
+    /**
+     * Attach to a framebuffer. In WebGL2 DEPTH_STENCIL_ATTACHMENT stands
+     * for both DEPTH_ATTACHMENT and STENCIL_ATTACHMENT.
+     * @param {MockFramebuffer} framebuffer
+     * @param {GLenum} point
+     * @param {?MockAttachment} attachment null to detach
+     */
+    protected attach(framebuffer: MockFramebuffer, point: GLenum, attachment: MockAttachment | null) {
+        const points = this.version === 2 && point === GL.DEPTH_STENCIL_ATTACHMENT ?
+            [GL.DEPTH_ATTACHMENT, GL.STENCIL_ATTACHMENT] : [point];
+        for (const p of points) {
+            if (attachment == null) {
+                delete framebuffer.attachments[p];
+            } else {
+                framebuffer.attachments[p] = attachment;
+            }
+        }
+    }
+
+    /**
+     * Detach a deleted texture or renderbuffer from the bound framebuffers.
+     * @param {MockObject} object
+     */
+    protected detach(object: MockObject) {
+        for (const framebuffer of [this.drawFramebuffer, this.readFramebuffer]) {
+            if (framebuffer == null) continue;
+            for (const point in framebuffer.attachments) {
+                if (framebuffer.attachments[point].object === object) delete framebuffer.attachments[point];
+            }
+        }
+    }
+
+    /**
+     * @param {GLenum} target
+     * @returns {?MockFramebuffer} the framebuffer bound to target, else null after raising an error
+     */
+    protected boundFramebuffer(target: GLenum): MockFramebuffer | null {
+        if (!this.oneOf(target, this.framebufferTargets(), "framebuffer target")) return null;
+        const framebuffer = target === GL.READ_FRAMEBUFFER ? this.readFramebuffer : this.drawFramebuffer;
+        if (framebuffer == null) return this.fail(GL.INVALID_OPERATION, "the default framebuffer is bound");
+        return framebuffer;
+    }
+
+    /**
+     * @returns {Array<GLenum>} the framebuffer targets of this version
+     */
+    protected framebufferTargets(): GLenum[] {
+        return [GL.FRAMEBUFFER];
+    }
+
+    /**
+     * @param {MockFramebuffer} framebuffer
+     * @returns {GLenum} what checkFramebufferStatus() reports for it
+     */
+    protected framebufferStatus(framebuffer: MockFramebuffer): GLenum {
+        const points = Object.keys(framebuffer.attachments).map(Number);
+        if (points.length === 0) return GL.FRAMEBUFFER_INCOMPLETE_MISSING_ATTACHMENT;
+        const webgl2 = this.version === 2;
+        let size: number[] | null = null, samples = -1;
+        for (const point of points) {
+            const attachment = framebuffer.attachments[point];
+            const image = this.attachmentImage(attachment);
+            if (image == null || image.width === 0 || image.height === 0 || attachment.layer >= image.depth) {
+                return GL.FRAMEBUFFER_INCOMPLETE_ATTACHMENT;
+            }
+            const kind = this.renderable(image);
+            const valid = point === GL.DEPTH_ATTACHMENT ? kind === "depth" || webgl2 && kind === "depth-stencil" :
+                point === GL.STENCIL_ATTACHMENT ? kind === "stencil" || webgl2 && kind === "depth-stencil" :
+                point === GL.DEPTH_STENCIL_ATTACHMENT ? kind === "depth-stencil" : kind === "color";
+            if (!valid) return GL.FRAMEBUFFER_INCOMPLETE_ATTACHMENT;
+            if (size != null && (size[0] !== image.width || size[1] !== image.height) && !webgl2) {
+                return GL.FRAMEBUFFER_INCOMPLETE_DIMENSIONS;
+            }
+            if (samples >= 0 && samples !== image.samples) return GL.FRAMEBUFFER_INCOMPLETE_MULTISAMPLE;
+            size = [image.width, image.height];
+            samples = image.samples;
+        }
+        const depth = framebuffer.attachments[GL.DEPTH_ATTACHMENT];
+        const stencil = framebuffer.attachments[GL.STENCIL_ATTACHMENT];
+        if (!webgl2 && [GL.DEPTH_ATTACHMENT, GL.STENCIL_ATTACHMENT, GL.DEPTH_STENCIL_ATTACHMENT]
+            .filter((point) => framebuffer.attachments[point] != null).length > 1) {
+            return GL.FRAMEBUFFER_UNSUPPORTED;
+        }
+        if (webgl2 && depth != null && stencil != null && (depth.object !== stencil.object ||
+            depth.level !== stencil.level || depth.face !== stencil.face || depth.layer !== stencil.layer)) {
+            return GL.FRAMEBUFFER_UNSUPPORTED;
+        }
+        return GL.FRAMEBUFFER_COMPLETE;
+    }
+
+    /**
+     * @returns {boolean} true if the draw framebuffer is complete, else false after raising an error
+     */
+    protected drawable(): boolean {
+        const framebuffer = this.drawFramebuffer;
+        if (framebuffer != null && this.framebufferStatus(framebuffer) !== GL.FRAMEBUFFER_COMPLETE) {
+            return !!this.fail(GL.INVALID_FRAMEBUFFER_OPERATION, "the framebuffer is not complete");
+        }
+        return true;
+    }
+
+    /**
+     * @returns {MockImage} the color buffer of the default framebuffer, the size of the canvas
+     */
+    protected defaultImage(): MockImage {
+        const image = this.backbuffer, width = this.canvas.width, height = this.canvas.height;
+        if (image == null || image.width !== width || image.height !== height) {
+            this.backbuffer = new MockImage(width, height, 1, GL.RGBA, GL.RGBA, GL.UNSIGNED_BYTE);
+        }
+        return this.backbuffer as MockImage;
+    }
+
+    /**
+     * @returns {?Object} the image read from and its attachment, null for the
+     * default framebuffer, else null after raising an error
+     */
+    protected readSource(): {image: MockImage, attachment: MockAttachment | null} | null {
+        const framebuffer = this.readFramebuffer;
+        if (framebuffer == null) {
+            if (this.defaultReadBuffer === GL.NONE) return this.fail(GL.INVALID_OPERATION, "the read buffer is NONE");
+            return {image: this.defaultImage(), attachment: null};
+        }
+        if (this.framebufferStatus(framebuffer) !== GL.FRAMEBUFFER_COMPLETE) {
+            return this.fail(GL.INVALID_FRAMEBUFFER_OPERATION, "the read framebuffer is not complete");
+        }
+        const attachment = framebuffer.readBuffer === GL.NONE ? null : framebuffer.attachments[framebuffer.readBuffer];
+        if (attachment == null) return this.fail(GL.INVALID_OPERATION, "nothing is attached to the read buffer");
+        return {image: this.attachmentImage(attachment) as MockImage, attachment};
+    }
+
+    /**
+     * @param {MockImage} image
+     * @returns {Array<GLenum>} the format and type readPixels() always accepts for image
+     */
+    protected standardReadFormat(image: MockImage): GLenum[] {
+        switch (imageKind(image)) {
+        case "float": return [GL.RGBA, GL.FLOAT];
+        case "int": return [GL.RGBA_INTEGER, GL.INT];
+        case "uint": return [GL.RGBA_INTEGER, GL.UNSIGNED_INT];
+        }
+        return [GL.RGBA, GL.UNSIGNED_BYTE];
+    }
+
+    /**
+     * @param {MockImage} image
+     * @returns {Array<GLenum>} IMPLEMENTATION_COLOR_READ_FORMAT and _TYPE for image:
+     * the format and type it was uploaded with, if readPixels() can write those
+     */
+    protected readFormat(image: MockImage): GLenum[] {
+        const readable = [GL.RGBA, GL.RGB, GL.RG, GL.RED, GL.RGBA_INTEGER, GL.RGB_INTEGER, GL.RG_INTEGER,
+                          GL.RED_INTEGER, GL.ALPHA];
+        const packed = [GL.UNSIGNED_SHORT_5_6_5, GL.UNSIGNED_SHORT_4_4_4_4, GL.UNSIGNED_SHORT_5_5_5_1,
+                        GL.UNSIGNED_INT_2_10_10_10_REV];
+        if (readable.indexOf(image.format) >= 0 && (!PIXEL_TYPES[image.type].packed || packed.indexOf(image.type) >= 0)) {
+            return [image.format, image.type];
+        }
+        return this.standardReadFormat(image);
+    }
+
+    readPixels(x: number, y: number, width: number, height: number, format: GLenum, type: GLenum,
+               pixels: ArrayBufferView | number | null, dstOffset = 0) {
+        if (width < 0 || height < 0) return this.fail(GL.INVALID_VALUE, "negative size");
+        if (formatComponents(format) === 0) return this.fail(GL.INVALID_ENUM, "invalid format");
+        if (PIXEL_TYPES[type] == null) return this.fail(GL.INVALID_ENUM, "invalid type");
+        const packBuffer = this.buffers[GL.PIXEL_PACK_BUFFER];
+        if (packBuffer != null ? typeof pixels !== "number" : !isView(pixels)) {
+            return this.fail(packBuffer != null ? GL.INVALID_OPERATION : GL.INVALID_VALUE,
+                packBuffer != null ? "a pixel pack buffer is bound" : "no pixels to read into");
+        }
+        const source = this.readSource();
+        if (source == null) return;
+        const image = source.image;
+        const allowed = [this.standardReadFormat(image), this.readFormat(image)];
+        if (!allowed.some((pair) => pair[0] === format && pair[1] === type)) {
+            return this.fail(GL.INVALID_OPERATION, "format and type cannot be read from the read buffer");
+        }
+
+        const size = pixelSize(format, type);
+        const param = (pname: GLenum) => (this.values[pname] as number) || 0;
+        const skipPixels = param(GL.PACK_SKIP_PIXELS), skipRows = param(GL.PACK_SKIP_ROWS);
+        const stride = align((param(GL.PACK_ROW_LENGTH) || width) * size, param(GL.PACK_ALIGNMENT));
+        const needed = width * height === 0 ? 0 : (skipRows + height - 1) * stride + (skipPixels + width) * size;
+        let bytes: Uint8Array;
+        if (typeof pixels === "number") {
+            bytes = (packBuffer as MockBuffer).data.subarray(pixels);
+        } else {
+            const view = pixels as ArrayBufferView;
+            if (PIXEL_TYPES[type].array.indexOf(view.constructor.name) < 0) {
+                return this.fail(GL.INVALID_OPERATION, `${view.constructor.name} does not match the type`);
+            }
+            bytes = bytesOf(view).subarray(dstOffset * (view as Uint8Array).BYTES_PER_ELEMENT);
+        }
+        if (bytes.length < needed) {
+            return this.fail(GL.INVALID_OPERATION, `${needed} bytes needed but only ${bytes.length} given`);
+        }
+        const data = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+        const layer = source.attachment != null ? source.attachment.layer : 0;
+        for (let j = 0; j < height; j++) {
+            for (let i = 0; i < width; i++) {
+                const sx = x + i, sy = y + j;
+                if (sx < 0 || sy < 0 || sx >= image.width || sy >= image.height) continue;
+                writePixel(data, (skipRows + j) * stride + (skipPixels + i) * size, format, type,
+                    fromRGBA(format, image.texel(sx, sy, layer)));
+            }
+        }
+    }
+
+    createFramebuffer(): MockFramebuffer {
+        return this.create(new MockFramebuffer(this));
+    }
+
+    deleteFramebuffer(framebuffer: MockFramebuffer | null) {
+        if (!this.deletable(framebuffer, MockFramebuffer)) return;
+        if (this.drawFramebuffer === framebuffer) this.drawFramebuffer = null;
+        if (this.readFramebuffer === framebuffer) this.readFramebuffer = null;
+    }
+
+    isFramebuffer(framebuffer: MockFramebuffer | null): boolean {
+        return this.isObject(framebuffer, MockFramebuffer);
+    }
+
+    bindFramebuffer(target: GLenum, framebuffer: MockFramebuffer | null) {
+        if (!this.oneOf(target, this.framebufferTargets(), "framebuffer target") ||
+            !this.check(framebuffer, MockFramebuffer)) return;
+        if (framebuffer != null) framebuffer.bound = true;
+        if (target !== GL.READ_FRAMEBUFFER) this.drawFramebuffer = framebuffer;
+        if (target !== GL.DRAW_FRAMEBUFFER) this.readFramebuffer = framebuffer;
+    }
+
+    checkFramebufferStatus(target: GLenum): GLenum {
+        if (!this.oneOf(target, this.framebufferTargets(), "framebuffer target")) return 0;
+        const framebuffer = target === GL.READ_FRAMEBUFFER ? this.readFramebuffer : this.drawFramebuffer;
+        return framebuffer == null ? GL.FRAMEBUFFER_COMPLETE : this.framebufferStatus(framebuffer);
+    }
+
+    framebufferTexture2D(target: GLenum, attachment: GLenum, textarget: GLenum, texture: MockTexture | null,
+                         level: number) {
+        const framebuffer = this.boundFramebuffer(target);
+        if (framebuffer == null || !this.oneOf(attachment, this.attachmentPoints(), "attachment") ||
+            !this.check(texture, MockTexture)) return;
+        if (texture == null) return this.attach(framebuffer, attachment, null);
+        const targets = [GL.TEXTURE_2D];
+        for (let i = 0; i < 6; i++) targets.push(GL.TEXTURE_CUBE_MAP_POSITIVE_X + i);
+        if (!this.oneOf(textarget, targets, "texture target")) return;
+        if (texture.target !== this.bindTarget(textarget)) {
+            return this.fail(GL.INVALID_OPERATION, "textarget does not match the texture");
+        }
+        if (this.version === 1 ? level !== 0 : level < 0 || Math.pow(2, level) > this.limit(GL.MAX_TEXTURE_SIZE)) {
+            return this.fail(GL.INVALID_VALUE, `invalid level ${level}`);
+        }
+        this.attach(framebuffer, attachment, {object: texture, level, face: textarget, layer: 0});
+    }
+
+    framebufferRenderbuffer(target: GLenum, attachment: GLenum, renderbuffertarget: GLenum,
+                            renderbuffer: MockRenderbuffer | null) {
+        const framebuffer = this.boundFramebuffer(target);
+        if (framebuffer == null || !this.oneOf(attachment, this.attachmentPoints(), "attachment") ||
+            !this.oneOf(renderbuffertarget, [GL.RENDERBUFFER], "renderbuffer target") ||
+            !this.check(renderbuffer, MockRenderbuffer)) return;
+        if (renderbuffer != null && !renderbuffer.bound) {
+            return this.fail(GL.INVALID_OPERATION, "the renderbuffer was never bound");
+        }
+        this.attach(framebuffer, attachment, renderbuffer == null ? null :
+            {object: renderbuffer, level: 0, face: GL.RENDERBUFFER, layer: 0});
+    }
+
+    getFramebufferAttachmentParameter(target: GLenum, attachment: GLenum, pname: GLenum): unknown {
+        if (!this.oneOf(target, this.framebufferTargets(), "framebuffer target")) return null;
+        const framebuffer = target === GL.READ_FRAMEBUFFER ? this.readFramebuffer : this.drawFramebuffer;
+        if (framebuffer == null) {
+            if (this.version === 1) return this.fail(GL.INVALID_OPERATION, "the default framebuffer is bound");
+            if (!this.oneOf(attachment, [GL.BACK, GL.DEPTH, GL.STENCIL], "attachment")) return null;
+            const present = attachment === GL.BACK || attachment === GL.DEPTH && this.attributes.depth ||
+                attachment === GL.STENCIL && this.attributes.stencil;
+            if (pname === GL.FRAMEBUFFER_ATTACHMENT_OBJECT_TYPE) return present ? GL.FRAMEBUFFER_DEFAULT : GL.NONE;
+            return this.fail(GL.INVALID_ENUM, `invalid parameter 0x${Number(pname).toString(16)}`);
+        }
+        if (!this.oneOf(attachment, this.attachmentPoints(), "attachment")) return null;
+        let a: MockAttachment | null = framebuffer.attachments[attachment] || null;
+        if (this.version === 2 && attachment === GL.DEPTH_STENCIL_ATTACHMENT) {
+            const depth = framebuffer.attachments[GL.DEPTH_ATTACHMENT];
+            const stencil = framebuffer.attachments[GL.STENCIL_ATTACHMENT];
+            if ((depth && depth.object) !== (stencil && stencil.object)) {
+                return this.fail(GL.INVALID_OPERATION, "depth and stencil attachments differ");
+            }
+            a = depth || null;
+        }
+        if (pname === GL.FRAMEBUFFER_ATTACHMENT_OBJECT_TYPE) {
+            return a == null ? GL.NONE : a.object instanceof MockTexture ? GL.TEXTURE : GL.RENDERBUFFER;
+        }
+        if (pname === GL.FRAMEBUFFER_ATTACHMENT_OBJECT_NAME) return a == null ? null : a.object;
+        if (a == null) {
+            return this.fail(this.version === 2 ? GL.INVALID_OPERATION : GL.INVALID_ENUM, "nothing is attached");
+        }
+        const texture = a.object instanceof MockTexture;
+        const image = this.attachmentImage(a);
+        const componentType = this.version === 2 || this.enabled("EXT_color_buffer_half_float") ||
+            this.enabled("WEBGL_color_buffer_float");
+        if (texture && pname === GL.FRAMEBUFFER_ATTACHMENT_TEXTURE_LEVEL) return a.level;
+        if (texture && pname === GL.FRAMEBUFFER_ATTACHMENT_TEXTURE_CUBE_MAP_FACE) {
+            return this.bindTarget(a.face) === GL.TEXTURE_CUBE_MAP ? a.face : 0;
+        }
+        if (texture && this.version === 2 && pname === GL.FRAMEBUFFER_ATTACHMENT_TEXTURE_LAYER) return a.layer;
+        if (componentType && pname === GL.FRAMEBUFFER_ATTACHMENT_COMPONENT_TYPE) {
+            if (image == null) return GL.NONE;
+            return {float: GL.FLOAT, int: GL.INT, uint: GL.UNSIGNED_INT}[imageKind(image)] || GL.UNSIGNED_NORMALIZED;
+        }
+        if (this.version === 2) {
+            if (pname === GL.FRAMEBUFFER_ATTACHMENT_COLOR_ENCODING) {
+                return image && (image.internalFormat === GL.SRGB8_ALPHA8 || image.internalFormat === GL.SRGB8) ?
+                    GL.SRGB : GL.LINEAR;
+            }
+            const size = this.componentSize(image, pname);
+            if (size != null) return size;
+        }
+        return this.fail(GL.INVALID_ENUM, `invalid parameter 0x${Number(pname).toString(16)}`);
+    }
+
+    /**
+     * @returns {Array<GLenum>} the draw buffers of the draw framebuffer
+     */
+    protected activeDrawBuffers(): GLenum[] {
+        return this.drawFramebuffer ? this.drawFramebuffer.drawBuffers : [this.defaultDrawBuffer];
+    }
+
+    /**
+     * drawBuffers() of WebGL2 and WEBGL_draw_buffers.
+     * @param {Array<GLenum>} buffers
+     */
+    protected setDrawBuffers(buffers: GLenum[]) {
+        if (buffers.length > this.limit(GL.MAX_DRAW_BUFFERS)) {
+            return this.fail(GL.INVALID_VALUE, `more than ${this.limit(GL.MAX_DRAW_BUFFERS)} draw buffers`);
+        }
+        const framebuffer = this.drawFramebuffer;
+        if (framebuffer == null) {
+            if (buffers.length !== 1 || (buffers[0] !== GL.BACK && buffers[0] !== GL.NONE)) {
+                return this.fail(GL.INVALID_OPERATION, "the default framebuffer takes [BACK] or [NONE]");
+            }
+            this.defaultDrawBuffer = buffers[0];
+            return;
+        }
+        for (let i = 0; i < buffers.length; i++) {
+            if (buffers[i] !== GL.NONE && buffers[i] !== GL.COLOR_ATTACHMENT0 + i) {
+                return this.fail(GL.INVALID_OPERATION, `draw buffer ${i} must be NONE or COLOR_ATTACHMENT${i}`);
+            }
+        }
+        framebuffer.drawBuffers = Array.from(buffers);
+    }
+
+    /**
+     * @param {number} index of the draw buffer
+     * @returns {?Object} the image draw buffer index writes to, and its layer
+     */
+    protected colorImage(index: number): {image: MockImage, layer: number} | null {
+        const buffer = this.activeDrawBuffers()[index];
+        if (buffer == null || buffer === GL.NONE) return null;
+        const framebuffer = this.drawFramebuffer;
+        if (framebuffer == null) return {image: this.defaultImage(), layer: 0};
+        const attachment = framebuffer.attachments[buffer];
+        const image = attachment && this.attachmentImage(attachment);
+        return image ? {image, layer: attachment.layer} : null;
+    }
+
+    /**
+     * @param {GLenum} point DEPTH_ATTACHMENT or STENCIL_ATTACHMENT
+     * @returns {?Object} the depth or stencil image of the draw framebuffer, and its layer
+     */
+    protected depthStencilImage(point: GLenum): {image: MockImage, layer: number} | null {
+        const framebuffer = this.drawFramebuffer;
+        if (framebuffer == null) return null;
+        const attachment = framebuffer.attachments[point] || framebuffer.attachments[GL.DEPTH_STENCIL_ATTACHMENT];
+        const image = attachment && this.attachmentImage(attachment);
+        return image ? {image, layer: attachment.layer} : null;
+    }
+
+    /**
+     * Fill the scissored part of an image, like clears do.
+     * @param {?Object} target the image and layer
+     * @param {Array<?number>} values RGBA, null to leave a component alone
+     */
+    protected fill(target: {image: MockImage, layer: number} | null, values: (number | null)[]) {
+        if (target == null) return;
+        const image = target.image;
+        let [x0, y0, x1, y1] = [0, 0, image.width, image.height];
+        if (this.values[GL.SCISSOR_TEST]) {
+            const box = this.values[GL.SCISSOR_BOX] as Int32Array;
+            x0 = Math.max(box[0], 0);
+            y0 = Math.max(box[1], 0);
+            x1 = Math.min(box[0] + box[2], x1);
+            y1 = Math.min(box[1] + box[3], y1);
+        }
+        for (let y = y0; y < y1; y++) {
+            for (let x = x0; x < x1; x++) {
+                const i = ((target.layer * image.height + y) * image.width + x) * 4;
+                values.forEach(function(value, k) {
+                    if (value != null) image.texels[i + k] = value;
+                });
+            }
+        }
+    }
+
+    /**
+     * @param {Array<number>} color
+     * @param {MockImage} image
+     * @returns {Array<?number>} the values a color clear writes to image
+     */
+    protected clearValues(color: ArrayLike<number>, image: MockImage): (number | null)[] {
+        const mask = this.values[GL.COLOR_WRITEMASK] as boolean[];
+        const normalized = imageKind(image) === "normalized";
+        const rgba = toRGBA(image.format, fromRGBA(image.format, Array.from(color)));
+        return rgba.map((value, k) => mask[k] ? (normalized ? Math.min(Math.max(value, 0), 1) : value) : null);
+    }
+
+    clear(mask: number) {
+        const bits = GL.COLOR_BUFFER_BIT | GL.DEPTH_BUFFER_BIT | GL.STENCIL_BUFFER_BIT;
+        if (mask & ~bits) return this.fail(GL.INVALID_VALUE, `invalid mask 0x${Number(mask).toString(16)}`);
+        if (!this.drawable()) return;
+        if (mask & GL.COLOR_BUFFER_BIT) {
+            const targets = this.activeDrawBuffers().map((_, i) => this.colorImage(i));
+            if (targets.some((target) => target != null && integerFormat(target.image.format))) {
+                return this.fail(GL.INVALID_OPERATION, "clear() cannot clear integer color buffers");
+            }
+            for (const target of targets) {
+                if (target != null) {
+                    this.fill(target, this.clearValues(this.values[GL.COLOR_CLEAR_VALUE] as Float32Array,
+                                                       target.image));
+                }
+            }
+        }
+        if (mask & GL.DEPTH_BUFFER_BIT && this.values[GL.DEPTH_WRITEMASK]) {
+            this.fill(this.depthStencilImage(GL.DEPTH_ATTACHMENT), [this.values[GL.DEPTH_CLEAR_VALUE] as number]);
+        }
+        if (mask & GL.STENCIL_BUFFER_BIT) this.clearStencilBuffer(this.values[GL.STENCIL_CLEAR_VALUE] as number);
+    }
+
+    /**
+     * @param {number} value
+     */
+    protected clearStencilBuffer(value: number) {
+        const target = this.depthStencilImage(GL.STENCIL_ATTACHMENT);
+        if (target == null) return;
+        // stencil only formats keep the stencil first, depth stencil formats second
+        const mask = this.values[GL.STENCIL_WRITEMASK] as number;
+        const stencil = value & mask & 0xFF;
+        this.fill(target, target.image.format === GL.DEPTH_STENCIL ? [null, stencil] : [stencil]);
+    }
+
+    // shaders and programs
+
+    createShader(type: GLenum): MockShader | null {
+        if (!this.oneOf(type, [GL.VERTEX_SHADER, GL.FRAGMENT_SHADER], "shader type")) return null;
+        return this.create(new MockShader(this, type));
+    }
+
+    deleteShader(shader: MockShader | null) {
+        this.deletable(shader, MockShader);
+    }
+
+    isShader(shader: MockShader | null): boolean {
+        return this.isObject(shader, MockShader);
+    }
+
+    shaderSource(shader: MockShader, source: string) {
+        if (shader == null) throw new TypeError(`${this.current}: shader is null`);
+        if (this.check(shader, MockShader)) shader.source = String(source);
+    }
+
+    getShaderSource(shader: MockShader): string | null {
+        if (shader == null) throw new TypeError(`${this.current}: shader is null`);
+        return this.check(shader, MockShader) ? shader.source : null;
+    }
+
+    compileShader(shader: MockShader) {
+        if (shader == null) throw new TypeError(`${this.current}: shader is null`);
+        if (!this.check(shader, MockShader)) return;
+        const parsed = parseShader(shader.source, this.version);
+        shader.compiled = typeof parsed !== "string";
+        shader.parsed = typeof parsed !== "string" ? parsed : null;
+        shader.log = typeof parsed === "string" ? parsed : "";
+    }
+
+    getShaderParameter(shader: MockShader, pname: GLenum): unknown {
+        if (shader == null) throw new TypeError(`${this.current}: shader is null`);
+        if (!this.check(shader, MockShader, true)) return null;
+        switch (pname) {
+        case GL.SHADER_TYPE: return shader.type;
+        case GL.DELETE_STATUS: return shader.deleted;
+        case GL.COMPILE_STATUS: return shader.compiled;
+        case COMPLETION_STATUS_KHR: if (this.enabled("KHR_parallel_shader_compile")) return true;
+        }
+        return this.fail(GL.INVALID_ENUM, `invalid shader parameter 0x${Number(pname).toString(16)}`);
+    }
+
+    getShaderInfoLog(shader: MockShader): string | null {
+        if (shader == null) throw new TypeError(`${this.current}: shader is null`);
+        return this.check(shader, MockShader) ? shader.log : null;
+    }
+
+    getShaderPrecisionFormat(shadertype: GLenum, precisiontype: GLenum): unknown {
+        if (!this.oneOf(shadertype, [GL.VERTEX_SHADER, GL.FRAGMENT_SHADER], "shader type") ||
+            !this.oneOf(precisiontype, [GL.LOW_FLOAT, GL.MEDIUM_FLOAT, GL.HIGH_FLOAT, GL.LOW_INT, GL.MEDIUM_INT,
+                                        GL.HIGH_INT], "precision type")) return null;
+        const float = precisiontype === GL.LOW_FLOAT || precisiontype === GL.MEDIUM_FLOAT ||
+            precisiontype === GL.HIGH_FLOAT;
+        return float ? {rangeMin: 127, rangeMax: 127, precision: 23} : {rangeMin: 31, rangeMax: 30, precision: 0};
+    }
+
+    createProgram(): MockProgram {
+        return this.create(new MockProgram(this));
+    }
+
+    deleteProgram(program: MockProgram | null) {
+        this.deletable(program, MockProgram);
+    }
+
+    isProgram(program: MockProgram | null): boolean {
+        return this.isObject(program, MockProgram);
+    }
+
+    attachShader(program: MockProgram, shader: MockShader) {
+        if (program == null || shader == null) throw new TypeError(`${this.current}: parameter is null`);
+        if (!this.check(program, MockProgram) || !this.check(shader, MockShader)) return;
+        if (program.shaders.some((attached) => attached.type === shader.type)) {
+            return this.fail(GL.INVALID_OPERATION, "a shader of that type is attached already");
+        }
+        program.shaders.push(shader);
+    }
+
+    detachShader(program: MockProgram, shader: MockShader) {
+        if (program == null || shader == null) throw new TypeError(`${this.current}: parameter is null`);
+        if (!this.check(program, MockProgram) || !this.check(shader, MockShader, true)) return;
+        const i = program.shaders.indexOf(shader);
+        if (i < 0) return this.fail(GL.INVALID_OPERATION, "the shader is not attached");
+        program.shaders.splice(i, 1);
+    }
+
+    getAttachedShaders(program: MockProgram): MockShader[] | null {
+        if (program == null) throw new TypeError(`${this.current}: program is null`);
+        return this.check(program, MockProgram) ? program.shaders.slice() : null;
+    }
+
+    bindAttribLocation(program: MockProgram, index: number, name: string) {
+        if (program == null) throw new TypeError(`${this.current}: program is null`);
+        if (!this.check(program, MockProgram)) return;
+        if (index < 0 || index >= this.limit(GL.MAX_VERTEX_ATTRIBS)) {
+            return this.fail(GL.INVALID_VALUE, `invalid location ${index}`);
+        }
+        if (/^(gl_|webgl_|_webgl_)/.test(name)) return this.fail(GL.INVALID_OPERATION, `reserved name ${name}`);
+        program.bindings[name] = index;
+    }
+
+    /**
+     * Link a program the way a GLSL linker reports to WebGL: check that
+     * stages match, assign attrib locations, and find the active
+     * variables, which are the declared ones that are used.
+     * @param {MockProgram} program
+     * @returns {string} the info log, empty on success
+     */
+    protected link(program: MockProgram): string {
+        const vertex = program.shaders.filter((s) => s.type === GL.VERTEX_SHADER)[0];
+        const fragment = program.shaders.filter((s) => s.type === GL.FRAGMENT_SHADER)[0];
+        if (vertex == null || fragment == null) return "ERROR: a vertex and a fragment shader must be attached\n";
+        if (vertex.parsed == null || fragment.parsed == null) return "ERROR: the shaders are not compiled\n";
+        const vs = vertex.parsed, fs = fragment.parsed;
+        if (vs.version !== fs.version) return "ERROR: the shaders are of different GLSL versions\n";
+        const used = (shader: GLSLShader, d: GLSLDeclaration) => occurrences(shader.code, d.name) >
+            shader.declarations.filter((other) => other.name === d.name).length;
+        const inputs = vs.version === 300 ? "in" : "attribute";
+        const outputs = vs.version === 300 ? "out" : "varying";
+        const varyingIn = fs.version === 300 ? "in" : "varying";
+
+        for (const d of fs.declarations.filter((d) => d.qualifier === varyingIn && used(fs, d))) {
+            const output = vs.declarations.filter((o) => o.qualifier === outputs && o.name === d.name)[0];
+            if (output == null) return `ERROR: ${d.name} is not declared in the vertex shader\n`;
+            if (output.type !== d.type || output.size !== d.size) return `ERROR: ${d.name} differs in type\n`;
+        }
+
+        const uniforms: MockVariable[] = [];
+        const declared: {[name: string]: GLSLDeclaration} = {};
+        for (const [shader, d] of vs.declarations.map((d): [GLSLShader, GLSLDeclaration] => [vs, d])
+            .concat(fs.declarations.map((d): [GLSLShader, GLSLDeclaration] => [fs, d]))) {
+            if (d.qualifier !== "uniform") continue;
+            const other = declared[d.name];
+            if (other != null && (other.type !== d.type || other.size !== d.size)) {
+                return `ERROR: uniform ${d.name} differs in type between shaders\n`;
+            }
+            declared[d.name] = d;
+            if (used(shader, d) && !uniforms.some((u) => u.name === d.name ||
+                u.name.indexOf(`${d.name}[`) === 0 || u.name.indexOf(`${d.name}.`) === 0)) {
+                flatten(shader, d.name, d.type, d.size, uniforms);
+            }
+        }
+
+        const blocks: MockUniformBlock[] = [];
+        for (const [shader, block] of vs.blocks.map((b): [GLSLShader, GLSLBlock] => [vs, b])
+            .concat(fs.blocks.map((b): [GLSLShader, GLSLBlock] => [fs, b]))) {
+            // a block is active if its instance, or without one any member, is referenced
+            const active = block.instance != null ? occurrences(shader.code, block.instance) > 1 :
+                block.fields.some((f) => occurrences(shader.code, f.name) > 1);
+            const members: MockVariable[] = [];
+            let end = 0;
+            for (const field of block.fields) {
+                const member = std140(shader, field.type, field.size, Boolean(field.rowMajor));
+                const offset = align(end, member.align);
+                const name = block.instance != null ? `${block.name}.${field.name}` : field.name;
+                layoutMember(shader, name, field, offset, blocks.length, members);
+                end = offset + member.size;
+            }
+            const size = align(end, 16);
+            const other = blocks.filter((b) => b.name === block.name)[0];
+            if (other != null) {
+                const layout = other.uniforms.map((i) => uniforms[i]);
+                if (other.size !== size || layout.length !== members.length || members.some((m, i) =>
+                    m.name !== layout[i].name || m.type !== layout[i].type || m.size !== layout[i].size ||
+                    JSON.stringify(Object.assign({}, m.layout, {block: 0})) !==
+                    JSON.stringify(Object.assign({}, layout[i].layout, {block: 0})))) {
+                    return `ERROR: uniform block ${block.name} differs in layout between shaders\n`;
+                }
+                if (shader === vs) other.vertex = other.vertex || active;
+                else other.fragment = other.fragment || active;
+                continue;
+            }
+            if (!active) continue;
+            const limit = this.limit(GL.MAX_UNIFORM_BLOCK_SIZE);
+            if (size > limit) return `ERROR: uniform block ${block.name} is larger than ${limit} bytes\n`;
+            blocks.push({
+                name: block.name,
+                size,
+                uniforms: members.map((m, i) => uniforms.length + i),
+                binding: 0,
+                vertex: shader === vs,
+                fragment: shader === fs,
+            });
+            uniforms.push(...members);
+        }
+        const referenced = (stage: "vertex" | "fragment") => blocks.filter((b) => b[stage]).length;
+        if (referenced("vertex") > this.limit(GL.MAX_VERTEX_UNIFORM_BLOCKS) ||
+            referenced("fragment") > this.limit(GL.MAX_FRAGMENT_UNIFORM_BLOCKS) ||
+            blocks.length > this.limit(GL.MAX_COMBINED_UNIFORM_BLOCKS)) {
+            return "ERROR: too many uniform blocks\n";
+        }
+
+        const attribs: MockVariable[] = [];
+        const max = this.limit(GL.MAX_VERTEX_ATTRIBS);
+        const taken: boolean[] = [];
+        const active = vs.declarations.filter((d) => d.qualifier === inputs && used(vs, d));
+        const place = (variable: MockVariable, location: number) => {
+            const columns = GLSL_ENUMS[variable.type].columns * variable.size;
+            for (let i = location; i < location + columns; i++) {
+                if (i >= max) return `ERROR: too many attribs for ${max} locations\n`;
+                if (taken[i]) return `ERROR: ${variable.name} aliases another attrib at location ${i}\n`;
+                taken[i] = true;
+            }
+            variable.location = location;
+            return "";
+        };
+        const unplaced: MockVariable[] = [];
+        for (const d of active) {
+            const variables: MockVariable[] = [];
+            flatten(vs, d.name, d.type, d.size, variables);
+            const variable = variables[0];
+            const location = d.location >= 0 ? d.location : program.bindings[d.name];
+            if (location != null) {
+                const log = place(variable, location);
+                if (log) return log;
+            } else {
+                unplaced.push(variable);
+            }
+            attribs.push(variable);
+        }
+        for (const variable of unplaced) {
+            const columns = GLSL_ENUMS[variable.type].columns * variable.size;
+            let location = 0;
+            while (location < max && taken.slice(location, location + columns).some(Boolean)) location++;
+            const log = place(variable, location);
+            if (log) return log;
+        }
+
+        const feedback: MockVariable[] = [];
+        for (const name of program.varyings) {
+            const output = vs.declarations.filter((d) => d.qualifier === outputs && d.name === name)[0];
+            if (output == null) return `ERROR: transform feedback varying ${name} is not a vertex shader output\n`;
+            flatten(vs, output.name, output.type, output.size, feedback);
+        }
+        const components = feedback.map((v) => GLSL_ENUMS[v.type].components * v.size);
+        if (program.bufferMode === GL.SEPARATE_ATTRIBS ?
+            feedback.length > this.limit(GL.MAX_TRANSFORM_FEEDBACK_SEPARATE_ATTRIBS) ||
+            components.some((n) => n > this.limit(GL.MAX_TRANSFORM_FEEDBACK_SEPARATE_COMPONENTS)) :
+            components.reduce((a, b) => a + b, 0) > this.limit(GL.MAX_TRANSFORM_FEEDBACK_INTERLEAVED_COMPONENTS)) {
+            return "ERROR: too many transform feedback components\n";
+        }
+
+        program.attribs = attribs;
+        program.uniforms = uniforms;
+        program.blocks = blocks;
+        program.feedback = feedback;
+        program.feedbackMode = program.bufferMode;
+        return "";
+    }
+
+    linkProgram(program: MockProgram) {
+        if (program == null) throw new TypeError(`${this.current}: program is null`);
+        if (!this.check(program, MockProgram)) return;
+        if (this.feedback.active && this.feedback.program === program) {
+            return this.fail(GL.INVALID_OPERATION, "the program is in use by transform feedback");
+        }
+        program.log = this.link(program);
+        program.linked = program.log === "";
+        program.validated = false;
+        program.links++;
+        if (!program.linked) {
+            program.attribs = [];
+            program.uniforms = [];
+            program.blocks = [];
+            program.feedback = [];
+        }
+    }
+
+    validateProgram(program: MockProgram) {
+        if (program == null) throw new TypeError(`${this.current}: program is null`);
+        if (this.check(program, MockProgram)) program.validated = program.linked;
+    }
+
+    getProgramParameter(program: MockProgram, pname: GLenum): unknown {
+        if (program == null) throw new TypeError(`${this.current}: program is null`);
+        if (!this.check(program, MockProgram, true)) return null;
+        switch (pname) {
+        case GL.DELETE_STATUS: return program.deleted;
+        case GL.LINK_STATUS: return program.linked;
+        case GL.VALIDATE_STATUS: return program.validated;
+        case GL.ATTACHED_SHADERS: return program.shaders.length;
+        case GL.ACTIVE_ATTRIBUTES: return program.attribs.length;
+        case GL.ACTIVE_UNIFORMS: return program.uniforms.length;
+        case COMPLETION_STATUS_KHR: if (this.enabled("KHR_parallel_shader_compile")) return true; break;
+        }
+        if (this.version === 2) {
+            switch (pname) {
+            case GL.TRANSFORM_FEEDBACK_BUFFER_MODE: return program.feedbackMode;
+            case GL.TRANSFORM_FEEDBACK_VARYINGS: return program.feedback.length;
+            case GL.ACTIVE_UNIFORM_BLOCKS: return program.blocks.length;
+            }
+        }
+        return this.fail(GL.INVALID_ENUM, `invalid program parameter 0x${Number(pname).toString(16)}`);
+    }
+
+    getProgramInfoLog(program: MockProgram): string | null {
+        if (program == null) throw new TypeError(`${this.current}: program is null`);
+        return this.check(program, MockProgram) ? program.log : null;
+    }
+
+    useProgram(program: MockProgram | null) {
+        if (!this.check(program, MockProgram)) return;
+        if (program != null && !program.linked) return this.fail(GL.INVALID_OPERATION, "the program is not linked");
+        if (this.feedback.active && !this.feedback.paused) {
+            return this.fail(GL.INVALID_OPERATION, "transform feedback is active");
+        }
+        this.program = program;
+    }
+
+    /**
+     * @param {MockProgram} program
+     * @returns {boolean} true if program is linked, else false after raising an error
+     */
+    protected linked(program: MockProgram): boolean {
+        if (program == null) throw new TypeError(`${this.current}: program is null`);
+        if (!this.check(program, MockProgram)) return false;
+        return program.linked || !!this.fail(GL.INVALID_OPERATION, "the program is not linked");
+    }
+
+    getActiveAttrib(program: MockProgram, index: number): MockActiveInfo | null {
+        if (!this.check(program, MockProgram)) return null;
+        const attrib = program.attribs[index];
+        return attrib ? new MockActiveInfo(attrib) : this.fail(GL.INVALID_VALUE, `no active attrib ${index}`);
+    }
+
+    getActiveUniform(program: MockProgram, index: number): MockActiveInfo | null {
+        if (!this.check(program, MockProgram)) return null;
+        const uniform = program.uniforms[index];
+        return uniform ? new MockActiveInfo(uniform) : this.fail(GL.INVALID_VALUE, `no active uniform ${index}`);
+    }
+
+    getAttribLocation(program: MockProgram, name: string): number {
+        if (!this.linked(program)) return -1;
+        const attrib = program.attribs.filter((a) => a.name === name || a.name === `${name}[0]`)[0];
+        return attrib ? attrib.location : -1;
+    }
+
+    getUniformLocation(program: MockProgram, name: string): MockUniformLocation | null {
+        if (!this.linked(program)) return null;
+        const match = /^(.*?)(?:\[(\d+)\])?$/.exec(name) as RegExpExecArray;
+        const element = match[2] != null ? Number(match[2]) : 0;
+        for (const uniform of program.uniforms) {
+            // uniform block members are set through buffers, not locations
+            if (uniform.layout != null) continue;
+            if (uniform.name === name) return new MockUniformLocation(program, uniform, 0);
+            if (uniform.name === `${match[1]}[0]` && element < uniform.size) {
+                return new MockUniformLocation(program, uniform, element);
+            }
+        }
+        return null;
+    }
+
+    /**
+     * @param {MockUniformLocation} location
+     * @returns {boolean} true if location belongs to the current link of the current program
+     */
+    protected uniformLocation(location: MockUniformLocation, program: MockProgram | null): boolean {
+        if (!(location instanceof MockUniformLocation)) {
+            throw new TypeError(`${this.current}: parameter is not a WebGLUniformLocation`);
+        }
+        if (program == null) return !!this.fail(GL.INVALID_OPERATION, "no program in use");
+        if (location.program !== program || location.links !== program.links) {
+            return !!this.fail(GL.INVALID_OPERATION, "the location is not from the current link of the program");
+        }
+        return true;
+    }
+
+    getUniform(program: MockProgram, location: MockUniformLocation): unknown {
+        if (!this.linked(program) || !this.uniformLocation(location, program)) return null;
+        const uniform = location.uniform;
+        const info = GLSL_ENUMS[uniform.type];
+        const value = uniform.value.slice(location.element * info.components,
+                                          (location.element + 1) * info.components);
+        if (info.kind === "bool") return info.components === 1 ? value[0] !== 0 : value.map((v) => v !== 0);
+        if (info.components === 1) return value[0];
+        return info.kind === "int" ? new Int32Array(value) :
+            info.kind === "uint" ? new Uint32Array(value) : new Float32Array(value);
+    }
+
+    /**
+     * Set a uniform like all uniform* calls do.
+     * @param {string} setter the name of the call, without "v"
+     * @param {?MockUniformLocation} location
+     * @param {Array<number>} values
+     * @param {boolean} array true for the v forms, which may set several elements
+     * @param {boolean} [transpose=false]
+     */
+    protected uniform(setter: string, location: MockUniformLocation | null, values: ArrayLike<number>,
+                      array: boolean, transpose = false) {
+        if (location == null) return;
+        if (!this.uniformLocation(location, this.program)) return;
+        const uniform = location.uniform;
+        const info = GLSL_ENUMS[uniform.type];
+        const matches = info.kind === "bool" ? setter.indexOf(info.setter) === 0 && !/Matrix/.test(setter) :
+            setter === info.setter;
+        if (!matches) return this.fail(GL.INVALID_OPERATION, `${setter} does not match the uniform ${uniform.name}`);
+        const n = info.components;
+        if (values.length === 0 || values.length % n !== 0) {
+            return this.fail(GL.INVALID_VALUE, `${values.length} values for ${n} components`);
+        }
+        if (values.length > n && uniform.size === 1) {
+            return this.fail(GL.INVALID_OPERATION, `${uniform.name} is not an array`);
+        }
+        if (transpose && this.version === 1) return this.fail(GL.INVALID_VALUE, "transpose must be false");
+        let data = Array.from(values);
+        if (info.kind === "sampler" && data.some((unit) => unit < 0 || unit >= this.textures.length)) {
+            return this.fail(GL.INVALID_VALUE, "invalid texture unit");
+        }
+        if (info.kind === "bool") data = data.map((v) => v ? 1 : 0);
+        if (transpose) {
+            const columns = info.columns, rows = n / columns;
+            data = data.map(function(_, i) {
+                const base = i - i % n, k = i % n, column = Math.floor(k / rows), row = k % rows;
+                return values[base + row * columns + column];
+            });
+        }
+        if (!array) data = data.slice(0, n);
+        const start = location.element * n;
+        uniform.value.splice(start, Math.min(data.length, uniform.value.length - start),
+                             ...data.slice(0, uniform.value.length - start));
+    }
+
+    // vertex attribs
+
+    /**
+     * @param {number} index
+     * @returns {boolean} true if index is a valid attrib location, else false after raising an error
+     */
+    protected attribIndex(index: number): boolean {
+        if (index >= 0 && index < this.vertexArray.attribs.length) return true;
+        return !!this.fail(GL.INVALID_VALUE, `invalid attrib location ${index}`);
+    }
+
+    enableVertexAttribArray(index: number) {
+        if (this.attribIndex(index)) this.vertexArray.attribs[index].enabled = true;
+    }
+
+    disableVertexAttribArray(index: number) {
+        if (this.attribIndex(index)) this.vertexArray.attribs[index].enabled = false;
+    }
+
+    /**
+     * The shared part of vertexAttribPointer() and vertexAttribIPointer().
+     */
+    protected pointer(index: number, size: number, type: GLenum, normalized: boolean, stride: number,
+                      offset: number, integer: boolean) {
+        if (!this.attribIndex(index)) return;
+        const types = integer ? [GL.BYTE, GL.UNSIGNED_BYTE, GL.SHORT, GL.UNSIGNED_SHORT, GL.INT, GL.UNSIGNED_INT] :
+            this.version === 2 ? [GL.BYTE, GL.UNSIGNED_BYTE, GL.SHORT, GL.UNSIGNED_SHORT, GL.FLOAT, GL.INT,
+                                  GL.UNSIGNED_INT, GL.HALF_FLOAT, GL.INT_2_10_10_10_REV,
+                                  GL.UNSIGNED_INT_2_10_10_10_REV] :
+                [GL.BYTE, GL.UNSIGNED_BYTE, GL.SHORT, GL.UNSIGNED_SHORT, GL.FLOAT];
+        if (!this.oneOf(type, types, "attrib type")) return;
+        if (size < 1 || size > 4) return this.fail(GL.INVALID_VALUE, `invalid size ${size}`);
+        if (stride < 0 || stride > 255 || offset < 0) return this.fail(GL.INVALID_VALUE, "invalid stride or offset");
+        const packed = type === GL.INT_2_10_10_10_REV || type === GL.UNSIGNED_INT_2_10_10_10_REV;
+        if (packed && size !== 4) return this.fail(GL.INVALID_OPERATION, "packed types need a size of 4");
+        const bytes = attribBytes(type);
+        if (offset % bytes !== 0 || stride % bytes !== 0) {
+            return this.fail(GL.INVALID_OPERATION, "offset and stride must be multiples of the type size");
+        }
+        const buffer = this.buffers[GL.ARRAY_BUFFER];
+        if (buffer == null && offset !== 0) return this.fail(GL.INVALID_OPERATION, "no array buffer bound");
+        Object.assign(this.vertexArray.attribs[index], {
+            buffer, size, type, normalized: Boolean(normalized), stride, offset, integer,
+        });
+    }
+
+    vertexAttribPointer(index: number, size: number, type: GLenum, normalized: boolean, stride: number,
+                        offset: number) {
+        this.pointer(index, size, type, normalized, stride, offset, false);
+    }
+
+    /**
+     * @param {number} index
+     * @param {number} divisor
+     */
+    protected divisor(index: number, divisor: number) {
+        if (this.attribIndex(index)) this.vertexArray.attribs[index].divisor = divisor;
+    }
+
+    /**
+     * Set a generic attrib value, like all vertexAttrib* calls do.
+     * @param {number} index
+     * @param {Array<number>} values
+     * @param {number} count
+     */
+    protected generic4(index: number, values: ArrayLike<number>, count: number) {
+        if (!this.attribIndex(index)) return;
+        if (values.length < count) return this.fail(GL.INVALID_VALUE, `${count} values needed`);
+        const value = [0, 0, 0, 1];
+        for (let i = 0; i < count; i++) value[i] = values[i];
+        this.generic[index] = value;
+    }
+
+    vertexAttrib1f(index: number, x: number) {
+        this.generic4(index, [x], 1);
+    }
+
+    vertexAttrib2f(index: number, x: number, y: number) {
+        this.generic4(index, [x, y], 2);
+    }
+
+    vertexAttrib3f(index: number, x: number, y: number, z: number) {
+        this.generic4(index, [x, y, z], 3);
+    }
+
+    vertexAttrib4f(index: number, x: number, y: number, z: number, w: number) {
+        this.generic4(index, [x, y, z, w], 4);
+    }
+
+    vertexAttrib1fv(index: number, values: ArrayLike<number>) {
+        this.generic4(index, values, 1);
+    }
+
+    vertexAttrib2fv(index: number, values: ArrayLike<number>) {
+        this.generic4(index, values, 2);
+    }
+
+    vertexAttrib3fv(index: number, values: ArrayLike<number>) {
+        this.generic4(index, values, 3);
+    }
+
+    vertexAttrib4fv(index: number, values: ArrayLike<number>) {
+        this.generic4(index, values, 4);
+    }
+
+    getVertexAttrib(index: number, pname: GLenum): unknown {
+        if (!this.attribIndex(index)) return null;
+        const attrib = this.vertexArray.attribs[index];
+        switch (pname) {
+        case GL.VERTEX_ATTRIB_ARRAY_BUFFER_BINDING: return attrib.buffer;
+        case GL.VERTEX_ATTRIB_ARRAY_ENABLED: return attrib.enabled;
+        case GL.VERTEX_ATTRIB_ARRAY_SIZE: return attrib.size;
+        case GL.VERTEX_ATTRIB_ARRAY_STRIDE: return attrib.stride;
+        case GL.VERTEX_ATTRIB_ARRAY_TYPE: return attrib.type;
+        case GL.VERTEX_ATTRIB_ARRAY_NORMALIZED: return attrib.normalized;
+        case GL.CURRENT_VERTEX_ATTRIB: return new Float32Array(this.generic[index]);
+        case GL.VERTEX_ATTRIB_ARRAY_DIVISOR:
+            if (this.version === 2 || this.enabled("ANGLE_instanced_arrays")) return attrib.divisor;
+            break;
+        case GL.VERTEX_ATTRIB_ARRAY_INTEGER: if (this.version === 2) return attrib.integer; break;
+        }
+        return this.fail(GL.INVALID_ENUM, `invalid attrib parameter 0x${Number(pname).toString(16)}`);
+    }
+
+    getVertexAttribOffset(index: number, pname: GLenum): number {
+        if (!this.attribIndex(index) || !this.oneOf(pname, [GL.VERTEX_ATTRIB_ARRAY_POINTER], "attrib parameter")) {
+            return 0;
+        }
+        return this.vertexArray.attribs[index].offset;
+    }
+
+    /**
+     * @param {*} object
+     * @param {Function} type
+     * @returns {boolean} what the is* calls return: true for a live object that was bound once
+     */
+    protected isObject(object: unknown, type: new (...args: never[]) => MockObject): boolean {
+        return object instanceof type && object.context === this && object.generation === this.generation &&
+            !object.deleted && object.bound;
+    }
+
+    /**
+     * createVertexArray() of WebGL2 and OES_vertex_array_object.
+     * @returns {MockVertexArray}
+     */
+    protected createVertexArrayObject(): MockVertexArray {
+        return this.create(new MockVertexArray(this, this.limit(GL.MAX_VERTEX_ATTRIBS)));
+    }
+
+    /**
+     * @param {?MockVertexArray} vertexArray
+     */
+    protected deleteVertexArrayObject(vertexArray: MockVertexArray | null) {
+        if (!this.deletable(vertexArray, MockVertexArray)) return;
+        if (this.vertexArray === vertexArray) this.vertexArray = this.defaultVertexArray;
+    }
+
+    /**
+     * @param {?MockVertexArray} vertexArray null for the default one
+     */
+    protected bindVertexArrayObject(vertexArray: MockVertexArray | null) {
+        if (!this.check(vertexArray, MockVertexArray)) return;
+        if (vertexArray != null) vertexArray.bound = true;
+        this.vertexArray = vertexArray || this.defaultVertexArray;
+    }
+
+    /**
+     * @param {ArrayLike<number>} data
+     * @param {number} [srcOffset=0]
+     * @param {number} [srcLength=0] 0 for up to the end
+     * @returns {Array<number>} the values selected
+     */
+    protected elements(data: ArrayLike<number>, srcOffset = 0, srcLength = 0): number[] {
+        if (data == null) throw new TypeError(`${this.current}: no data`);
+        const values = Array.from(data);
+        if (srcOffset > values.length || srcOffset + srcLength > values.length) {
+            this.fail(GL.INVALID_VALUE, "source offset and length exceed the data");
+            return [];
+        }
+        return values.slice(srcOffset, srcLength > 0 ? srcOffset + srcLength : values.length);
+    }
+
+    uniform1f(location: MockUniformLocation | null, x: number) {
+        this.uniform("uniform1f", location, [x], false);
+    }
+
+    uniform2f(location: MockUniformLocation | null, x: number, y: number) {
+        this.uniform("uniform2f", location, [x, y], false);
+    }
+
+    uniform3f(location: MockUniformLocation | null, x: number, y: number, z: number) {
+        this.uniform("uniform3f", location, [x, y, z], false);
+    }
+
+    uniform4f(location: MockUniformLocation | null, x: number, y: number, z: number, w: number) {
+        this.uniform("uniform4f", location, [x, y, z, w], false);
+    }
+
+    uniform1i(location: MockUniformLocation | null, x: number) {
+        this.uniform("uniform1i", location, [x], false);
+    }
+
+    uniform2i(location: MockUniformLocation | null, x: number, y: number) {
+        this.uniform("uniform2i", location, [x, y], false);
+    }
+
+    uniform3i(location: MockUniformLocation | null, x: number, y: number, z: number) {
+        this.uniform("uniform3i", location, [x, y, z], false);
+    }
+
+    uniform4i(location: MockUniformLocation | null, x: number, y: number, z: number, w: number) {
+        this.uniform("uniform4i", location, [x, y, z, w], false);
+    }
+
+    uniform1fv(location: MockUniformLocation | null, data: ArrayLike<number>, srcOffset?: number,
+               srcLength?: number) {
+        this.uniform("uniform1f", location, this.elements(data, srcOffset, srcLength), true);
+    }
+
+    uniform2fv(location: MockUniformLocation | null, data: ArrayLike<number>, srcOffset?: number,
+               srcLength?: number) {
+        this.uniform("uniform2f", location, this.elements(data, srcOffset, srcLength), true);
+    }
+
+    uniform3fv(location: MockUniformLocation | null, data: ArrayLike<number>, srcOffset?: number,
+               srcLength?: number) {
+        this.uniform("uniform3f", location, this.elements(data, srcOffset, srcLength), true);
+    }
+
+    uniform4fv(location: MockUniformLocation | null, data: ArrayLike<number>, srcOffset?: number,
+               srcLength?: number) {
+        this.uniform("uniform4f", location, this.elements(data, srcOffset, srcLength), true);
+    }
+
+    uniform1iv(location: MockUniformLocation | null, data: ArrayLike<number>, srcOffset?: number,
+               srcLength?: number) {
+        this.uniform("uniform1i", location, this.elements(data, srcOffset, srcLength), true);
+    }
+
+    uniform2iv(location: MockUniformLocation | null, data: ArrayLike<number>, srcOffset?: number,
+               srcLength?: number) {
+        this.uniform("uniform2i", location, this.elements(data, srcOffset, srcLength), true);
+    }
+
+    uniform3iv(location: MockUniformLocation | null, data: ArrayLike<number>, srcOffset?: number,
+               srcLength?: number) {
+        this.uniform("uniform3i", location, this.elements(data, srcOffset, srcLength), true);
+    }
+
+    uniform4iv(location: MockUniformLocation | null, data: ArrayLike<number>, srcOffset?: number,
+               srcLength?: number) {
+        this.uniform("uniform4i", location, this.elements(data, srcOffset, srcLength), true);
+    }
+
+    uniformMatrix2fv(location: MockUniformLocation | null, transpose: boolean, data: ArrayLike<number>,
+                     srcOffset?: number, srcLength?: number) {
+        this.uniform("uniformMatrix2f", location, this.elements(data, srcOffset, srcLength), true, transpose);
+    }
+
+    uniformMatrix3fv(location: MockUniformLocation | null, transpose: boolean, data: ArrayLike<number>,
+                     srcOffset?: number, srcLength?: number) {
+        this.uniform("uniformMatrix3f", location, this.elements(data, srcOffset, srcLength), true, transpose);
+    }
+
+    uniformMatrix4fv(location: MockUniformLocation | null, transpose: boolean, data: ArrayLike<number>,
+                     srcOffset?: number, srcLength?: number) {
+        this.uniform("uniformMatrix4f", location, this.elements(data, srcOffset, srcLength), true, transpose);
+    }
+
+    // drawing
+
+    /**
+     * Validate a draw call like WebGL does, then count it. Nothing is
+     * rasterized.
+     * @param {GLenum} mode
+     * @param {number} first
+     * @param {number} count
+     * @param {?GLenum} type of the indices, null for drawArrays()
+     * @param {number} offset of the indices
+     * @param {number} instances
+     */
+    protected draw(mode: GLenum, first: number, count: number, type: GLenum | null, offset: number,
+                   instances: number) {
+        if (!this.oneOf(mode, DRAW_MODES, "draw mode")) return;
+        if (first < 0 || count < 0 || instances < 0) {
+            return this.fail(GL.INVALID_VALUE, "negative first, count or instance count");
+        }
+        const program = this.program;
+        if (program == null) return this.fail(GL.INVALID_OPERATION, "no program in use");
+        if (!program.linked) return this.fail(GL.INVALID_OPERATION, "the program in use failed to link");
+        if (!this.drawable()) return;
+        for (const block of program.blocks) {
+            const binding = this.uniformBuffers[block.binding];
+            if (binding.buffer == null) {
+                return this.fail(GL.INVALID_OPERATION, `no buffer bound for uniform block ${block.name}`);
+            }
+            const available = binding.size || binding.buffer.data.length - binding.offset;
+            if (available < block.size) {
+                return this.fail(GL.INVALID_OPERATION, `the buffer for uniform block ${block.name} is too small`);
+            }
+        }
+        const feedback = this.feedback;
+        if (feedback.active && !feedback.paused) {
+            if (type != null) return this.fail(GL.INVALID_OPERATION, "cannot draw elements into transform feedback");
+            const primitives: {[mode: number]: GLenum} = {
+                [GL.POINTS]: GL.POINTS, [GL.LINES]: GL.LINES, [GL.LINE_LOOP]: GL.LINES,
+                [GL.LINE_STRIP]: GL.LINES, [GL.TRIANGLES]: GL.TRIANGLES,
+                [GL.TRIANGLE_STRIP]: GL.TRIANGLES, [GL.TRIANGLE_FAN]: GL.TRIANGLES,
+            };
+            if (primitives[mode] !== feedback.mode) {
+                return this.fail(GL.INVALID_OPERATION, "the mode does not match transform feedback");
+            }
+        }
+
+        let vertices = first + count;
+        if (type != null) {
+            const sizes: {[type: number]: number} = {[GL.UNSIGNED_BYTE]: 1, [GL.UNSIGNED_SHORT]: 2};
+            if (this.version === 2 || this.enabled("OES_element_index_uint")) sizes[GL.UNSIGNED_INT] = 4;
+            const size = sizes[type];
+            if (size == null) return this.fail(GL.INVALID_ENUM, `invalid index type 0x${Number(type).toString(16)}`);
+            const buffer = this.vertexArray.elements;
+            if (buffer == null) return this.fail(GL.INVALID_OPERATION, "no element array buffer bound");
+            if (offset < 0) return this.fail(GL.INVALID_VALUE, "negative offset");
+            if (offset % size !== 0) return this.fail(GL.INVALID_OPERATION, "offset is not a multiple of the index size");
+            if (offset + count * size > buffer.data.length) {
+                return this.fail(GL.INVALID_OPERATION, "the indices exceed the element array buffer");
+            }
+            const data = new DataView(buffer.data.buffer, buffer.data.byteOffset, buffer.data.byteLength);
+            const restart = Math.pow(2, size * 8) - 1;
+            vertices = 0;
+            for (let i = 0; i < count; i++) {
+                const at = offset + i * size;
+                const index = size === 1 ? data.getUint8(at) : size === 2 ? data.getUint16(at, true) :
+                    data.getUint32(at, true);
+                if (this.version === 2 && index === restart) continue;
+                vertices = Math.max(vertices, index + 1);
+            }
+        }
+        if (count === 0 || instances === 0) return;
+
+        for (const attrib of program.attribs) {
+            const info = GLSL_ENUMS[attrib.type];
+            for (let i = 0; i < info.columns * attrib.size; i++) {
+                const state = this.vertexArray.attribs[attrib.location + i];
+                if (!state.enabled) continue;
+                if (state.buffer == null) {
+                    return this.fail(GL.INVALID_OPERATION, `attrib ${attrib.name} is enabled without a buffer`);
+                }
+                if (this.version === 2 && (info.kind === "int" || info.kind === "uint") !== state.integer) {
+                    return this.fail(GL.INVALID_OPERATION, `attrib ${attrib.name} is ` +
+                        (state.integer ? "not an integer, use vertexAttribPointer()" : "an integer, use vertexAttribIPointer()"));
+                }
+                const n = state.divisor === 0 ? vertices : Math.ceil(instances / state.divisor);
+                const packed = state.type === GL.INT_2_10_10_10_REV || state.type === GL.UNSIGNED_INT_2_10_10_10_REV;
+                const size = packed ? 4 : attribBytes(state.type) * state.size;
+                if (n > 0 && state.offset + (n - 1) * (state.stride || size) + size > state.buffer.data.length) {
+                    return this.fail(GL.INVALID_OPERATION, `attrib ${attrib.name} reads past the end of its buffer`);
+                }
+            }
+        }
+
+        const framebuffer = this.drawFramebuffer;
+        if (framebuffer != null) {
+            for (const uniform of program.uniforms) {
+                const info = GLSL_ENUMS[uniform.type];
+                if (info.kind !== "sampler") continue;
+                for (const unit of uniform.value) {
+                    const texture = this.textures[unit][info.target as GLenum];
+                    if (texture != null && Object.keys(framebuffer.attachments).some(
+                        (point) => framebuffer.attachments[Number(point)].object === texture)) {
+                        return this.fail(GL.INVALID_OPERATION,
+                            `${uniform.name} samples a texture attached to the framebuffer`);
+                    }
+                }
+            }
+        }
+        this.draws++;
+    }
+
+    drawArrays(mode: GLenum, first: number, count: number) {
+        this.draw(mode, first, count, null, 0, 1);
+    }
+
+    drawElements(mode: GLenum, count: number, type: GLenum, offset: number) {
+        this.draw(mode, 0, count, type, offset, 1);
+    }
+
+    /**
+     * Make a query or fence result available on a later task, like browsers do.
+     * @param {Function} callback
+     */
+    protected later(callback: () => void) {
+        setTimeout(callback, 0);
+    }
+
+    /**
+     * queryCounterEXT() of EXT_disjoint_timer_query_webgl2.
+     * @param {MockQuery} query
+     * @param {GLenum} target
+     */
+    protected queryCounter(query: MockQuery, target: GLenum) {
+        if (query == null) throw new TypeError(`${this.current}: query is null`);
+        if (!this.oneOf(target, [TIMESTAMP_EXT], "query target") || !this.check(query, MockQuery)) return;
+        if (query.active || query.target != null && query.target !== target) {
+            return this.fail(GL.INVALID_OPERATION, "the query is active or of another target");
+        }
+        query.target = target;
+        query.bound = true;
+        query.available = false;
+        query.result = Date.now() * 1e6;
+        this.later(() => query.available = true);
+    }
+}
+
+export class MockWebGLRenderingContext extends MockContext {
+    /**
+     * A mock WebGLRenderingContext, see MockContext.
+     * @param {MockOptions} [options]
+     * @param {MockCanvas} [canvas]
+     * @param {Object} [attributes]
+     * @constructor
+     */
+    constructor(options: MockOptions = {}, canvas?: MockCanvas, attributes?: WebGLContextAttributes) {
+        super(1, options, canvas, attributes);
+    }
+}
+
+export class MockWebGL2RenderingContext extends MockContext {
+    /**
+     * A mock WebGL2RenderingContext, see MockContext.
+     * @param {MockOptions} [options]
+     * @param {MockCanvas} [canvas]
+     * @param {Object} [attributes]
+     * @constructor
+     */
+    constructor(options: MockOptions = {}, canvas?: MockCanvas, attributes?: WebGLContextAttributes) {
+        super(2, options, canvas, attributes);
+    }
+
+    protected textureTargets(): GLenum[] {
+        return [GL.TEXTURE_2D, GL.TEXTURE_CUBE_MAP, GL.TEXTURE_3D, GL.TEXTURE_2D_ARRAY];
+    }
+
+    protected bufferTargets(): GLenum[] {
+        return Object.keys(BUFFER_TARGETS).map(Number);
+    }
+
+    protected capabilities(): GLenum[] {
+        return CAPABILITIES.concat(GL.RASTERIZER_DISCARD);
+    }
+
+    protected framebufferTargets(): GLenum[] {
+        return [GL.FRAMEBUFFER, GL.DRAW_FRAMEBUFFER, GL.READ_FRAMEBUFFER];
+    }
+
+    protected parameter(pname: GLenum): unknown {
+        if (pname >= GL.DRAW_BUFFER0 && pname <= GL.DRAW_BUFFER15) {
+            return this.activeDrawBuffers()[pname - GL.DRAW_BUFFER0] || GL.NONE;
+        }
+        switch (pname) {
+        case GL.READ_FRAMEBUFFER_BINDING: return this.readFramebuffer;
+        case GL.READ_BUFFER: return this.readFramebuffer ? this.readFramebuffer.readBuffer : this.defaultReadBuffer;
+        case GL.SAMPLER_BINDING: return this.samplers[this.unit];
+        case GL.TRANSFORM_FEEDBACK_BINDING: return this.feedback === this.defaultFeedback ? null : this.feedback;
+        case GL.TRANSFORM_FEEDBACK_ACTIVE: return this.feedback.active;
+        case GL.TRANSFORM_FEEDBACK_PAUSED: return this.feedback.paused;
+        }
+        return undefined;
+    }
+
+    // framebuffers
+
+    drawBuffers(buffers: GLenum[]) {
+        this.setDrawBuffers(buffers);
+    }
+
+    readBuffer(src: GLenum) {
+        const framebuffer = this.readFramebuffer;
+        if (framebuffer == null) {
+            if (src !== GL.BACK && src !== GL.NONE) {
+                return this.fail(GL.INVALID_OPERATION, "the default framebuffer reads from BACK or NONE");
+            }
+            this.defaultReadBuffer = src;
+            return;
+        }
+        const colors = this.limit(GL.MAX_COLOR_ATTACHMENTS);
+        if (src !== GL.NONE && !(src >= GL.COLOR_ATTACHMENT0 && src < GL.COLOR_ATTACHMENT0 + colors)) {
+            return this.fail(src === GL.BACK ? GL.INVALID_OPERATION : GL.INVALID_ENUM, "invalid read buffer");
+        }
+        framebuffer.readBuffer = src;
+    }
+
+    framebufferTextureLayer(target: GLenum, attachment: GLenum, texture: MockTexture | null, level: number,
+                            layer: number) {
+        const framebuffer = this.boundFramebuffer(target);
+        if (framebuffer == null || !this.oneOf(attachment, this.attachmentPoints(), "attachment") ||
+            !this.check(texture, MockTexture)) return;
+        if (texture == null) return this.attach(framebuffer, attachment, null);
+        if (texture.target !== GL.TEXTURE_3D && texture.target !== GL.TEXTURE_2D_ARRAY) {
+            return this.fail(GL.INVALID_OPERATION, "the texture is not a 3D or array texture");
+        }
+        const max = this.limit(texture.target === GL.TEXTURE_3D ? GL.MAX_3D_TEXTURE_SIZE : GL.MAX_ARRAY_TEXTURE_LAYERS);
+        if (level < 0 || layer < 0 || layer >= max || Math.pow(2, level) > this.limit(GL.MAX_3D_TEXTURE_SIZE)) {
+            return this.fail(GL.INVALID_VALUE, `invalid level ${level} or layer ${layer}`);
+        }
+        this.attach(framebuffer, attachment, {object: texture, level, face: texture.target, layer});
+    }
+
+    renderbufferStorageMultisample(target: GLenum, samples: number, internalFormat: GLenum, width: number,
+                                   height: number) {
+        this.storage(target, samples, internalFormat, width, height);
+    }
+
+    getInternalformatParameter(target: GLenum, internalFormat: GLenum, pname: GLenum): Int32Array | null {
+        if (!this.oneOf(target, [GL.RENDERBUFFER], "renderbuffer target") ||
+            !this.oneOf(pname, [GL.SAMPLES], "internal format parameter")) return null;
+        const format = this.renderbufferFormat(internalFormat);
+        if (format == null) {
+            return this.fail(GL.INVALID_ENUM, `invalid internal format 0x${Number(internalFormat).toString(16)}`);
+        }
+        return new Int32Array(integerFormat(format.format) ? [] : [this.limit(GL.MAX_SAMPLES)]);
+    }
+
+    invalidateFramebuffer(target: GLenum, attachments: GLenum[]) {
+        this.invalidateSubFramebuffer(target, attachments, 0, 0, 0, 0);
+    }
+
+    invalidateSubFramebuffer(target: GLenum, attachments: GLenum[], x: number, y: number, width: number,
+                             height: number) {
+        if (!this.oneOf(target, this.framebufferTargets(), "framebuffer target")) return;
+        if (width < 0 || height < 0) return this.fail(GL.INVALID_VALUE, "negative size");
+        const framebuffer = target === GL.READ_FRAMEBUFFER ? this.readFramebuffer : this.drawFramebuffer;
+        const points = framebuffer == null ? [GL.COLOR, GL.DEPTH, GL.STENCIL] : this.attachmentPoints();
+        for (const attachment of attachments) {
+            if (!this.oneOf(attachment, points, "attachment")) return;
+        }
+        // contents are kept, which is one of the things invalidating may do
+    }
+
+    /**
+     * The shared part of the clearBuffer calls.
+     * @param {GLenum} buffer
+     * @param {number} drawbuffer
+     * @param {Array<number>} values
+     * @param {string} kind of color buffers the call clears
+     */
+    protected clearBuffer(buffer: GLenum, drawbuffer: number, values: number[], kind: string) {
+        if (!this.drawable()) return;
+        if (buffer === GL.COLOR) {
+            if (drawbuffer < 0 || drawbuffer >= this.limit(GL.MAX_DRAW_BUFFERS)) {
+                return this.fail(GL.INVALID_VALUE, `invalid draw buffer ${drawbuffer}`);
+            }
+            const target = this.colorImage(drawbuffer);
+            if (target == null) return;
+            const actual = imageKind(target.image);
+            if ((actual === "normalized" ? "float" : actual) !== kind) {
+                return this.fail(GL.INVALID_OPERATION, `the draw buffer is not of ${kind} values`);
+            }
+            return this.fill(target, this.clearValues(values, target.image));
+        }
+        if (drawbuffer !== 0) return this.fail(GL.INVALID_VALUE, "the draw buffer of depth and stencil must be 0");
+        if (buffer === GL.DEPTH || buffer === GL.DEPTH_STENCIL) {
+            if (this.values[GL.DEPTH_WRITEMASK]) {
+                this.fill(this.depthStencilImage(GL.DEPTH_ATTACHMENT), [Math.min(Math.max(values[0], 0), 1)]);
+            }
+        }
+        if (buffer === GL.STENCIL || buffer === GL.DEPTH_STENCIL) {
+            this.clearStencilBuffer(buffer === GL.STENCIL ? values[0] : values[1]);
+        }
+    }
+
+    clearBufferfv(buffer: GLenum, drawbuffer: number, values: ArrayLike<number>, srcOffset = 0) {
+        if (!this.oneOf(buffer, [GL.COLOR, GL.DEPTH], "buffer")) return;
+        const data = this.elements(values, srcOffset);
+        if (data.length < (buffer === GL.COLOR ? 4 : 1)) return this.fail(GL.INVALID_VALUE, "too few values");
+        this.clearBuffer(buffer, drawbuffer, data, "float");
+    }
+
+    clearBufferiv(buffer: GLenum, drawbuffer: number, values: ArrayLike<number>, srcOffset = 0) {
+        if (!this.oneOf(buffer, [GL.COLOR, GL.STENCIL], "buffer")) return;
+        const data = this.elements(values, srcOffset);
+        if (data.length < (buffer === GL.COLOR ? 4 : 1)) return this.fail(GL.INVALID_VALUE, "too few values");
+        this.clearBuffer(buffer, drawbuffer, data, "int");
+    }
+
+    clearBufferuiv(buffer: GLenum, drawbuffer: number, values: ArrayLike<number>, srcOffset = 0) {
+        if (!this.oneOf(buffer, [GL.COLOR], "buffer")) return;
+        const data = this.elements(values, srcOffset);
+        if (data.length < 4) return this.fail(GL.INVALID_VALUE, "too few values");
+        this.clearBuffer(buffer, drawbuffer, data, "uint");
+    }
+
+    clearBufferfi(buffer: GLenum, drawbuffer: number, depth: number, stencil: number) {
+        if (this.oneOf(buffer, [GL.DEPTH_STENCIL], "buffer")) this.clearBuffer(buffer, drawbuffer, [depth, stencil], "");
+    }
+
+    // buffers
+
+    getBufferSubData(target: GLenum, srcByteOffset: number, dstBuffer: ArrayBufferView, dstOffset = 0,
+                     length = 0) {
+        const buffer = this.targetBuffer(target);
+        if (buffer == null) return;
+        if (!isView(dstBuffer)) throw new TypeError(`${this.current}: parameter is not an ArrayBufferView`);
+        const size = (dstBuffer as Uint8Array).BYTES_PER_ELEMENT || 1;
+        const bytes = bytesOf(dstBuffer);
+        const count = (length > 0 ? length : bytes.length / size - dstOffset) * size;
+        if (dstOffset * size + count > bytes.length || srcByteOffset < 0 ||
+            srcByteOffset + count > buffer.data.length) {
+            return this.fail(GL.INVALID_VALUE, "the range exceeds the buffer or the destination");
+        }
+        if (this.feedback.active && Object.keys(this.feedback.buffers).some(
+            (i) => this.feedback.buffers[Number(i)].buffer === buffer)) {
+            return this.fail(GL.INVALID_OPERATION, "the buffer is in use by transform feedback");
+        }
+        bytes.set(buffer.data.subarray(srcByteOffset, srcByteOffset + count), dstOffset * size);
+    }
+
+    copyBufferSubData(readTarget: GLenum, writeTarget: GLenum, readOffset: number, writeOffset: number,
+                      size: number) {
+        const read = this.targetBuffer(readTarget), write = this.targetBuffer(writeTarget);
+        if (read == null || write == null) return;
+        if (readOffset < 0 || writeOffset < 0 || size < 0 || readOffset + size > read.data.length ||
+            writeOffset + size > write.data.length) {
+            return this.fail(GL.INVALID_VALUE, "the range exceeds a buffer");
+        }
+        if (read === write && Math.abs(readOffset - writeOffset) < size) {
+            return this.fail(GL.INVALID_VALUE, "the ranges overlap");
+        }
+        if (read.elements !== null && write.elements !== null && read.elements !== write.elements) {
+            return this.fail(GL.INVALID_OPERATION, "cannot copy between element array and other buffers");
+        }
+        write.data.set(read.data.slice(readOffset, readOffset + size), writeOffset);
+    }
+
+    /**
+     * @param {GLenum} target UNIFORM_BUFFER or TRANSFORM_FEEDBACK_BUFFER
+     * @param {number} index
+     * @returns {?MockIndexedBinding} the indexed binding, else null after raising an error
+     */
+    protected indexedBinding(target: GLenum, index: number): MockIndexedBinding | null {
+        if (!this.oneOf(target, [GL.UNIFORM_BUFFER, GL.TRANSFORM_FEEDBACK_BUFFER], "indexed buffer target")) {
+            return null;
+        }
+        if (target === GL.UNIFORM_BUFFER) {
+            return this.uniformBuffers[index] || this.fail(GL.INVALID_VALUE, `invalid index ${index}`);
+        }
+        if (!(index >= 0 && index < this.limit(GL.MAX_TRANSFORM_FEEDBACK_SEPARATE_ATTRIBS))) {
+            return this.fail(GL.INVALID_VALUE, `invalid index ${index}`);
+        }
+        const buffers = this.feedback.buffers;
+        return buffers[index] = buffers[index] || {buffer: null, offset: 0, size: 0};
+    }
+
+    bindBufferBase(target: GLenum, index: number, buffer: MockBuffer | null) {
+        this.bindBufferRange(target, index, buffer, 0, 0);
+    }
+
+    bindBufferRange(target: GLenum, index: number, buffer: MockBuffer | null, offset: number, size: number) {
+        const binding = this.indexedBinding(target, index);
+        if (binding == null || !this.check(buffer, MockBuffer)) return;
+        if (target === GL.TRANSFORM_FEEDBACK_BUFFER && this.feedback.active) {
+            return this.fail(GL.INVALID_OPERATION, "transform feedback is active");
+        }
+        const base = this.current === "bindBufferBase";
+        const alignment = target === GL.UNIFORM_BUFFER ? this.limit(GL.UNIFORM_BUFFER_OFFSET_ALIGNMENT) : 4;
+        if (buffer != null && !base && (size <= 0 || offset < 0 || offset % alignment !== 0)) {
+            return this.fail(GL.INVALID_VALUE, `invalid range, offsets must be multiples of ${alignment}`);
+        }
+        this.bindBuffer(target, buffer);
+        Object.assign(binding, {buffer, offset, size});
+    }
+
+    getIndexedParameter(target: GLenum, index: number): unknown {
+        const buffers: {[pname: number]: GLenum} = {
+            [GL.TRANSFORM_FEEDBACK_BUFFER_BINDING]: GL.TRANSFORM_FEEDBACK_BUFFER,
+            [GL.TRANSFORM_FEEDBACK_BUFFER_START]: GL.TRANSFORM_FEEDBACK_BUFFER,
+            [GL.TRANSFORM_FEEDBACK_BUFFER_SIZE]: GL.TRANSFORM_FEEDBACK_BUFFER,
+            [GL.UNIFORM_BUFFER_BINDING]: GL.UNIFORM_BUFFER,
+            [GL.UNIFORM_BUFFER_START]: GL.UNIFORM_BUFFER,
+            [GL.UNIFORM_BUFFER_SIZE]: GL.UNIFORM_BUFFER,
+        };
+        if (buffers[target] == null) {
+            return this.fail(GL.INVALID_ENUM, `invalid parameter 0x${Number(target).toString(16)}`);
+        }
+        const binding = this.indexedBinding(buffers[target], index);
+        if (binding == null) return null;
+        if (target === GL.TRANSFORM_FEEDBACK_BUFFER_BINDING || target === GL.UNIFORM_BUFFER_BINDING) {
+            return binding.buffer;
+        }
+        return target === GL.TRANSFORM_FEEDBACK_BUFFER_START || target === GL.UNIFORM_BUFFER_START ?
+            binding.offset : binding.size;
+    }
+
+    // uniform blocks
+
+    /**
+     * @param {MockProgram} program
+     * @param {number} index
+     * @returns {?MockUniformBlock} the active block, else null after raising an error
+     */
+    protected uniformBlock(program: MockProgram, index: number): MockUniformBlock | null {
+        if (!this.linked(program)) return null;
+        return program.blocks[index] || this.fail(GL.INVALID_VALUE, `no active uniform block ${index}`);
+    }
+
+    getUniformBlockIndex(program: MockProgram, name: string): number {
+        if (!this.linked(program)) return GL.INVALID_INDEX;
+        const index = program.blocks.map((b) => b.name).indexOf(name);
+        return index >= 0 ? index : GL.INVALID_INDEX;
+    }
+
+    getActiveUniformBlockName(program: MockProgram, index: number): string | null {
+        const block = this.uniformBlock(program, index);
+        return block ? block.name : null;
+    }
+
+    getActiveUniformBlockParameter(program: MockProgram, index: number, pname: GLenum): unknown {
+        const block = this.uniformBlock(program, index);
+        if (block == null) return null;
+        switch (pname) {
+        case GL.UNIFORM_BLOCK_BINDING: return block.binding;
+        case GL.UNIFORM_BLOCK_DATA_SIZE: return block.size;
+        case GL.UNIFORM_BLOCK_ACTIVE_UNIFORMS: return block.uniforms.length;
+        case GL.UNIFORM_BLOCK_ACTIVE_UNIFORM_INDICES: return new Uint32Array(block.uniforms);
+        case GL.UNIFORM_BLOCK_REFERENCED_BY_VERTEX_SHADER: return block.vertex;
+        case GL.UNIFORM_BLOCK_REFERENCED_BY_FRAGMENT_SHADER: return block.fragment;
+        }
+        return this.fail(GL.INVALID_ENUM, `invalid uniform block parameter 0x${Number(pname).toString(16)}`);
+    }
+
+    getActiveUniforms(program: MockProgram, indices: number[], pname: GLenum): unknown[] | null {
+        if (!this.linked(program)) return null;
+        const uniforms: MockVariable[] = [];
+        for (const index of Array.from(indices)) {
+            if (program.uniforms[index] == null) return this.fail(GL.INVALID_VALUE, `no active uniform ${index}`);
+            uniforms.push(program.uniforms[index]);
+        }
+        const fields: {[pname: number]: (u: MockVariable, layout: MockBlockLayout | undefined) => unknown} = {
+            [GL.UNIFORM_TYPE]: (u) => u.type,
+            [GL.UNIFORM_SIZE]: (u) => u.size,
+            [GL.UNIFORM_BLOCK_INDEX]: (u, layout) => layout ? layout.block : -1,
+            [GL.UNIFORM_OFFSET]: (u, layout) => layout ? layout.offset : -1,
+            [GL.UNIFORM_ARRAY_STRIDE]: (u, layout) => layout ? layout.arrayStride : -1,
+            [GL.UNIFORM_MATRIX_STRIDE]: (u, layout) => layout ? layout.matrixStride : -1,
+            [GL.UNIFORM_IS_ROW_MAJOR]: (u, layout) => layout ? layout.rowMajor : false,
+        };
+        const field = fields[pname];
+        if (field == null) {
+            return this.fail(GL.INVALID_ENUM, `invalid uniform parameter 0x${Number(pname).toString(16)}`);
+        }
+        return uniforms.map((u) => field(u, u.layout));
+    }
+
+    getUniformIndices(program: MockProgram, names: string[]): number[] | null {
+        if (!this.linked(program)) return null;
+        return names.map((name) => {
+            const index = program.uniforms.map((u) => u.name).indexOf(name);
+            return index >= 0 ? index : program.uniforms.map((u) => u.name).indexOf(`${name}[0]`);
+        }).map((index) => index >= 0 ? index : GL.INVALID_INDEX);
+    }
+
+    uniformBlockBinding(program: MockProgram, index: number, binding: number) {
+        const block = this.uniformBlock(program, index);
+        if (block == null) return;
+        if (!(binding >= 0 && binding < this.limit(GL.MAX_UNIFORM_BUFFER_BINDINGS))) {
+            return this.fail(GL.INVALID_VALUE, `invalid uniform buffer binding ${binding}`);
+        }
+        block.binding = binding;
+    }
+
+    // textures
+
+    texImage3D(target: GLenum, level: number, internalFormat: GLenum, width: number, height: number,
+               depth: number, border: number, format: GLenum, type: GLenum, pixels: unknown, srcOffset = 0) {
+        this.texImage(target, level, internalFormat, width, height, depth, border, format, type, pixels,
+                      srcOffset, 3);
+    }
+
+    texSubImage3D(target: GLenum, level: number, xoffset: number, yoffset: number, zoffset: number,
+                  width: number, height: number, depth: number, format: GLenum, type: GLenum, pixels: unknown,
+                  srcOffset = 0) {
+        this.texSubImage(target, level, xoffset, yoffset, zoffset, width, height, depth, format, type, pixels,
+                         srcOffset, 3);
+    }
+
+    copyTexSubImage3D(target: GLenum, level: number, xoffset: number, yoffset: number, zoffset: number,
+                      x: number, y: number, width: number, height: number) {
+        this.copyTexSubImage(target, level, xoffset, yoffset, zoffset, x, y, width, height, 3);
+    }
+
+    /**
+     * The shared part of texStorage2D() and texStorage3D().
+     */
+    protected texStorage(target: GLenum, levels: number, internalFormat: GLenum, width: number, height: number,
+                         depth: number, targets: GLenum[]) {
+        if (!this.oneOf(target, targets, "texture target")) return;
+        const texture = this.boundTexture(target);
+        if (texture == null) return;
+        if (texture.levels > 0) return this.fail(GL.INVALID_OPERATION, "the texture is immutable");
+        const format = SIZED_FORMATS[internalFormat];
+        if (format == null) {
+            return this.fail(GL.INVALID_ENUM, `invalid internal format 0x${Number(internalFormat).toString(16)}`);
+        }
+        if (width < 1 || height < 1 || depth < 1 || levels < 1 || !this.checkLevel(target, 0, width, height, depth)) {
+            return levels < 1 || width < 1 || height < 1 || depth < 1 ? this.fail(GL.INVALID_VALUE, "invalid size") : null;
+        }
+        const array = target === GL.TEXTURE_2D_ARRAY;
+        const largest = Math.max(width, height, array ? 1 : depth);
+        if (levels > Math.floor(Math.log2(largest)) + 1) {
+            return this.fail(GL.INVALID_OPERATION, `${levels} levels are too many for ${width}x${height}x${depth}`);
+        }
+        const faces = target === GL.TEXTURE_CUBE_MAP ?
+            [0, 1, 2, 3, 4, 5].map((i) => GL.TEXTURE_CUBE_MAP_POSITIVE_X + i) : [target];
+        for (let level = 0; level < levels; level++) {
+            for (const face of faces) {
+                texture.images[`${face}:${level}`] = new MockImage(Math.max(width >> level, 1),
+                    Math.max(height >> level, 1), array ? depth : Math.max(depth >> level, 1),
+                    internalFormat, format.format, format.types[0]);
+            }
+        }
+        texture.levels = levels;
+    }
+
+    texStorage2D(target: GLenum, levels: number, internalFormat: GLenum, width: number, height: number) {
+        this.texStorage(target, levels, internalFormat, width, height, 1, [GL.TEXTURE_2D, GL.TEXTURE_CUBE_MAP]);
+    }
+
+    texStorage3D(target: GLenum, levels: number, internalFormat: GLenum, width: number, height: number,
+                 depth: number) {
+        this.texStorage(target, levels, internalFormat, width, height, depth, [GL.TEXTURE_3D, GL.TEXTURE_2D_ARRAY]);
+    }
+
+    // samplers
+
+    createSampler(): MockSampler {
+        return this.create(new MockSampler(this));
+    }
+
+    deleteSampler(sampler: MockSampler | null) {
+        if (!this.deletable(sampler, MockSampler)) return;
+        this.samplers = this.samplers.map((bound) => bound === sampler ? null : bound);
+    }
+
+    isSampler(sampler: MockSampler | null): boolean {
+        return this.isObject(sampler, MockSampler);
+    }
+
+    bindSampler(unit: number, sampler: MockSampler | null) {
+        if (!(unit >= 0 && unit < this.samplers.length)) return this.fail(GL.INVALID_VALUE, `invalid unit ${unit}`);
+        if (this.check(sampler, MockSampler)) this.samplers[unit] = sampler;
+    }
+
+    samplerParameteri(sampler: MockSampler, pname: GLenum, param: number) {
+        if (sampler == null) throw new TypeError(`${this.current}: sampler is null`);
+        if (this.check(sampler, MockSampler) && this.textureParameter(pname, param, true)) {
+            sampler.params[pname] = param;
+        }
+    }
+
+    samplerParameterf(sampler: MockSampler, pname: GLenum, param: number) {
+        this.samplerParameteri(sampler, pname, param);
+    }
+
+    getSamplerParameter(sampler: MockSampler, pname: GLenum): unknown {
+        if (sampler == null) throw new TypeError(`${this.current}: sampler is null`);
+        if (!this.check(sampler, MockSampler) || !this.textureParameter(pname, sampler.params[pname], true)) {
+            return null;
+        }
+        return sampler.params[pname];
+    }
+
+    // vertex arrays and instancing
+
+    createVertexArray(): MockVertexArray {
+        return this.createVertexArrayObject();
+    }
+
+    deleteVertexArray(vertexArray: MockVertexArray | null) {
+        this.deleteVertexArrayObject(vertexArray);
+    }
+
+    isVertexArray(vertexArray: MockVertexArray | null): boolean {
+        return this.isObject(vertexArray, MockVertexArray);
+    }
+
+    bindVertexArray(vertexArray: MockVertexArray | null) {
+        this.bindVertexArrayObject(vertexArray);
+    }
+
+    vertexAttribDivisor(index: number, divisor: number) {
+        this.divisor(index, divisor);
+    }
+
+    vertexAttribIPointer(index: number, size: number, type: GLenum, stride: number, offset: number) {
+        this.pointer(index, size, type, false, stride, offset, true);
+    }
+
+    vertexAttribI4i(index: number, x: number, y: number, z: number, w: number) {
+        this.generic4(index, [x, y, z, w], 4);
+    }
+
+    vertexAttribI4ui(index: number, x: number, y: number, z: number, w: number) {
+        this.generic4(index, [x, y, z, w], 4);
+    }
+
+    vertexAttribI4iv(index: number, values: ArrayLike<number>) {
+        this.generic4(index, values, 4);
+    }
+
+    vertexAttribI4uiv(index: number, values: ArrayLike<number>) {
+        this.generic4(index, values, 4);
+    }
+
+    drawArraysInstanced(mode: GLenum, first: number, count: number, instances: number) {
+        this.draw(mode, first, count, null, 0, instances);
+    }
+
+    drawElementsInstanced(mode: GLenum, count: number, type: GLenum, offset: number, instances: number) {
+        this.draw(mode, 0, count, type, offset, instances);
+    }
+
+    drawRangeElements(mode: GLenum, start: number, end: number, count: number, type: GLenum, offset: number) {
+        if (end < start) return this.fail(GL.INVALID_VALUE, "end is less than start");
+        this.draw(mode, 0, count, type, offset, 1);
+    }
+
+    // uniforms
+
+    getFragDataLocation(program: MockProgram, name: string): number {
+        if (!this.linked(program)) return -1;
+        const fragment = program.shaders.filter((s) => s.type === GL.FRAGMENT_SHADER)[0];
+        const parsed = fragment && fragment.parsed;
+        if (parsed == null || parsed.version !== 300) return -1;
+        const outputs = parsed.declarations.filter((d) => d.qualifier === "out");
+        const output = outputs.filter((d) => d.name === name)[0];
+        if (output == null) return -1;
+        return output.location >= 0 ? output.location : outputs.length === 1 ? 0 : -1;
+    }
+
+    uniform1ui(location: MockUniformLocation | null, x: number) {
+        this.uniform("uniform1ui", location, [x], false);
+    }
+
+    uniform2ui(location: MockUniformLocation | null, x: number, y: number) {
+        this.uniform("uniform2ui", location, [x, y], false);
+    }
+
+    uniform3ui(location: MockUniformLocation | null, x: number, y: number, z: number) {
+        this.uniform("uniform3ui", location, [x, y, z], false);
+    }
+
+    uniform4ui(location: MockUniformLocation | null, x: number, y: number, z: number, w: number) {
+        this.uniform("uniform4ui", location, [x, y, z, w], false);
+    }
+
+    uniform1uiv(location: MockUniformLocation | null, data: ArrayLike<number>, srcOffset?: number,
+                srcLength?: number) {
+        this.uniform("uniform1ui", location, this.elements(data, srcOffset, srcLength), true);
+    }
+
+    uniform2uiv(location: MockUniformLocation | null, data: ArrayLike<number>, srcOffset?: number,
+                srcLength?: number) {
+        this.uniform("uniform2ui", location, this.elements(data, srcOffset, srcLength), true);
+    }
+
+    uniform3uiv(location: MockUniformLocation | null, data: ArrayLike<number>, srcOffset?: number,
+                srcLength?: number) {
+        this.uniform("uniform3ui", location, this.elements(data, srcOffset, srcLength), true);
+    }
+
+    uniform4uiv(location: MockUniformLocation | null, data: ArrayLike<number>, srcOffset?: number,
+                srcLength?: number) {
+        this.uniform("uniform4ui", location, this.elements(data, srcOffset, srcLength), true);
+    }
+
+    uniformMatrix2x3fv(location: MockUniformLocation | null, transpose: boolean, data: ArrayLike<number>,
+                       srcOffset?: number, srcLength?: number) {
+        this.uniform("uniformMatrix2x3f", location, this.elements(data, srcOffset, srcLength), true, transpose);
+    }
+
+    uniformMatrix2x4fv(location: MockUniformLocation | null, transpose: boolean, data: ArrayLike<number>,
+                       srcOffset?: number, srcLength?: number) {
+        this.uniform("uniformMatrix2x4f", location, this.elements(data, srcOffset, srcLength), true, transpose);
+    }
+
+    uniformMatrix3x2fv(location: MockUniformLocation | null, transpose: boolean, data: ArrayLike<number>,
+                       srcOffset?: number, srcLength?: number) {
+        this.uniform("uniformMatrix3x2f", location, this.elements(data, srcOffset, srcLength), true, transpose);
+    }
+
+    uniformMatrix3x4fv(location: MockUniformLocation | null, transpose: boolean, data: ArrayLike<number>,
+                       srcOffset?: number, srcLength?: number) {
+        this.uniform("uniformMatrix3x4f", location, this.elements(data, srcOffset, srcLength), true, transpose);
+    }
+
+    uniformMatrix4x2fv(location: MockUniformLocation | null, transpose: boolean, data: ArrayLike<number>,
+                       srcOffset?: number, srcLength?: number) {
+        this.uniform("uniformMatrix4x2f", location, this.elements(data, srcOffset, srcLength), true, transpose);
+    }
+
+    uniformMatrix4x3fv(location: MockUniformLocation | null, transpose: boolean, data: ArrayLike<number>,
+                       srcOffset?: number, srcLength?: number) {
+        this.uniform("uniformMatrix4x3f", location, this.elements(data, srcOffset, srcLength), true, transpose);
+    }
+
+    // queries
+
+    createQuery(): MockQuery {
+        return this.create(new MockQuery(this));
+    }
+
+    deleteQuery(query: MockQuery | null) {
+        if (!this.deletable(query, MockQuery)) return;
+        for (const target in this.queries) {
+            if (this.queries[target] === query) this.queries[target] = null;
+        }
+        query.active = false;
+    }
+
+    isQuery(query: MockQuery | null): boolean {
+        return this.isObject(query, MockQuery);
+    }
+
+    /**
+     * @returns {Array<GLenum>} the query targets of beginQuery()
+     */
+    protected queryTargets(): GLenum[] {
+        const targets = [GL.ANY_SAMPLES_PASSED, GL.ANY_SAMPLES_PASSED_CONSERVATIVE,
+                         GL.TRANSFORM_FEEDBACK_PRIMITIVES_WRITTEN];
+        return this.enabled("EXT_disjoint_timer_query_webgl2") ? targets.concat(TIME_ELAPSED_EXT) : targets;
+    }
+
+    beginQuery(target: GLenum, query: MockQuery) {
+        if (!this.oneOf(target, this.queryTargets(), "query target") || !this.check(query, MockQuery)) return;
+        if (query == null) return this.fail(GL.INVALID_OPERATION, "query is null");
+        if (this.queries[target] != null || query.active) {
+            return this.fail(GL.INVALID_OPERATION, "a query of the target is active, or the query is");
+        }
+        if (query.target != null && query.target !== target) {
+            return this.fail(GL.INVALID_OPERATION, "the query was begun with another target");
+        }
+        Object.assign(query, {target, bound: true, active: true, available: false, result: 0});
+        query.start = target === TIME_ELAPSED_EXT ? Date.now() : this.draws;
+        this.queries[target] = query;
+    }
+
+    endQuery(target: GLenum) {
+        if (!this.oneOf(target, this.queryTargets(), "query target")) return;
+        const query = this.queries[target];
+        if (query == null) return this.fail(GL.INVALID_OPERATION, "no query of the target is active");
+        this.queries[target] = null;
+        query.active = false;
+        if (target === TIME_ELAPSED_EXT) {
+            query.result = this.options.timeElapsed || 0;
+        } else if (target !== GL.TRANSFORM_FEEDBACK_PRIMITIVES_WRITTEN) {
+            query.result = this.draws > query.start ? 1 : 0;
+        }
+        this.later(() => query.available = true);
+    }
+
+    getQuery(target: GLenum, pname: GLenum): MockQuery | null {
+        if (!this.oneOf(target, this.queryTargets(), "query target") ||
+            !this.oneOf(pname, [GL.CURRENT_QUERY], "query parameter")) return null;
+        return this.queries[target] || null;
+    }
+
+    getQueryParameter(query: MockQuery, pname: GLenum): unknown {
+        if (query == null) throw new TypeError(`${this.current}: query is null`);
+        if (!this.check(query, MockQuery) ||
+            !this.oneOf(pname, [GL.QUERY_RESULT, GL.QUERY_RESULT_AVAILABLE], "query parameter")) return null;
+        if (query.active || query.target == null) {
+            return this.fail(GL.INVALID_OPERATION, "the query is active or was never used");
+        }
+        if (pname === GL.QUERY_RESULT_AVAILABLE) return query.available;
+        return query.target === GL.ANY_SAMPLES_PASSED || query.target === GL.ANY_SAMPLES_PASSED_CONSERVATIVE ?
+            query.result === 1 : query.result;
+    }
+
+    // syncs
+
+    fenceSync(condition: GLenum, flags: number): MockSync | null {
+        if (!this.oneOf(condition, [GL.SYNC_GPU_COMMANDS_COMPLETE], "sync condition")) return null;
+        if (flags !== 0) return this.fail(GL.INVALID_VALUE, "flags must be 0");
+        const sync = this.create(new MockSync(this));
+        this.later(() => sync.signaled = true);
+        return sync;
+    }
+
+    deleteSync(sync: MockSync | null) {
+        this.deletable(sync, MockSync);
+    }
+
+    isSync(sync: MockSync | null): boolean {
+        return this.isObject(sync, MockSync);
+    }
+
+    clientWaitSync(sync: MockSync, flags: number, timeout: number): GLenum {
+        if (sync == null) throw new TypeError(`${this.current}: sync is null`);
+        if (!this.check(sync, MockSync)) return GL.WAIT_FAILED;
+        if (flags & ~GL.SYNC_FLUSH_COMMANDS_BIT) {
+            this.fail(GL.INVALID_VALUE, `invalid flags 0x${Number(flags).toString(16)}`);
+            return GL.WAIT_FAILED;
+        }
+        if (timeout > this.limit(GL.MAX_CLIENT_WAIT_TIMEOUT_WEBGL)) {
+            this.fail(GL.INVALID_OPERATION, "the timeout exceeds MAX_CLIENT_WAIT_TIMEOUT_WEBGL");
+            return GL.WAIT_FAILED;
+        }
+        return sync.signaled ? GL.ALREADY_SIGNALED : GL.TIMEOUT_EXPIRED;
+    }
+
+    waitSync(sync: MockSync, flags: number, timeout: number) {
+        if (sync == null) throw new TypeError(`${this.current}: sync is null`);
+        if (!this.check(sync, MockSync)) return;
+        if (flags !== 0 || timeout !== -1) {
+            return this.fail(GL.INVALID_VALUE, "flags must be 0 and timeout TIMEOUT_IGNORED");
+        }
+    }
+
+    getSyncParameter(sync: MockSync, pname: GLenum): unknown {
+        if (sync == null) throw new TypeError(`${this.current}: sync is null`);
+        if (!this.check(sync, MockSync)) return null;
+        switch (pname) {
+        case GL.OBJECT_TYPE: return GL.SYNC_FENCE;
+        case GL.SYNC_STATUS: return sync.signaled ? GL.SIGNALED : GL.UNSIGNALED;
+        case GL.SYNC_CONDITION: return GL.SYNC_GPU_COMMANDS_COMPLETE;
+        case GL.SYNC_FLAGS: return 0;
+        }
+        return this.fail(GL.INVALID_ENUM, `invalid parameter 0x${Number(pname).toString(16)}`);
+    }
+
+    // transform feedback
+
+    createTransformFeedback(): MockTransformFeedback {
+        return this.create(new MockTransformFeedback(this));
+    }
+
+    deleteTransformFeedback(feedback: MockTransformFeedback | null) {
+        if (feedback != null && feedback === this.feedback && feedback.active) {
+            return this.fail(GL.INVALID_OPERATION, "the transform feedback is active");
+        }
+        if (!this.deletable(feedback, MockTransformFeedback)) return;
+        if (this.feedback === feedback) this.feedback = this.defaultFeedback;
+    }
+
+    isTransformFeedback(feedback: MockTransformFeedback | null): boolean {
+        return this.isObject(feedback, MockTransformFeedback);
+    }
+
+    bindTransformFeedback(target: GLenum, feedback: MockTransformFeedback | null) {
+        if (!this.oneOf(target, [GL.TRANSFORM_FEEDBACK], "transform feedback target") ||
+            !this.check(feedback, MockTransformFeedback)) return;
+        if (this.feedback.active && !this.feedback.paused) {
+            return this.fail(GL.INVALID_OPERATION, "transform feedback is active");
+        }
+        if (feedback != null) feedback.bound = true;
+        this.feedback = feedback || this.defaultFeedback;
+    }
+
+    beginTransformFeedback(mode: GLenum) {
+        if (!this.oneOf(mode, [GL.POINTS, GL.LINES, GL.TRIANGLES], "primitive mode")) return;
+        const feedback = this.feedback, program = this.program;
+        if (feedback.active) return this.fail(GL.INVALID_OPERATION, "transform feedback is active");
+        if (program == null || program.feedback.length === 0) {
+            return this.fail(GL.INVALID_OPERATION, "the program in use captures no varyings");
+        }
+        const count = program.feedbackMode === GL.INTERLEAVED_ATTRIBS ? 1 : program.feedback.length;
+        for (let i = 0; i < count; i++) {
+            if (feedback.buffers[i] == null || feedback.buffers[i].buffer == null) {
+                return this.fail(GL.INVALID_OPERATION, `no buffer bound to transform feedback index ${i}`);
+            }
+        }
+        Object.assign(feedback, {active: true, paused: false, program, mode});
+    }
+
+    endTransformFeedback() {
+        if (!this.feedback.active) return this.fail(GL.INVALID_OPERATION, "transform feedback is not active");
+        Object.assign(this.feedback, {active: false, paused: false, program: null});
+    }
+
+    pauseTransformFeedback() {
+        if (!this.feedback.active || this.feedback.paused) {
+            return this.fail(GL.INVALID_OPERATION, "transform feedback is not active or already paused");
+        }
+        this.feedback.paused = true;
+    }
+
+    resumeTransformFeedback() {
+        if (!this.feedback.paused) return this.fail(GL.INVALID_OPERATION, "transform feedback is not paused");
+        if (this.program !== this.feedback.program) {
+            return this.fail(GL.INVALID_OPERATION, "the program in use is not the one transform feedback began with");
+        }
+        this.feedback.paused = false;
+    }
+
+    transformFeedbackVaryings(program: MockProgram, varyings: string[], bufferMode: GLenum) {
+        if (program == null) throw new TypeError(`${this.current}: program is null`);
+        if (!this.check(program, MockProgram) ||
+            !this.oneOf(bufferMode, [GL.INTERLEAVED_ATTRIBS, GL.SEPARATE_ATTRIBS], "buffer mode")) return;
+        if (bufferMode === GL.SEPARATE_ATTRIBS &&
+            varyings.length > this.limit(GL.MAX_TRANSFORM_FEEDBACK_SEPARATE_ATTRIBS)) {
+            return this.fail(GL.INVALID_VALUE, "too many varyings");
+        }
+        program.varyings = varyings.slice();
+        program.bufferMode = bufferMode;
+    }
+
+    getTransformFeedbackVarying(program: MockProgram, index: number): MockActiveInfo | null {
+        if (!this.linked(program)) return null;
+        const varying = program.feedback[index];
+        if (varying == null) return this.fail(GL.INVALID_VALUE, `invalid index ${index}`);
+        return new MockActiveInfo(varying);
+    }
+}
+
+/**
+ * Copy the GL constants onto a mock context class, where WebGL has them:
+ * both on the constructor and on its prototype.
+ * @param {Function} type
+ * @param {Object} constants
+ */
+function defineConstants(type: {prototype: object}, constants: {[name: string]: number}) {
+    Object.assign(type, constants);
+    Object.assign(type.prototype, constants);
+}
+
+defineConstants(MockWebGLRenderingContext, WEBGL1_CONSTANTS);
+defineConstants(MockWebGL2RenderingContext, GL);
+
+/**
+ * Make a mock context of its own canvas.
+ * @param {MockOptions} [options] version 2 by default
+ * @returns {MockContext}
+ */
+export function mockContext(options: MockOptions = {}): MockContext {
+    const canvas = new MockCanvas(300, 150, options);
+    return canvas.getContext(options.version === 1 ? "webgl" : "webgl2") as MockContext;
+}
+
+/**
+ * Make a mock canvas, which Igloo accepts in place of an HTMLCanvasElement.
+ * @param {number} [width]
+ * @param {number} [height]
+ * @param {MockOptions} [options]
+ * @returns {MockCanvas}
+ */
+export function mockCanvas(width = 300, height = 150, options: MockOptions = {}): MockCanvas {
+    return new MockCanvas(width, height, options);
+}
+
+/**
+ * Define WebGLRenderingContext and WebGL2RenderingContext as the mock
+ * classes where they are missing, as in Node, so that Igloo can tell the
+ * versions of contexts apart.
+ */
+export function installGlobals() {
+    const global = globalThis as {[name: string]: unknown};
+    if (global.WebGLRenderingContext === undefined) global.WebGLRenderingContext = MockWebGLRenderingContext;
+    if (global.WebGL2RenderingContext === undefined) global.WebGL2RenderingContext = MockWebGL2RenderingContext;
+}
@@ -0,0 +1,103 @@
+import {test} from "node:test";
+import * as assert from "node:assert/strict";
+import {MockBuffer, MockContext} from "../mock";
+import {setup} from "./setup";
+
+test("update() uploads and read() reads back", function() {
+    const igloo = setup();
+    const buffer = igloo.array(new Float32Array([1, 2, 3]));
+    assert.equal(buffer.size, 12);
+    assert.deepEqual(Array.from(buffer.read() as Float32Array), [1, 2, 3]);
+    buffer.update(new Float32Array([4, 5]));
+    assert.deepEqual(Array.from(buffer.read() as Float32Array), [4, 5]);
+});
+
+test("subdata() writes at an offset", function() {
+    const igloo = setup();
+    const buffer = igloo.array(new Uint16Array([1, 2, 3, 4]));
+    buffer.subdata(4, new Uint16Array([9]));
+    assert.deepEqual(Array.from(buffer.read() as Uint16Array), [1, 2, 9, 4]);
+});
+
+test("copy() copies between buffers without leaving them bound", function() {
+    const igloo = setup();
+    const gl = igloo.gl as WebGL2RenderingContext;
+    const source = igloo.array(new Uint8Array([1, 2, 3, 4]));
+    const dest = igloo.array(new Uint8Array(4));
+    const mock = gl as unknown as MockContext;
+    mock.clearCalls();
+    dest.copy(source, 1, 0, 2);
+    assert.ok(mock.calls.some((call) => call.name === "copyBufferSubData"));
+    assert.equal(gl.getParameter(gl.COPY_READ_BUFFER_BINDING), null);
+    assert.deepEqual(Array.from(dest.read() as Uint8Array), [2, 3, 0, 0]);
+});
+
+test("readback requires WebGL2", function() {
+    const igloo = setup({version: 1});
+    assert.throws(() => igloo.array(new Float32Array(1)).read(), /requires WebGL2/);
+});
+
+test("growing keeps the contents and the WebGLBuffer", function() {
+    const igloo = setup();
+    const buffer = igloo.array(new Uint8Array([1, 2, 3, 4]));
+    const object = buffer.buffer;
+    buffer.subdata(4, new Uint8Array([5, 6]));
+    assert.equal(buffer.buffer, object);
+    assert.equal(buffer.size, 6);
+    assert.equal(buffer.capacity, 8);
+    assert.deepEqual(Array.from(buffer.read() as Uint8Array), [1, 2, 3, 4, 5, 6]);
+    buffer.reserve(64);
+    assert.equal(buffer.size, 6);
+    assert.equal(buffer.bytes(), 64);
+    assert.equal(igloo.gl.getError(), igloo.gl.NO_ERROR);
+});
+
+test("smaller updates keep a reserve(), also across a restore", function() {
+    const igloo = setup();
+    const mock = igloo.gl as unknown as MockContext;
+    const buffer = igloo.array(new Float32Array([1, 2, 3, 4]), igloo.gl.STATIC_DRAW).reserve(64);
+    mock.clearCalls();
+    buffer.update(new Float32Array([5, 6]), igloo.gl.STATIC_DRAW);
+    assert.deepEqual(mock.calls.map((call) => call.name).filter((name) => /^buffer/.test(name)),
+                     ["bufferSubData"]);
+    assert.equal(buffer.bytes(), 64);
+    igloo.loseContext();
+    igloo.restoreContext();
+    assert.equal(igloo.gl.getBufferParameter(igloo.gl.ARRAY_BUFFER, igloo.gl.BUFFER_SIZE), 64);
+    assert.deepEqual(Array.from(buffer.read() as Float32Array), [5, 6]);
+});
+
+test("read() leaves out a trailing partial element", function() {
+    const igloo = setup();
+    const buffer = igloo.array(new Uint8Array(10));
+    buffer.subdata(0, new Float32Array([1, 2]));
+    assert.equal(buffer.size, 10);
+    assert.deepEqual(Array.from(buffer.read() as Float32Array), [1, 2]);
+});
+
+test("vertex arrays still draw from a buffer that grew", function() {
+    const igloo = setup();
+    const gl = igloo.gl;
+    const program = igloo.program("attribute vec2 point; void main() { gl_Position = vec4(point, 0, 1); }",
+                                  "void main() { gl_FragColor = vec4(1); }");
+    const buffer = igloo.array(new Float32Array([0, 0, 1, 0, 0, 1]));
+    const vao = igloo.vertexArray({attribs: {point: {buffer, size: 2}}}, program);
+    buffer.subdata(buffer.size, new Float32Array([1, 1]));
+    assert.ok(gl.isBuffer(buffer.buffer));
+    vao.bind();
+    assert.equal(gl.getVertexAttrib(0, gl.VERTEX_ATTRIB_ARRAY_BUFFER_BINDING), buffer.buffer);
+    vao.unbind();
+    program.use().vertexArray(vao).draw(gl.TRIANGLE_STRIP, 4);
+});
+
+test("WebGL1 grows empty buffers and whole rewrites, but refuses to lose contents", function() {
+    const igloo = setup({version: 1});
+    const buffer = igloo.array();
+    buffer.subdata(0, new Uint8Array([1, 2]));
+    buffer.subdata(0, new Uint8Array([3, 4, 5, 6]));
+    assert.equal(buffer.size, 4);
+    assert.deepEqual(Array.from((buffer.buffer as unknown as MockBuffer).data), [3, 4, 5, 6]);
+    assert.throws(() => buffer.subdata(4, new Uint8Array(8)), /would lose its contents on WebGL1/);
+    assert.throws(() => buffer.reserve(64), /would lose its contents on WebGL1/);
+    assert.equal(buffer.size, 4);
+});
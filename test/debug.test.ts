@@ -0,0 +1,87 @@
+import {test} from "node:test";
+import * as assert from "node:assert/strict";
+import {Igloo} from "../igloo";
+import {mockCanvas} from "../mock";
+
+const VERTEX = `
+attribute vec2 point;
+void main() {
+    gl_Position = vec4(point, 0.0, 1.0);
+}
+`;
+
+const SAMPLE = `
+precision mediump float;
+uniform sampler2D image;
+void main() {
+    gl_FragColor = texture2D(image, vec2(0.5));
+}
+`;
+
+/**
+ * @returns {Igloo} in debug mode, on a WebGL2 mock canvas
+ */
+function debug(): Igloo {
+    return new Igloo(mockCanvas() as unknown as HTMLCanvasElement, {debug: true});
+}
+
+test("debug mode names a sampler without a texture", function() {
+    const igloo = debug();
+    const gl = igloo.gl;
+    const program = igloo.program(VERTEX, SAMPLE).setLabel("blit");
+    program.use().attrib("point", igloo.array(new Float32Array(6)), 2, 0);
+    assert.throws(() => program.draw(gl.TRIANGLES, 3), {
+        message: "Program 'blit': sampler 'image' reads texture unit 0, which has no texture of its type bound",
+    });
+});
+
+test("debug mode refuses attribs that are not active", function() {
+    const igloo = debug();
+    const program = igloo.program(VERTEX, SAMPLE).setLabel("blit");
+    assert.throws(() => program.attrib("normal", igloo.array(new Float32Array(6)), 2, 0), {
+        message: "Program 'blit': attrib 'normal' is not active (missing from the vertex shader, or optimized away)",
+    });
+});
+
+test("debug mode catches draws past the end of a buffer", function() {
+    const igloo = debug();
+    const gl = igloo.gl;
+    const program = igloo.program(VERTEX, SAMPLE).setLabel("blit");
+    igloo.texture(null).blank(1, 1).bind(0);
+    const points = igloo.array(new Float32Array(4)).setLabel("points");
+    program.use().attrib("point", points, 2, 0);
+    assert.throws(() => program.draw(gl.TRIANGLES, 3), {
+        message: "Program 'blit': attrib 'point' reads 24 bytes of Buffer 'points', which only holds 16",
+    });
+    const indices = igloo.elements(new Uint16Array([0, 1, 0])).setLabel("indices");
+    assert.throws(() => program.draw(gl.TRIANGLES, 6, indices), {
+        message: "Program 'blit': the draw reads 12 bytes of Buffer 'indices', which only holds 6",
+    });
+});
+
+test("debug mode catches a texture both sampled and rendered to", function() {
+    const igloo = debug();
+    const gl = igloo.gl;
+    const program = igloo.program(VERTEX, SAMPLE).setLabel("blit");
+    const target = igloo.texture(null).blank(4, 4).setLabel("target");
+    igloo.framebuffer(target).bind();
+    target.bind(0);
+    program.use().attrib("point", igloo.array(new Float32Array(6)), 2, 0);
+    assert.throws(() => program.draw(gl.TRIANGLES, 3), {
+        message: "Program 'blit': sampler 'image' reads Texture 'target', " +
+            "which is attached to the bound framebuffer (feedback loop)",
+    });
+});
+
+test("debug mode checks every call and decodes its arguments", function() {
+    const igloo = debug();
+    const gl = igloo.gl;
+    const albedo = igloo.texture(null).blank(1, 1).setLabel("albedo");
+    assert.throws(() => gl.bindTexture(gl.TEXTURE_CUBE_MAP, albedo.texture), {
+        message: "WebGL error INVALID_OPERATION in bindTexture(TEXTURE_CUBE_MAP, Texture 'albedo')",
+    });
+    gl.bindBuffer(gl.ARRAY_BUFFER, null);
+    assert.throws(() => gl.bufferData(gl.ARRAY_BUFFER, 16, gl.STATIC_DRAW), {
+        message: "WebGL error INVALID_OPERATION in bufferData(ARRAY_BUFFER, 16, STATIC_DRAW)",
+    });
+});
@@ -0,0 +1,181 @@
+import {test} from "node:test";
+import * as assert from "node:assert/strict";
+import {Igloo} from "../igloo";
+import {MockContext} from "../mock";
+import {setup} from "./setup";
+
+const MOVE = `#version 300 es
+in vec2 point;
+out vec2 moved;
+void main() {
+    moved = point + vec2(1.0);
+    gl_Position = vec4(point, 0.0, 1.0);
+}
+`;
+
+const WHITE = `#version 300 es
+precision mediump float;
+out vec4 color;
+void main() {
+    color = vec4(1.0);
+}
+`;
+
+test("transform feedback draws arrays and puts the state back", function() {
+    const igloo = setup();
+    const gl = igloo.gl as WebGL2RenderingContext;
+    const mock = igloo.gl as unknown as MockContext;
+    const program = igloo.program(MOVE, WHITE, {feedback: {varyings: ["moved"]}});
+    const points = igloo.array(new Float32Array([0, 0, 1, 0, 0, 1]));
+    const vao = igloo.vertexArray({
+        attribs: {point: {buffer: points, size: 2}},
+        elements: igloo.elements(new Uint16Array([0, 1, 2])),
+    }, program);
+    const output = igloo.array().reserve(24);
+    const feedback = igloo.transformFeedback([output]);
+    mock.clearCalls();
+    feedback.run(program.vertexArray(vao), gl.POINTS, 3);
+    const names = mock.calls.map((call) => call.name);
+    assert.ok(names.includes("drawArrays"));
+    assert.ok(!names.includes("drawElements"));
+    assert.equal(gl.isEnabled(gl.RASTERIZER_DISCARD), false);
+    assert.equal(gl.getParameter(gl.TRANSFORM_FEEDBACK_BUFFER_BINDING), null);
+    assert.equal(gl.getParameter(gl.TRANSFORM_FEEDBACK_BINDING), null);
+    assert.equal(gl.getError(), gl.NO_ERROR);
+});
+
+const QUAD = `
+attribute vec2 point;
+varying vec2 uv;
+void main() {
+    uv = point * 0.5 + 0.5;
+    gl_Position = vec4(point, 0.0, 1.0);
+}
+`;
+
+const BLEND = `
+precision mediump float;
+uniform sampler2D base;
+uniform sampler2D overlay;
+uniform vec4 tint;
+varying vec2 uv;
+void main() {
+    gl_FragColor = texture2D(base, uv) * tint + texture2D(overlay, uv);
+}
+`;
+
+test("draw commands give textures their own units and work out the count", function() {
+    const igloo = setup();
+    const gl = igloo.gl;
+    const mock = gl as unknown as MockContext;
+    const program = igloo.program(QUAD, BLEND);
+    const base = igloo.texture(null).blank(1, 1);
+    const overlay = igloo.texture(null).blank(1, 1);
+    const command = igloo.command({
+        program,
+        attribs: {point: {buffer: igloo.array(new Float32Array(12)), size: 2}},
+        uniforms: {base, overlay, tint: [1, 0, 0, 1]},
+    });
+    mock.clearCalls();
+    command.run();
+    const draws = mock.calls.filter((call) => /^draw/.test(call.name));
+    assert.deepEqual(draws.map((call) => [call.name, ...call.args]), [["drawArrays", gl.TRIANGLES, 0, 6]]);
+    const uniform = (name: string) => gl.getUniform(program.program,
+                                                    gl.getUniformLocation(program.program, name) as WebGLUniformLocation);
+    assert.equal(uniform("base"), 0);
+    assert.equal(uniform("overlay"), 1);
+    gl.activeTexture(gl.TEXTURE1);
+    assert.equal(gl.getParameter(gl.TEXTURE_BINDING_2D), overlay.texture);
+    gl.activeTexture(gl.TEXTURE0);
+    assert.equal(gl.getParameter(gl.TEXTURE_BINDING_2D), base.texture);
+});
+
+test("draw command overrides last for one call", function() {
+    const igloo = setup();
+    const gl = igloo.gl as WebGL2RenderingContext;
+    const mock = gl as unknown as MockContext;
+    const program = igloo.program(QUAD, BLEND);
+    const base = igloo.texture(null).blank(1, 1);
+    const other = igloo.texture(null).blank(1, 1);
+    const command = igloo.command({
+        program,
+        attribs: {point: {buffer: igloo.array(Igloo.QUAD2), size: 2}},
+        elements: igloo.elements(new Uint16Array([0, 1, 2, 2, 1, 3])),
+        uniforms: {base, overlay: base, tint: [1, 0, 0, 1]},
+    });
+    const tint = gl.getUniformLocation(program.program, "tint") as WebGLUniformLocation;
+    mock.clearCalls();
+    command.run({mode: gl.POINTS, offset: 4, instances: 2, uniforms: {tint: [0, 1, 0, 1], overlay: other}});
+    assert.deepEqual(Array.from(gl.getUniform(program.program, tint)), [0, 1, 0, 1]);
+    gl.activeTexture(gl.TEXTURE1);
+    assert.equal(gl.getParameter(gl.TEXTURE_BINDING_2D), other.texture);
+    command.run();
+    assert.deepEqual(Array.from(gl.getUniform(program.program, tint)), [1, 0, 0, 1]);
+    assert.equal(gl.getParameter(gl.TEXTURE_BINDING_2D), base.texture);
+    const draws = mock.calls.filter((call) => /^draw/.test(call.name));
+    assert.deepEqual(draws.map((call) => [call.name, ...call.args]), [
+        // the count leaves out the indices before the byte offset
+        ["drawElementsInstanced", gl.POINTS, 4, gl.UNSIGNED_SHORT, 4, 2],
+        ["drawElements", gl.TRIANGLES, 6, gl.UNSIGNED_SHORT, 0],
+    ]);
+    assert.equal(command.options.mode, undefined);
+});
+
+const STEP = `
+precision mediump float;
+uniform sampler2D state;
+uniform sampler2D noise;
+uniform float rate;
+varying vec2 uv;
+void main() {
+    gl_FragColor = texture2D(state, uv) * rate + texture2D(noise, uv);
+}
+`;
+
+test("ping-pong steps render into back, swap, and put the state back", function() {
+    const igloo = setup();
+    const gl = igloo.gl;
+    const mock = gl as unknown as MockContext;
+    const program = igloo.program(QUAD.replace(/\bpoint\b/g, "points"), STEP);
+    const noise = igloo.texture(null).blank(4, 4);
+    const pingPong = igloo.pingPong(4, 4);
+    const [front, back] = [pingPong.front, pingPong.back];
+    assert.equal(pingPong.swap().front, back);
+    pingPong.swap();
+
+    mock.clearCalls();
+    pingPong.step(program, {noise, rate: 0.5});
+    assert.equal(pingPong.front, back);
+    assert.equal(pingPong.back, front);
+    const binds = mock.calls.filter((call) => call.name === "bindFramebuffer");
+    assert.equal(binds[0].args[1], back.framebuffer.framebuffer);
+    const uniform = (name: string) => gl.getUniform(program.program,
+                                                    gl.getUniformLocation(program.program, name) as WebGLUniformLocation);
+    assert.deepEqual([uniform("state"), uniform("noise"), uniform("rate")], [0, 1, 0.5]);
+    assert.equal(gl.getParameter(gl.FRAMEBUFFER_BINDING), null);
+    assert.deepEqual(Array.from(gl.getParameter(gl.VIEWPORT)), [0, 0, 300, 150]);
+    assert.equal(gl.getError(), gl.NO_ERROR);
+});
+
+test("ping-pong resize() keeps the overlap of front only when asked", function() {
+    const igloo = setup();
+    const gl = igloo.gl;
+    const pingPong = igloo.pingPong(4, 4);
+    const old = pingPong.front;
+    const texture = old.texture.texture;
+    old.framebuffer.bind();
+    igloo.state.set({clearColor: [1, 0, 0, 1]});
+    gl.clear(gl.COLOR_BUFFER_BIT);
+    old.framebuffer.unbind();
+
+    pingPong.resize(2, 2, true);
+    assert.equal(pingPong.width, 2);
+    assert.deepEqual(Array.from(pingPong.front.texture.read() as Uint8Array),
+                     [255, 0, 0, 255, 255, 0, 0, 255, 255, 0, 0, 255, 255, 0, 0, 255]);
+    assert.ok(old.texture.disposed);
+    assert.equal(gl.isTexture(texture), false);
+    assert.equal(gl.getParameter(gl.FRAMEBUFFER_BINDING), null);
+
+    pingPong.resize(3, 1);
+    assert.deepEqual(Array.from(pingPong.front.texture.read() as Uint8Array), new Array(12).fill(0));
+});
@@ -0,0 +1,53 @@
+import {test} from "node:test";
+import * as assert from "node:assert/strict";
+import {setup} from "./setup";
+
+test("a framebuffer clears into its texture", function() {
+    const igloo = setup();
+    const gl = igloo.gl;
+    const texture = igloo.texture(null).blank(2, 2);
+    const framebuffer = igloo.framebuffer(texture).bind();
+    gl.clearColor(1, 0.5, 0, 1);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+    framebuffer.unbind();
+    const pixels = Array.from(framebuffer.read() as Uint8Array);
+    assert.deepEqual(pixels.slice(0, 4), [255, 128, 0, 255]);
+    assert.deepEqual(Array.from(texture.read() as Uint8Array), pixels);
+});
+
+test("clears respect the scissor box", function() {
+    const igloo = setup();
+    const gl = igloo.gl;
+    const framebuffer = igloo.framebuffer(igloo.texture(null).blank(2, 1)).bind();
+    gl.enable(gl.SCISSOR_TEST);
+    gl.scissor(1, 0, 1, 1);
+    gl.clearColor(1, 1, 1, 1);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+    assert.deepEqual(Array.from(framebuffer.read() as Uint8Array), [0, 0, 0, 0, 255, 255, 255, 255]);
+});
+
+test("depth attachments complete the framebuffer", function() {
+    const igloo = setup();
+    const gl = igloo.gl;
+    const framebuffer = igloo.framebuffer(igloo.texture(null).blank(4, 4));
+    framebuffer.attachDepth(4, 4);
+    framebuffer.bind();
+    assert.equal(gl.checkFramebufferStatus(gl.FRAMEBUFFER), gl.FRAMEBUFFER_COMPLETE);
+    assert.doesNotThrow(() => framebuffer.check());
+});
+
+test("attachments of different sizes are incomplete on WebGL1", function() {
+    const igloo = setup({version: 1});
+    const framebuffer = igloo.framebuffer(igloo.texture(null).blank(4, 4));
+    framebuffer.attachDepth(2, 2);
+    assert.throws(() => framebuffer.check());
+});
+
+test("readAsync() resolves once the fence signals", async function() {
+    const igloo = setup();
+    const gl = igloo.gl;
+    const framebuffer = igloo.framebuffer(igloo.texture(null).blank(1, 1)).bind();
+    gl.clearColor(0, 0, 1, 1);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+    assert.deepEqual(Array.from(await framebuffer.readAsync() as Uint8Array), [0, 0, 255, 255]);
+});
@@ -0,0 +1,173 @@
+import {test} from "node:test";
+import * as assert from "node:assert/strict";
+import {Igloo, OffscreenCanvas} from "../igloo";
+import {mockCanvas, MockContext, MockProgram} from "../mock";
+import {setup} from "./setup";
+
+test("Igloo prefers WebGL2 and falls back to WebGL1", function() {
+    assert.ok(setup().gl instanceof WebGL2RenderingContext);
+    const igloo = setup({version: 1});
+    assert.ok(!(igloo.gl instanceof WebGL2RenderingContext));
+    assert.equal(igloo.caps.version, 1);
+});
+
+test("capabilities enable extensions only when read", function() {
+    const igloo = setup({version: 1});
+    const mock = igloo.gl as unknown as MockContext;
+    const enabled = () => mock.calls.filter((call) => call.name === "getExtension").map((call) => call.args[0]);
+    assert.ok(!enabled().includes("OES_texture_float"));
+    assert.equal(igloo.caps.floatRenderable, igloo.caps.floatRenderable);
+    assert.equal(enabled().filter((name) => name === "OES_texture_float").length, 1);
+});
+
+test("Igloo wraps an existing context", function() {
+    const canvas = mockCanvas();
+    const gl = canvas.getContext("webgl2") as unknown as WebGL2RenderingContext;
+    const igloo = new Igloo(gl);
+    assert.equal(igloo.gl, gl);
+    assert.equal(igloo.canvas, canvas as unknown as HTMLCanvasElement);
+});
+
+test("resources are restored after a context loss", function() {
+    const igloo = setup();
+    const events: string[] = [];
+    igloo.on("lost", () => events.push("lost")).on("restored", () => events.push("restored"));
+    const buffer = igloo.array(new Float32Array([1, 2, 3, 4]));
+    const texture = igloo.texture(null).blank(4, 4);
+    igloo.loseContext();
+    assert.ok(igloo.lost);
+    igloo.restoreContext();
+    assert.deepEqual(events, ["lost", "restored"]);
+    assert.ok(igloo.gl.isBuffer(buffer.buffer));
+    assert.ok(igloo.gl.isTexture(texture.texture));
+    assert.deepEqual(Array.from(buffer.read() as Float32Array), [1, 2, 3, 4]);
+    assert.equal(igloo.gl.getError(), igloo.gl.NO_ERROR);
+});
+
+test("retained cube map and 3D textures come back after a context loss", function() {
+    const igloo = setup();
+    const cube = igloo.textureCube(null);
+    cube.retain = true;
+    for (let face = 0; face < 6; face++) cube.face(face, new Uint8Array([face * 10, 1, 2, 255]), 1, 1);
+    const volume = igloo.texture3D();
+    volume.retain = true;
+    volume.set(new Uint8Array([1, 2, 3, 4, 5, 6, 7, 8]), 1, 1, 2);
+    igloo.loseContext();
+    igloo.restoreContext();
+    assert.deepEqual(Array.from(cube.read({layer: 3}) as Uint8Array), [30, 1, 2, 255]);
+    assert.deepEqual(Array.from(volume.read({layer: 1}) as Uint8Array), [5, 6, 7, 8]);
+});
+
+test("vertex arrays look attrib locations up again after a restore", function() {
+    const igloo = setup();
+    const mock = igloo.gl as unknown as MockContext;
+    let moved = false;
+    // a driver is free to place attribs differently when relinking
+    mock.getAttribLocation = function(this: MockContext, program: MockProgram, name: string) {
+        const location = MockContext.prototype.getAttribLocation.call(this, program, name);
+        return moved && location >= 0 ? 1 - location : location;
+    };
+    const program = igloo.program("attribute vec2 a; attribute vec2 b; void main() { gl_Position = vec4(a + b, 0, 1); }",
+                                  "void main() { gl_FragColor = vec4(1); }");
+    const buffer = igloo.array(new Float32Array(8));
+    const vao = igloo.vertexArray({attribs: {a: {buffer, size: 2}, b: {buffer, size: 2, offset: 8}}}, program);
+    const gl = igloo.gl;
+    vao.bind();
+    assert.equal(gl.getVertexAttrib(program.attribLocation("b"), gl.VERTEX_ATTRIB_ARRAY_BUFFER_BINDING), buffer.buffer);
+    igloo.loseContext();
+    moved = true;
+    igloo.restoreContext();
+    assert.equal(program.attribLocation("b"), 0);
+    vao.bind();
+    assert.equal(gl.getVertexAttribOffset(0, gl.VERTEX_ATTRIB_ARRAY_POINTER), 8);
+    assert.equal(gl.getVertexAttribOffset(1, gl.VERTEX_ATTRIB_ARRAY_POINTER), 0);
+    vao.unbind();
+});
+
+test("one resource failing to restore does not stop the others", function() {
+    const igloo = setup();
+    const broken = igloo.array(new Float32Array(4));
+    const texture = igloo.texture(null).blank(2, 2);
+    broken.restore = function() { throw new Error("broken"); };
+    const errors: Error[] = [];
+    igloo.on("error", (error) => errors.push(error));
+    igloo.loseContext();
+    igloo.restoreContext();
+    assert.deepEqual(errors.map((error) => error.message), ["broken"]);
+    assert.ok(igloo.gl.isTexture(texture.texture));
+});
+
+test("restore failures are thrown without error listeners", function() {
+    const igloo = setup();
+    const buffer = igloo.array(new Float32Array(4));
+    buffer.restore = function() { throw new Error("broken"); };
+    igloo.loseContext();
+    assert.throws(() => igloo.restoreContext(), /broken/);
+});
+
+test("pop() does not rebind objects disposed inside its scope", function() {
+    const igloo = setup();
+    const gl = igloo.gl, state = igloo.state;
+    const buffer = igloo.array(new Float32Array(4));
+    const texture = igloo.texture(null).blank(2, 2);
+    state.bindBuffer(gl.ARRAY_BUFFER, buffer.buffer).bindTexture(gl.TEXTURE_2D, texture.texture, 0);
+    state.push();
+    const other = igloo.array(new Float32Array(4));
+    state.bindBuffer(gl.ARRAY_BUFFER, other.buffer).bindTexture(gl.TEXTURE_2D, null, 0);
+    buffer.dispose();
+    texture.dispose();
+    state.pop();
+    assert.equal(gl.getParameter(gl.ARRAY_BUFFER_BINDING), null);
+    assert.equal(gl.getParameter(gl.TEXTURE_BINDING_2D), null);
+    assert.equal(gl.getError(), gl.NO_ERROR);
+});
+
+test("labels name resources in errors and reports", function() {
+    const igloo = setup();
+    const buffer = igloo.array(new Float32Array(4)).setLabel("quad");
+    assert.deepEqual(igloo.report().resources.map((r) => `${r.type} ${r.label}`), ["Buffer quad"]);
+    buffer.dispose();
+    assert.throws(() => buffer.update(new Float32Array(4)), /Buffer 'quad' used after dispose\(\)/);
+});
+
+test("dispose() deletes every tracked resource", function() {
+    const igloo = setup();
+    const mock = igloo.gl as unknown as MockContext;
+    igloo.array(new Float32Array(4));
+    igloo.texture(null).blank(2, 2);
+    assert.equal(igloo.report().resources.length, 2);
+    igloo.dispose();
+    assert.deepEqual(mock.liveObjects(), []);
+    assert.equal(igloo.report().resources.length, 0);
+});
+
+test("canvases can be transferred to a worker", function() {
+    const page = mockCanvas(64, 32);
+    const posted: {message: {[key: string]: unknown}, transfer: unknown[]}[] = [];
+    const worker = {
+        postMessage(message: {[key: string]: unknown}, transfer: unknown[]) {
+            posted.push({message, transfer});
+        },
+    };
+    const offscreen = Igloo.transferToWorker(page as unknown as HTMLCanvasElement,
+                                             worker as unknown as Worker, {scene: "cells"});
+    assert.equal(posted.length, 1);
+    assert.deepEqual(posted[0].message, {scene: "cells", canvas: offscreen});
+    assert.deepEqual(posted[0].transfer, [offscreen]);
+    assert.throws(() => page.getContext("webgl2"), /InvalidStateError/);
+
+    // what the worker does with the canvas it receives
+    const igloo = new Igloo(posted[0].message.canvas as OffscreenCanvas);
+    assert.equal(igloo.canvas, offscreen);
+    assert.equal(igloo.gl.drawingBufferWidth, 64);
+});
+
+test("transferToWorker() throws without OffscreenCanvas support", function() {
+    const worker = {postMessage() { return; }} as unknown as Worker;
+    const canvas = {getContext: () => null} as unknown as HTMLCanvasElement;
+    assert.throws(() => Igloo.transferToWorker(canvas, worker), /OffscreenCanvas is not supported/);
+});
+
+test("fetch() explains what to use without XMLHttpRequest", function() {
+    assert.throws(() => Igloo.fetch("shader.vert"), /use loadProgram\(\) or loadText\(\)/);
+});
@@ -0,0 +1,169 @@
+import {test} from "node:test";
+import * as assert from "node:assert/strict";
+import {installGlobals, mockCanvas, mockContext, MockContext, MockContextEvent} from "../mock";
+
+installGlobals();
+
+test("contexts are instances of the WebGL globals and carry the constants", function() {
+    const gl2 = mockContext();
+    const gl1 = mockContext({version: 1});
+    assert.ok(gl2 instanceof WebGL2RenderingContext);
+    assert.ok(!(gl1 instanceof WebGL2RenderingContext));
+    assert.ok(gl1 instanceof WebGLRenderingContext);
+    assert.equal((gl2 as unknown as WebGL2RenderingContext).TEXTURE_3D, 0x806F);
+    assert.equal((gl1 as unknown as WebGL2RenderingContext).TEXTURE_3D, undefined);
+    assert.equal(WebGL2RenderingContext.RGBA8, 0x8058);
+});
+
+test("canvases hand out one kind of context", function() {
+    const canvas = mockCanvas(64, 32);
+    const gl = canvas.getContext("webgl2") as MockContext;
+    assert.equal(canvas.getContext("webgl2"), gl);
+    assert.equal(canvas.getContext("webgl"), null);
+    assert.equal(gl.drawingBufferWidth, 64);
+    assert.equal(gl.drawingBufferHeight, 32);
+    assert.equal(mockCanvas(1, 1, {version: 1}).getContext("webgl2"), null);
+});
+
+test("calls are recorded with their arguments", function() {
+    const gl = mockContext() as unknown as WebGL2RenderingContext;
+    const mock = gl as unknown as MockContext;
+    const buffer = gl.createBuffer();
+    gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+    gl.bufferData(gl.ARRAY_BUFFER, 16, gl.STATIC_DRAW);
+    assert.deepEqual(mock.calls.map((call) => call.name), ["createBuffer", "bindBuffer", "bufferData"]);
+    assert.deepEqual(mock.calls[1].args, [gl.ARRAY_BUFFER, buffer]);
+    mock.clearCalls();
+    assert.deepEqual(mock.calls, []);
+    assert.deepEqual(mock.liveObjects().map((object) => object.kind), ["Buffer"]);
+});
+
+test("invalid calls raise GL errors, or throw when strict", function() {
+    const gl = mockContext() as unknown as WebGL2RenderingContext;
+    gl.bindBuffer(0x1234, null);
+    assert.equal(gl.getError(), gl.INVALID_ENUM);
+    assert.equal(gl.getError(), gl.NO_ERROR);
+    gl.bufferData(gl.ARRAY_BUFFER, 16, gl.STATIC_DRAW);
+    assert.equal(gl.getError(), gl.INVALID_OPERATION);
+    assert.equal((gl as unknown as MockContext).errors.length, 2);
+
+    const strict = mockContext({strict: true}) as unknown as WebGL2RenderingContext;
+    assert.throws(() => strict.drawArrays(strict.TRIANGLES, 0, 3), /INVALID_OPERATION/);
+});
+
+test("methods the mock leaves out throw instead of doing nothing", function() {
+    const gl = mockContext() as unknown as WebGL2RenderingContext;
+    assert.throws(() => gl.compressedTexImage2D(gl.TEXTURE_2D, 0, 0, 1, 1, 0, new Uint8Array(1)),
+                  /does not implement compressedTexImage2D\(\)/);
+});
+
+test("a lost context invalidates its objects until restored", function() {
+    const canvas = mockCanvas();
+    const gl = canvas.getContext("webgl2") as unknown as WebGL2RenderingContext;
+    const events: string[] = [];
+    canvas.addEventListener("webglcontextlost", function(event: MockContextEvent) {
+        events.push(event.type);
+        event.preventDefault();
+    });
+    canvas.addEventListener("webglcontextrestored", (event: MockContextEvent) => events.push(event.type));
+    const texture = gl.createTexture();
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    const ext = gl.getExtension("WEBGL_lose_context") as WEBGL_lose_context;
+    ext.loseContext();
+    assert.ok(gl.isContextLost());
+    assert.equal(gl.getError(), gl.CONTEXT_LOST_WEBGL);
+    assert.equal(gl.createTexture(), null);
+    assert.equal(gl.isTexture(texture), false);
+    ext.restoreContext();
+    assert.deepEqual(events, ["webglcontextlost", "webglcontextrestored"]);
+    assert.ok(!gl.isContextLost());
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    assert.equal(gl.getError(), gl.INVALID_OPERATION);
+});
+
+test("shaders are checked for declarations, not compiled", function() {
+    const gl = mockContext() as unknown as WebGL2RenderingContext;
+    const shader = gl.createShader(gl.VERTEX_SHADER) as WebGLShader;
+    gl.shaderSource(shader, "void main() { gl_Position = vec4(0); ");
+    gl.compileShader(shader);
+    assert.equal(gl.getShaderParameter(shader, gl.COMPILE_STATUS), false);
+    assert.match(gl.getShaderInfoLog(shader) as string, /ERROR/);
+});
+
+test("queries and fences become available on a later task", async function() {
+    const gl = mockContext({timeElapsed: 1000}) as unknown as WebGL2RenderingContext;
+    gl.getExtension("EXT_disjoint_timer_query_webgl2");
+    const query = gl.createQuery() as WebGLQuery;
+    gl.beginQuery(0x88BF, query);
+    gl.endQuery(0x88BF);
+    const sync = gl.fenceSync(gl.SYNC_GPU_COMMANDS_COMPLETE, 0) as WebGLSync;
+    assert.equal(gl.getQueryParameter(query, gl.QUERY_RESULT_AVAILABLE), false);
+    assert.equal(gl.clientWaitSync(sync, 0, 0), gl.TIMEOUT_EXPIRED);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    assert.equal(gl.getQueryParameter(query, gl.QUERY_RESULT_AVAILABLE), true);
+    assert.equal(gl.getQueryParameter(query, gl.QUERY_RESULT), 1000);
+    assert.equal(gl.clientWaitSync(sync, 0, 0), gl.ALREADY_SIGNALED);
+});
+
+test("uniform blocks are reflected with the std140 layout", function() {
+    const gl = mockContext() as unknown as WebGL2RenderingContext;
+    const program = gl.createProgram() as WebGLProgram;
+    const sources: [GLenum, string][] = [
+        [gl.VERTEX_SHADER, `#version 300 es
+            struct Light { vec3 color; float power; };
+            layout(std140) uniform Scene {
+                mat4 view;
+                vec3 eye;
+                float time;
+                Light lights[2];
+                layout(row_major) mat3 normal;
+                vec2 scale[2];
+            } scene;
+            void main() { gl_Position = scene.view * vec4(scene.eye * scene.time, 1.0); }`],
+        [gl.FRAGMENT_SHADER, `#version 300 es
+            precision mediump float;
+            out vec4 color;
+            void main() { color = vec4(1.0); }`],
+    ];
+    for (const [type, source] of sources) {
+        const shader = gl.createShader(type) as WebGLShader;
+        gl.shaderSource(shader, source);
+        gl.compileShader(shader);
+        gl.attachShader(program, shader);
+    }
+    gl.linkProgram(program);
+    assert.equal(gl.getProgramParameter(program, gl.LINK_STATUS), true);
+    assert.equal(gl.getProgramParameter(program, gl.ACTIVE_UNIFORM_BLOCKS), 1);
+
+    const index = gl.getUniformBlockIndex(program, "Scene");
+    assert.equal(index, 0);
+    assert.equal(gl.getUniformBlockIndex(program, "scene"), gl.INVALID_INDEX);
+    assert.equal(gl.getActiveUniformBlockParameter(program, index, gl.UNIFORM_BLOCK_DATA_SIZE), 192);
+    assert.equal(gl.getActiveUniformBlockParameter(program, index, gl.UNIFORM_BLOCK_REFERENCED_BY_VERTEX_SHADER),
+                 true);
+    const indices = Array.from(gl.getActiveUniformBlockParameter(program, index,
+                                                                gl.UNIFORM_BLOCK_ACTIVE_UNIFORM_INDICES) as Uint32Array);
+    const names = indices.map((i) => (gl.getActiveUniform(program, i) as WebGLActiveInfo).name);
+    assert.deepEqual(names, ["Scene.view", "Scene.eye", "Scene.time", "Scene.lights[0].color",
+                             "Scene.lights[0].power", "Scene.lights[1].color", "Scene.lights[1].power",
+                             "Scene.normal", "Scene.scale[0]"]);
+    assert.deepEqual(gl.getActiveUniforms(program, indices, gl.UNIFORM_OFFSET),
+                     [0, 64, 76, 80, 92, 96, 108, 112, 160]);
+    assert.deepEqual(gl.getActiveUniforms(program, indices, gl.UNIFORM_ARRAY_STRIDE),
+                     [0, 0, 0, 0, 0, 0, 0, 0, 16]);
+    assert.deepEqual(gl.getActiveUniforms(program, indices, gl.UNIFORM_MATRIX_STRIDE),
+                     [16, 0, 0, 0, 0, 0, 0, 16, 0]);
+    assert.deepEqual(gl.getActiveUniforms(program, [0, 7], gl.UNIFORM_IS_ROW_MAJOR), [false, true]);
+    assert.equal(gl.getUniformLocation(program, "Scene.view"), null);
+
+    gl.useProgram(program);
+    gl.uniformBlockBinding(program, index, 3);
+    gl.drawArrays(gl.POINTS, 0, 1);
+    assert.equal(gl.getError(), gl.INVALID_OPERATION);
+    const buffer = gl.createBuffer();
+    gl.bindBuffer(gl.UNIFORM_BUFFER, buffer);
+    gl.bufferData(gl.UNIFORM_BUFFER, 192, gl.DYNAMIC_DRAW);
+    gl.bindBufferBase(gl.UNIFORM_BUFFER, 3, buffer);
+    gl.drawArrays(gl.POINTS, 0, 1);
+    assert.equal(gl.getError(), gl.NO_ERROR);
+});
@@ -0,0 +1,54 @@
+import {test} from "node:test";
+import * as assert from "node:assert/strict";
+import {Preprocessor} from "../igloo";
+import {setup} from "./setup";
+
+test("the preprocessor hoists #version, injects defines and includes each file once", function() {
+    const preprocessor = new Preprocessor({
+        "common.glsl": "#include \"common.glsl\"\nfloat twice(float x) { return 2.0 * x; }",
+    });
+    const source = "// main\n#version 300 es\n#include \"common.glsl\"\n#include <common.glsl>\nvoid main() {}";
+    const result = preprocessor.process(source, {file: "main.frag", defines: {QUALITY: 2, FAST: true, SLOW: false}});
+    assert.equal(result.source, [
+        "#version 300 es",
+        "#define QUALITY 2",
+        "#define FAST",
+        "// main",
+        "float twice(float x) { return 2.0 * x; }",
+        "void main() {}",
+    ].join("\n"));
+    assert.deepEqual(result.lines.map((line) => `${line.file}:${line.line}`), [
+        "main.frag:2", "<defines>:1", "<defines>:2", "main.frag:1", "common.glsl:2", "main.frag:5",
+    ]);
+});
+
+test("preload() loads nested includes once each", async function() {
+    const files: {[url: string]: string} = {
+        "a.glsl": "#include \"b.glsl\"\nfloat a;",
+        "b.glsl": "float b;",
+    };
+    const loaded: string[] = [];
+    const preprocessor = new Preprocessor({"c.glsl": "float c;"});
+    await preprocessor.preload("#include \"a.glsl\"\n#include \"c.glsl\"", function(url) {
+        loaded.push(url);
+        return Promise.resolve(files[url]);
+    });
+    assert.deepEqual(loaded, ["a.glsl", "b.glsl"]);
+    assert.equal(preprocessor.process("#include \"a.glsl\"").source, "float b;\nfloat a;");
+});
+
+test("compile errors point at the included file and line", function() {
+    const igloo = setup();
+    igloo.include("lighting.glsl", "uniform vec3 light;\nuniform vex3 tint;");
+    const fragment = "precision mediump float;\n#include \"lighting.glsl\"\n" +
+        "void main() { gl_FragColor = vec4(light, 1.0); }";
+    assert.throws(() => igloo.program("attribute vec2 point; void main() { gl_Position = vec4(point, 0.0, 1.0); }",
+                                      fragment), {
+        message: [
+            "ERROR: lighting.glsl:2: 'vex3' : unknown type",
+            "  lighting.glsl:1 | uniform vec3 light;",
+            "> lighting.glsl:2 | uniform vex3 tint;",
+            "  fragment:3 | void main() { gl_FragColor = vec4(light, 1.0); }",
+        ].join("\n"),
+    });
+});
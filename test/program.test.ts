@@ -0,0 +1,231 @@
+import {test} from "node:test";
+import * as assert from "node:assert/strict";
+import {Igloo} from "../igloo";
+import {MockContext} from "../mock";
+import {setup} from "./setup";
+
+const VERTEX = `
+attribute vec2 point;
+uniform vec2 offset;
+void main() {
+    gl_Position = vec4(point + offset, 0.0, 1.0);
+}
+`;
+
+const FRAGMENT = `
+precision mediump float;
+uniform vec4 color;
+void main() {
+    gl_FragColor = color;
+}
+`;
+
+test("programs link and report their uniforms", function() {
+    const igloo = setup();
+    const gl = igloo.gl;
+    const program = igloo.program(VERTEX, FRAGMENT);
+    assert.equal(gl.getProgramParameter(program.program, gl.LINK_STATUS), true);
+    assert.equal(gl.getProgramParameter(program.program, gl.ACTIVE_UNIFORMS), 2);
+    assert.equal(gl.getAttribLocation(program.program, "point"), 0);
+});
+
+test("link failures throw with the info log", function() {
+    const igloo = setup();
+    const fragment = FRAGMENT.replace("uniform vec4 color;", "varying vec4 color;");
+    assert.throws(() => igloo.program(VERTEX, fragment), /color is not declared in the vertex shader/);
+});
+
+test("uniform() and draw() issue the expected calls", function() {
+    const igloo = setup();
+    const gl = igloo.gl;
+    const mock = gl as unknown as MockContext;
+    const program = igloo.program(VERTEX, FRAGMENT);
+    const quad = igloo.array(Igloo.QUAD2);
+    mock.clearCalls();
+    program.use()
+        .uniform("offset", [0.5, 0.5])
+        .uniform("color", [1, 0, 0, 1])
+        .attrib("point", quad, 2, 0)
+        .draw(gl.TRIANGLE_STRIP, 4);
+    const names = mock.calls.map((call) => call.name);
+    assert.deepEqual(names.filter((name) => /^(useProgram|uniform|drawArrays)/.test(name)),
+                     ["useProgram", "uniform2fv", "uniform4fv", "drawArrays"]);
+    const color = gl.getUniform(program.program, gl.getUniformLocation(program.program, "color") as WebGLUniformLocation);
+    assert.deepEqual(Array.from(color), [1, 0, 0, 1]);
+});
+
+test("draw() throws on the errors the mock validates", function() {
+    const igloo = setup();
+    const gl = igloo.gl;
+    const program = igloo.program(VERTEX, FRAGMENT);
+    const short = igloo.array(new Float32Array([0, 0, 1, 0]));
+    program.use().attrib("point", short, 2, 0);
+    assert.throws(() => program.draw(gl.TRIANGLES, 3), /INVALID_OPERATION/);
+});
+
+test("set() checks values against the reflected uniform types", function() {
+    const igloo = setup();
+    const gl = igloo.gl;
+    const fragment = FRAGMENT.replace("uniform vec4 color;", "uniform vec4 color;\nuniform float weights[3];")
+        .replace("= color;", "= color * weights[0];");
+    const program = igloo.program(VERTEX, fragment).use();
+    program.set("weights", [1, 2]).set("offset", new Float32Array([0.5, 0.25]));
+    const offset = gl.getUniformLocation(program.program, "offset") as WebGLUniformLocation;
+    assert.deepEqual(Array.from(gl.getUniform(program.program, offset)), [0.5, 0.25]);
+    assert.throws(() => program.set("offset", [1, 2, 3]), {
+        message: "Uniform 'offset' is a vec2 (2 values), got 3 values",
+    });
+    assert.throws(() => program.set("weights", [1, 2, 3, 4]), {
+        message: "Uniform 'weights' is a float[3] (a multiple of 1 values, up to 3), got 4 values",
+    });
+    assert.throws(() => program.set("color", 1), {message: "Uniform 'color' is a vec4 (4 values), got 1 values"});
+    assert.throws(() => program.set("color", null as unknown as number), {
+        message: "Invalid value for uniform 'color': null",
+    });
+});
+
+test("set() warns once about a uniform that is not active", function() {
+    const igloo = setup();
+    const program = igloo.program(VERTEX, FRAGMENT).use();
+    const warnings: string[] = [];
+    const original = console.warn;
+    console.warn = (message: string) => warnings.push(message);
+    try {
+        program.set("scale", 2).set("scale", 3);
+    } finally {
+        console.warn = original;
+    }
+    assert.deepEqual(warnings, ["Uniform 'scale' is not active in this program"]);
+});
+
+test("a disposed program throws instead of calling GL", function() {
+    const igloo = setup();
+    const mock = igloo.gl as unknown as MockContext;
+    const program = igloo.program(VERTEX, FRAGMENT).setLabel("tint");
+    const quad = igloo.array(new Float32Array(8));
+    program.dispose();
+    mock.clearCalls();
+    const used = /Program 'tint' used after dispose\(\)/;
+    assert.throws(() => program.uniform("offset", [0, 0]), used);
+    assert.throws(() => program.matrix("offset", [1, 0, 0, 1]), used);
+    assert.throws(() => program.attrib("point", quad, 2, 0), used);
+    assert.throws(() => program.attribLocation("point"), used);
+    assert.deepEqual(mock.calls, []);
+});
+
+test("programAsync() loads URLs and includes with fetch()", async function() {
+    const igloo = setup();
+    const files: {[url: string]: string} = {
+        "shader.vert": VERTEX,
+        "shader.frag": "#include \"color.glsl\"\nvoid main() { gl_FragColor = color; }",
+        "color.glsl": "precision mediump float;\nuniform vec4 color;",
+    };
+    const original = globalThis.fetch;
+    globalThis.fetch = (url) => Promise.resolve(new Response(files[String(url)]));
+    try {
+        const program = await igloo.programAsync("shader.vert", "shader.frag");
+        assert.equal(igloo.gl.getProgramParameter(program.program, igloo.gl.LINK_STATUS), true);
+    } finally {
+        globalThis.fetch = original;
+    }
+});
+
+test("loadProgram() loads shaders and includes through the given loader", async function() {
+    const igloo = setup();
+    const files: {[url: string]: string} = {
+        "shader.vert": VERTEX,
+        "shader.frag": "#include \"color.glsl\"\nvoid main() { gl_FragColor = color; }",
+        "color.glsl": "precision mediump float;\nuniform vec4 color;",
+    };
+    const loaded: string[] = [];
+    const loader = function(url: string) {
+        loaded.push(url);
+        return url in files ? Promise.resolve(files[url]) : Promise.reject(new Error(`No file ${url}`));
+    };
+    const program = await igloo.loadProgram("shader.vert", "shader.frag", {loader, defines: {SHADE: 1}});
+    assert.equal(igloo.gl.getProgramParameter(program.program, igloo.gl.LINK_STATUS), true);
+    assert.deepEqual(loaded, ["shader.vert", "shader.frag", "color.glsl"]);
+
+    await assert.rejects(igloo.loadProgram("shader.vert", "missing.frag", {loader}), {message: "No file missing.frag"});
+    files["bad.frag"] = "precision mediump float;\nuniform vex4 color;\nvoid main() {}";
+    await assert.rejects(igloo.loadProgram("shader.vert", "bad.frag", {loader}),
+                         /^Error: ERROR: bad.frag:2: 'vex4' : unknown type/);
+});
+
+test("loadProgram() rejects with the HTTP status by default", async function() {
+    const igloo = setup();
+    const original = globalThis.fetch;
+    globalThis.fetch = () => Promise.resolve(new Response("", {status: 404, statusText: "Not Found"}));
+    try {
+        await assert.rejects(igloo.loadProgram("shader.vert", "shader.frag"), {
+            message: "Failed to load shader.vert: HTTP 404 Not Found",
+        });
+    } finally {
+        globalThis.fetch = original;
+    }
+});
+
+test("program() does not fetch includes that are not preloaded", function() {
+    const igloo = setup();
+    const fragment = "#include \"color.glsl\"\nvoid main() { gl_FragColor = color; }";
+    assert.throws(() => igloo.program(VERTEX, fragment),
+                  /^Error: fragment:1: Cannot resolve #include "color.glsl": it is not registered or preloaded/);
+});
+
+const BLOCK_VERTEX = `#version 300 es
+in vec2 point;
+layout(std140) uniform Scene {
+    vec3 eye;
+    float time;
+    mat3 normal;
+    vec2 scale[2];
+} scene;
+void main() {
+    gl_Position = vec4(scene.normal * scene.eye * scene.time, 1.0) + vec4(point * scene.scale[1], 0.0, 0.0);
+}
+`;
+
+const BLOCK_FRAGMENT = `#version 300 es
+precision mediump float;
+out vec4 color;
+void main() {
+    color = vec4(1.0);
+}
+`;
+
+test("uniform blocks write std140 fields and flush only what changed", function() {
+    const igloo = setup();
+    const gl = igloo.gl as WebGL2RenderingContext;
+    const mock = gl as unknown as MockContext;
+    const program = igloo.program(BLOCK_VERTEX, BLOCK_FRAGMENT);
+    const block = igloo.uniformBlock(program, "Scene");
+    assert.equal(block.data.byteLength, 96);
+    assert.equal(block.fields.eye, block.fields["Scene.eye"]);
+    assert.deepEqual([block.fields.eye.offset, block.fields.time.offset, block.fields.normal.offset,
+                      block.fields.scale.offset], [0, 12, 16, 64]);
+    assert.equal(block.fields.normal.matrixStride, 16);
+    assert.equal(block.fields.scale.arrayStride, 16);
+
+    // matrix columns and array elements are padded to 16 bytes
+    block.set("normal", [1, 2, 3, 4, 5, 6, 7, 8, 9]).set("scale", [1, 2, 3, 4]);
+    const floats = new Float32Array(block.data);
+    assert.deepEqual(Array.from(floats.subarray(4, 16)), [1, 2, 3, 0, 4, 5, 6, 0, 7, 8, 9, 0]);
+    assert.deepEqual(Array.from(floats.subarray(16, 22)), [1, 2, 0, 0, 3, 4]);
+    block.flush();
+
+    mock.clearCalls();
+    block.set("Scene.time", 2).flush();
+    const uploads = mock.calls.filter((call) => call.name === "bufferSubData");
+    assert.equal(uploads.length, 1);
+    assert.deepEqual([uploads[0].args[1], uploads[0].args[3], uploads[0].args[4]], [12, 12, 4]);
+    block.flush();
+    assert.equal(mock.calls.filter((call) => call.name === "bufferSubData").length, 1);
+    assert.deepEqual(Array.from(new Float32Array(block.buffer.read().buffer, 0, 4)), [0, 0, 0, 2]);
+
+    program.use().uniformBlock("Scene", 2).attrib("point", igloo.array(Igloo.QUAD2), 2, 0);
+    assert.throws(() => program.draw(gl.TRIANGLE_STRIP, 4), /INVALID_OPERATION/);
+    block.bind(2);
+    program.draw(gl.TRIANGLE_STRIP, 4);
+    assert.equal(gl.getIndexedParameter(gl.UNIFORM_BUFFER_BINDING, 2), block.buffer.buffer);
+    assert.throws(() => block.set("missing", 0), /Uniform block 'Scene' has no field 'missing'/);
+});
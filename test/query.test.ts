@@ -0,0 +1,76 @@
+import {test} from "node:test";
+import * as assert from "node:assert/strict";
+import {MockContext} from "../mock";
+import {setup} from "./setup";
+
+const GPU_DISJOINT_EXT = 0x8FBB;
+
+/**
+ * @returns {Promise} resolved on a later task, once mock queries are available
+ */
+function later(): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+test("timer queries are polled until the result comes in", async function() {
+    const igloo = setup({timeElapsed: 2e6});
+    const query = igloo.query().begin().end();
+    assert.equal(query.poll(), false);
+    assert.equal(query.result, null);
+    await later();
+    assert.equal(query.poll(), true);
+    assert.equal(query.result, 2e6);
+    assert.equal(await query.begin().end().resultAsync(), 2e6);
+});
+
+test("occlusion queries report whether anything was drawn", async function() {
+    const igloo = setup();
+    const gl = igloo.gl as WebGL2RenderingContext;
+    const program = igloo.program("attribute vec2 point; void main() { gl_Position = vec4(point, 0.0, 1.0); }",
+                                  "void main() { gl_FragColor = vec4(1.0); }");
+    const points = igloo.array(new Float32Array(6));
+    const query = igloo.query(gl.ANY_SAMPLES_PASSED).begin();
+    program.use().attrib("point", points, 2, 0).draw(gl.TRIANGLES, 3);
+    query.end();
+    assert.equal(await query.resultAsync(), 1);
+    query.begin().end();
+    assert.equal(await query.resultAsync(), 0);
+});
+
+test("a disjoint timer query has no result", async function() {
+    const igloo = setup({parameters: {[GPU_DISJOINT_EXT]: true}});
+    const query = igloo.query().begin().end();
+    await later();
+    assert.equal(query.poll(), true);
+    assert.equal(query.disjoint, true);
+    assert.equal(query.result, null);
+});
+
+test("the profiler averages sections and reuses its queries", async function() {
+    const igloo = setup({timeElapsed: 3e6});
+    const mock = igloo.gl as unknown as MockContext;
+    const profiler = igloo.profiler;
+    assert.equal(profiler.supported, true);
+    profiler.section("shadows", function() { /* nothing to time */ }).begin("scene");
+    assert.throws(() => profiler.begin("ui"), /Cannot begin section 'ui' inside 'scene'/);
+    profiler.end();
+    assert.throws(() => profiler.end(), /end\(\) without begin\(\)/);
+    assert.deepEqual(profiler.frame().averages(), {});
+    await later();
+    assert.deepEqual(profiler.frame().averages(), {shadows: 3, scene: 3});
+
+    mock.clearCalls();
+    profiler.section("shadows", function() { /* nothing to time */ });
+    assert.ok(!mock.calls.some((call) => call.name === "createQuery"));
+    profiler.reset();
+    assert.deepEqual(profiler.averages(), {});
+});
+
+test("without WebGL2 the profiler does nothing and queries throw", function() {
+    const igloo = setup({version: 1});
+    const profiler = igloo.profiler;
+    assert.equal(profiler.supported, false);
+    profiler.section("scene", function() { /* nothing to time */ }).frame();
+    assert.deepEqual(profiler.averages(), {});
+    assert.throws(() => igloo.query(), /Queries require WebGL2/);
+});
@@ -0,0 +1,12 @@
+import {Igloo} from "../igloo";
+import {installGlobals, mockCanvas, MockOptions} from "../mock";
+
+installGlobals();
+
+/**
+ * @param {MockOptions} [options] for the mock canvas, WebGL2 by default
+ * @returns {Igloo} on a 300x150 mock canvas
+ */
+export function setup(options: MockOptions = {}): Igloo {
+    return new Igloo(mockCanvas(300, 150, options) as unknown as HTMLCanvasElement);
+}
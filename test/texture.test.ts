@@ -0,0 +1,86 @@
+import {test} from "node:test";
+import * as assert from "node:assert/strict";
+import {MockContext} from "../mock";
+import {setup} from "./setup";
+
+test("set() uploads pixels that read() returns", function() {
+    const igloo = setup();
+    const pixels = new Uint8Array([255, 0, 0, 255, 0, 255, 0, 255, 0, 0, 255, 255, 1, 2, 3, 4]);
+    const texture = igloo.texture(pixels, undefined, undefined, undefined, undefined, undefined,
+                                  {type: "ArrayBufferView", width: 2, height: 2});
+    assert.equal(texture.width, 2);
+    assert.deepEqual(Array.from(texture.read() as Uint8Array), Array.from(pixels));
+});
+
+test("blank() allocates zeroed pixels", function() {
+    const igloo = setup();
+    const texture = igloo.texture(null).blank(1, 2);
+    assert.deepEqual(Array.from(texture.read() as Uint8Array), [0, 0, 0, 0, 0, 0, 0, 0]);
+});
+
+test("bytes() estimates the mip chain", function() {
+    const igloo = setup();
+    const texture = igloo.texture(null).blank(4, 4);
+    assert.equal(texture.bytes(), 64);
+    texture.generateMipmap();
+    assert.equal(texture.bytes(), Math.ceil(64 * 4 / 3));
+});
+
+test("named formats are checked against the context", function() {
+    assert.throws(() => setup({version: 1}).texture(null, "rgba32f"), /requires WebGL2|Unknown/);
+    assert.throws(() => setup().texture(null, "nope"), /Unknown texture format/);
+});
+
+test("cube map levels are set face by face", function() {
+    const igloo = setup();
+    const gl = igloo.gl;
+    const cube = igloo.textureCube(null).blank(4, 4);
+    for (let face = 0; face < 6; face++) cube.face(face, null, 2, 2, 1).face(face, null, 1, 1, 2);
+    assert.equal(gl.getError(), gl.NO_ERROR);
+    assert.equal(cube.width, 4);
+    assert.throws(() => cube.level(1, null, 2, 2), /need a face/);
+    assert.throws(() => cube.face(6, null, 1, 1), /invalid cube map face/);
+    assert.throws(() => cube.subsetFace(-1, new Uint8Array(4), 0, 0, 1, 1), /invalid cube map face -1/);
+    assert.throws(() => cube.copyFace(1.5, 0, 0, 1, 1), /invalid cube map face 1.5/);
+});
+
+test("3D and array textures take levels of their own target", function() {
+    const igloo = setup();
+    const gl = igloo.gl;
+    const volume = igloo.texture3D().set(undefined, 4, 4, 4).level(1, null, 2, 2, 2);
+    const layers = igloo.textureArray().set(undefined, 4, 4, 3).level(1, null, 2, 2, 3);
+    assert.equal(gl.getError(), gl.NO_ERROR);
+    assert.equal(volume.depth, 4);
+    assert.equal(layers.depth, 3);
+    assert.throws(() => volume.level(-1, null, 1, 1), /invalid mipmap level/);
+});
+
+test("loadTexture() uploads what the loader returns", async function() {
+    const igloo = setup();
+    const image = {width: 1, height: 1, data: new Uint8ClampedArray([1, 2, 3, 4])};
+    const texture = await igloo.loadTexture("dot.png", {
+        loader: () => Promise.resolve(image as unknown as TexImageSource),
+        retain: true,
+    });
+    assert.equal(texture.width, 1);
+    assert.ok(texture.retain);
+    assert.deepEqual(Array.from(texture.read() as Uint8Array), [1, 2, 3, 4]);
+});
+
+test("loadTexture() rejects on HTTP errors and leaves nothing behind", async function() {
+    const igloo = setup();
+    const original = globalThis.fetch;
+    globalThis.fetch = () => Promise.resolve(new Response("", {status: 404, statusText: "Not Found"}));
+    try {
+        await assert.rejects(igloo.loadTexture("missing.png"), {
+            message: "Failed to load missing.png: HTTP 404 Not Found",
+        });
+    } finally {
+        globalThis.fetch = original;
+    }
+    await assert.rejects(igloo.loadTexture("bad.png", {
+        loader: () => Promise.resolve("not an image" as unknown as TexImageSource),
+    }), /parameter is not a TexImageSource/);
+    assert.deepEqual(igloo.report().resources, []);
+    assert.deepEqual((igloo.gl as unknown as MockContext).liveObjects(), []);
+});